@@ -4,12 +4,21 @@ import {
   createGLOSTRootNode,
   createGLOSTSentenceNode,
   createGLOSTWordNode,
+  createPositionMapper,
+  findNodeAtOffset,
+  select,
+  selectAll,
 } from "@glotblocks/glost";
 import type { GLOSTRoot } from "@glotblocks/glost";
 
 import { composeParallelDocument } from "./compose.js";
-import { idStamp, idStampPlugin } from "./id-stamp.js";
+import { idStamp, idStampPlugin, remapIds } from "./id-stamp.js";
+import { alignSentences } from "./sentence-align.js";
+import { alignWords } from "./word-align.js";
+import { projectAnnotations } from "./project.js";
 import { assertStamped } from "./assert.js";
+import { fixParallelDocument, lintParallelDocument } from "./lint.js";
+import { AlignmentEditor, parseChangeLog, serializeChangeLog } from "./editor.js";
 import { flattenAlignedPair } from "./flatten.js";
 import {
   parseParallelDocument,
@@ -89,6 +98,407 @@ describe("id-stamp", () => {
     tree.children[0]!.children[1]!.extras = { id: "dup" };
     expect(() => idStamp(tree, { strategy: "preserve" })).toThrow(/duplicate/);
   });
+
+  it("keeps source positions on stamped nodes", () => {
+    const mapper = createPositionMapper("hello");
+    const word = createGLOSTWordNode({
+      value: "hello",
+      lang: "en",
+      position: mapper.positionAt(0, 5),
+    });
+    const tree = createGLOSTRootNode({
+      lang: "en",
+      script: "latin",
+      children: [
+        createGLOSTParagraphNode([
+          createGLOSTSentenceNode({
+            originalText: "hello",
+            lang: "en",
+            script: "latin",
+            children: [word],
+          }),
+        ]),
+      ],
+    });
+
+    idStamp(tree);
+    expect(word.extras?.id).toBe("p1-s1-w1");
+    expect(findNodeAtOffset(tree, 2, "WordNode")).toBe(word);
+  });
+});
+
+describe("id-stamp content strategy", () => {
+  const ids = (tree: GLOSTRoot) => {
+    const out: string[] = [];
+    for (const para of tree.children) {
+      out.push(para.extras!.id as string);
+      for (const sent of para.children) {
+        out.push(sent.extras!.id as string);
+        for (const word of sent.children) out.push(word.extras!.id as string);
+      }
+    }
+    return out;
+  };
+
+  it("derives ids from text", () => {
+    const tree = buildTree("en", [["hello", "world"]]);
+    idStamp(tree, { strategy: "content" });
+    const para = tree.children[0]!;
+    expect(para.extras?.id).toMatch(/^p-[0-9a-f]{8}$/);
+    expect(para.children[0]!.extras?.id).toMatch(/^s-[0-9a-f]{8}$/);
+    expect(para.children[0]!.children[0]!.extras?.id).toMatch(/^w-[0-9a-f]{8}$/);
+
+    const again = buildTree("en", [["hello", "world"]]);
+    idStamp(again, { strategy: "content" });
+    expect(ids(again)).toEqual(ids(tree));
+  });
+
+  it("ignores case and whitespace differences", () => {
+    const a = buildTree("en", [["Hello"]]);
+    const b = buildTree("en", [["hello"]]);
+    idStamp(a, { strategy: "content" });
+    idStamp(b, { strategy: "content" });
+    expect(ids(a)).toEqual(ids(b));
+  });
+
+  it("suffixes colliding ids deterministically", () => {
+    const tree = buildTree("en", [["amen", "amen", "amen"]]);
+    idStamp(tree, { strategy: "content" });
+    const [w1, w2, w3] = tree.children[0]!.children[0]!.children.map(
+      (w) => w.extras!.id as string,
+    );
+    expect(w2).toBe(`${w1}-2`);
+    expect(w3).toBe(`${w1}-3`);
+  });
+
+  it("keeps ids of untouched nodes when a sentence is inserted", () => {
+    const before = buildTree("en", [["Hello", "world"], ["second", "words"]]);
+    const after = buildTree("en", [
+      ["Hello", "world"],
+      ["New", "one."],
+      ["second", "words"],
+    ]);
+    idStamp(before, { strategy: "content" });
+    idStamp(after, { strategy: "content" });
+
+    const afterIds = ids(after);
+    expect(afterIds).toEqual(expect.arrayContaining(ids(before)));
+    expect(afterIds).toHaveLength(ids(before).length + 3);
+  });
+
+  it("keeps sentence and word ids when the first sentence changes", () => {
+    const before = buildTree("en", [["first"], ["second", "words"]]);
+    const after = buildTree("en", [["changed"], ["second", "words"]]);
+    idStamp(before, { strategy: "content" });
+    idStamp(after, { strategy: "content" });
+
+    // Only the paragraph and the edited sentence change
+    expect(after.children[0]!.extras?.id).not.toBe(before.children[0]!.extras?.id);
+    expect(ids(after).slice(3)).toEqual(ids(before).slice(3));
+
+    const map = remapIds(before, after);
+    expect(ids(before).map((id) => map.get(id))).toEqual(ids(after));
+  });
+});
+
+describe("remapIds", () => {
+  it("maps positional ids across a sentence insertion", () => {
+    const before = buildTree("en", [["hello", "world"], ["bye"]]);
+    const after = buildTree("en", [["new"], ["hello", "world"], ["bye"]]);
+    idStamp(before);
+    idStamp(after);
+
+    const map = remapIds(before, after);
+
+    expect(map.get("p1")).toBe("p1");
+    expect(map.get("p1-s1")).toBe("p1-s2");
+    expect(map.get("p1-s1-w2")).toBe("p1-s2-w2");
+    expect(map.get("p1-s2")).toBe("p1-s3");
+    expect([...map.values()]).not.toContain("p1-s1");
+  });
+
+  it("pairs nodes edited in place by position", () => {
+    const before = buildTree("en", [["teh", "cat"], ["bye"]]);
+    const after = buildTree("en", [["the", "cat"], ["bye"]]);
+    idStamp(before, { strategy: "content" });
+    idStamp(after, { strategy: "content" });
+
+    const map = remapIds(before, after);
+    const word = (tree: GLOSTRoot) =>
+      tree.children[0]!.children[0]!.children[0]!.extras!.id as string;
+
+    expect(map.get(word(before))).toBe(word(after));
+    expect(map.size).toBe(6);
+  });
+
+  it("leaves deleted nodes out of the map", () => {
+    const before = buildTree("en", [["a"], ["b"]]);
+    const after = buildTree("en", [["a"]]);
+    idStamp(before);
+    idStamp(after);
+
+    const map = remapIds(before, after);
+
+    expect(map.has("p1-s2")).toBe(false);
+    expect(map.has("p1-s2-w1")).toBe(false);
+    expect(map.get("p1-s1-w1")).toBe("p1-s1-w1");
+  });
+});
+
+describe("alignSentences", () => {
+  // One single-word sentence per length
+  const treeOfLengths = (lang: string, lengths: number[]) =>
+    idStamp(buildTree(lang, lengths.map((n) => ["x".repeat(n)])));
+  const pairs = (edges: AlignmentEdge[]) =>
+    edges.map((e) => [
+      e.refs.en!.map((r) => r.id).join("+"),
+      e.refs.th!.map((r) => r.id).join("+"),
+    ]);
+  const options = { sourceLang: "en", targetLang: "th" };
+
+  it("aligns sentences of matching length 1:1", () => {
+    const en = treeOfLengths("en", [40, 12, 80]);
+    const th = treeOfLengths("th", [42, 11, 78]);
+
+    const edges = alignSentences(en, th, options);
+
+    expect(pairs(edges)).toEqual([
+      ["p1-s1", "p1-s1"],
+      ["p1-s2", "p1-s2"],
+      ["p1-s3", "p1-s3"],
+    ]);
+    expect(edges[0]).toMatchObject({
+      id: "en-th:p1-s1",
+      level: "sentence",
+      source: "en",
+      confidence: "high",
+      provenance: { kind: "auto", detail: "gale-church" },
+    });
+  });
+
+  it("merges 2:1 and 1:2 when lengths call for it", () => {
+    const en = treeOfLengths("en", [200, 120, 120, 240]);
+    const th = treeOfLengths("th", [200, 240, 124, 116]);
+
+    expect(pairs(alignSentences(en, th, options))).toEqual([
+      ["p1-s1", "p1-s1"],
+      ["p1-s2+p1-s3", "p1-s2"],
+      ["p1-s4", "p1-s3+p1-s4"],
+    ]);
+  });
+
+  it("never aligns across an anchor", () => {
+    const en = treeOfLengths("en", [100, 100, 100]);
+    const th = treeOfLengths("th", [100, 100, 100, 100]);
+
+    const edges = alignSentences(en, th, {
+      ...options,
+      anchors: [{ source: "p1-s1", target: "p1-s2" }],
+    });
+
+    expect(pairs(edges)).toEqual([
+      ["p1-s1", "p1-s2"],
+      ["p1-s2", "p1-s3"],
+      ["p1-s3", "p1-s4"],
+    ]);
+  });
+
+  it("keeps long segments within the band around the diagonal", () => {
+    const lengths = Array.from({ length: 400 }, (_, i) => 20 + ((i * 37) % 60));
+    const en = treeOfLengths("en", lengths);
+    const th = treeOfLengths("th", lengths.map((n) => n + 2));
+
+    const edges = alignSentences(en, th, { ...options, band: 5 });
+
+    expect(edges).toHaveLength(400);
+    expect(pairs(edges).every(([s, t]) => s === t)).toBe(true);
+  });
+
+  it("aligns segments of very different sizes", () => {
+    const en = treeOfLengths("en", [300]);
+    const th = treeOfLengths("th", Array.from({ length: 10 }, () => 30));
+
+    const edges = alignSentences(en, th, { ...options, band: 1 });
+
+    expect(edges.length).toBeGreaterThan(0);
+    expect(pairs(edges)[0]![0]).toBe("p1-s1");
+  });
+
+  it("rejects crossing anchors and un-stamped trees", () => {
+    const en = treeOfLengths("en", [20, 20]);
+    const th = treeOfLengths("th", [20, 20]);
+    expect(() =>
+      alignSentences(en, th, {
+        ...options,
+        anchors: [
+          { source: "p1-s1", target: "p1-s2" },
+          { source: "p1-s2", target: "p1-s1" },
+        ],
+      }),
+    ).toThrow(/cross/);
+    expect(() =>
+      alignSentences(buildTree("en", [["a"]]), th, options),
+    ).toThrow(/un-stamped/);
+  });
+});
+
+describe("alignWords", () => {
+  const sentenceEdge: AlignmentEdge = {
+    id: "s1",
+    level: "sentence",
+    refs: {
+      th: [{ lang: "th", id: "p1-s1" }],
+      en: [{ lang: "en", id: "p1-s1" }],
+    },
+    source: "th",
+  };
+  const lexicon = {
+    name: "test-dict",
+    lookup: (word: string) =>
+      ({ ไอศกรีม: ["ice cream"], อร่อย: ["delicious", "tasty"] })[word],
+  };
+  const wordEdges = (edges: AlignmentEdge[]) =>
+    edges.map((e) => [
+      e.refs.th!.map((r) => r.id).join("+"),
+      e.refs.en!.map((r) => r.id).join("+"),
+    ]);
+
+  it("aligns a compound to a phrase through the lexicon and reports the rest", async () => {
+    const th = idStamp(buildTree("th", [["ไอศกรีม", "อร่อย"]]));
+    const en = idStamp(buildTree("en", [["Ice", "cream", "is", "delicious."]]));
+    const doc = composeParallelDocument({ trees: { th, en }, alignments: [sentenceEdge] });
+
+    const result = await alignWords(doc, { sourceLang: "th", targetLang: "en", lexicon });
+
+    expect(wordEdges(result.alignments)).toEqual([
+      ["p1-s1-w1", "p1-s1-w1+p1-s1-w2"],
+      ["p1-s1-w2", "p1-s1-w4"],
+    ]);
+    expect(result.alignments[0]).toMatchObject({
+      id: "th-en:p1-s1-w1",
+      level: "word",
+      source: "th",
+      confidence: "high",
+      provenance: { kind: "lookup", detail: "test-dict" },
+    });
+    expect(result.unaligned).toEqual([
+      { lang: "en", id: "p1-s1-w3", sentenceEdgeId: "s1" },
+    ]);
+  });
+
+  it("uses extras.translations in both directions", async () => {
+    const th = idStamp(buildTree("th", [["กิน", "ข้าว"]]));
+    const en = idStamp(buildTree("en", [["eat", "rice"]]));
+    th.children[0]!.children[0]!.children[0]!.extras!.translations = { en: "to eat; eat" };
+    en.children[0]!.children[0]!.children[1]!.extras!.translations = { th: "ข้าว" };
+    const doc = composeParallelDocument({ trees: { th, en }, alignments: [sentenceEdge] });
+
+    const result = await alignWords(doc, { sourceLang: "th", targetLang: "en" });
+
+    expect(wordEdges(result.alignments)).toEqual([
+      ["p1-s1-w1", "p1-s1-w1"],
+      ["p1-s1-w2", "p1-s1-w2"],
+    ]);
+    expect(result.alignments[0]!.provenance).toEqual({ kind: "lookup", detail: "translations" });
+    expect(result.unaligned).toEqual([]);
+  });
+
+  it("lowers confidence when an entry matches in several places", async () => {
+    const th = idStamp(buildTree("th", [["อร่อย"]]));
+    const en = idStamp(buildTree("en", [["tasty", "and", "tasty"]]));
+    const doc = composeParallelDocument({ trees: { th, en }, alignments: [sentenceEdge] });
+
+    const result = await alignWords(doc, { sourceLang: "th", targetLang: "en", lexicon });
+
+    expect(wordEdges(result.alignments)).toEqual([["p1-s1-w1", "p1-s1-w1"]]);
+    expect(result.alignments[0]!.confidence).toBe("medium");
+  });
+});
+
+describe("projectAnnotations", () => {
+  const wordEdge = (
+    id: string,
+    de: string[],
+    th: string[],
+    confidence?: AlignmentEdge["confidence"],
+  ): AlignmentEdge => ({
+    id,
+    level: "word",
+    refs: {
+      de: de.map((w) => ({ lang: "de", id: w })),
+      th: th.map((w) => ({ lang: "th", id: w })),
+    },
+    confidence,
+  });
+  const word = (tree: GLOSTRoot, w: number) =>
+    tree.children[0]!.children[0]!.children[w]!;
+
+  it("copies missing fields onto target words with propagated provenance", () => {
+    const de = idStamp(buildTree("de", [["Haus", "groß"]]));
+    const th = idStamp(buildTree("th", [["บ้าน", "ใหญ่"]]));
+    word(de, 0).metadata = { partOfSpeech: "noun" };
+    word(de, 0).extras!.metadata = { gender: "neuter" } as never;
+    word(de, 1).metadata = { partOfSpeech: "adjective" };
+    word(th, 1).metadata = { partOfSpeech: "verb" };
+    const doc = composeParallelDocument({
+      trees: { de, th },
+      alignments: [
+        wordEdge("e1", ["p1-s1-w1"], ["p1-s1-w1"], "high"),
+        wordEdge("e2", ["p1-s1-w2"], ["p1-s1-w2"]),
+      ],
+    });
+
+    const result = projectAnnotations(doc, {
+      from: "de",
+      to: "th",
+      fields: ["metadata.partOfSpeech", "extras.metadata.gender"],
+    });
+
+    expect(word(th, 0).metadata?.partOfSpeech).toBe("noun");
+    expect((word(th, 0).extras!.metadata as { gender?: string }).gender).toBe("neuter");
+    // Existing target values are kept
+    expect(word(th, 1).metadata?.partOfSpeech).toBe("verb");
+    expect(word(th, 0).extras!.projections).toMatchObject({
+      "metadata.partOfSpeech": {
+        provenance: { kind: "propagated", detail: "de" },
+        confidence: "high",
+        edgeId: "e1",
+        sources: [{ lang: "de", id: "p1-s1-w1" }],
+      },
+    });
+    expect(result.projected).toHaveLength(2);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("reports disagreeing sources on many-to-one edges", () => {
+    const de = idStamp(buildTree("de", [["der", "Hund", "rennt"]]));
+    const th = idStamp(buildTree("th", [["หมา", "วิ่ง"]]));
+    word(de, 0).metadata = { partOfSpeech: "determiner" };
+    word(de, 1).metadata = { partOfSpeech: "noun" };
+    word(de, 2).difficulty = 2;
+    const doc = composeParallelDocument({
+      trees: { de, th },
+      alignments: [
+        wordEdge("e1", ["p1-s1-w1", "p1-s1-w2"], ["p1-s1-w1"], "high"),
+        wordEdge("e2", ["p1-s1-w3"], ["p1-s1-w1", "p1-s1-w2"], "high"),
+      ],
+    });
+
+    const result = projectAnnotations(doc, {
+      from: "de",
+      to: "th",
+      fields: ["metadata.partOfSpeech", "difficulty"],
+    });
+
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ edgeId: "e1", field: "metadata.partOfSpeech" }),
+    ]);
+    expect(word(th, 0).metadata?.partOfSpeech).toBeUndefined();
+    // One-to-many copies to every target, one confidence step lower
+    expect(word(th, 0).difficulty).toBe(2);
+    expect(word(th, 1).difficulty).toBe(2);
+    expect(result.projected.map((p) => p.confidence)).toEqual(["medium", "medium"]);
+  });
 });
 
 describe("assertStamped", () => {
@@ -106,6 +516,225 @@ describe("assertStamped", () => {
   });
 });
 
+describe("lintParallelDocument", () => {
+  const lintDoc = () => {
+    const de = idStamp(buildTree("de", [["Guten", "Tag"], ["Danke"]]));
+    const th = idStamp(buildTree("th", [["สวัสดี"], ["ขอบคุณ"]]));
+    return composeParallelDocument({
+      trees: { de, th },
+      alignments: [
+        {
+          id: "s1",
+          level: "sentence",
+          refs: {
+            de: [{ lang: "de", id: "p1-s1" }],
+            th: [{ lang: "th", id: "p1-s1" }],
+          },
+        },
+        {
+          id: "s2",
+          level: "sentence",
+          refs: {
+            de: [{ lang: "de", id: "p1-s2" }],
+            th: [{ lang: "th", id: "p1-s2" }],
+          },
+        },
+        {
+          id: "w1",
+          level: "word",
+          refs: {
+            de: [{ lang: "de", id: "p1-s1-w1" }, { lang: "de", id: "p1-s1-w2" }],
+            th: [{ lang: "th", id: "p1-s1-w1" }],
+          },
+        },
+      ],
+    });
+  };
+
+  it("returns no diagnostics for a clean document", () => {
+    expect(lintParallelDocument(lintDoc())).toEqual([]);
+  });
+
+  it("reports each rule with edge id, lang and path", () => {
+    const doc = lintDoc();
+    doc.alignments.push(
+      {
+        id: "bad-ref",
+        level: "word",
+        source: "en",
+        refs: {
+          de: [{ lang: "de", id: "p9-s9-w9" }],
+          th: [],
+          en: [{ lang: "en", id: "p1-s1-w1" }],
+        },
+      },
+      {
+        id: "bad-level",
+        level: "word",
+        refs: { de: [{ lang: "de", id: "p1-s2" }] },
+      },
+      {
+        id: "crossing",
+        level: "word",
+        refs: {
+          de: [{ lang: "de", id: "p1-s2-w1" }, { lang: "de", id: "p1-s2-w1" }],
+          th: [{ lang: "th", id: "p1-s1-w1" }],
+        },
+      },
+    );
+
+    const diagnostics = lintParallelDocument(doc);
+
+    expect(
+      diagnostics.map((d) => [d.rule, d.edgeId, d.lang, d.path, d.fixable]),
+    ).toEqual([
+      ["dangling-ref", "bad-ref", "de", "alignments[3].refs.de[0]", false],
+      ["empty-refs", "bad-ref", "th", "alignments[3].refs.th", true],
+      ["missing-tree", "bad-ref", "en", "alignments[3].refs.en", false],
+      ["level-mismatch", "bad-level", "de", "alignments[4].refs.de[0]", false],
+      ["duplicate-coverage", "crossing", "de", "alignments[5].refs.de[1]", true],
+      ["duplicate-coverage", "crossing", "th", "alignments[5].refs.th[0]", false],
+      ["crosses-sentence-edge", "crossing", undefined, "alignments[5]", false],
+    ]);
+    expect(diagnostics[3]!.nodePath).toBe("trees.de.children[0].children[1]");
+  });
+
+  it("reports edges missing their declared source language", () => {
+    const doc = lintDoc();
+    doc.alignments[0]!.source = "en";
+    expect(lintParallelDocument(doc)).toEqual([
+      expect.objectContaining({ rule: "missing-source", edgeId: "s1", lang: "en" }),
+    ]);
+  });
+
+  it("fixes empty and repeated refs and leaves the rest", () => {
+    const doc = lintDoc();
+    doc.alignments[2]!.refs.de!.push({ lang: "de", id: "p1-s1-w2" });
+    doc.alignments[2]!.refs.en = [];
+    doc.alignments[1]!.refs.th = [{ lang: "th", id: "missing" }];
+
+    const { fixed, remaining } = fixParallelDocument(doc);
+
+    expect(fixed.map((d) => d.rule)).toEqual(["duplicate-coverage", "empty-refs"]);
+    expect(remaining.map((d) => d.rule)).toEqual(["dangling-ref"]);
+    expect(doc.alignments[2]!.refs.de).toHaveLength(2);
+    expect("en" in doc.alignments[2]!.refs).toBe(false);
+  });
+});
+
+describe("AlignmentEditor", () => {
+  const editorDoc = () => {
+    const de = idStamp(buildTree("de", [["Guten", "Tag"], ["Danke"]]));
+    const th = idStamp(buildTree("th", [["สวัสดี"], ["ขอบคุณ"]]));
+    return composeParallelDocument({
+      trees: { de, th },
+      alignments: [
+        {
+          id: "s",
+          level: "sentence",
+          refs: {
+            de: [{ lang: "de", id: "p1-s1" }, { lang: "de", id: "p1-s2" }],
+            th: [{ lang: "th", id: "p1-s1" }, { lang: "th", id: "p1-s2" }],
+          },
+          confidence: "medium",
+          provenance: { kind: "auto", detail: "gale-church" },
+        },
+        {
+          id: "w1",
+          level: "word",
+          refs: { de: [{ lang: "de", id: "p1-s1-w1" }], th: [{ lang: "th", id: "p1-s1-w1" }] },
+          confidence: "high",
+        },
+        {
+          id: "w2",
+          level: "word",
+          refs: { de: [{ lang: "de", id: "p1-s1-w2" }] },
+          confidence: "low",
+        },
+      ],
+    });
+  };
+  const clock = () => new Date("2026-01-01T00:00:00Z");
+
+  it("splits, merges, re-points and records the author", () => {
+    const doc = editorDoc();
+    const editor = new AlignmentEditor(doc, { author: "anna", now: clock });
+
+    editor.split("s", [
+      { de: ["p1-s1"], th: ["p1-s1"] },
+      { de: ["p1-s2"], th: ["p1-s2"] },
+    ]);
+    editor.merge(["w1", "w2"]);
+    editor.repoint("s.2", "th", ["p1-s1"]);
+    editor.setConfidence("s.1", "high");
+
+    expect(doc.alignments.map((e) => e.id)).toEqual(["s.1", "s.2", "w1"]);
+    expect(doc.alignments[0]).toMatchObject({
+      confidence: "high",
+      provenance: { kind: "manual", detail: "anna" },
+    });
+    expect(doc.alignments[1]!.refs.th).toEqual([{ lang: "th", id: "p1-s1" }]);
+    expect(doc.alignments[2]!.refs.de!.map((r) => r.id)).toEqual(["p1-s1-w1", "p1-s1-w2"]);
+    expect(doc.alignments[2]!.confidence).toBe("low");
+    expect(editor.history.map((c) => [c.op, c.author, c.at])).toEqual([
+      ["split", "anna", "2026-01-01T00:00:00.000Z"],
+      ["merge", "anna", "2026-01-01T00:00:00.000Z"],
+      ["repoint", "anna", "2026-01-01T00:00:00.000Z"],
+      ["set-confidence", "anna", "2026-01-01T00:00:00.000Z"],
+    ]);
+  });
+
+  it("rejects changes that don't fit the trees without touching the document", () => {
+    const doc = editorDoc();
+    const before = JSON.stringify(doc.alignments);
+    const editor = new AlignmentEditor(doc, { author: "anna" });
+
+    expect(() => editor.repoint("w1", "th", ["p1-s1"])).toThrow(/SentenceNode/);
+    expect(() => editor.repoint("w1", "th", ["nope"])).toThrow(/no node/);
+    expect(() => editor.split("s", [{ de: ["p1-s1"] }, { de: ["p1-s2"] }])).toThrow(
+      /unassigned/,
+    );
+    expect(() => editor.merge(["s", "w1"])).toThrow(/cannot merge/);
+    expect(() => editor.delete("missing")).toThrow(/no edge/);
+    expect(JSON.stringify(doc.alignments)).toBe(before);
+    expect(editor.canUndo).toBe(false);
+  });
+
+  it("undoes and redoes in order, and a new edit clears redo", () => {
+    const doc = editorDoc();
+    const original = structuredClone(doc.alignments);
+    const editor = new AlignmentEditor(doc, { author: "anna" });
+
+    editor.merge(["w2", "w1"]);
+    editor.delete("s");
+    const edited = structuredClone(doc.alignments);
+
+    expect(editor.undo()).toBe(true);
+    expect(editor.undo()).toBe(true);
+    expect(editor.undo()).toBe(false);
+    expect(doc.alignments).toEqual(original);
+
+    expect(editor.redo()).toBe(true);
+    expect(editor.redo()).toBe(true);
+    expect(doc.alignments).toEqual(edited);
+
+    editor.undo();
+    editor.setConfidence("w2", "high");
+    expect(editor.canRedo).toBe(false);
+  });
+
+  it("round-trips the change log", () => {
+    const doc = editorDoc();
+    const editor = new AlignmentEditor(doc, { author: "anna" });
+    editor.delete("w2");
+
+    const log = parseChangeLog(serializeChangeLog(editor.history));
+
+    expect(log).toEqual(editor.history);
+    expect(() => parseChangeLog("{}")).toThrow(/AlignmentChangeLog/);
+  });
+});
+
 describe("flattenAlignedPair", () => {
   it("collects text from both sides of a sentence-level edge", () => {
     const en = idStamp(buildTree("en", [["hello", "world"]]));
@@ -211,3 +840,16 @@ describe("serialize/parse", () => {
     expect(() => parseParallelDocument("{}")).toThrow(/not a ParallelDocument/);
   });
 });
+
+describe("select", () => {
+  it("queries across the trees of a ParallelDocument", () => {
+    const en = idStamp(buildTree("en", [["hello", "world"]]));
+    const es = idStamp(buildTree("es", [["hola", "mundo"]]));
+    const doc = composeParallelDocument({ trees: { en, es }, alignments: [] });
+
+    expect(selectAll("WordNode", doc)).toHaveLength(4);
+    expect(select("RootNode[lang=es] WordNode:nth-of-type(2)", doc)?.extras?.id).toBe(
+      "p1-s1-w2",
+    );
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * `AlignmentEditor` — reviewed, undoable edits to `doc.alignments`.
+ *
+ * Review tooling used to splice the edge array directly. The editor wraps
+ * the common hand fixes (split, merge, re-point, delete, set confidence),
+ * validates each against the tree index, stamps the edited edges with
+ * `provenance = { kind: "manual", detail: author }`, and keeps a change log
+ * that can be undone, redone and saved next to the document.
+ */
+
+import type {
+  AlignmentEdge,
+  Confidence,
+  LangCode,
+  NodeRef,
+  ParallelDocument,
+} from "./types.js";
+import { NODE_TYPE_FOR_LEVEL } from "./lint.js";
+import { buildNodeIndex } from "./walk.js";
+
+export type AlignmentChangeOp =
+  | "split"
+  | "merge"
+  | "repoint"
+  | "delete"
+  | "set-confidence";
+
+/**
+ * One applied edit. Edges are snapshots, so a change can be reverted or
+ * re-applied without the editor that made it.
+ */
+export interface AlignmentChange {
+  op: AlignmentChangeOp;
+  author: string;
+  /** ISO 8601 timestamp. */
+  at: string;
+  /** Edges taken out, with their index in `doc.alignments` before the change. */
+  removed: Array<{ index: number; edge: AlignmentEdge }>;
+  /** Edges put in, with their index in `doc.alignments` after the change. */
+  added: Array<{ index: number; edge: AlignmentEdge }>;
+}
+
+export interface AlignmentEditorOptions {
+  /** Who is editing. Written to `provenance.detail` of every edited edge. */
+  author: string;
+  /** Clock for change timestamps. Defaults to `() => new Date()`. */
+  now?: () => Date;
+}
+
+/** One side-by-side piece of a split: node ids per language. */
+export type SplitPart = Partial<Record<LangCode, string[]>>;
+
+/**
+ * Edit the alignment graph of a `ParallelDocument` in place.
+ *
+ * Every operation validates first and throws without touching the document
+ * when the change doesn't fit the trees. New edits clear the redo stack.
+ *
+ * @example
+ * ```ts
+ * const editor = new AlignmentEditor(doc, { author: "reviewer:anna" });
+ * editor.split("de-th:p1-s1", [{ de: ["p1-s1"], th: ["p1-s1"] }, { th: ["p1-s2"] }]);
+ * editor.setConfidence("de-th:p1-s1.1", "high");
+ * editor.undo();
+ * writeFileSync("doc.changes.json", serializeChangeLog(editor.history));
+ * ```
+ */
+export class AlignmentEditor {
+  readonly doc: ParallelDocument;
+  private readonly author: string;
+  private readonly now: () => Date;
+  private readonly done: AlignmentChange[] = [];
+  private readonly undone: AlignmentChange[] = [];
+
+  constructor(doc: ParallelDocument, options: AlignmentEditorOptions) {
+    this.doc = doc;
+    this.author = options.author;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Applied changes, oldest first. Undone changes are not included. */
+  get history(): readonly AlignmentChange[] {
+    return this.done;
+  }
+
+  get canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  /**
+   * Split one edge into several. `parts` must partition the edge's refs:
+   * every ref lands in exactly one part. New edges get ids `${edgeId}.1`,
+   * `${edgeId}.2`, … unless `ids` is given.
+   */
+  split(edgeId: string, parts: SplitPart[], ids?: string[]): AlignmentChange {
+    const [index, edge] = this.find(edgeId);
+    if (parts.length < 2) {
+      throw new Error(`glost-align: split of '${edgeId}' needs at least two parts`);
+    }
+    if (ids && ids.length !== parts.length) {
+      throw new Error(
+        `glost-align: split of '${edgeId}' has ${parts.length} parts but ${ids.length} ids`,
+      );
+    }
+
+    const unused = new Map<LangCode, Set<string>>();
+    for (const [lang, refs] of Object.entries(edge.refs)) {
+      unused.set(lang, new Set((refs ?? []).map((r) => r.id)));
+    }
+    const edges = parts.map((part, i): AlignmentEdge => {
+      const refs: AlignmentEdge["refs"] = {};
+      for (const [lang, partIds] of Object.entries(part)) {
+        if (!partIds || partIds.length === 0) continue;
+        for (const id of partIds) {
+          if (!unused.get(lang)?.delete(id)) {
+            throw new Error(
+              `glost-align: split part ${i + 1} uses ${lang} '${id}', which '${edgeId}' doesn't reference or another part already took`,
+            );
+          }
+        }
+        refs[lang] = partIds.map((id) => ({ lang, id }));
+      }
+      if (Object.keys(refs).length === 0) {
+        throw new Error(`glost-align: split part ${i + 1} of '${edgeId}' is empty`);
+      }
+      return this.stamp({ ...edge, id: ids?.[i] ?? `${edgeId}.${i + 1}`, refs });
+    });
+    for (const [lang, left] of unused) {
+      if (left.size > 0) {
+        throw new Error(
+          `glost-align: split of '${edgeId}' leaves ${lang} ${[...left].map((id) => `'${id}'`).join(", ")} unassigned`,
+        );
+      }
+    }
+    this.assertFreeIds(edges, [edgeId]);
+
+    return this.commit(
+      "split",
+      [{ index, edge }],
+      edges.map((e, i) => ({ index: index + i, edge: e })),
+    );
+  }
+
+  /**
+   * Merge edges of the same level into one, at the position of the earliest.
+   * Refs are concatenated per language in the given order; confidence is the
+   * lowest of the merged edges. The merged edge keeps the first edge's id
+   * unless `id` is given.
+   */
+  merge(edgeIds: string[], id?: string): AlignmentChange {
+    if (new Set(edgeIds).size < 2) {
+      throw new Error("glost-align: merge needs at least two distinct edges");
+    }
+    const found = edgeIds.map((edgeId) => this.find(edgeId));
+    const level = found[0]![1].level;
+    for (const [, edge] of found) {
+      if (edge.level !== level) {
+        throw new Error(
+          `glost-align: cannot merge ${level} edge '${found[0]![1].id}' with ${edge.level} edge '${edge.id}'`,
+        );
+      }
+    }
+
+    const refs: AlignmentEdge["refs"] = {};
+    for (const [, edge] of found) {
+      for (const [lang, langRefs] of Object.entries(edge.refs)) {
+        const merged = (refs[lang] ??= []);
+        for (const ref of langRefs ?? []) {
+          if (!merged.some((r) => r.id === ref.id)) merged.push({ ...ref });
+        }
+      }
+    }
+    const first = found[0]![1];
+    const merged = this.stamp({
+      ...first,
+      id: id ?? first.id,
+      refs,
+      confidence: lowestConfidence(found.map(([, e]) => e.confidence)),
+    });
+    this.assertFreeIds([merged], edgeIds);
+
+    const removed = found
+      .map(([index, edge]) => ({ index, edge }))
+      .sort((a, b) => a.index - b.index);
+    return this.commit("merge", removed, [
+      { index: removed[0]!.index, edge: merged },
+    ]);
+  }
+
+  /**
+   * Point an edge's `lang` side at different nodes. Every id must resolve in
+   * the `lang` tree to a node of the edge's level. An empty list drops the
+   * side.
+   */
+  repoint(edgeId: string, lang: LangCode, nodeIds: string[]): AlignmentChange {
+    const [index, edge] = this.find(edgeId);
+    const tree = buildNodeIndex(this.doc).get(lang);
+    if (!tree) {
+      throw new Error(`glost-align: no tree for lang '${lang}' in ParallelDocument`);
+    }
+    const expected = NODE_TYPE_FOR_LEVEL[edge.level];
+    for (const id of nodeIds) {
+      const node = tree.get(id);
+      if (!node) {
+        throw new Error(`glost-align: no node with id '${id}' in ${lang} tree`);
+      }
+      if (node.type !== expected) {
+        throw new Error(
+          `glost-align: cannot point ${edge.level} edge '${edgeId}' at ${node.type} '${id}'`,
+        );
+      }
+    }
+    if (new Set(nodeIds).size !== nodeIds.length) {
+      throw new Error(`glost-align: repoint of '${edgeId}' repeats a ${lang} node`);
+    }
+
+    const refs = { ...edge.refs };
+    if (nodeIds.length === 0) {
+      delete refs[lang];
+    } else {
+      refs[lang] = nodeIds.map((id): NodeRef => ({ lang, id }));
+    }
+    const next = this.stamp({ ...edge, refs });
+    return this.commit("repoint", [{ index, edge }], [{ index, edge: next }]);
+  }
+
+  /** Remove an edge. */
+  delete(edgeId: string): AlignmentChange {
+    const [index, edge] = this.find(edgeId);
+    return this.commit("delete", [{ index, edge }], []);
+  }
+
+  /** Set an edge's confidence after review. */
+  setConfidence(edgeId: string, confidence: Confidence): AlignmentChange {
+    const [index, edge] = this.find(edgeId);
+    const next = this.stamp({ ...edge, confidence });
+    return this.commit("set-confidence", [{ index, edge }], [{ index, edge: next }]);
+  }
+
+  /** Revert the latest change. Returns false when there is nothing to undo. */
+  undo(): boolean {
+    const change = this.done.pop();
+    if (!change) return false;
+    revertChange(this.doc, change);
+    this.undone.push(change);
+    return true;
+  }
+
+  /** Re-apply the latest undone change. Returns false when there is none. */
+  redo(): boolean {
+    const change = this.undone.pop();
+    if (!change) return false;
+    applyChange(this.doc, change);
+    this.done.push(change);
+    return true;
+  }
+
+  private find(edgeId: string): [number, AlignmentEdge] {
+    const index = this.doc.alignments.findIndex((e) => e.id === edgeId);
+    if (index === -1) {
+      throw new Error(`glost-align: no edge with id '${edgeId}'`);
+    }
+    return [index, this.doc.alignments[index]!];
+  }
+
+  private stamp(edge: AlignmentEdge): AlignmentEdge {
+    return { ...edge, provenance: { kind: "manual", detail: this.author } };
+  }
+
+  /** New edge ids must be unused, except by the edges being replaced. */
+  private assertFreeIds(edges: AlignmentEdge[], replacing: string[]): void {
+    const taken = new Set(
+      this.doc.alignments.map((e) => e.id).filter((id) => !replacing.includes(id)),
+    );
+    for (const edge of edges) {
+      if (taken.has(edge.id)) {
+        throw new Error(`glost-align: edge id '${edge.id}' is already in use`);
+      }
+      taken.add(edge.id);
+    }
+  }
+
+  private commit(
+    op: AlignmentChangeOp,
+    removed: AlignmentChange["removed"],
+    added: AlignmentChange["added"],
+  ): AlignmentChange {
+    const change: AlignmentChange = {
+      op,
+      author: this.author,
+      at: this.now().toISOString(),
+      removed: structuredClone(removed),
+      added: structuredClone(added),
+    };
+    applyChange(this.doc, change);
+    this.done.push(change);
+    this.undone.length = 0;
+    return change;
+  }
+}
+
+/**
+ * Apply a recorded change to `doc.alignments` in place.
+ *
+ * Useful for replaying a saved change log onto the document it was recorded
+ * against. Throws if the edges to remove aren't where the change expects.
+ */
+export function applyChange(doc: ParallelDocument, change: AlignmentChange): void {
+  swap(doc, change.removed, change.added);
+}
+
+/** Undo a recorded change on `doc.alignments` in place. */
+export function revertChange(doc: ParallelDocument, change: AlignmentChange): void {
+  swap(doc, change.added, change.removed);
+}
+
+/**
+ * Serialize a change log to JSON, to store next to
+ * `serializeParallelDocument` output.
+ */
+export function serializeChangeLog(
+  changes: readonly AlignmentChange[],
+  options: { pretty?: boolean } = {},
+): string {
+  return JSON.stringify(
+    { type: "AlignmentChangeLog", changes },
+    null,
+    options.pretty ? 2 : 0,
+  );
+}
+
+/** Parse a change log written by `serializeChangeLog`. */
+export function parseChangeLog(input: string): AlignmentChange[] {
+  const value = JSON.parse(input) as { type?: unknown; changes?: unknown };
+  if (value?.type !== "AlignmentChangeLog" || !Array.isArray(value.changes)) {
+    throw new Error(
+      "glost-align: parsed value is not an AlignmentChangeLog (missing type/changes)",
+    );
+  }
+  return value.changes as AlignmentChange[];
+}
+
+function swap(
+  doc: ParallelDocument,
+  remove: AlignmentChange["removed"],
+  insert: AlignmentChange["added"],
+): void {
+  for (const { index, edge } of remove) {
+    if (doc.alignments[index]?.id !== edge.id) {
+      throw new Error(
+        `glost-align: expected edge '${edge.id}' at alignments[${index}] — document has diverged from the change log`,
+      );
+    }
+  }
+  for (const { index } of [...remove].sort((a, b) => b.index - a.index)) {
+    doc.alignments.splice(index, 1);
+  }
+  for (const { index, edge } of [...insert].sort((a, b) => a.index - b.index)) {
+    doc.alignments.splice(index, 0, structuredClone(edge));
+  }
+}
+
+const CONFIDENCE_ORDER: Confidence[] = ["low", "medium", "high"];
+
+function lowestConfidence(
+  values: Array<Confidence | undefined>,
+): Confidence | undefined {
+  const known = values.filter((v): v is Confidence => v !== undefined);
+  if (known.length === 0) return undefined;
+  return known.reduce((a, b) =>
+    CONFIDENCE_ORDER.indexOf(a) <= CONFIDENCE_ORDER.indexOf(b) ? a : b,
+  );
+}
@@ -70,8 +70,10 @@ function collect(
  * Delegates to `nlcst-to-string` for word/punctuation/whitespace/symbol
  * leaves. Falls back to a Sentence's `originalText` when the node has no
  * children (leaf-shaped sentence used for sentence-level alignment).
+ *
+ * @internal
  */
-function textOf(node: unknown): string {
+export function textOf(node: unknown): string {
   const n = node as {
     children?: unknown[];
     originalText?: string;
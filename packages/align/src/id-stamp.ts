@@ -3,12 +3,18 @@
  *
  * Hard prerequisite of `@glotblocks/glost-align`. See ADR-0005 for strategy rationale.
  *
- * Two strategies ship today:
+ * Three strategies ship today:
  *   - `positional`: overwrite unconditionally with `p{N}-s{N}-w{N}` from tree position.
  *     Default for generated/parsed content where regeneration is exact.
  *   - `preserve`: keep existing `extras.id`, fill gaps positionally. Default for
  *     authored content where ids are pinned by an external source-of-truth
  *     (sidecar JSON, in-source markers) and a separate Hydrate step has run first.
+ *   - `content`: overwrite with `p-{hash}`/`s-{hash}`/`w-{hash}` derived from
+ *     normalized text (see ADR-0008): a sentence hashes its own text, a word
+ *     its text plus its sentence's id, and a paragraph the text of its first
+ *     sentence. No key depends on sibling text, so inserting a sentence leaves
+ *     the other sentences and their words untouched; `remapIds` carries
+ *     alignments over the ids an edit does change.
  *
  * Bootstrap (attaching ids from sidecars before this plugin runs) is the
  * consumer's concern — varies per source format.
@@ -20,8 +26,9 @@ import type {
   GLOSTSentence,
   GLOSTWord,
 } from "@glotblocks/glost";
+import { toString as nlcstToString } from "nlcst-to-string";
 
-export type IdStampStrategy = "positional" | "preserve";
+export type IdStampStrategy = "positional" | "preserve" | "content";
 
 export interface IdStampOptions {
   /** Default `positional`. */
@@ -32,7 +39,12 @@ export interface IdStampOptions {
  * Stamp every Paragraph/Sentence/Word in `tree` with `extras.id`.
  *
  * Mutates the tree in place and returns it for chaining. Idempotent under the
- * same strategy: `positional` regenerates; `preserve` only fills gaps.
+ * same strategy: `positional` and `content` regenerate; `preserve` only fills
+ * gaps.
+ *
+ * Under `content`, nodes with the same key (a repeated `"Amen."` sentence, a
+ * word repeated within a sentence) get `-2`, `-3`, … suffixes in document
+ * order.
  *
  * Asserts uniqueness within the tree at the end.
  */
@@ -47,18 +59,36 @@ export function idStamp(
     (c): c is GLOSTParagraph => c.type === "ParagraphNode",
   );
   paragraphs.forEach((para, pIdx) => {
-    stampNode(para, `p${pIdx + 1}`, strategy, seen);
     const sentences = (para.children ?? []).filter(
       (c): c is GLOSTSentence => c.type === "SentenceNode",
     );
+    stampNode(
+      para,
+      `p${pIdx + 1}`,
+      () => (sentences[0] ? normalizedText(sentences[0]) : ""),
+      strategy,
+      seen,
+    );
     sentences.forEach((sent, sIdx) => {
-      stampNode(sent, `p${pIdx + 1}-s${sIdx + 1}`, strategy, seen);
+      const sentId = stampNode(
+        sent,
+        `p${pIdx + 1}-s${sIdx + 1}`,
+        () => normalizedText(sent),
+        strategy,
+        seen,
+      );
       const children = sent.children ?? [];
       let wIdx = 0;
       for (const child of children) {
         if (child.type === "WordNode") {
           wIdx += 1;
-          stampNode(child, `p${pIdx + 1}-s${sIdx + 1}-w${wIdx}`, strategy, seen);
+          stampNode(
+            child,
+            `p${pIdx + 1}-s${sIdx + 1}-w${wIdx}`,
+            () => `${sentId}\u0000${normalizedText(child)}`,
+            strategy,
+            seen,
+          );
         }
       }
     });
@@ -96,18 +126,97 @@ export function idStampPlugin(options: IdStampOptions = {}) {
   };
 }
 
+/**
+ * Map every stamped node of `oldDoc` to its counterpart in `newDoc`.
+ *
+ * Returns `oldId -> newId` for each Paragraph/Sentence/Word that survived an
+ * edit, so `AlignmentEdge` refs into the old tree can be rewritten. Deleted
+ * nodes are absent from the map. Both trees must already be stamped.
+ *
+ * Matching runs top-down:
+ *   1. Paragraphs, then sentences, are paired by normalized text. A sentence
+ *      prefers a candidate inside its own paragraph's counterpart.
+ *   2. Words are paired by text inside paired sentences only, so common words
+ *      never jump between sentences.
+ *   3. Nodes edited in place are paired by position: between two paired
+ *      siblings, equally sized runs of unpaired siblings pair up in order.
+ *   4. An unpaired paragraph follows the paragraph that now holds more than
+ *      half of its sentences.
+ *
+ * @example
+ * ```ts
+ * const ids = remapIds(doc.trees.en!, edited);
+ * doc.trees.en = edited;
+ * for (const edge of doc.alignments) {
+ *   edge.refs.en = edge.refs.en
+ *     ?.filter((ref) => ids.has(ref.id))
+ *     .map((ref) => ({ ...ref, id: ids.get(ref.id)! }));
+ * }
+ * ```
+ */
+export function remapIds(
+  oldDoc: GLOSTRoot,
+  newDoc: GLOSTRoot,
+): Map<string, string> {
+  const oldRoot = collectRemapTree(oldDoc);
+  const newRoot = collectRemapTree(newDoc);
+  const matches = new Map<RemapNode, RemapNode>([[oldRoot, newRoot]]);
+
+  // Paragraphs
+  matchByText(oldRoot.children, newRoot.children, matches);
+  fillGaps(oldRoot.children, newRoot.children, matches);
+
+  // Sentences, anywhere in the tree
+  const oldSentences = oldRoot.children.flatMap((p) => p.children);
+  const newSentences = newRoot.children.flatMap((p) => p.children);
+  matchByText(oldSentences, newSentences, matches);
+  matchParentsByChildren(oldRoot.children, matches);
+  for (const para of oldRoot.children) {
+    const target = matches.get(para);
+    if (target) fillGaps(para.children, target.children, matches);
+  }
+
+  // Words, only inside paired sentences
+  for (const sentence of oldSentences) {
+    const target = matches.get(sentence);
+    if (!target) continue;
+    matchByText(sentence.children, target.children, matches);
+    fillGaps(sentence.children, target.children, matches);
+  }
+
+  const ids = new Map<string, string>();
+  for (const [from, to] of matches) {
+    if (from.id !== undefined && to.id !== undefined) {
+      ids.set(from.id, to.id);
+    }
+  }
+  return ids;
+}
+
+type StampableNode = GLOSTParagraph | GLOSTSentence | GLOSTWord;
+
+const CONTENT_ID_PREFIX: Record<StampableNode["type"], string> = {
+  ParagraphNode: "p",
+  SentenceNode: "s",
+  WordNode: "w",
+};
+
 function stampNode(
-  node: GLOSTParagraph | GLOSTSentence | GLOSTWord,
+  node: StampableNode,
   positionalId: string,
+  contentKey: () => string,
   strategy: IdStampStrategy,
   seen: Set<string>,
-): void {
+): string {
   const extras = (node.extras ??= {});
   const existing = typeof extras.id === "string" ? extras.id : undefined;
 
   let id: string;
   if (strategy === "preserve" && existing !== undefined) {
     id = existing;
+  } else if (strategy === "content") {
+    id = contentId(node, contentKey(), seen);
+    extras.id = id;
   } else {
     id = positionalId;
     extras.id = id;
@@ -119,4 +228,192 @@ function stampNode(
     );
   }
   seen.add(id);
+  return id;
+}
+
+/**
+ * `{prefix}-{hash}` of the node's content key, suffixed with `-2`, `-3`, …
+ * until unused.
+ */
+function contentId(
+  node: StampableNode,
+  key: string,
+  seen: Set<string>,
+): string {
+  const base = `${CONTENT_ID_PREFIX[node.type]}-${hash(key)}`;
+  let id = base;
+  for (let n = 2; seen.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Node text with Unicode (NFC), case and whitespace differences removed.
+ *
+ * Falls back to a Sentence's `originalText` when it has no children.
+ */
+function normalizedText(node: StampableNode): string {
+  const n = node as { children?: unknown[]; originalText?: string };
+  let text = "";
+  if (Array.isArray(n.children) && n.children.length > 0) {
+    text = nlcstToString(n as never);
+  }
+  if (text.length === 0 && typeof n.originalText === "string") {
+    text = n.originalText;
+  }
+  return text.normalize("NFC").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * 32-bit FNV-1a, as 8 hex digits. Not cryptographic — collisions are
+ * resolved by the suffixing in `contentId`.
+ */
+function hash(input: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Alignable node as seen by `remapIds`. */
+interface RemapNode {
+  id?: string;
+  text: string;
+  parent?: RemapNode;
+  children: RemapNode[];
+}
+
+/**
+ * Paragraph → Sentence → Word skeleton of a tree, in the shape `idStamp`
+ * traverses.
+ */
+function collectRemapTree(tree: GLOSTRoot): RemapNode {
+  const root: RemapNode = { text: "", children: [] };
+  const add = (node: StampableNode, parent: RemapNode): RemapNode => {
+    const id = node.extras?.id;
+    const entry: RemapNode = {
+      id: typeof id === "string" ? id : undefined,
+      text: normalizedText(node),
+      parent,
+      children: [],
+    };
+    parent.children.push(entry);
+    return entry;
+  };
+
+  for (const para of tree.children ?? []) {
+    if (para.type !== "ParagraphNode") continue;
+    const paraEntry = add(para, root);
+    for (const sent of para.children ?? []) {
+      if (sent.type !== "SentenceNode") continue;
+      const sentEntry = add(sent, paraEntry);
+      for (const child of sent.children ?? []) {
+        if (child.type === "WordNode") add(child, sentEntry);
+      }
+    }
+  }
+  return root;
+}
+
+/**
+ * Pair unpaired old nodes with unused new nodes of the same text, in order.
+ * Candidates under the counterpart of the old node's parent win.
+ */
+function matchByText(
+  oldNodes: RemapNode[],
+  newNodes: RemapNode[],
+  matches: Map<RemapNode, RemapNode>,
+): void {
+  const used = new Set(matches.values());
+  const byText = new Map<string, RemapNode[]>();
+  for (const node of newNodes) {
+    if (used.has(node)) continue;
+    const group = byText.get(node.text);
+    if (group) group.push(node);
+    else byText.set(node.text, [node]);
+  }
+
+  for (const node of oldNodes) {
+    if (matches.has(node)) continue;
+    const candidates = byText.get(node.text)?.filter((c) => !used.has(c));
+    if (!candidates || candidates.length === 0) continue;
+    const parent = node.parent && matches.get(node.parent);
+    const pick = candidates.find((c) => c.parent === parent) ?? candidates[0]!;
+    matches.set(node, pick);
+    used.add(pick);
+  }
+}
+
+/**
+ * Pair equally sized runs of unpaired siblings between paired anchors.
+ *
+ * Anchors whose counterparts appear out of order are ignored.
+ */
+function fillGaps(
+  oldNodes: RemapNode[],
+  newNodes: RemapNode[],
+  matches: Map<RemapNode, RemapNode>,
+): void {
+  const used = new Set(matches.values());
+  const newIndex = new Map(newNodes.map((node, i) => [node, i]));
+  let prevOld = -1;
+  let prevNew = -1;
+
+  const pairGap = (oldEnd: number, newEnd: number) => {
+    const oldGap = oldNodes
+      .slice(prevOld + 1, oldEnd)
+      .filter((node) => !matches.has(node));
+    const newGap = newNodes
+      .slice(prevNew + 1, newEnd)
+      .filter((node) => !used.has(node));
+    if (oldGap.length !== newGap.length) return;
+    oldGap.forEach((node, i) => {
+      matches.set(node, newGap[i]!);
+      used.add(newGap[i]!);
+    });
+  };
+
+  oldNodes.forEach((node, i) => {
+    const target = matches.get(node);
+    const j = target === undefined ? undefined : newIndex.get(target);
+    if (j === undefined || j <= prevNew) return;
+    pairGap(i, j);
+    prevOld = i;
+    prevNew = j;
+  });
+  pairGap(oldNodes.length, newNodes.length);
+}
+
+/**
+ * Pair each unpaired parent with the new parent holding more than half of
+ * its children, if that parent is still unused.
+ */
+function matchParentsByChildren(
+  parents: RemapNode[],
+  matches: Map<RemapNode, RemapNode>,
+): void {
+  const used = new Set(matches.values());
+  for (const parent of parents) {
+    if (matches.has(parent)) continue;
+    const votes = new Map<RemapNode, number>();
+    for (const child of parent.children) {
+      const target = matches.get(child)?.parent;
+      if (target) votes.set(target, (votes.get(target) ?? 0) + 1);
+    }
+    let best: RemapNode | undefined;
+    let bestVotes = 0;
+    for (const [candidate, count] of votes) {
+      if (count > bestVotes && !used.has(candidate)) {
+        best = candidate;
+        bestVotes = count;
+      }
+    }
+    if (best && bestVotes * 2 > parent.children.length) {
+      matches.set(parent, best);
+      used.add(best);
+    }
+  }
 }
@@ -23,6 +23,37 @@ export {
 export { flattenAlignedPair } from "./flatten.js";
 export type { FlattenedPair, FlattenOptions } from "./flatten.js";
 export { assertStamped, assertTreeStamped } from "./assert.js";
+export { fixParallelDocument, lintParallelDocument } from "./lint.js";
+export type { FixResult, LintDiagnostic, LintRule } from "./lint.js";
+export {
+  AlignmentEditor,
+  applyChange,
+  parseChangeLog,
+  revertChange,
+  serializeChangeLog,
+} from "./editor.js";
+export type {
+  AlignmentChange,
+  AlignmentChangeOp,
+  AlignmentEditorOptions,
+  SplitPart,
+} from "./editor.js";
 export { parseParallelDocument, serializeParallelDocument } from "./serialize.js";
-export { idStamp, idStampPlugin } from "./id-stamp.js";
+export { idStamp, idStampPlugin, remapIds } from "./id-stamp.js";
 export type { IdStampOptions, IdStampStrategy } from "./id-stamp.js";
+export { alignSentences } from "./sentence-align.js";
+export type { AlignSentencesOptions, SentenceAnchor } from "./sentence-align.js";
+export { alignWords } from "./word-align.js";
+export type {
+  AlignWordsOptions,
+  BilingualLexicon,
+  UnalignedWord,
+  WordAlignmentResult,
+} from "./word-align.js";
+export { projectAnnotations } from "./project.js";
+export type {
+  ProjectAnnotationsOptions,
+  ProjectedAnnotation,
+  ProjectionConflict,
+  ProjectionResult,
+} from "./project.js";
@@ -0,0 +1,308 @@
+/**
+ * `lintParallelDocument` — structural checks over a `ParallelDocument`.
+ *
+ * `assertStamped` only guards the id-stamp invariant and throws on the first
+ * violation. The linter walks every edge against the trees and returns all
+ * problems it finds as diagnostics, so review tooling and the `glost` CLI can
+ * report them together. `fixParallelDocument` repairs the subset that can be
+ * fixed without guessing at intent.
+ */
+
+import type { GLOSTRoot } from "@glotblocks/glost";
+
+import type {
+  AlignmentEdge,
+  AlignmentLevel,
+  LangCode,
+  ParallelDocument,
+} from "./types.js";
+import { nodeId, type AlignableNode } from "./walk.js";
+
+export type LintRule =
+  /** Edge has a `refs` key for a language with no tree. */
+  | "missing-tree"
+  /** Ref points at an id that doesn't exist in its tree. */
+  | "dangling-ref"
+  /** Ref resolves to a node whose type doesn't match the edge `level`. */
+  | "level-mismatch"
+  /** Word/phrase edge spans sentences that no single sentence edge pairs. */
+  | "crosses-sentence-edge"
+  /** Node is referenced more than once at the same level. */
+  | "duplicate-coverage"
+  /** Edge declares a `source` language it has no refs for. */
+  | "missing-source"
+  /** Edge has an empty ref list for a language. */
+  | "empty-refs";
+
+export interface LintDiagnostic {
+  rule: LintRule;
+  severity: "error" | "warning";
+  message: string;
+  edgeId: string;
+  lang?: LangCode;
+  /** Location in the document, e.g. `alignments[3].refs.th[0]`. */
+  path: string;
+  /** Location of the referenced node, e.g. `trees.th.children[0].children[1]`. */
+  nodePath?: string;
+  /** Whether `fixParallelDocument` repairs this diagnostic. */
+  fixable: boolean;
+}
+
+export interface FixResult {
+  /** Diagnostics that were repaired. */
+  fixed: LintDiagnostic[];
+  /** Diagnostics still present after fixing. */
+  remaining: LintDiagnostic[];
+}
+
+/**
+ * Node type an edge of each level must reference.
+ *
+ * @internal
+ */
+export const NODE_TYPE_FOR_LEVEL: Record<AlignmentLevel, string> = {
+  paragraph: "ParagraphNode",
+  sentence: "SentenceNode",
+  // Phrase edges point at runs of words; there is no phrase node.
+  phrase: "WordNode",
+  word: "WordNode",
+};
+
+interface IndexedNode {
+  node: AlignableNode;
+  path: string;
+  /** Id of the enclosing sentence, for words. */
+  sentenceId?: string;
+}
+
+/**
+ * Check every edge of `doc` against its trees.
+ *
+ * Does not throw: un-stamped trees simply make their refs dangle. Diagnostics
+ * come out in edge order, then in the order of the checks listed on
+ * `LintRule`.
+ */
+export function lintParallelDocument(doc: ParallelDocument): LintDiagnostic[] {
+  const index = indexTrees(doc);
+  const diagnostics: LintDiagnostic[] = [];
+  const coverage = new Map<string, string>();
+  const sentenceEdges = indexSentenceEdges(doc);
+
+  doc.alignments.forEach((edge, edgeIdx) => {
+    const edgePath = `alignments[${edgeIdx}]`;
+    const report = (
+      rule: LintRule,
+      severity: LintDiagnostic["severity"],
+      message: string,
+      extra: Partial<LintDiagnostic> = {},
+    ) => {
+      diagnostics.push({
+        rule,
+        severity,
+        message,
+        edgeId: edge.id,
+        path: edgePath,
+        fixable: rule === "empty-refs",
+        ...extra,
+      });
+    };
+
+    for (const [lang, refs] of Object.entries(edge.refs)) {
+      if (!refs) continue;
+      const refsPath = `${edgePath}.refs.${lang}`;
+      if (refs.length === 0) {
+        report("empty-refs", "warning", `edge '${edge.id}' has no ${lang} refs`, {
+          lang,
+          path: refsPath,
+        });
+        continue;
+      }
+      const tree = index.get(lang);
+      if (!tree) {
+        report(
+          "missing-tree",
+          "error",
+          `edge '${edge.id}' references lang '${lang}' but the document has no ${lang} tree`,
+          { lang, path: refsPath },
+        );
+        continue;
+      }
+      refs.forEach((ref, refIdx) => {
+        const path = `${refsPath}[${refIdx}]`;
+        const entry = tree.get(ref.id);
+        if (!entry) {
+          report(
+            "dangling-ref",
+            "error",
+            `edge '${edge.id}' references '${ref.id}', which is not in the ${lang} tree`,
+            { lang, path },
+          );
+          return;
+        }
+        const expected = NODE_TYPE_FOR_LEVEL[edge.level];
+        if (entry.node.type !== expected) {
+          report(
+            "level-mismatch",
+            "error",
+            `${edge.level} edge '${edge.id}' references ${entry.node.type} '${ref.id}', expected ${expected}`,
+            { lang, path, nodePath: entry.path },
+          );
+        }
+        const key = `${edge.level}\u0000${lang}\u0000${ref.id}`;
+        const owner = coverage.get(key);
+        if (owner !== undefined) {
+          report(
+            "duplicate-coverage",
+            "warning",
+            owner === edge.id
+              ? `edge '${edge.id}' references ${lang} '${ref.id}' more than once`
+              : `${lang} '${ref.id}' is covered by ${edge.level} edges '${owner}' and '${edge.id}'`,
+            { lang, path, nodePath: entry.path, fixable: owner === edge.id },
+          );
+        } else {
+          coverage.set(key, edge.id);
+        }
+      });
+    }
+
+    if (edge.source !== undefined && !edge.refs[edge.source]?.length) {
+      report(
+        "missing-source",
+        "warning",
+        `edge '${edge.id}' declares source '${edge.source}' but has no ${edge.source} refs`,
+        { lang: edge.source },
+      );
+    }
+
+    if (
+      (edge.level === "word" || edge.level === "phrase") &&
+      sentenceEdges.size > 0 &&
+      crossesSentenceEdge(edge, index, sentenceEdges)
+    ) {
+      report(
+        "crosses-sentence-edge",
+        "warning",
+        `${edge.level} edge '${edge.id}' pairs words from sentences that no single sentence edge aligns`,
+      );
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Repair the fixable diagnostics of `doc` in place.
+ *
+ * Only safe cases are touched: empty ref lists are dropped and repeated refs
+ * within one edge are collapsed. Dangling refs, level mismatches and the like
+ * need a human (or a re-run of the aligner) and are left in `remaining`.
+ */
+export function fixParallelDocument(doc: ParallelDocument): FixResult {
+  const before = lintParallelDocument(doc);
+  const fixed = before.filter((d) => d.fixable);
+
+  for (const edge of doc.alignments) {
+    for (const [lang, refs] of Object.entries(edge.refs)) {
+      if (!refs) continue;
+      if (refs.length === 0) {
+        delete edge.refs[lang];
+        continue;
+      }
+      const seen = new Set<string>();
+      edge.refs[lang] = refs.filter((ref) => {
+        if (seen.has(ref.id)) return false;
+        seen.add(ref.id);
+        return true;
+      });
+    }
+  }
+
+  return { fixed, remaining: lintParallelDocument(doc) };
+}
+
+function indexTrees(
+  doc: ParallelDocument,
+): Map<LangCode, Map<string, IndexedNode>> {
+  const out = new Map<LangCode, Map<string, IndexedNode>>();
+  for (const [lang, root] of Object.entries(doc.trees)) {
+    if (!root) continue;
+    const inner = new Map<string, IndexedNode>();
+    indexChildren(root, `trees.${lang}`, undefined, inner);
+    out.set(lang, inner);
+  }
+  return out;
+}
+
+function indexChildren(
+  parent: GLOSTRoot | AlignableNode,
+  parentPath: string,
+  sentenceId: string | undefined,
+  out: Map<string, IndexedNode>,
+): void {
+  const children = (parent as { children?: unknown[] }).children ?? [];
+  children.forEach((child, i) => {
+    const node = child as AlignableNode;
+    const path = `${parentPath}.children[${i}]`;
+    if (
+      node.type !== "ParagraphNode" &&
+      node.type !== "SentenceNode" &&
+      node.type !== "WordNode"
+    ) {
+      return;
+    }
+    const id = nodeId(node);
+    if (id !== undefined && !out.has(id)) out.set(id, { node, path, sentenceId });
+    if (node.type === "WordNode") return;
+    indexChildren(
+      node,
+      path,
+      node.type === "SentenceNode" ? id : sentenceId,
+      out,
+    );
+  });
+}
+
+/** `lang\0sentenceId` → ids of the sentence edges referencing it. */
+function indexSentenceEdges(doc: ParallelDocument): Map<string, Set<string>> {
+  const out = new Map<string, Set<string>>();
+  for (const edge of doc.alignments) {
+    if (edge.level !== "sentence") continue;
+    for (const [lang, refs] of Object.entries(edge.refs)) {
+      for (const ref of refs ?? []) {
+        const key = `${lang}\u0000${ref.id}`;
+        let edges = out.get(key);
+        if (!edges) out.set(key, (edges = new Set()));
+        edges.add(edge.id);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * True when no one sentence edge covers every sentence the edge's words sit
+ * in. Words whose sentence isn't sentence-aligned at all are ignored — that's
+ * missing coverage, not a crossing.
+ */
+function crossesSentenceEdge(
+  edge: AlignmentEdge,
+  index: Map<LangCode, Map<string, IndexedNode>>,
+  sentenceEdges: Map<string, Set<string>>,
+): boolean {
+  let common: Set<string> | undefined;
+  for (const [lang, refs] of Object.entries(edge.refs)) {
+    const tree = index.get(lang);
+    if (!tree) continue;
+    for (const ref of refs ?? []) {
+      const sentenceId = tree.get(ref.id)?.sentenceId;
+      if (sentenceId === undefined) continue;
+      const covering = sentenceEdges.get(`${lang}\u0000${sentenceId}`);
+      if (!covering) continue;
+      common = common
+        ? new Set([...common].filter((id) => covering.has(id)))
+        : new Set(covering);
+      if (common.size === 0) return true;
+    }
+  }
+  return false;
+}
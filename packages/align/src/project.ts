@@ -0,0 +1,223 @@
+/**
+ * `projectAnnotations` — copy word annotations across alignment edges.
+ *
+ * Source-side annotations (POS, gender, difficulty, …) are projected onto
+ * the aligned target words when those lack them. Every projected value is
+ * recorded under the target's `extras.projections[field]` with
+ * `provenance.kind = "propagated"`, so consumers can tell it apart from
+ * annotations produced on the target side.
+ */
+
+import type {
+  AlignmentEdge,
+  Confidence,
+  LangCode,
+  NodeRef,
+  ParallelDocument,
+  Provenance,
+} from "./types.js";
+import { buildNodeIndex, type AlignableNode } from "./walk.js";
+
+export interface ProjectAnnotationsOptions {
+  /** Language whose annotations are copied. */
+  from: LangCode;
+  /** Language that receives them. */
+  to: LangCode;
+  /**
+   * Dot paths relative to the node, e.g. `"metadata.partOfSpeech"`,
+   * `"extras.metadata.gender"` or `"difficulty"`.
+   */
+  fields: string[];
+  /**
+   * Replace values the target already has. Defaults to false: existing
+   * primitives are kept and existing objects only gain missing keys.
+   */
+  overwrite?: boolean;
+}
+
+/** Record written to `extras.projections[field]` on a target node. */
+export interface ProjectedAnnotation {
+  provenance: Provenance;
+  confidence: Confidence;
+  /** Edge the value was projected along. */
+  edgeId: string;
+  /** Source nodes the value came from. */
+  sources: NodeRef[];
+}
+
+/** Source nodes of a many-to-one edge that disagree on a field. */
+export interface ProjectionConflict {
+  edgeId: string;
+  field: string;
+  targets: NodeRef[];
+  values: Array<{ ref: NodeRef; value: unknown }>;
+}
+
+export interface ProjectionResult {
+  /** One entry per field written to a target node. */
+  projected: Array<{ ref: NodeRef; field: string } & ProjectedAnnotation>;
+  /** Fields left unprojected because the source nodes disagree. */
+  conflicts: ProjectionConflict[];
+}
+
+/**
+ * Project `fields` from `from`-language nodes onto `to`-language nodes along
+ * every word- and phrase-level edge with refs on both sides.
+ *
+ * Mutates the `to` tree in place. One source feeding several targets copies
+ * its values to each. Several sources feeding the same target must agree;
+ * otherwise the field is reported in `conflicts` and left alone.
+ *
+ * Confidence is the edge's (default `"medium"`), one step lower for edges
+ * that are not 1:1.
+ *
+ * @example
+ * ```ts
+ * const { conflicts } = projectAnnotations(doc, {
+ *   from: "de",
+ *   to: "th",
+ *   fields: ["metadata.partOfSpeech", "extras.metadata.gender", "difficulty"],
+ * });
+ * ```
+ */
+export function projectAnnotations(
+  doc: ParallelDocument,
+  options: ProjectAnnotationsOptions,
+): ProjectionResult {
+  const { from, to, fields } = options;
+  const index = buildNodeIndex(doc);
+  const sourceTree = index.get(from);
+  const targetTree = index.get(to);
+  const result: ProjectionResult = { projected: [], conflicts: [] };
+  if (!sourceTree || !targetTree) return result;
+
+  for (const edge of doc.alignments) {
+    if (edge.level !== "word" && edge.level !== "phrase") continue;
+    const sourceRefs = edge.refs[from] ?? [];
+    const targetRefs = edge.refs[to] ?? [];
+    if (sourceRefs.length === 0 || targetRefs.length === 0) continue;
+
+    const sources = sourceRefs.map((ref) => ({
+      ref,
+      node: resolve(sourceTree, ref),
+    }));
+    const targets = targetRefs.map((ref) => resolve(targetTree, ref));
+    const confidence = edgeConfidence(edge, sourceRefs.length, targetRefs.length);
+
+    for (const field of fields) {
+      const values = sources
+        .map(({ ref, node }) => ({ ref, value: getPath(node, field) }))
+        .filter((entry) => entry.value !== undefined);
+      if (values.length === 0) continue;
+
+      const first = JSON.stringify(values[0]!.value);
+      if (values.some((entry) => JSON.stringify(entry.value) !== first)) {
+        result.conflicts.push({
+          edgeId: edge.id,
+          field,
+          targets: targetRefs,
+          values,
+        });
+        continue;
+      }
+
+      const annotation: ProjectedAnnotation = {
+        provenance: { kind: "propagated", detail: from },
+        confidence,
+        edgeId: edge.id,
+        sources: values.map((entry) => entry.ref),
+      };
+      targets.forEach((node, i) => {
+        const changed = project(
+          node,
+          field,
+          values[0]!.value,
+          options.overwrite ?? false,
+        );
+        if (!changed) return;
+        const extras = (node.extras ??= {}) as Record<string, unknown>;
+        const projections = (extras.projections ??= {}) as Record<
+          string,
+          ProjectedAnnotation
+        >;
+        projections[field] = annotation;
+        result.projected.push({ ref: targetRefs[i]!, field, ...annotation });
+      });
+    }
+  }
+
+  return result;
+}
+
+function resolve(tree: Map<string, AlignableNode>, ref: NodeRef): AlignableNode {
+  const node = tree.get(ref.id);
+  if (!node) {
+    throw new Error(`glost-align: no node with id '${ref.id}' in ${ref.lang} tree`);
+  }
+  return node;
+}
+
+function edgeConfidence(
+  edge: AlignmentEdge,
+  sourceCount: number,
+  targetCount: number,
+): Confidence {
+  const levels: Confidence[] = ["low", "medium", "high"];
+  const level = levels.indexOf(edge.confidence ?? "medium");
+  const oneToOne = sourceCount === 1 && targetCount === 1;
+  return levels[Math.max(0, level - (oneToOne ? 0 : 1))]!;
+}
+
+function getPath(node: unknown, path: string): unknown {
+  let current = node;
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Write `value` at `path`, respecting existing values. Returns whether the
+ * node changed.
+ */
+function project(
+  node: AlignableNode,
+  path: string,
+  value: unknown,
+  overwrite: boolean,
+): boolean {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let parent = node as unknown as Record<string, unknown>;
+  for (const key of keys) {
+    const next = parent[key];
+    if (next === undefined) {
+      parent[key] = {};
+    } else if (!isPlainObject(next)) {
+      return false;
+    }
+    parent = parent[key] as Record<string, unknown>;
+  }
+
+  const existing = parent[last];
+  if (existing === undefined || overwrite) {
+    parent[last] = structuredClone(value);
+    return true;
+  }
+  if (isPlainObject(existing) && isPlainObject(value)) {
+    let changed = false;
+    for (const [key, inner] of Object.entries(value)) {
+      if (existing[key] === undefined) {
+        existing[key] = structuredClone(inner);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+  return false;
+}
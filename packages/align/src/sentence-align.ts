@@ -0,0 +1,335 @@
+/**
+ * `alignSentences` — length-based sentence alignment between two stamped trees.
+ *
+ * Gale & Church (1993): sentences that translate each other have lengths
+ * that correlate closely, so the best alignment is the sequence of "beads"
+ * (1:1, 1:0, 0:1, 2:1, 1:2, 2:2) that minimizes the combined length-mismatch
+ * and bead-prior cost. Language-agnostic and dictionary-free; meant for
+ * corpora whose translations are not paired by id (see ADR-0007).
+ *
+ * The search is restricted to a band around the diagonal, so memory grows
+ * with the number of sentences rather than its square.
+ */
+
+import type { GLOSTRoot, GLOSTSentence } from "@glotblocks/glost";
+
+import { textOf } from "./flatten.js";
+import type { AlignmentEdge, Confidence, LangCode } from "./types.js";
+import { nodeId } from "./walk.js";
+
+/** A sentence pair known to align, by stamped sentence id. */
+export interface SentenceAnchor {
+  source: string;
+  target: string;
+}
+
+export interface AlignSentencesOptions {
+  sourceLang: LangCode;
+  targetLang: LangCode;
+  /**
+   * Sentence pairs that must align 1:1. Alignment never crosses an anchor,
+   * so a few anchors (headings, verse numbers) keep a long text on track.
+   * Must be in the same order in both trees.
+   */
+  anchors?: SentenceAnchor[];
+  /**
+   * Expected target characters per source character. Defaults to the ratio
+   * of the two trees' total lengths.
+   */
+  ratio?: number;
+  /** Variance of the length difference per character. Defaults to 6.8. */
+  variance?: number;
+  /**
+   * How many sentences the alignment may drift from the diagonal of each
+   * anchor-free segment. Wider bands cost memory and time in proportion.
+   * Defaults to 100.
+   */
+  band?: number;
+  /** Written to `provenance.detail`. Defaults to `"gale-church"`. */
+  detail?: string;
+}
+
+/**
+ * Produce sentence-level `AlignmentEdge`s between two stamped trees.
+ *
+ * Every sentence of `source` and `target` (in document order, across
+ * paragraphs) ends up in at most one edge. Sentences the model leaves
+ * unpaired (1:0 / 0:1 beads) get no edge, matching the asymmetric-coverage
+ * convention of ADR-0007.
+ *
+ * Edges carry `provenance: { kind: "auto" }` and a `confidence` from the
+ * bead's length fit — the two-tailed probability of its length difference:
+ * `high` at 0.5 and above, `medium` at 0.1 and above, `low` below. Merges
+ * (2:1, 1:2, 2:2) are one step lower. Anchored pairs are `high`.
+ *
+ * Throws if a tree has un-stamped sentences or an anchor is unknown or out
+ * of order.
+ *
+ * @example
+ * ```ts
+ * const alignments = alignSentences(en, th, { sourceLang: "en", targetLang: "th" });
+ * const doc = composeParallelDocument({ trees: { en, th }, alignments });
+ * ```
+ */
+export function alignSentences(
+  source: GLOSTRoot,
+  target: GLOSTRoot,
+  options: AlignSentencesOptions,
+): AlignmentEdge[] {
+  const src = collectSentences(source, options.sourceLang);
+  const tgt = collectSentences(target, options.targetLang);
+
+  const total = (items: SentenceItem[]) =>
+    items.reduce((sum, item) => sum + item.length, 0);
+  const srcTotal = total(src);
+  const tgtTotal = total(tgt);
+  const model: LengthModel = {
+    ratio:
+      options.ratio ?? (srcTotal > 0 && tgtTotal > 0 ? tgtTotal / srcTotal : 1),
+    variance: options.variance ?? 6.8,
+    band: options.band ?? 100,
+  };
+
+  const edges: AlignmentEdge[] = [];
+  const emit = (
+    sourceItems: SentenceItem[],
+    targetItems: SentenceItem[],
+    confidence: Confidence,
+  ) => {
+    if (sourceItems.length === 0 || targetItems.length === 0) return;
+    edges.push({
+      id: `${options.sourceLang}-${options.targetLang}:${sourceItems
+        .map((item) => item.id)
+        .join("+")}`,
+      level: "sentence",
+      refs: {
+        [options.sourceLang]: sourceItems.map((item) => ({
+          lang: options.sourceLang,
+          id: item.id,
+        })),
+        [options.targetLang]: targetItems.map((item) => ({
+          lang: options.targetLang,
+          id: item.id,
+        })),
+      },
+      source: options.sourceLang,
+      confidence,
+      provenance: { kind: "auto", detail: options.detail ?? "gale-church" },
+    });
+  };
+
+  let srcStart = 0;
+  let tgtStart = 0;
+  for (const [srcIndex, tgtIndex] of resolveAnchors(options.anchors, src, tgt)) {
+    alignSegment(src.slice(srcStart, srcIndex), tgt.slice(tgtStart, tgtIndex), model, emit);
+    emit([src[srcIndex]!], [tgt[tgtIndex]!], "high");
+    srcStart = srcIndex + 1;
+    tgtStart = tgtIndex + 1;
+  }
+  alignSegment(src.slice(srcStart), tgt.slice(tgtStart), model, emit);
+
+  return edges;
+}
+
+interface SentenceItem {
+  id: string;
+  length: number;
+}
+
+interface LengthModel {
+  ratio: number;
+  variance: number;
+  band: number;
+}
+
+/** Bead shapes and their prior probabilities (Gale & Church 1993, table 5). */
+const BEADS: ReadonlyArray<{ src: number; tgt: number; prior: number }> = [
+  { src: 1, tgt: 1, prior: 0.89 },
+  { src: 1, tgt: 0, prior: 0.0099 / 2 },
+  { src: 0, tgt: 1, prior: 0.0099 / 2 },
+  { src: 2, tgt: 1, prior: 0.089 / 2 },
+  { src: 1, tgt: 2, prior: 0.089 / 2 },
+  { src: 2, tgt: 2, prior: 0.011 },
+];
+
+function collectSentences(tree: GLOSTRoot, lang: LangCode): SentenceItem[] {
+  const out: SentenceItem[] = [];
+  for (const para of tree.children ?? []) {
+    if (para.type !== "ParagraphNode") continue;
+    for (const sent of para.children ?? []) {
+      if (sent.type !== "SentenceNode") continue;
+      const id = nodeId(sent as GLOSTSentence);
+      if (id === undefined) {
+        throw new Error(
+          `glost-align: ${lang} tree has un-stamped SentenceNode — run id-stamp before alignment`,
+        );
+      }
+      out.push({ id, length: [...textOf(sent).replace(/\s+/g, "")].length });
+    }
+  }
+  return out;
+}
+
+/** Anchor positions as `[sourceIndex, targetIndex]`, in order. */
+function resolveAnchors(
+  anchors: SentenceAnchor[] | undefined,
+  src: SentenceItem[],
+  tgt: SentenceItem[],
+): Array<[number, number]> {
+  if (!anchors || anchors.length === 0) return [];
+  const srcIndex = new Map(src.map((item, i) => [item.id, i]));
+  const tgtIndex = new Map(tgt.map((item, i) => [item.id, i]));
+
+  const positions = anchors.map((anchor): [number, number] => {
+    const s = srcIndex.get(anchor.source);
+    const t = tgtIndex.get(anchor.target);
+    if (s === undefined || t === undefined) {
+      throw new Error(
+        `glost-align: anchor '${anchor.source}' → '${anchor.target}' does not name a sentence in both trees`,
+      );
+    }
+    return [s, t];
+  });
+  positions.sort((a, b) => a[0] - b[0]);
+  for (let i = 1; i < positions.length; i++) {
+    if (positions[i]![1] <= positions[i - 1]![1]) {
+      throw new Error(
+        "glost-align: anchors cross — they must appear in the same order in both trees",
+      );
+    }
+  }
+  return positions;
+}
+
+/**
+ * Dynamic program over one anchor-free segment; emits beads in order.
+ *
+ * Row `i` only keeps the columns within `band` of the diagonal
+ * `j = i · m / n`, widened to the segment's slope so neighbouring rows
+ * always overlap.
+ */
+function alignSegment(
+  src: SentenceItem[],
+  tgt: SentenceItem[],
+  model: LengthModel,
+  emit: (src: SentenceItem[], tgt: SentenceItem[], confidence: Confidence) => void,
+): void {
+  const n = src.length;
+  const m = tgt.length;
+  if (n === 0 || m === 0) return;
+
+  const width = Math.max(model.band, Math.ceil(m / n), Math.ceil(n / m), 2);
+  const rows = Array.from({ length: n + 1 }, (_, i) => {
+    const center = Math.round((i * m) / n);
+    const from = Math.max(0, center - width);
+    const to = Math.min(m, center + width);
+    const size = to - from + 1;
+    return {
+      from,
+      to,
+      cost: new Float64Array(size).fill(Infinity),
+      back: new Int8Array(size).fill(-1),
+    };
+  });
+  const costAt = (i: number, j: number): number => {
+    const row = rows[i]!;
+    return j < row.from || j > row.to ? Infinity : row.cost[j - row.from]!;
+  };
+  rows[0]!.cost[0] = 0;
+
+  for (let i = 0; i <= n; i++) {
+    const row = rows[i]!;
+    for (let j = row.from; j <= row.to; j++) {
+      if (i === 0 && j === 0) continue;
+      BEADS.forEach((bead, b) => {
+        if (bead.src > i || bead.tgt > j) return;
+        const prev = costAt(i - bead.src, j - bead.tgt);
+        if (prev === Infinity) return;
+        const total =
+          prev +
+          beadCost(
+            sumLength(src, i - bead.src, i),
+            sumLength(tgt, j - bead.tgt, j),
+            bead.prior,
+            model,
+          );
+        if (total < row.cost[j - row.from]!) {
+          row.cost[j - row.from] = total;
+          row.back[j - row.from] = b;
+        }
+      });
+    }
+  }
+
+  const beads: Array<{ i: number; j: number; bead: (typeof BEADS)[number] }> = [];
+  for (let i = n, j = m; i > 0 || j > 0; ) {
+    const row = rows[i]!;
+    const bead = BEADS[row.back[j - row.from]!]!;
+    beads.push({ i, j, bead });
+    i -= bead.src;
+    j -= bead.tgt;
+  }
+
+  for (const { i, j, bead } of beads.reverse()) {
+    const fit = lengthFit(
+      sumLength(src, i - bead.src, i),
+      sumLength(tgt, j - bead.tgt, j),
+      model,
+    );
+    const merge = bead.src > 1 || bead.tgt > 1;
+    emit(
+      src.slice(i - bead.src, i),
+      tgt.slice(j - bead.tgt, j),
+      toConfidence(fit, merge),
+    );
+  }
+}
+
+function sumLength(items: SentenceItem[], from: number, to: number): number {
+  let sum = 0;
+  for (let k = from; k < to; k++) sum += items[k]!.length;
+  return sum;
+}
+
+/** `-log(P(bead) · P(length difference))`. */
+function beadCost(
+  srcLength: number,
+  tgtLength: number,
+  prior: number,
+  model: LengthModel,
+): number {
+  return -Math.log(prior) - Math.log(Math.max(lengthFit(srcLength, tgtLength, model), 1e-12));
+}
+
+/**
+ * Two-tailed probability of a length difference at least this large, under
+ * the normal model of Gale & Church.
+ */
+function lengthFit(srcLength: number, tgtLength: number, model: LengthModel): number {
+  if (srcLength === 0 && tgtLength === 0) return 1;
+  const mean = (srcLength + tgtLength / model.ratio) / 2;
+  const delta =
+    (tgtLength - srcLength * model.ratio) / Math.sqrt(mean * model.variance);
+  return erfc(Math.abs(delta) / Math.SQRT2);
+}
+
+/** Coefficients of Numerical Recipes' `erfcc` polynomial, lowest order first. */
+const ERFC_COEFFICIENTS = [
+  -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807,
+  -1.13520398, 1.48851587, -0.82215223, 0.17087277,
+];
+
+/** Complementary error function (|error| < 1.2e-7). */
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const poly = ERFC_COEFFICIENTS.reduceRight((acc, c) => c + t * acc, 0);
+  const r = t * Math.exp(-z * z + poly);
+  return x >= 0 ? r : 2 - r;
+}
+
+function toConfidence(fit: number, merge: boolean): Confidence {
+  const levels: Confidence[] = ["low", "medium", "high"];
+  const level = fit >= 0.5 ? 2 : fit >= 0.1 ? 1 : 0;
+  return levels[Math.max(0, level - (merge ? 1 : 0))]!;
+}
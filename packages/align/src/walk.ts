@@ -14,7 +14,7 @@ import type {
   ParallelDocument,
 } from "./types.js";
 
-type AlignableNode = GLOSTParagraph | GLOSTSentence | GLOSTWord;
+export type AlignableNode = GLOSTParagraph | GLOSTSentence | GLOSTWord;
 const ALIGNABLE_TYPES = new Set([
   "ParagraphNode",
   "SentenceNode",
@@ -0,0 +1,286 @@
+/**
+ * `alignWords` — dictionary-driven word edges inside existing sentence edges.
+ *
+ * Word translations come from `extras.translations` (written by the
+ * translation plugin) and from an optional bilingual lexicon. Matches may
+ * span several words on either side — a Thai compound to an English phrase,
+ * or the reverse — and become one N-ary edge. Words without a dictionary
+ * match are reported, never guessed.
+ */
+
+import type { GLOSTWord } from "@glotblocks/glost";
+
+import { textOf } from "./flatten.js";
+import type {
+  AlignmentEdge,
+  Confidence,
+  LangCode,
+  ParallelDocument,
+} from "./types.js";
+import { buildNodeIndex, nodeId, type AlignableNode } from "./walk.js";
+
+/**
+ * Pluggable bilingual dictionary.
+ *
+ * Entries may be phrases (`"ice cream"`); they match any run of adjacent
+ * words whose concatenated text equals the entry, ignoring spaces and case.
+ */
+export interface BilingualLexicon {
+  /** Written to `provenance.detail` for edges this lexicon produced. */
+  name?: string;
+  lookup(
+    word: string,
+    from: LangCode,
+    to: LangCode,
+  ): string[] | undefined | Promise<string[] | undefined>;
+}
+
+export interface AlignWordsOptions {
+  sourceLang: LangCode;
+  targetLang: LangCode;
+  lexicon?: BilingualLexicon;
+  /** Longest run of words one dictionary entry may cover. Defaults to 4. */
+  maxPhraseLength?: number;
+}
+
+/** A word no dictionary entry accounted for. */
+export interface UnalignedWord {
+  lang: LangCode;
+  id: string;
+  /** The sentence edge the word was considered under. */
+  sentenceEdgeId: string;
+}
+
+export interface WordAlignmentResult {
+  alignments: AlignmentEdge[];
+  unaligned: UnalignedWord[];
+}
+
+/**
+ * Generate word-level edges for every sentence edge of `doc` that has refs in
+ * both languages.
+ *
+ * Each source word is looked up towards the target language; its entries are
+ * matched against unclaimed runs of target words. Target words still
+ * unclaimed are then looked up back towards the source language, which
+ * catches many-to-one matches from the other side. When an entry matches in
+ * several places, the run nearest the word's relative position wins and the
+ * edge gets `confidence: "medium"`; unique matches are `"high"`.
+ *
+ * Edges carry `provenance: { kind: "lookup", detail }`, where `detail` is
+ * `"translations"` or the lexicon's `name` (default `"lexicon"`).
+ *
+ * @example
+ * ```ts
+ * const { alignments, unaligned } = await alignWords(doc, {
+ *   sourceLang: "th",
+ *   targetLang: "en",
+ *   lexicon,
+ * });
+ * doc.alignments.push(...alignments);
+ * ```
+ */
+export async function alignWords(
+  doc: ParallelDocument,
+  options: AlignWordsOptions,
+): Promise<WordAlignmentResult> {
+  const { sourceLang, targetLang } = options;
+  const index = buildNodeIndex(doc);
+  const lookups = new Map<string, Promise<string[] | undefined>>();
+  const lookup = (word: string, from: LangCode, to: LangCode) => {
+    const key = `${from}\u0000${to}\u0000${word}`;
+    let entry = lookups.get(key);
+    if (!entry) {
+      entry = Promise.resolve(options.lexicon?.lookup(word, from, to));
+      lookups.set(key, entry);
+    }
+    return entry;
+  };
+
+  const result: WordAlignmentResult = { alignments: [], unaligned: [] };
+
+  for (const edge of doc.alignments) {
+    if (edge.level !== "sentence") continue;
+    const sourceRefs = edge.refs[sourceLang];
+    const targetRefs = edge.refs[targetLang];
+    if (!sourceRefs?.length || !targetRefs?.length) continue;
+
+    const src = collectWords(index.get(sourceLang), sourceRefs);
+    const tgt = collectWords(index.get(targetLang), targetRefs);
+    const links: WordLink[] = [];
+
+    // Source → target, then the remaining target words back to the source
+    for (const [from, to, fromLang, toLang, reversed] of [
+      [src, tgt, sourceLang, targetLang, false],
+      [tgt, src, targetLang, sourceLang, true],
+    ] as const) {
+      for (let i = 0; i < from.length; i++) {
+        const word = from[i]!;
+        if (word.claimed) continue;
+        const entries = await entriesFor(word, toLang, fromLang, lookup);
+        const match = findRun(entries, to, i / from.length, options.maxPhraseLength ?? 4);
+        if (!match) continue;
+        word.claimed = true;
+        for (const w of match.words) w.claimed = true;
+        links.push({
+          source: reversed ? match.words : [word],
+          target: reversed ? [word] : match.words,
+          detail: match.entry.origin === "translations"
+            ? "translations"
+            : options.lexicon?.name ?? "lexicon",
+          confidence: match.unique ? "high" : "medium",
+        });
+      }
+    }
+
+    links.sort((a, b) => a.source[0]!.position - b.source[0]!.position);
+    for (const link of links) {
+      result.alignments.push({
+        id: `${sourceLang}-${targetLang}:${link.source.map((w) => w.id).join("+")}`,
+        level: "word",
+        refs: {
+          [sourceLang]: link.source.map((w) => ({ lang: sourceLang, id: w.id })),
+          [targetLang]: link.target.map((w) => ({ lang: targetLang, id: w.id })),
+        },
+        source: sourceLang,
+        confidence: link.confidence,
+        provenance: { kind: "lookup", detail: link.detail },
+      });
+    }
+
+    for (const [words, lang] of [
+      [src, sourceLang],
+      [tgt, targetLang],
+    ] as const) {
+      for (const word of words) {
+        if (!word.claimed) {
+          result.unaligned.push({ lang, id: word.id, sentenceEdgeId: edge.id });
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+interface WordItem {
+  id: string;
+  node: GLOSTWord;
+  /** Normalized text, spaces removed. */
+  key: string;
+  position: number;
+  claimed: boolean;
+}
+
+interface LexiconEntry {
+  key: string;
+  origin: "translations" | "lexicon";
+}
+
+interface WordLink {
+  source: WordItem[];
+  target: WordItem[];
+  detail: string;
+  confidence: Confidence;
+}
+
+function collectWords(
+  tree: Map<string, AlignableNode> | undefined,
+  refs: { lang: LangCode; id: string }[],
+): WordItem[] {
+  const words: WordItem[] = [];
+  for (const ref of refs) {
+    const sentence = tree?.get(ref.id);
+    if (!sentence || sentence.type !== "SentenceNode") {
+      throw new Error(
+        `glost-align: sentence edge refers to '${ref.id}', which is not a SentenceNode in the ${ref.lang} tree`,
+      );
+    }
+    for (const child of sentence.children ?? []) {
+      if (child.type !== "WordNode") continue;
+      const id = nodeId(child);
+      if (id === undefined) {
+        throw new Error(
+          `glost-align: ${ref.lang} tree has un-stamped WordNode — run id-stamp before alignment`,
+        );
+      }
+      const key = normalize(textOf(child));
+      if (key.length === 0) continue;
+      words.push({ id, node: child, key, position: words.length, claimed: false });
+    }
+  }
+  return words;
+}
+
+/**
+ * Dictionary entries for a word: its `extras.translations` first, then the
+ * lexicon. Translation strings may list alternatives separated by `,` `;`
+ * or `/`.
+ */
+async function entriesFor(
+  word: WordItem,
+  to: LangCode,
+  from: LangCode,
+  lookup: (word: string, from: LangCode, to: LangCode) => Promise<string[] | undefined>,
+): Promise<LexiconEntry[]> {
+  const entries: LexiconEntry[] = [];
+  const translations = word.node.extras?.translations;
+  const quick = translations?.[to] ?? translations?.[to.split("-")[0]!];
+  if (typeof quick === "string") {
+    for (const part of quick.split(/[,;/]/)) {
+      const key = normalize(part);
+      if (key) entries.push({ key, origin: "translations" });
+    }
+  }
+  for (const entry of (await lookup(textOf(word.node), from, to)) ?? []) {
+    const key = normalize(entry);
+    if (key) entries.push({ key, origin: "lexicon" });
+  }
+  return entries;
+}
+
+/**
+ * Find the unclaimed run of `words` that spells one of `entries`.
+ *
+ * Longer runs win over shorter ones; among equally long runs, the one
+ * nearest `relativePosition` wins.
+ */
+function findRun(
+  entries: LexiconEntry[],
+  words: WordItem[],
+  relativePosition: number,
+  maxLength: number,
+): { entry: LexiconEntry; words: WordItem[]; unique: boolean } | undefined {
+  for (let length = Math.min(maxLength, words.length); length >= 1; length--) {
+    const found: Array<{ entry: LexiconEntry; start: number }> = [];
+    for (let start = 0; start + length <= words.length; start++) {
+      const run = words.slice(start, start + length);
+      if (run.some((w) => w.claimed)) continue;
+      const key = run.map((w) => w.key).join("");
+      const entry = entries.find((e) => e.key === key);
+      if (entry) found.push({ entry, start });
+    }
+    if (found.length === 0) continue;
+
+    const target = relativePosition * words.length;
+    found.sort(
+      (a, b) => Math.abs(a.start - target) - Math.abs(b.start - target),
+    );
+    const best = found[0]!;
+    return {
+      entry: best.entry,
+      words: words.slice(best.start, best.start + length),
+      unique: found.length === 1,
+    };
+  }
+  return undefined;
+}
+
+/** NFC, case-folded, with spaces and surrounding punctuation removed. */
+function normalize(text: string): string {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/^[\p{P}\p{S}]+|[\p{P}\p{S}]+$/gu, "")
+    .replace(/\s+/g, "");
+}
@@ -2,7 +2,8 @@
 /**
  * GLOST CLI
  * 
- * Command-line interface for GLOST plugin management.
+ * Command-line interface for GLOST plugin management, trace inspection and
+ * ParallelDocument linting.
  * 
  * @packageDocumentation
  */
@@ -15,6 +16,8 @@ import {
   showStats,
   createPluginTemplate,
 } from "./commands/plugins.js";
+import { showTraceSummary, exportTrace } from "./commands/trace.js";
+import { lintAlignment } from "./commands/align.js";
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -26,6 +29,8 @@ GLOST CLI - Plugin Management Tool
 
 Usage:
   glost plugins <command> [options]
+  glost trace <command> [options]
+  glost align <command> [options]
 
 Commands:
   list [--category=<cat>] [--language=<lang>] [--verbose]
@@ -49,10 +54,25 @@ Commands:
   help
     Show this help message
 
+Trace commands:
+  trace summary <file> [--kind=<kind>] [--limit=<n>]
+    Print a summary table of a saved processing trace
+    
+  trace export <file> --format=<chrome|otel> [--output=<file>]
+    Convert a saved trace to Chrome trace-event JSON or OpenTelemetry spans
+
+Align commands:
+  align lint <file> [--fix] [--output=<file>]
+    Check a saved ParallelDocument for dangling refs, level mismatches and
+    other structural problems; --fix repairs safe cases in place
+
 Options:
   --category=<category>   Filter by category (transformer, enhancer, generator, analyzer, utility)
   --language=<lang>       Filter by language support (th, ja, ko, en, etc.)
   --verbose, -v           Show detailed information
+  --kind=<kind>           Only show spans of one kind (plugin, hook, provider)
+  --limit=<n>             Only show the n slowest rows
+  --fix                   Repair safe lint problems (empty or repeated refs)
 
 Examples:
   glost plugins list
@@ -62,6 +82,10 @@ Examples:
   glost plugins validate transcription translation frequency
   glost plugins stats
   glost plugins create MyCustomPlugin
+  glost trace summary trace.json --kind=hook
+  glost trace export trace.json --format=chrome --output=chrome-trace.json
+  glost align lint bible.parallel.json
+  glost align lint bible.parallel.json --fix --output=fixed.json
 `);
 }
 
@@ -160,6 +184,74 @@ if (command === "plugins") {
       process.exit(1);
     }
   }
+} else if (command === "trace") {
+  const options = parseOptions(args.slice(2));
+  const file = args[2];
+
+  switch (subcommand) {
+    case "summary": {
+      if (!file || file.startsWith("--")) {
+        console.error("Error: summary requires a trace file");
+        process.exit(1);
+      }
+      showTraceSummary(file, {
+        kind: options.kind,
+        limit: options.limit ? Number(options.limit) : undefined,
+      });
+      break;
+    }
+
+    case "export": {
+      if (!file || file.startsWith("--")) {
+        console.error("Error: export requires a trace file");
+        process.exit(1);
+      }
+      if (options.format !== "chrome" && options.format !== "otel") {
+        console.error("Error: export requires --format=chrome or --format=otel");
+        process.exit(1);
+      }
+      exportTrace(file, { format: options.format, output: options.output });
+      break;
+    }
+
+    case "help":
+    case undefined: {
+      showHelp();
+      break;
+    }
+
+    default: {
+      console.error(`Unknown command: ${subcommand}`);
+      console.error('Run "glost trace help" for usage information');
+      process.exit(1);
+    }
+  }
+} else if (command === "align") {
+  const options = parseOptions(args.slice(2));
+  const file = args[2];
+
+  switch (subcommand) {
+    case "lint": {
+      if (!file || file.startsWith("--")) {
+        console.error("Error: lint requires a ParallelDocument file");
+        process.exit(1);
+      }
+      lintAlignment(file, { fix: options.fix, output: options.output });
+      break;
+    }
+
+    case "help":
+    case undefined: {
+      showHelp();
+      break;
+    }
+
+    default: {
+      console.error(`Unknown command: ${subcommand}`);
+      console.error('Run "glost align help" for usage information');
+      process.exit(1);
+    }
+  }
 } else if (command === "help" || command === "--help" || command === "-h" || !command) {
   showHelp();
 } else {
@@ -0,0 +1,95 @@
+/**
+ * Align Commands
+ *
+ * CLI commands for checking saved `ParallelDocument` files from
+ * `@glotblocks/glost-align`.
+ *
+ * @packageDocumentation
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import {
+  fixParallelDocument,
+  lintParallelDocument,
+  parseParallelDocument,
+  serializeParallelDocument,
+} from "@glotblocks/glost-align";
+import type { LintDiagnostic, ParallelDocument } from "@glotblocks/glost-align";
+
+/**
+ * Read a ParallelDocument file
+ */
+export function readParallelDocument(file: string): ParallelDocument | undefined {
+  try {
+    return parseParallelDocument(readFileSync(file, "utf8"));
+  } catch (error) {
+    console.error(
+      `Could not read ParallelDocument "${file}": ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Format one diagnostic as a single line
+ */
+export function formatDiagnostic(diagnostic: LintDiagnostic): string {
+  const icon = diagnostic.severity === "error" ? "✗" : "⚠";
+  const fix = diagnostic.fixable ? " (fixable)" : "";
+  return `${icon} ${diagnostic.path}  ${diagnostic.message} [${diagnostic.rule}]${fix}`;
+}
+
+/**
+ * Lint a ParallelDocument file, optionally fixing safe cases
+ *
+ * Sets a non-zero exit code when errors remain.
+ */
+export function lintAlignment(file: string, options?: {
+  fix?: boolean;
+  output?: string;
+}): void {
+  const doc = readParallelDocument(file);
+  if (!doc) {
+    process.exitCode = 1;
+    return;
+  }
+
+  let diagnostics: LintDiagnostic[];
+
+  if (options?.fix) {
+    const { fixed, remaining } = fixParallelDocument(doc);
+    const target = options.output ?? file;
+    if (fixed.length > 0 || options.output) {
+      writeFileSync(target, serializeParallelDocument(doc, { pretty: true }));
+      console.log(`Fixed ${fixed.length} problem(s), wrote ${target}`);
+    } else {
+      console.log("Nothing to fix");
+    }
+    diagnostics = remaining;
+  } else {
+    diagnostics = lintParallelDocument(doc);
+  }
+
+  if (diagnostics.length === 0) {
+    console.log(`✓ ${file}: no problems found`);
+    return;
+  }
+
+  console.log(`\n${file}`);
+  for (const diagnostic of diagnostics) {
+    console.log(`  ${formatDiagnostic(diagnostic)}`);
+  }
+
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  const warnings = diagnostics.length - errors;
+  const fixable = diagnostics.filter((d) => d.fixable).length;
+  console.log(`\n${errors} error(s), ${warnings} warning(s)`);
+  if (fixable > 0) {
+    console.log(`${fixable} fixable with --fix`);
+  }
+  console.log();
+
+  if (errors > 0) {
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Trace Commands
+ * 
+ * CLI commands for inspecting processing traces recorded with
+ * `glost({ trace: true })`.
+ * 
+ * @packageDocumentation
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import {
+  formatTraceSummary,
+  summarizeTrace,
+  toChromeTrace,
+  toOpenTelemetrySpans,
+} from "@glotblocks/glost-processor";
+import type { ProcessingTrace, TraceSpanKind } from "@glotblocks/glost-processor";
+
+/**
+ * Read a trace file
+ * 
+ * Accepts a saved `stats.trace` or a whole saved processing result.
+ */
+export function readTrace(file: string): ProcessingTrace | undefined {
+  let json: any;
+  try {
+    json = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    console.error(
+      `Could not read trace "${file}": ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+
+  const trace = json?.metadata?.stats?.trace ?? json;
+  if (!trace || !Array.isArray(trace.spans)) {
+    console.error(`"${file}" does not contain a GLOST processing trace.`);
+    return undefined;
+  }
+
+  return trace;
+}
+
+/**
+ * Print a summary table of a trace
+ */
+export function showTraceSummary(file: string, options?: {
+  kind?: TraceSpanKind;
+  limit?: number;
+}): void {
+  const trace = readTrace(file);
+  if (!trace) {
+    return;
+  }
+
+  let rows = summarizeTrace(trace);
+
+  if (options?.kind) {
+    rows = rows.filter((row) => row.kind === options.kind);
+  }
+
+  if (options?.limit) {
+    rows = rows.slice(0, options.limit);
+  }
+
+  if (rows.length === 0) {
+    console.log("No spans found.");
+    return;
+  }
+
+  const runs = trace.spans.filter((span) => span.kind === "process");
+  const total = runs.reduce((sum, span) => sum + span.duration, 0);
+
+  console.log(`\nTrace ${trace.traceId}`);
+  console.log(`${runs.length} run(s), ${total.toFixed(2)} ms total\n`);
+  console.log(formatTraceSummary(rows));
+  console.log();
+}
+
+/**
+ * Convert a trace to Chrome trace-event JSON or OpenTelemetry spans
+ */
+export function exportTrace(file: string, options: {
+  format: "chrome" | "otel";
+  output?: string;
+}): void {
+  const trace = readTrace(file);
+  if (!trace) {
+    return;
+  }
+
+  const exported = options.format === "chrome"
+    ? toChromeTrace(trace)
+    : toOpenTelemetrySpans(trace);
+  const json = JSON.stringify(exported, null, 2);
+
+  if (options.output) {
+    writeFileSync(options.output, json);
+    console.log(`Wrote ${options.format} trace to ${options.output}`);
+  } else {
+    console.log(json);
+  }
+}
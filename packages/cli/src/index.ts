@@ -1,9 +1,12 @@
 /**
  * GLOST CLI
  * 
- * Command-line tools for GLOST plugin management and discovery.
+ * Command-line tools for GLOST plugin management, discovery, tracing and
+ * ParallelDocument linting.
  * 
  * @packageDocumentation
  */
 
 export * from "./commands/plugins.js";
+export * from "./commands/trace.js";
+export * from "./commands/align.js";
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from "vitest";
+import { createBatchLoader, type GLOSTDataProvider } from "../providers";
+
+describe("createBatchLoader", () => {
+  it("resolves unique inputs with one batch call", async () => {
+    const batchGetData = vi.fn(async (words: string[]) =>
+      new Map(words.filter((w) => w !== "?").map((w) => [w, w.toUpperCase()]))
+    );
+    const getData = vi.fn(async (word: string) => word);
+    const loader = createBatchLoader<string, string>({ getData, batchGetData });
+
+    const results = await Promise.all(
+      ["a", "b", "a", "?"].map((word) => loader.load(word))
+    );
+
+    expect(results).toEqual(["A", "B", "A", undefined]);
+    expect(batchGetData).toHaveBeenCalledTimes(1);
+    expect(batchGetData).toHaveBeenCalledWith(["a", "b", "?"], undefined);
+    expect(getData).not.toHaveBeenCalled();
+  });
+
+  it("falls back to one getData call per unique input", async () => {
+    const getData = vi.fn(async (word: string) => word.length);
+    const loader = createBatchLoader<string, number>({ getData });
+
+    const results = await Promise.all(
+      ["cat", "horse", "cat"].map((word) => loader.load(word))
+    );
+
+    expect(results).toEqual([3, 5, 3]);
+    expect(getData).toHaveBeenCalledTimes(2);
+  });
+
+  it("joins lookups queued after an await into the same batch", async () => {
+    const provider: GLOSTDataProvider<string, string> = {
+      getData: async (word) => word,
+      batchGetData: vi.fn(async (words: string[]) => new Map(words.map((w) => [w, w]))),
+    };
+    const loader = createBatchLoader(provider);
+
+    await Promise.all([
+      loader.load("a"),
+      Promise.resolve().then(() => loader.load("b")),
+    ]);
+
+    expect(provider.batchGetData).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects every waiting lookup when the batch fails", async () => {
+    const loader = createBatchLoader<string, string>({
+      getData: async () => undefined,
+      batchGetData: async () => {
+        throw new Error("offline");
+      },
+    });
+
+    const results = await Promise.allSettled([loader.load("a"), loader.load("b")]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+  });
+});
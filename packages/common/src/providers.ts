@@ -418,3 +418,121 @@ export function createFallbackProviderChain<TInput, TOutput>(
     },
   };
 }
+
+/**
+ * Batch loader returned by {@link createBatchLoader}
+ */
+export interface BatchLoader<TInput, TOutput> {
+  /**
+   * Queue an input for the next batch
+   *
+   * Inputs with the same cache key that are queued before the batch runs
+   * share one lookup.
+   *
+   * @param input - Input to look up
+   * @returns Output data if found, undefined otherwise
+   */
+  load(input: TInput): Promise<TOutput | undefined>;
+}
+
+/**
+ * Create a loader that coalesces lookups into batches
+ *
+ * Every `load()` call made before the next macrotask is deduplicated by
+ * cache key and resolved with a single `batchGetData()` call. Providers
+ * without a batch method fall back to one `getData()` call per unique input.
+ *
+ * This lets word-level visitors, which run concurrently for every word in a
+ * document or stream chunk, share one provider round-trip. With the
+ * processor's `concurrency` option set, only that many visitors are waiting
+ * when the batch runs, so batches hold at most `concurrency` inputs.
+ *
+ * @param provider - Provider to load data from
+ * @param context - Optional context passed to the provider
+ * @returns Batch loader
+ *
+ * @example
+ * ```typescript
+ * const loader = createBatchLoader(frequencyProvider);
+ *
+ * // Both lookups are resolved with one batchGetData(["猫", "犬"]) call
+ * const [cat, dog] = await Promise.all([loader.load("猫"), loader.load("犬")]);
+ * ```
+ */
+export function createBatchLoader<TInput, TOutput>(
+  provider: GLOSTDataProvider<TInput, TOutput>,
+  context?: ProviderContext
+): BatchLoader<TInput, TOutput> {
+  type PendingLookup = {
+    input: TInput;
+    promise: Promise<TOutput | undefined>;
+    resolve: (value: TOutput | undefined) => void;
+    reject: (error: unknown) => void;
+  };
+
+  let queue = new Map<string, PendingLookup>();
+
+  const getCacheKey = (input: TInput): string => {
+    return provider.cacheKey ? provider.cacheKey(input) : String(input);
+  };
+
+  const lookup = async (inputs: TInput[]): Promise<Map<TInput, TOutput>> => {
+    if (provider.batchGetData) {
+      return provider.batchGetData(inputs, context);
+    }
+
+    const result = new Map<TInput, TOutput>();
+    await Promise.all(
+      inputs.map(async (input) => {
+        const value = await provider.getData(input, context);
+        if (value !== undefined) {
+          result.set(input, value);
+        }
+      })
+    );
+    return result;
+  };
+
+  const flush = (): void => {
+    const pending = [...queue.values()];
+    queue = new Map();
+
+    lookup(pending.map(entry => entry.input)).then(
+      (result) => {
+        for (const entry of pending) {
+          entry.resolve(result.get(entry.input));
+        }
+      },
+      (error) => {
+        for (const entry of pending) {
+          entry.reject(error);
+        }
+      }
+    );
+  };
+
+  return {
+    load(input: TInput): Promise<TOutput | undefined> {
+      const key = getCacheKey(input);
+      const existing = queue.get(key);
+      if (existing) {
+        return existing.promise;
+      }
+
+      let resolve!: PendingLookup["resolve"];
+      let reject!: PendingLookup["reject"];
+      const promise = new Promise<TOutput | undefined>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+
+      // Schedule a macrotask so lookups queued from awaited code still join
+      if (queue.size === 0) {
+        setTimeout(flush, 0);
+      }
+      queue.set(key, { input, promise, resolve, reject });
+
+      return promise;
+    },
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Tests for structural diff and patch
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  diffGLOST,
+  applyGLOSTPatch,
+  createGLOSTWordNode,
+  createGLOSTSentenceNode,
+  createGLOSTParagraphNode,
+  createGLOSTRootNode,
+  GLOSTValidationError,
+} from "../index.js";
+import type { GLOSTRoot, GLOSTSentence, GLOSTWord } from "../index.js";
+
+const word = (value: string, id?: string): GLOSTWord =>
+  createGLOSTWordNode({
+    value,
+    lang: "th",
+    script: "thai",
+    extras: id ? { id } : undefined,
+  });
+
+const sentence = (id: string | undefined, words: GLOSTWord[]): GLOSTSentence =>
+  createGLOSTSentenceNode({
+    originalText: "",
+    lang: "th",
+    script: "thai",
+    children: words,
+    extras: id ? { id } : undefined,
+  });
+
+const doc = (sentences: GLOSTSentence[]): GLOSTRoot =>
+  createGLOSTRootNode({
+    lang: "th",
+    script: "thai",
+    children: [createGLOSTParagraphNode(sentences, { id: "p1" })],
+  });
+
+/**
+ * Document with two stamped sentences: [a b c] [d e]
+ */
+const base = (): GLOSTRoot =>
+  doc([
+    sentence("s1", [word("a", "w1"), word("b", "w2"), word("c", "w3")]),
+    sentence("s2", [word("d", "w4"), word("e", "w5")]),
+  ]);
+
+const sentences = (root: GLOSTRoot) => root.children[0]!.children;
+
+const roundTrip = (a: GLOSTRoot, b: GLOSTRoot) => {
+  const patch = diffGLOST(a, b);
+  expect(applyGLOSTPatch(a, patch)).toEqual(b);
+  return patch;
+};
+
+describe("diffGLOST", () => {
+  it("returns no changes for identical documents", () => {
+    expect(diffGLOST(base(), base()).changes).toEqual([]);
+  });
+
+  it("reports attribute changes key by key", () => {
+    const a = base();
+    const b = base();
+    const target = sentences(b)[0]!.children[1] as GLOSTWord;
+    target.extras = { id: "w2", frequency: { level: "rare" } };
+    target.transcription = { paiboon: { text: "bii" } };
+
+    const patch = roundTrip(a, b);
+
+    expect(patch.changes).toEqual([
+      {
+        type: "modify",
+        path: [0, 0, 1],
+        nodeType: "WordNode",
+        id: "w2",
+        changes: [
+          { path: ["transcription"], kind: "add", after: { paiboon: { text: "bii" } } },
+          {
+            path: ["extras", "frequency"],
+            kind: "add",
+            after: { level: "rare" },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reports text changes on the matched text node", () => {
+    const a = base();
+    const b = base();
+    (sentences(b)[1]!.children[0] as GLOSTWord).children[0] = {
+      type: "TextNode",
+      value: "D",
+    };
+
+    const patch = roundTrip(a, b);
+
+    expect(patch.changes).toEqual([
+      {
+        type: "modify",
+        path: [0, 1, 0, 0],
+        nodeType: "TextNode",
+        changes: [{ path: ["value"], kind: "update", before: "d", after: "D" }],
+      },
+    ]);
+  });
+
+  it("reports inserted and removed words", () => {
+    const a = base();
+    const b = doc([
+      sentence("s1", [word("a", "w1"), word("x", "w9"), word("c", "w3")]),
+      sentence("s2", [word("d", "w4"), word("e", "w5")]),
+    ]);
+
+    const patch = roundTrip(a, b);
+
+    expect(patch.changes.map((c) => [c.type, c.type === "move" ? c.to : c.path, c.id]))
+      .toEqual([
+        ["remove", [0, 0, 1], "w2"],
+        ["insert", [0, 0, 1], "w9"],
+      ]);
+  });
+
+  it("reports reordered words as a single move", () => {
+    const a = base();
+    const b = doc([
+      sentence("s1", [word("c", "w3"), word("a", "w1"), word("b", "w2")]),
+      sentence("s2", [word("d", "w4"), word("e", "w5")]),
+    ]);
+
+    const patch = roundTrip(a, b);
+
+    expect(patch.changes).toEqual([
+      { type: "move", from: [0, 0, 2], to: [0, 0, 0], nodeType: "WordNode", id: "w3" },
+    ]);
+  });
+
+  it("reports words moved to another sentence", () => {
+    const a = base();
+    const b = doc([
+      sentence("s1", [word("a", "w1"), word("b", "w2")]),
+      sentence("s2", [word("c", "w3"), word("d", "w4"), word("e", "w5")]),
+    ]);
+
+    const patch = roundTrip(a, b);
+
+    expect(patch.changes).toEqual([
+      { type: "move", from: [0, 0, 2], to: [0, 1, 0], nodeType: "WordNode", id: "w3" },
+    ]);
+  });
+
+  it("handles new sentences that take over existing words", () => {
+    const a = base();
+    const b = doc([
+      sentence("s1", [word("a", "w1")]),
+      sentence("s3", [word("b", "w2"), word("c", "w3")]),
+      sentence("s2", [word("d", "w4"), word("e", "w5")]),
+    ]);
+
+    const patch = roundTrip(a, b);
+
+    const insert = patch.changes.find((c) => c.type === "insert");
+    expect(insert).toMatchObject({ path: [0, 1], id: "s3" });
+    expect(patch.changes.filter((c) => c.type === "move")).toHaveLength(2);
+  });
+
+  it("removes sentences after moving their surviving words out", () => {
+    const a = base();
+    const b = doc([
+      sentence("s1", [word("a", "w1"), word("b", "w2"), word("c", "w3"), word("e", "w5")]),
+    ]);
+
+    const patch = roundTrip(a, b);
+
+    expect(patch.changes.map((c) => c.type)).toEqual(["remove", "move", "remove"]);
+    expect(patch.changes[0]).toMatchObject({ path: [0, 1, 0], id: "w4" });
+    expect(patch.changes[2]).toMatchObject({ path: [0, 1], id: "s2" });
+  });
+
+  it("falls back to position for nodes without ids", () => {
+    const a = doc([sentence(undefined, [word("a"), word("b")])]);
+    const b = doc([sentence(undefined, [word("a"), word("B"), word("c")])]);
+
+    const patch = roundTrip(a, b);
+
+    expect(patch.changes.map((c) => c.type)).toEqual(["insert", "modify"]);
+    expect(patch.changes[0]).toMatchObject({ path: [0, 0, 2] });
+    expect(patch.changes[1]).toMatchObject({ path: [0, 0, 1, 0] });
+  });
+
+  it("skips ignored properties", () => {
+    const a = base();
+    const b = base();
+    sentences(b)[0]!.position = {
+      start: { line: 1, column: 1, offset: 0 },
+      end: { line: 1, column: 4, offset: 3 },
+    };
+
+    expect(diffGLOST(a, b, { ignore: ["position"] }).changes).toEqual([]);
+    expect(diffGLOST(a, b).changes).toHaveLength(1);
+  });
+});
+
+describe("applyGLOSTPatch", () => {
+  it("does not modify the input document", () => {
+    const a = base();
+    const snapshot = structuredClone(a);
+    const b = doc([sentence("s2", [word("d", "w4")])]);
+
+    applyGLOSTPatch(a, diffGLOST(a, b));
+
+    expect(a).toEqual(snapshot);
+  });
+
+  it("removes values marked as removed", () => {
+    const a = base();
+    (sentences(a)[0]!.children[0] as GLOSTWord).extras!.gender = "male";
+
+    roundTrip(a, base());
+  });
+
+  it("throws GLOSTValidationError for paths that do not exist", () => {
+    const patch = diffGLOST(
+      base(),
+      doc([sentence("s1", [word("a", "w1")])]),
+    );
+
+    expect(() =>
+      applyGLOSTPatch(doc([sentence("s1", [])]), patch),
+    ).toThrow(GLOSTValidationError);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for source position helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createPositionMapper,
+  findNodeAtOffset,
+  createGLOSTWordNode,
+  createGLOSTSentenceNode,
+  createGLOSTParagraphNode,
+  createGLOSTRootNode,
+  createSimpleDocument,
+  getWordText,
+} from "../index.js";
+
+/**
+ * Build "Hello world" / "Bye" as two paragraphs with positions
+ */
+function createPositionedDocument() {
+  const source = "Hello world\n\nBye";
+  const mapper = createPositionMapper(source);
+  const word = (value: string, start: number) =>
+    createGLOSTWordNode({
+      value,
+      lang: "en",
+      script: "latin",
+      position: mapper.positionAt(start, start + value.length),
+    });
+
+  const first = createGLOSTSentenceNode({
+    originalText: "Hello world",
+    lang: "en",
+    script: "latin",
+    children: [word("Hello", 0), word("world", 6)],
+    position: mapper.positionAt(0, 11),
+  });
+  const second = createGLOSTSentenceNode({
+    originalText: "Bye",
+    lang: "en",
+    script: "latin",
+    children: [word("Bye", 13)],
+    position: mapper.positionAt(13, 16),
+  });
+
+  return createGLOSTRootNode({
+    lang: "en",
+    script: "latin",
+    children: [
+      createGLOSTParagraphNode([first], undefined, mapper.positionAt(0, 11)),
+      createGLOSTParagraphNode([second], undefined, mapper.positionAt(13, 16)),
+    ],
+  });
+}
+
+describe("Source Positions", () => {
+  describe("createPositionMapper", () => {
+    it("should map offsets to 1-indexed lines and columns", () => {
+      const mapper = createPositionMapper("ab\ncd\r\nef\rgh");
+
+      expect(mapper.pointAt(0)).toEqual({ line: 1, column: 1, offset: 0 });
+      expect(mapper.pointAt(4)).toEqual({ line: 2, column: 2, offset: 4 });
+      expect(mapper.pointAt(7)).toEqual({ line: 3, column: 1, offset: 7 });
+      expect(mapper.pointAt(10)).toEqual({ line: 4, column: 1, offset: 10 });
+    });
+
+    it("should create positions spanning a range", () => {
+      const mapper = createPositionMapper("Hello\nworld");
+
+      expect(mapper.positionAt(6, 11)).toEqual({
+        start: { line: 2, column: 1, offset: 6 },
+        end: { line: 2, column: 6, offset: 11 },
+      });
+    });
+  });
+
+  describe("node factories", () => {
+    it("should copy word positions onto the text child", () => {
+      const position = createPositionMapper("hi").positionAt(0, 2);
+      const word = createGLOSTWordNode({ value: "hi", position });
+
+      expect(word.position).toEqual(position);
+      expect(word.children[0]!.position).toEqual(position);
+      expect(word.children[0]!.position).not.toBe(position);
+    });
+
+    it("should not add position keys when none are given", () => {
+      const word = createGLOSTWordNode({ value: "hi" });
+
+      expect("position" in word).toBe(false);
+      expect("position" in word.children[0]!).toBe(false);
+    });
+  });
+
+  describe("findNodeAtOffset", () => {
+    it("should return the deepest node containing the offset", () => {
+      const doc = createPositionedDocument();
+      const node = findNodeAtOffset(doc, 7);
+
+      expect(node?.type).toBe("TextNode");
+      expect(node && "value" in node && node.value).toBe("world");
+    });
+
+    it("should return the deepest node of a given type", () => {
+      const doc = createPositionedDocument();
+
+      const word = findNodeAtOffset(doc, 14, "WordNode");
+      expect(word && getWordText(word)).toBe("Bye");
+
+      const paragraph = findNodeAtOffset(doc, 14, "ParagraphNode");
+      expect(paragraph).toBe(doc.children[1]);
+    });
+
+    it("should treat end offsets as exclusive", () => {
+      const doc = createPositionedDocument();
+
+      expect(findNodeAtOffset(doc, 5, "WordNode")).toBeUndefined();
+      expect(findNodeAtOffset(doc, 5, "SentenceNode")).toBeDefined();
+    });
+
+    it("should return undefined for offsets between paragraphs", () => {
+      const doc = createPositionedDocument();
+
+      expect(findNodeAtOffset(doc, 12)).toBeUndefined();
+      expect(findNodeAtOffset(doc, 100)).toBeUndefined();
+    });
+
+    it("should return undefined for documents without positions", () => {
+      const doc = createSimpleDocument(
+        [createGLOSTWordNode({ value: "hello", lang: "en", script: "latin" })],
+        "en",
+        "latin",
+      );
+
+      expect(findNodeAtOffset(doc, 0)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for CSS-like selectors
+ */
+
+import { describe, it, expect, expectTypeOf } from "vitest";
+import {
+  select,
+  selectAll,
+  createGLOSTWordNode,
+  createGLOSTSentenceNode,
+  createGLOSTParagraphNode,
+  createGLOSTRootNode,
+  getWordText,
+  GLOSTParseError,
+} from "../index.js";
+import type {
+  GLOSTNode,
+  GLOSTRoot,
+  GLOSTSyllable,
+  GLOSTWord,
+  SelectableParallelDocument,
+} from "../index.js";
+
+const syllable = (tone: number): GLOSTSyllable => ({
+  type: "SyllableNode",
+  structure: { nucleus: "a" },
+  tone,
+  children: [],
+});
+
+const word = (
+  value: string,
+  extras?: GLOSTWord["extras"],
+  syllables: GLOSTSyllable[] = [],
+): GLOSTWord => {
+  const node = createGLOSTWordNode({ value, lang: "th", script: "thai", extras });
+  node.children.push(...syllables);
+  return node;
+};
+
+/**
+ * [สวัสดี ครับ] [ภาษา ไทย ยาก]
+ */
+const createDocument = (): GLOSTRoot =>
+  createGLOSTRootNode({
+    lang: "th",
+    script: "thai",
+    children: [
+      createGLOSTParagraphNode([
+        createGLOSTSentenceNode({
+          originalText: "สวัสดีครับ",
+          lang: "th",
+          script: "thai",
+          children: [
+            word("สวัสดี", { frequency: { level: "common" } }, [syllable(1), syllable(3)]),
+            word("ครับ", { frequency: { level: "rare" }, tags: ["polite", "male"] }),
+          ],
+        }),
+        createGLOSTSentenceNode({
+          originalText: "ภาษาไทยยาก",
+          lang: "th",
+          script: "thai",
+          children: [
+            word("ภาษา", { difficulty: 2 }, [syllable(0)]),
+            word("ไทย", { frequency: { level: "rare" }, difficulty: 1 }),
+            word("ยาก", { difficulty: 3 }),
+          ],
+        }),
+      ]),
+    ],
+  });
+
+const texts = (words: GLOSTWord[]) => words.map(getWordText);
+
+describe("selectAll", () => {
+  it("matches node types in document order", () => {
+    const doc = createDocument();
+
+    expect(texts(selectAll("WordNode", doc))).toEqual([
+      "สวัสดี",
+      "ครับ",
+      "ภาษา",
+      "ไทย",
+      "ยาก",
+    ]);
+    expect(selectAll("SentenceNode", doc)).toHaveLength(2);
+    expect(selectAll("*", doc)[0]).toBe(doc);
+  });
+
+  it("matches nested attribute paths", () => {
+    const doc = createDocument();
+
+    expect(
+      texts(selectAll("SentenceNode > WordNode[lang=th][extras.frequency.level=rare]", doc)),
+    ).toEqual(["ครับ", "ไทย"]);
+    expect(texts(selectAll("WordNode[extras.frequency]", doc))).toEqual([
+      "สวัสดี",
+      "ครับ",
+      "ไทย",
+    ]);
+    expect(texts(selectAll('WordNode[extras.frequency.level != "rare"]', doc))).toEqual([
+      "สวัสดี",
+      "ภาษา",
+      "ยาก",
+    ]);
+  });
+
+  it("supports string, list and numeric operators", () => {
+    const doc = createDocument();
+
+    expect(texts(selectAll("WordNode[extras.tags~=polite]", doc))).toEqual(["ครับ"]);
+    expect(texts(selectAll("WordNode[extras.frequency.level^=com]", doc))).toEqual([
+      "สวัสดี",
+    ]);
+    expect(texts(selectAll("WordNode[extras.difficulty>=2]", doc))).toEqual([
+      "ภาษา",
+      "ยาก",
+    ]);
+    expect(texts(selectAll("WordNode[extras.difficulty<2]", doc))).toEqual(["ไทย"]);
+  });
+
+  it("matches :has() and :not()", () => {
+    const doc = createDocument();
+
+    expect(texts(selectAll("WordNode:has(SyllableNode[tone=3])", doc))).toEqual([
+      "สวัสดี",
+    ]);
+    expect(texts(selectAll("WordNode:has(> SyllableNode)", doc))).toEqual([
+      "สวัสดี",
+      "ภาษา",
+    ]);
+    expect(selectAll("SentenceNode:has(WordNode[extras.difficulty=3])", doc)).toHaveLength(1);
+    expect(texts(selectAll("WordNode:not([extras.frequency])", doc))).toEqual([
+      "ภาษา",
+      "ยาก",
+    ]);
+  });
+
+  it("matches structural pseudo-classes", () => {
+    const doc = createDocument();
+
+    expect(texts(selectAll("WordNode:nth-of-type(2)", doc))).toEqual(["ครับ", "ไทย"]);
+    expect(texts(selectAll("WordNode:last-of-type", doc))).toEqual(["ครับ", "ยาก"]);
+    expect(texts(selectAll("SentenceNode:nth-child(2) > WordNode:nth-child(odd)", doc)))
+      .toEqual(["ภาษา", "ยาก"]);
+    expect(selectAll(":root", doc)).toEqual([doc]);
+  });
+
+  it("supports sibling combinators and selector lists", () => {
+    const doc = createDocument();
+
+    expect(texts(selectAll("WordNode[extras.difficulty=2] + WordNode", doc))).toEqual(["ไทย"]);
+    expect(texts(selectAll("WordNode[extras.difficulty=2] ~ WordNode", doc))).toEqual([
+      "ไทย",
+      "ยาก",
+    ]);
+    expect(selectAll("SentenceNode, SyllableNode[tone=0]", doc).map((n) => n.type)).toEqual([
+      "SentenceNode",
+      "SentenceNode",
+      "SyllableNode",
+    ]);
+  });
+
+  it("infers result types from the selector", () => {
+    const doc = createDocument();
+
+    expectTypeOf(selectAll("SentenceNode > WordNode[lang=th]", doc)).toEqualTypeOf<
+      GLOSTWord[]
+    >();
+    expectTypeOf(select("WordNode:has(SyllableNode) > SyllableNode", doc)).toEqualTypeOf<
+      GLOSTSyllable | undefined
+    >();
+    expectTypeOf(
+      selectAll("WordNode:has(SyllableNode:not([tone = 0])), SentenceNode > WordNode", doc),
+    ).toEqualTypeOf<GLOSTWord[]>();
+    expectTypeOf(selectAll("[lang=th]", doc)).toEqualTypeOf<GLOSTNode[]>();
+  });
+
+  it("searches every tree of a parallel document", () => {
+    const english = createGLOSTRootNode({
+      lang: "en",
+      script: "latin",
+      children: [
+        createGLOSTParagraphNode([
+          createGLOSTSentenceNode({
+            originalText: "Hello",
+            lang: "en",
+            script: "latin",
+            children: [createGLOSTWordNode({ value: "Hello", lang: "en", script: "latin" })],
+          }),
+        ]),
+      ],
+    });
+    const parallel: SelectableParallelDocument = {
+      type: "ParallelDocument",
+      trees: { th: createDocument(), en: english },
+    };
+
+    expect(selectAll("WordNode", parallel)).toHaveLength(6);
+    expect(texts(selectAll("RootNode[lang=en] WordNode", parallel))).toEqual(["Hello"]);
+    expect(selectAll("ParallelDocument > RootNode", parallel)).toHaveLength(2);
+  });
+
+  it("throws GLOSTParseError for invalid selectors", () => {
+    const doc = createDocument();
+
+    expect(() => selectAll("WordNode[", doc)).toThrow(GLOSTParseError);
+    expect(() => selectAll("WordNode:unknown", doc)).toThrow(/unknown pseudo-class/);
+    expect(() => selectAll("WordNode >", doc)).toThrow(GLOSTParseError);
+    expect(() => selectAll("WordNode:nth-of-type(x)", doc)).toThrow(GLOSTParseError);
+  });
+});
+
+describe("select", () => {
+  it("returns the first match or undefined", () => {
+    const doc = createDocument();
+
+    const rare = select("WordNode[extras.frequency.level=rare]", doc);
+    expect(rare && getWordText(rare)).toBe("ครับ");
+    expect(select("WordNode[extras.frequency.level=unknown]", doc)).toBeUndefined();
+  });
+});
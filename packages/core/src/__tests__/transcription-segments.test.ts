@@ -0,0 +1,83 @@
+/**
+ * Tests for segmented transcriptions (e.g. furigana per kanji)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  TranscriptionInfoSchema,
+  TranscriptionSegmentSchema,
+  TransliterationDataSchema,
+  createGLOSTWordNode,
+  getWordTranscription,
+  getWordTranscriptionSegments,
+  schemas,
+} from "../index.js";
+import type { TranscriptionSegment } from "../index.js";
+
+const segments: TranscriptionSegment[] = [
+  { base: "食", ruby: "た" },
+  { base: "べ" },
+  { base: "物", ruby: "もの" },
+];
+
+describe("TranscriptionSegmentSchema", () => {
+  it("accepts segments with and without ruby", () => {
+    for (const segment of segments) {
+      expect(TranscriptionSegmentSchema.safeParse(segment).success).toBe(true);
+    }
+    expect(schemas.TranscriptionSegment).toBe(TranscriptionSegmentSchema);
+  });
+
+  it("rejects segments without a string base or with a non-string ruby", () => {
+    expect(TranscriptionSegmentSchema.safeParse({ ruby: "た" }).success).toBe(false);
+    expect(TranscriptionSegmentSchema.safeParse({ base: "食", ruby: 1 }).success).toBe(false);
+  });
+
+  it("validates segments inside transcription info", () => {
+    expect(
+      TranscriptionInfoSchema.safeParse({ text: "たべもの", system: "furigana", segments }).success,
+    ).toBe(true);
+    expect(
+      TranscriptionInfoSchema.safeParse({
+        text: "たべもの",
+        system: "furigana",
+        segments: [{ ruby: "た" }],
+      }).success,
+    ).toBe(false);
+    expect(
+      TransliterationDataSchema.safeParse({
+        furigana: { text: "たべもの", system: "furigana", segments },
+      }).success,
+    ).toBe(true);
+  });
+});
+
+describe("getWordTranscriptionSegments", () => {
+  it("returns the segments for a system", () => {
+    const word = createGLOSTWordNode({
+      value: "食べ物",
+      lang: "ja",
+      script: "mixed",
+      transcription: { furigana: { text: "たべもの", segments } },
+    });
+
+    expect(getWordTranscriptionSegments(word, "furigana")).toEqual(segments);
+    expect(getWordTranscription(word, "furigana")).toBe("たべもの");
+  });
+
+  it("returns null without segments, so the whole-word text applies", () => {
+    const word = createGLOSTWordNode({
+      value: "食べ物",
+      lang: "ja",
+      script: "mixed",
+      transcription: {
+        furigana: { text: "たべもの" },
+        romaji: { text: "tabemono", segments: [] },
+      },
+    });
+
+    expect(getWordTranscriptionSegments(word, "furigana")).toBeNull();
+    expect(getWordTranscriptionSegments(word, "romaji")).toBeNull();
+    expect(getWordTranscriptionSegments(word, "hepburn")).toBeNull();
+  });
+});
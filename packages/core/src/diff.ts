@@ -0,0 +1,714 @@
+/**
+ * GLOST Structural Diff
+ *
+ * Compare two versions of a GLOST document and produce a patch of
+ * node-level changes (insert, remove, move, modify) that can be shown
+ * in review UIs or replayed with {@link applyGLOSTPatch}.
+ *
+ * @packageDocumentation
+ */
+
+import { GLOSTValidationError } from "./errors.js";
+import type { GLOSTNode, GLOSTRoot } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Path to a node as child indices from the root (`[]` is the root)
+ */
+export type GLOSTNodePath = number[];
+
+/**
+ * A change to a single property of a node
+ *
+ * `transcription`, `metadata` and `extras` are compared key by key, so
+ * their changes point at the innermost changed value (for example
+ * `["extras", "frequency", "level"]`). Other properties are compared
+ * as a whole.
+ */
+export interface GLOSTFieldChange {
+  /** Property path on the node */
+  path: string[];
+  /** Whether the value was added, removed or changed */
+  kind: "add" | "remove" | "update";
+  /** Previous value (absent for `add`) */
+  before?: unknown;
+  /** New value (absent for `remove`) */
+  after?: unknown;
+}
+
+/**
+ * A single node-level change
+ *
+ * Changes are applied in order and each path refers to the tree as it
+ * is after the previous changes. Removals of deleted nodes come first
+ * (paths into the old document) and modifications come last (paths
+ * into the new document).
+ */
+export type GLOSTChange =
+  | {
+      type: "remove";
+      /** Path of the removed node */
+      path: GLOSTNodePath;
+      /** The removed subtree */
+      node: GLOSTNode;
+      /** `extras.id` of the removed node, if any */
+      id?: string;
+    }
+  | {
+      type: "insert";
+      /** Path the node is inserted at */
+      path: GLOSTNodePath;
+      /** The inserted subtree */
+      node: GLOSTNode;
+      /** `extras.id` of the inserted node, if any */
+      id?: string;
+    }
+  | {
+      type: "move";
+      /** Path of the node before the move */
+      from: GLOSTNodePath;
+      /** Path of the node after the move */
+      to: GLOSTNodePath;
+      /** Type of the moved node */
+      nodeType: string;
+      /** `extras.id` of the moved node, if any */
+      id?: string;
+    }
+  | {
+      type: "modify";
+      /** Path of the modified node */
+      path: GLOSTNodePath;
+      /** Type of the modified node */
+      nodeType: string;
+      /** `extras.id` of the modified node, if any */
+      id?: string;
+      /** Property changes */
+      changes: GLOSTFieldChange[];
+    };
+
+/**
+ * Result of {@link diffGLOST}
+ */
+export interface GLOSTPatch {
+  /** Changes in application order */
+  changes: GLOSTChange[];
+}
+
+/**
+ * Options for {@link diffGLOST}
+ */
+export interface DiffGLOSTOptions {
+  /**
+   * Node properties to leave out of the comparison (e.g. `["position"]`
+   * when source offsets are expected to shift)
+   */
+  ignore?: string[];
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Compute a structural diff between two GLOST documents
+ *
+ * Nodes are matched by `extras.id` (as written by `idStamp`). Nodes
+ * without a matching id fall back to their position: a child is paired
+ * with the node of the same type at the same index under the matched
+ * parent. Unmatched nodes are reported as inserted or removed, matched
+ * nodes that changed parent or order as moved, and matched nodes whose
+ * properties differ as modified.
+ *
+ * @param a - Old document
+ * @param b - New document
+ * @param options - Diff options
+ * @returns Patch that turns `a` into `b`
+ *
+ * @example
+ * ```typescript
+ * const patch = diffGLOST(previous, current);
+ * for (const change of patch.changes) {
+ *   if (change.type === "modify") {
+ *     console.log(change.id, change.changes.map((c) => c.path.join(".")));
+ *   }
+ * }
+ *
+ * // Clients holding `previous` can catch up without the whole document
+ * const updated = applyGLOSTPatch(previous, patch);
+ * ```
+ */
+export function diffGLOST(
+  a: GLOSTRoot,
+  b: GLOSTRoot,
+  options: DiffGLOSTOptions = {},
+): GLOSTPatch {
+  const ignore = new Set(["type", "children", ...(options.ignore ?? [])]);
+  const matches = matchNodes(a, b);
+  const matchedA = new Set(matches.values());
+  const changes: GLOSTChange[] = [];
+
+  const slots = new Map<GLOSTNode, Slot>();
+  const root = createSlot(a, undefined, slots);
+
+  // Nodes that are removed together with their whole subtree go first,
+  // in reverse document order so each path is the node's path in `a`
+  const removals: GLOSTNode[] = [];
+  collectRemovals(a, matchedA, new Map(), removals);
+  for (const node of removals.reverse()) {
+    const slot = slots.get(node)!;
+    changes.push({
+      type: "remove",
+      path: pathOf(slot),
+      node: clone(node),
+      ...idOf(node),
+    });
+    detach(slot);
+  }
+
+  // Rebuild the child lists of `b` top-down
+  placeChildren(b, root, matches, slots, changes);
+
+  // Whatever is left over no longer has a counterpart in `b`
+  for (const slot of collectLeftovers(root, matchedA).reverse()) {
+    changes.push({
+      type: "remove",
+      path: pathOf(slot),
+      node: clone(slot.node),
+      ...idOf(slot.node),
+    });
+    detach(slot);
+  }
+
+  // The tree now has the shape of `b`, so paths are paths in `b`
+  walk(b, [], (node, path) => {
+    const original = matches.get(node);
+    if (!original) return;
+    const fieldChanges = diffFields(original, node, ignore);
+    if (fieldChanges.length > 0) {
+      changes.push({
+        type: "modify",
+        path,
+        nodeType: node.type,
+        ...idOf(node),
+        changes: fieldChanges,
+      });
+    }
+  });
+
+  return { changes };
+}
+
+// ============================================================================
+// Patch
+// ============================================================================
+
+/**
+ * Apply a patch produced by {@link diffGLOST}
+ *
+ * The input document is not modified.
+ *
+ * @param root - Document the patch was computed from
+ * @param patch - Patch to apply
+ * @returns The patched document
+ * @throws {GLOSTValidationError} If a change refers to a node that does not exist
+ *
+ * @example
+ * ```typescript
+ * const updated = applyGLOSTPatch(previous, diffGLOST(previous, current));
+ * ```
+ */
+export function applyGLOSTPatch<T extends GLOSTRoot>(
+  root: T,
+  patch: GLOSTPatch,
+): T {
+  const result = clone(root);
+
+  for (const change of patch.changes) {
+    switch (change.type) {
+      case "remove": {
+        const [children, index] = resolveChild(result, change.path, false);
+        children.splice(index, 1);
+        break;
+      }
+      case "insert": {
+        const [children, index] = resolveChild(result, change.path, true);
+        children.splice(index, 0, clone(change.node));
+        break;
+      }
+      case "move": {
+        const [from, fromIndex] = resolveChild(result, change.from, false);
+        const [node] = from.splice(fromIndex, 1);
+        const [to, toIndex] = resolveChild(result, change.to, true);
+        to.splice(toIndex, 0, node!);
+        break;
+      }
+      case "modify": {
+        const node = resolveNode(result, change.path);
+        for (const fieldChange of change.changes) {
+          applyFieldChange(node as Record<string, unknown>, fieldChange);
+        }
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Node matching
+// ============================================================================
+
+/**
+ * Match nodes of `b` to nodes of `a`
+ *
+ * @returns Map from each matched `b` node to its `a` counterpart
+ */
+function matchNodes(a: GLOSTRoot, b: GLOSTRoot): Map<GLOSTNode, GLOSTNode> {
+  const matches = new Map<GLOSTNode, GLOSTNode>();
+  const used = new Set<GLOSTNode>();
+
+  // Ids are matched first, anywhere in the tree
+  const byId = new Map<string, GLOSTNode>();
+  walk(a, [], (node) => {
+    const id = getId(node);
+    if (id !== undefined && !byId.has(id)) {
+      byId.set(id, node);
+    }
+  });
+  walk(b, [], (node) => {
+    const id = getId(node);
+    const candidate = id === undefined ? undefined : byId.get(id);
+    if (candidate && candidate.type === node.type && !used.has(candidate)) {
+      matches.set(node, candidate);
+      used.add(candidate);
+    }
+  });
+
+  // Remaining children fall back to their index under matched parents
+  const pairUp = (nodeA: GLOSTNode, nodeB: GLOSTNode): void => {
+    const childrenA = childrenOf(nodeA);
+    childrenOf(nodeB).forEach((childB, index) => {
+      const childA = childrenA[index];
+      if (
+        !matches.has(childB) &&
+        childA &&
+        !used.has(childA) &&
+        childA.type === childB.type &&
+        (getId(childA) === undefined || getId(childB) === undefined)
+      ) {
+        matches.set(childB, childA);
+        used.add(childA);
+      }
+    });
+    for (const childB of childrenOf(nodeB)) {
+      const childA = matches.get(childB);
+      if (childA) pairUp(childA, childB);
+    }
+  };
+
+  matches.set(b, a);
+  pairUp(a, b);
+  return matches;
+}
+
+// ============================================================================
+// Working tree
+// ============================================================================
+
+/**
+ * Node in the working tree used to compute change paths
+ */
+interface Slot {
+  node: GLOSTNode;
+  parent?: Slot;
+  children: Slot[];
+  /** Whether the slot holds a node of `b` inserted by the patch */
+  inserted?: boolean;
+}
+
+function createSlot(
+  node: GLOSTNode,
+  parent: Slot | undefined,
+  slots: Map<GLOSTNode, Slot>,
+): Slot {
+  const slot: Slot = { node, parent, children: [] };
+  slot.children = childrenOf(node).map((child) =>
+    createSlot(child, slot, slots),
+  );
+  slots.set(node, slot);
+  return slot;
+}
+
+function pathOf(slot: Slot): GLOSTNodePath {
+  const path: number[] = [];
+  let current = slot;
+  while (current.parent) {
+    path.unshift(current.parent.children.indexOf(current));
+    current = current.parent;
+  }
+  return path;
+}
+
+function detach(slot: Slot): void {
+  if (slot.parent) {
+    slot.parent.children.splice(slot.parent.children.indexOf(slot), 1);
+    slot.parent = undefined;
+  }
+}
+
+function attach(slot: Slot, parent: Slot, index: number): void {
+  parent.children.splice(index, 0, slot);
+  slot.parent = parent;
+}
+
+/**
+ * Collect unmatched subtrees of `a` that contain no matched node
+ */
+function collectRemovals(
+  node: GLOSTNode,
+  matchedA: Set<GLOSTNode>,
+  memo: Map<GLOSTNode, boolean>,
+  removals: GLOSTNode[],
+): void {
+  for (const child of childrenOf(node)) {
+    if (!containsMatch(child, matchedA, memo)) {
+      removals.push(child);
+    } else {
+      collectRemovals(child, matchedA, memo, removals);
+    }
+  }
+}
+
+function containsMatch(
+  node: GLOSTNode,
+  matchedA: Set<GLOSTNode>,
+  memo: Map<GLOSTNode, boolean>,
+): boolean {
+  let result = memo.get(node);
+  if (result === undefined) {
+    result =
+      matchedA.has(node) ||
+      childrenOf(node).some((child) => containsMatch(child, matchedA, memo));
+    memo.set(node, result);
+  }
+  return result;
+}
+
+/**
+ * Make the children of `slot` match the children of `nodeB`, recursively
+ *
+ * Matched children that keep their relative order stay put; the rest
+ * are moved or inserted right after the previous child.
+ */
+function placeChildren(
+  nodeB: GLOSTNode,
+  slot: Slot,
+  matches: Map<GLOSTNode, GLOSTNode>,
+  slots: Map<GLOSTNode, Slot>,
+  changes: GLOSTChange[],
+): void {
+  const childrenB = childrenOf(nodeB);
+  const wanted = new Map<Slot, number>();
+  childrenB.forEach((childB, index) => {
+    const childA = matches.get(childB);
+    if (childA) wanted.set(slots.get(childA)!, index);
+  });
+
+  // Children already under this slot in the right relative order
+  const present = slot.children.filter((child) => wanted.has(child));
+  const stable = longestIncreasingRun(present, (child) => wanted.get(child)!);
+
+  const placed: Array<{ childB: GLOSTNode; slot: Slot; recurse: boolean }> =
+    [];
+  let previous: Slot | undefined;
+
+  for (const childB of childrenB) {
+    const childA = matches.get(childB);
+    let childSlot: Slot;
+    let recurse = true;
+
+    if (childA) {
+      childSlot = slots.get(childA)!;
+      if (!stable.has(childSlot)) {
+        const from = pathOf(childSlot);
+        detach(childSlot);
+        const index = previous ? slot.children.indexOf(previous) + 1 : 0;
+        attach(childSlot, slot, index);
+        changes.push({
+          type: "move",
+          from,
+          to: pathOf(childSlot),
+          nodeType: childB.type,
+          ...idOf(childB),
+        });
+      }
+    } else {
+      // Insert whole subtrees unless some descendant already exists in `a`
+      const hasMatchedDescendant = someDescendant(childB, (n) =>
+        matches.has(n),
+      );
+      const inserted = hasMatchedDescendant
+        ? ({ ...childB, children: [] } as GLOSTNode)
+        : childB;
+      childSlot = { node: childB, children: [], inserted: true };
+      const index = previous ? slot.children.indexOf(previous) + 1 : 0;
+      attach(childSlot, slot, index);
+      changes.push({
+        type: "insert",
+        path: pathOf(childSlot),
+        node: clone(inserted),
+        ...idOf(childB),
+      });
+      recurse = hasMatchedDescendant;
+    }
+
+    placed.push({ childB, slot: childSlot, recurse });
+    previous = childSlot;
+  }
+
+  for (const { childB, slot: childSlot, recurse } of placed) {
+    if (recurse) {
+      placeChildren(childB, childSlot, matches, slots, changes);
+    }
+  }
+}
+
+/**
+ * Collect slots still holding unmatched nodes of `a` (top-most only)
+ */
+function collectLeftovers(root: Slot, matchedA: Set<GLOSTNode>): Slot[] {
+  const leftovers: Slot[] = [];
+  const visitSlot = (slot: Slot): void => {
+    for (const child of slot.children) {
+      if (!child.inserted && !matchedA.has(child.node)) {
+        leftovers.push(child);
+      } else {
+        visitSlot(child);
+      }
+    }
+  };
+  visitSlot(root);
+  return leftovers;
+}
+
+/**
+ * Elements of `items` forming the longest run with increasing keys
+ */
+function longestIncreasingRun<T>(items: T[], key: (item: T) => number): Set<T> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(items.length).fill(-1);
+
+  items.forEach((item, i) => {
+    const value = key(item);
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (key(items[tails[mid]!]!) < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    if (low > 0) previous[i] = tails[low - 1]!;
+    tails[low] = i;
+  });
+
+  const result = new Set<T>();
+  let index = tails.length > 0 ? tails[tails.length - 1]! : -1;
+  while (index !== -1) {
+    result.add(items[index]!);
+    index = previous[index]!;
+  }
+  return result;
+}
+
+// ============================================================================
+// Field comparison
+// ============================================================================
+
+/** Properties compared key by key rather than as a whole */
+const DEEP_FIELDS = new Set(["transcription", "metadata", "extras"]);
+
+function diffFields(
+  a: GLOSTNode,
+  b: GLOSTNode,
+  ignore: Set<string>,
+): GLOSTFieldChange[] {
+  const changes: GLOSTFieldChange[] = [];
+  const recordA = a as unknown as Record<string, unknown>;
+  const recordB = b as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(recordA), ...Object.keys(recordB)]);
+
+  for (const key of keys) {
+    if (ignore.has(key)) continue;
+    diffValue([key], recordA[key], recordB[key], DEEP_FIELDS.has(key), changes);
+  }
+  return changes;
+}
+
+function diffValue(
+  path: string[],
+  before: unknown,
+  after: unknown,
+  deep: boolean,
+  changes: GLOSTFieldChange[],
+): void {
+  if (isEqual(before, after)) return;
+
+  if (deep && isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValue([...path, key], before[key], after[key], true, changes);
+    }
+    return;
+  }
+
+  if (before === undefined) {
+    changes.push({ path, kind: "add", after: clone(after) });
+  } else if (after === undefined) {
+    changes.push({ path, kind: "remove", before: clone(before) });
+  } else {
+    changes.push({
+      path,
+      kind: "update",
+      before: clone(before),
+      after: clone(after),
+    });
+  }
+}
+
+function applyFieldChange(
+  node: Record<string, unknown>,
+  change: GLOSTFieldChange,
+): void {
+  let target = node;
+  for (const key of change.path.slice(0, -1)) {
+    if (!isPlainObject(target[key])) {
+      if (change.kind === "remove") return;
+      target[key] = {};
+    }
+    target = target[key] as Record<string, unknown>;
+  }
+
+  const last = change.path[change.path.length - 1]!;
+  if (change.kind === "remove") {
+    delete target[last];
+  } else {
+    target[last] = clone(change.after);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function childrenOf(node: GLOSTNode): GLOSTNode[] {
+  return "children" in node && Array.isArray(node.children)
+    ? (node.children as GLOSTNode[])
+    : [];
+}
+
+function walk(
+  node: GLOSTNode,
+  path: GLOSTNodePath,
+  visitor: (node: GLOSTNode, path: GLOSTNodePath) => void,
+): void {
+  visitor(node, path);
+  childrenOf(node).forEach((child, index) =>
+    walk(child, [...path, index], visitor),
+  );
+}
+
+function someDescendant(
+  node: GLOSTNode,
+  test: (node: GLOSTNode) => boolean,
+): boolean {
+  return childrenOf(node).some(
+    (child) => test(child) || someDescendant(child, test),
+  );
+}
+
+function getId(node: GLOSTNode): string | undefined {
+  const id = (node as { extras?: { id?: unknown } }).extras?.id;
+  return typeof id === "string" ? id : undefined;
+}
+
+function idOf(node: GLOSTNode): { id?: string } {
+  const id = getId(node);
+  return id === undefined ? {} : { id };
+}
+
+function resolveNode(root: GLOSTNode, path: GLOSTNodePath): GLOSTNode {
+  let node = root;
+  path.forEach((index, depth) => {
+    const child = childrenOf(node)[index];
+    if (!child) {
+      throw invalidPath(path.slice(0, depth + 1));
+    }
+    node = child;
+  });
+  return node;
+}
+
+function resolveChild(
+  root: GLOSTNode,
+  path: GLOSTNodePath,
+  forInsert: boolean,
+): [GLOSTNode[], number] {
+  if (path.length === 0) {
+    throw invalidPath(path);
+  }
+  const parent = resolveNode(root, path.slice(0, -1));
+  const index = path[path.length - 1]!;
+  if (!("children" in parent) || !Array.isArray(parent.children)) {
+    throw invalidPath(path);
+  }
+  const limit = forInsert ? parent.children.length : parent.children.length - 1;
+  if (index < 0 || index > limit) {
+    throw invalidPath(path);
+  }
+  return [parent.children as GLOSTNode[], index];
+}
+
+function invalidPath(path: GLOSTNodePath): GLOSTValidationError {
+  return new GLOSTValidationError(
+    `Patch refers to a missing node at [${path.join(", ")}]`,
+    {
+      path: path.map(String),
+      suggestion: "Apply the patch to the document it was computed from.",
+    },
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+  return false;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
@@ -6,7 +6,7 @@
  * @packageDocumentation
  */
 
-import type { GLOSTNode } from './types.js';
+import type { GLOSTNode, GLOSTRoot } from './types.js';
 
 /**
  * Context information for GLOST errors
@@ -22,6 +22,8 @@ export interface GLOSTErrorContext {
   suggestion?: string;
   /** URL to relevant documentation */
   docsUrl?: string;
+  /** Whether retrying the failed operation may succeed (provider errors) */
+  transient?: boolean;
   /** Additional context data */
   [key: string]: any;
 }
@@ -237,8 +239,22 @@ export class GLOSTExtensionError extends GLOSTError {
 
 /**
  * Error for provider issues
+ *
+ * Set `transient: true` in the context for failures that may succeed when
+ * retried (rate limits, timeouts, network errors). The async processor
+ * retries transient errors when `retry` is configured.
+ *
+ * @example
+ * ```typescript
+ * if (response.status === 429) {
+ *   throw new GLOSTProviderError('Dictionary', 'Rate limited', { transient: true });
+ * }
+ * ```
  */
 export class GLOSTProviderError extends GLOSTError {
+  /** Whether retrying the failed lookup may succeed */
+  public readonly transient: boolean;
+
   constructor(
     providerName: string,
     message: string,
@@ -246,6 +262,28 @@ export class GLOSTProviderError extends GLOSTError {
   ) {
     super(`[${providerName} Provider] ${message}`, context);
     this.name = 'GLOSTProviderError';
+    this.transient = context.transient === true;
+  }
+}
+
+/**
+ * Error for a plugin hook that did not finish within its time limit
+ *
+ * Timeouts are treated as transient, so they are retried like transient
+ * provider errors.
+ */
+export class GLOSTTimeoutError extends GLOSTError {
+  /** The time limit in milliseconds */
+  public readonly timeout: number;
+
+  constructor(
+    message: string,
+    timeout: number,
+    context: GLOSTErrorContext = {}
+  ) {
+    super(message, { ...context, transient: true });
+    this.name = 'GLOSTTimeoutError';
+    this.timeout = timeout;
   }
 }
 
@@ -259,6 +297,53 @@ export class GLOSTParseError extends GLOSTError {
   }
 }
 
+/**
+ * Details of a cancelled processing run
+ */
+export interface GLOSTAbortDetails {
+  /** Document as far as it was processed when the run stopped */
+  document?: GLOSTRoot;
+  /** IDs of plugins that finished before the run stopped */
+  completedPlugins?: string[];
+  /** The abort reason from the `AbortSignal` */
+  reason?: unknown;
+}
+
+/**
+ * Error for processing cancelled through an `AbortSignal`
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await processor.process(doc, { signal: controller.signal });
+ * } catch (error) {
+ *   if (error instanceof GLOSTAbortError) {
+ *     console.log(error.completedPlugins, error.document);
+ *   }
+ * }
+ * ```
+ */
+export class GLOSTAbortError extends GLOSTError {
+  /** Document as far as it was processed when the run stopped */
+  public readonly document: GLOSTRoot | undefined;
+  /** IDs of plugins that finished before the run stopped */
+  public readonly completedPlugins: string[];
+  /** The abort reason from the `AbortSignal` */
+  public readonly reason: unknown;
+
+  constructor(
+    message: string,
+    details: GLOSTAbortDetails = {},
+    context: GLOSTErrorContext = {}
+  ) {
+    super(message, context);
+    this.name = 'GLOSTAbortError';
+    this.document = details.document;
+    this.completedPlugins = details.completedPlugins ?? [];
+    this.reason = details.reason;
+  }
+}
+
 /**
  * Error for serialization issues
  */
@@ -7,10 +7,12 @@ export * from "./utils.js";
 export * from "./validators.js";
 export * from "./guards.js";
 export * from "./errors.js";
+export * from "./diff.js";
+export * from "./select.js";
 // export * from './example.js';
 
 // Re-export utility types
-export type { ParagraphLike } from "./utils.js";
+export type { ParagraphLike, PositionMapper } from "./utils.js";
 
 // Re-export key utilities for transcription components
 export {
@@ -29,6 +31,7 @@ export {
 
   // Node finding
   findNodesByType,
+  findNodeAtOffset,
   findWordsByLanguage,
   findWordsByTranscriptionSystem,
 
@@ -45,6 +48,7 @@ export {
   // Word utilities
   getWordText,
   getWordTranscription,
+  getWordTranscriptionSegments,
   hasWordTranscription,
   getWordTranslation,
   getWordMeaning,
@@ -58,6 +62,9 @@ export {
   getGLOSTWordCount,
   adaptParagraphLikeToGLOST,
 
+  // Source position utilities
+  createPositionMapper,
+
   // BCP-47 Language utilities
   parseLanguageTag,
   getBaseLanguage,
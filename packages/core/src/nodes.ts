@@ -3,6 +3,7 @@ import type {
   LinguisticMetadata,
   GLOSTExtras,
   GLOSTParagraph,
+  GLOSTPosition,
   GLOSTPunctuation,
   GLOSTRoot,
   GLOSTSentence,
@@ -34,6 +35,8 @@ export interface CreateWordNodeOptions {
   script?: ScriptSystem;
   /** Additional extension data */
   extras?: GLOSTExtras;
+  /** Location in the source text (also applied to the text child) */
+  position?: GLOSTPosition;
 }
 
 /**
@@ -52,6 +55,8 @@ export interface CreateSentenceNodeOptions {
   transcription?: TransliterationData;
   /** Additional extension data */
   extras?: GLOSTExtras;
+  /** Location in the source text */
+  position?: GLOSTPosition;
 }
 
 /**
@@ -109,16 +114,21 @@ export interface CreateSimpleWordOptions {
  * ```
  */
 export function createGLOSTWordNode(options: CreateWordNodeOptions): GLOSTWord {
-  const { value, transcription, metadata, lang, script, extras } = options;
-  return {
+  const { value, transcription, metadata, lang, script, extras, position } =
+    options;
+  const word: GLOSTWord = {
     type: "WordNode",
     lang,
     script,
     transcription,
     metadata,
     extras,
-    children: [createGLOSTTextNode(value)],
+    children: [createGLOSTTextNode(value, position)],
   };
+  if (position) {
+    word.position = position;
+  }
+  return word;
 }
 
 /**
@@ -144,8 +154,9 @@ export function createGLOSTSentenceNode(
     children = [],
     transcription,
     extras,
+    position,
   } = options;
-  return {
+  const sentence: GLOSTSentence = {
     type: "SentenceNode",
     originalText,
     lang,
@@ -154,6 +165,10 @@ export function createGLOSTSentenceNode(
     children,
     extras,
   };
+  if (position) {
+    sentence.position = position;
+  }
+  return sentence;
 }
 
 /**
@@ -162,11 +177,12 @@ export function createGLOSTSentenceNode(
 export function createGLOSTParagraphNode(
   children: GLOSTSentence[] = [],
   extras?: GLOSTExtras,
+  position?: GLOSTPosition,
 ): GLOSTParagraph {
   return {
     type: "ParagraphNode",
     children,
-    position: undefined,
+    position,
     extras,
   };
 }
@@ -401,9 +417,16 @@ export function createGLOSTSymbolNode(value: string): GLOSTSymbol {
 /**
  * Create a GLOST text node
  */
-export function createGLOSTTextNode(value: string): GLOSTText {
-  return {
+export function createGLOSTTextNode(
+  value: string,
+  position?: GLOSTPosition,
+): GLOSTText {
+  const text: GLOSTText = {
     type: "TextNode",
     value,
   };
+  if (position) {
+    text.position = { start: { ...position.start }, end: { ...position.end } };
+  }
+  return text;
 }
@@ -0,0 +1,670 @@
+/**
+ * GLOST Selectors
+ *
+ * Query GLOST trees with CSS-like selectors that understand GLOST node
+ * types and fields:
+ *
+ * ```
+ * SentenceNode > WordNode[lang=th][extras.frequency.level=rare]
+ * WordNode:has(SyllableNode[tone=3])
+ * WordNode:nth-of-type(2)
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { GLOSTParseError } from "./errors.js";
+import type { GLOSTNode, GLOSTRoot } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Parallel document shape accepted by the selector functions
+ *
+ * Structurally matches `ParallelDocument` from `glost-align`, whose
+ * language trees are searched as children of the document.
+ */
+export interface SelectableParallelDocument {
+  type: "ParallelDocument";
+  trees: Partial<Record<string, GLOSTRoot>>;
+}
+
+/**
+ * Anything {@link select} and {@link selectAll} can search
+ */
+export type SelectableTree = GLOSTNode | SelectableParallelDocument;
+
+type StripBrackets<S extends string> = S extends `${infer A}[${string}]${infer B}`
+  ? `${A}${StripBrackets<B>}`
+  : S;
+
+type BeforeLastParen<S extends string, Done extends string = ""> =
+  S extends `${infer A}(${infer B}`
+    ? B extends `${string}(${string}`
+      ? BeforeLastParen<B, `${Done}${A}(`>
+      : `${Done}${A}`
+    : `${Done}${S}`;
+
+type StripParens<S extends string> = S extends `${infer Head})${infer Tail}`
+  ? StripParens<`${BeforeLastParen<Head>}${Tail}`>
+  : S;
+
+type TrimSelector<S extends string> = S extends ` ${infer R}`
+  ? TrimSelector<R>
+  : S extends `${infer R} `
+    ? TrimSelector<R>
+    : S;
+
+type SelectorListItems<S extends string> = S extends `${infer A},${infer B}`
+  ? A | SelectorListItems<B>
+  : S;
+
+type LastCompound<S extends string> = S extends `${string} ${infer R}`
+  ? LastCompound<R>
+  : S extends `${string}>${infer R}`
+    ? LastCompound<R>
+    : S extends `${string}+${infer R}`
+      ? LastCompound<R>
+      : S extends `${string}~${infer R}`
+        ? LastCompound<R>
+        : S;
+
+type CompoundTypeName<S extends string> = S extends `${infer N}:${string}` ? N : S;
+
+type NodeOfType<N extends string> = N extends GLOSTNode["type"]
+  ? Extract<GLOSTNode, { type: N }>
+  : GLOSTNode;
+
+/**
+ * Node type selected by a selector string
+ *
+ * Inferred from the type name of the last compound selector, so
+ * `"SentenceNode > WordNode[lang=th]"` selects `GLOSTWord`. Selectors
+ * without a known type name (such as `*` or `[lang=th]`) select
+ * `GLOSTNode`.
+ */
+export type SelectedNode<S extends string> = NodeOfType<
+  CompoundTypeName<
+    LastCompound<TrimSelector<SelectorListItems<StripParens<StripBrackets<S>>>>>
+  >
+>;
+
+// ============================================================================
+// Selector AST
+// ============================================================================
+
+type AttributeOperator =
+  | "="
+  | "!="
+  | "^="
+  | "$="
+  | "*="
+  | "~="
+  | "<"
+  | "<="
+  | ">"
+  | ">=";
+
+type Combinator = " " | ">" | "+" | "~";
+
+type Nth = { a: number; b: number };
+
+type Test =
+  | { kind: "attribute"; path: string[]; operator?: AttributeOperator; value?: string }
+  | { kind: "has"; selectors: Selector[] }
+  | { kind: "not"; selectors: Selector[] }
+  | { kind: "nth"; nth: Nth; ofType: boolean; fromEnd: boolean }
+  | { kind: "root" }
+  | { kind: "empty" }
+  | { kind: "scope" };
+
+type Compound = { type?: string; tests: Test[] };
+
+/**
+ * Compounds from left to right; `combinators[i]` joins compound `i`
+ * to compound `i + 1`
+ */
+type Selector = { compounds: Compound[]; combinators: Combinator[] };
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const IDENTIFIER = /[A-Za-z_][\w-]*/y;
+const ATTRIBUTE_OPERATOR = /!=|\^=|\$=|\*=|~=|<=|>=|=|<|>/y;
+
+class SelectorParser {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): Selector[] {
+    const selectors = this.parseList(false);
+    if (this.index < this.source.length) {
+      this.fail(`unexpected "${this.source[this.index]}"`);
+    }
+    return selectors;
+  }
+
+  private parseList(relative: boolean): Selector[] {
+    const selectors: Selector[] = [this.parseSelector(relative)];
+    this.skipSpace();
+    while (this.peek() === ",") {
+      this.index++;
+      selectors.push(this.parseSelector(relative));
+      this.skipSpace();
+    }
+    return selectors;
+  }
+
+  private parseSelector(relative: boolean): Selector {
+    const selector: Selector = { compounds: [], combinators: [] };
+    this.skipSpace();
+
+    if (relative) {
+      // `:has(> WordNode)` is anchored at the node being tested
+      selector.compounds.push({ tests: [{ kind: "scope" }] });
+      selector.combinators.push(this.parseCombinator() ?? " ");
+    }
+
+    selector.compounds.push(this.parseCompound());
+    for (;;) {
+      const combinator = this.parseCombinator();
+      if (!combinator) break;
+      selector.combinators.push(combinator);
+      selector.compounds.push(this.parseCompound());
+    }
+    return selector;
+  }
+
+  private parseCombinator(): Combinator | undefined {
+    const hadSpace = this.skipSpace();
+    const char = this.peek();
+    if (char === ">" || char === "+" || char === "~") {
+      this.index++;
+      this.skipSpace();
+      return char;
+    }
+    if (hadSpace && char !== undefined && char !== "," && char !== ")") {
+      return " ";
+    }
+    return undefined;
+  }
+
+  private parseCompound(): Compound {
+    const compound: Compound = { tests: [] };
+    const start = this.index;
+
+    if (this.peek() === "*") {
+      this.index++;
+    } else {
+      const type = this.match(IDENTIFIER);
+      if (type) compound.type = type;
+    }
+
+    for (;;) {
+      const char = this.peek();
+      if (char === "[") {
+        compound.tests.push(this.parseAttribute());
+      } else if (char === ":") {
+        compound.tests.push(this.parsePseudo());
+      } else {
+        break;
+      }
+    }
+
+    if (this.index === start) {
+      this.fail("expected a selector");
+    }
+    return compound;
+  }
+
+  private parseAttribute(): Test {
+    this.index++;
+    this.skipSpace();
+
+    const path: string[] = [];
+    do {
+      const key = this.match(/[\w-]+/y);
+      if (!key) this.fail("expected an attribute name");
+      path.push(key);
+    } while (this.consume("."));
+
+    this.skipSpace();
+    if (this.consume("]")) {
+      return { kind: "attribute", path };
+    }
+
+    const operator = this.match(ATTRIBUTE_OPERATOR) as AttributeOperator | undefined;
+    if (!operator) this.fail("expected an attribute operator");
+    this.skipSpace();
+
+    const value = this.parseValue();
+    this.skipSpace();
+    if (!this.consume("]")) this.fail('expected "]"');
+
+    return { kind: "attribute", path, operator, value };
+  }
+
+  private parseValue(): string {
+    const quote = this.peek();
+    if (quote === '"' || quote === "'") {
+      const end = this.source.indexOf(quote, this.index + 1);
+      if (end === -1) this.fail("unterminated string");
+      const value = this.source.slice(this.index + 1, end);
+      this.index = end + 1;
+      return value;
+    }
+
+    const value = this.match(/[^\s\]]+/y);
+    if (!value) this.fail("expected an attribute value");
+    return value;
+  }
+
+  private parsePseudo(): Test {
+    this.index++;
+    const name = this.match(IDENTIFIER);
+    if (!name) this.fail("expected a pseudo-class name");
+
+    switch (name) {
+      case "has":
+        return { kind: "has", selectors: this.parseArgument(() => this.parseList(true)) };
+      case "not":
+        return { kind: "not", selectors: this.parseArgument(() => this.parseList(false)) };
+      case "nth-child":
+      case "nth-last-child":
+      case "nth-of-type":
+      case "nth-last-of-type":
+        return {
+          kind: "nth",
+          nth: this.parseArgument(() => this.parseNth()),
+          ofType: name.endsWith("of-type"),
+          fromEnd: name.includes("last"),
+        };
+      case "first-child":
+      case "first-of-type":
+      case "last-child":
+      case "last-of-type":
+        return {
+          kind: "nth",
+          nth: { a: 0, b: 1 },
+          ofType: name.endsWith("of-type"),
+          fromEnd: name.startsWith("last"),
+        };
+      case "root":
+        return { kind: "root" };
+      case "empty":
+        return { kind: "empty" };
+      default:
+        return this.fail(`unknown pseudo-class ":${name}"`);
+    }
+  }
+
+  private parseArgument<T>(parse: () => T): T {
+    if (!this.consume("(")) this.fail('expected "("');
+    this.skipSpace();
+    const result = parse();
+    this.skipSpace();
+    if (!this.consume(")")) this.fail('expected ")"');
+    return result;
+  }
+
+  private parseNth(): Nth {
+    const raw = this.match(/[\w+\- ]+/y)?.replace(/\s+/g, "").toLowerCase();
+    if (raw === "odd") return { a: 2, b: 1 };
+    if (raw === "even") return { a: 2, b: 0 };
+
+    const match = raw && /^(?:([+-]?\d*)n)?([+-]?\d+)?$/.exec(raw);
+    if (!match || (match[1] === undefined && match[2] === undefined)) {
+      return this.fail("expected an nth expression such as 2, odd or 2n+1");
+    }
+
+    const coefficient = match[1];
+    const a =
+      coefficient === undefined
+        ? 0
+        : coefficient === "" || coefficient === "+"
+          ? 1
+          : coefficient === "-"
+            ? -1
+            : Number(coefficient);
+    return { a, b: match[2] === undefined ? 0 : Number(match[2]) };
+  }
+
+  private skipSpace(): boolean {
+    const start = this.index;
+    while (/\s/.test(this.source[this.index] ?? "")) this.index++;
+    return this.index > start;
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.index];
+  }
+
+  private consume(char: string): boolean {
+    if (this.source[this.index] !== char) return false;
+    this.index++;
+    return true;
+  }
+
+  private match(pattern: RegExp): string | undefined {
+    pattern.lastIndex = this.index;
+    const result = pattern.exec(this.source);
+    if (!result) return undefined;
+    this.index += result[0].length;
+    return result[0];
+  }
+
+  private fail(reason: string): never {
+    throw new GLOSTParseError(
+      `Invalid selector "${this.source}": ${reason} at position ${this.index}`,
+      {
+        selector: this.source,
+        position: this.index,
+        suggestion:
+          'Selectors look like "SentenceNode > WordNode[lang=th]" or "WordNode:has(SyllableNode[tone=3])"',
+      },
+    );
+  }
+}
+
+const MAX_PARSED_SELECTORS = 256;
+const parsedSelectors = new Map<string, Selector[]>();
+
+function parseSelector(source: string): Selector[] {
+  let selectors = parsedSelectors.get(source);
+  if (!selectors) {
+    selectors = new SelectorParser(source).parse();
+    if (parsedSelectors.size >= MAX_PARSED_SELECTORS) parsedSelectors.clear();
+    parsedSelectors.set(source, selectors);
+  }
+  return selectors;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+type AnyNode = { type: string; children?: unknown[]; [key: string]: unknown };
+
+/**
+ * A node together with where it sits in the tree
+ */
+type Entry = {
+  node: AnyNode;
+  parent?: Entry;
+  index: number;
+};
+
+function childrenOf(node: AnyNode): AnyNode[] {
+  if (node.type === "ParallelDocument") {
+    const trees = (node as unknown as SelectableParallelDocument).trees;
+    return Object.values(trees).filter(Boolean) as unknown as AnyNode[];
+  }
+  return Array.isArray(node.children) ? (node.children as AnyNode[]) : [];
+}
+
+function siblingsOf(entry: Entry): AnyNode[] {
+  return entry.parent ? childrenOf(entry.parent.node) : [entry.node];
+}
+
+function* descendants(entry: Entry): Generator<Entry> {
+  const children = childrenOf(entry.node);
+  for (let index = 0; index < children.length; index++) {
+    const child: Entry = { node: children[index]!, parent: entry, index };
+    yield child;
+    yield* descendants(child);
+  }
+}
+
+function resolvePath(node: AnyNode, path: string[]): unknown {
+  let value: unknown = node;
+  for (const key of path) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function matchAttribute(
+  actual: unknown,
+  operator: AttributeOperator | undefined,
+  expected: string | undefined,
+): boolean {
+  if (operator === undefined || expected === undefined) {
+    return actual !== undefined && actual !== null;
+  }
+  if (operator === "!=") {
+    return !matchAttribute(actual, "=", expected);
+  }
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+  if (operator === "~=") {
+    const items = Array.isArray(actual)
+      ? actual
+      : typeof actual === "string"
+        ? actual.split(/\s+/)
+        : [actual];
+    return items.some((item) => String(item) === expected);
+  }
+  if (typeof actual === "object") {
+    return false;
+  }
+
+  const text = String(actual);
+  switch (operator) {
+    case "=":
+      return text === expected;
+    case "^=":
+      return text.startsWith(expected);
+    case "$=":
+      return text.endsWith(expected);
+    case "*=":
+      return text.includes(expected);
+  }
+
+  const left = Number(actual);
+  const right = Number(expected);
+  if (Number.isNaN(left) || Number.isNaN(right)) return false;
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+  }
+}
+
+function matchNth(entry: Entry, nth: Nth, ofType: boolean, fromEnd: boolean): boolean {
+  let siblings = siblingsOf(entry);
+  let index = entry.index;
+  if (ofType) {
+    const before = siblings.slice(0, index).filter((node) => node.type === entry.node.type);
+    siblings = siblings.filter((node) => node.type === entry.node.type);
+    index = before.length;
+  }
+
+  const position = fromEnd ? siblings.length - index : index + 1;
+  if (nth.a === 0) return position === nth.b;
+  const step = (position - nth.b) / nth.a;
+  return Number.isInteger(step) && step >= 0;
+}
+
+function matchTest(entry: Entry, test: Test, scope: Entry | undefined): boolean {
+  switch (test.kind) {
+    case "attribute":
+      return matchAttribute(resolvePath(entry.node, test.path), test.operator, test.value);
+    case "has":
+      return hasMatch(entry, test.selectors);
+    case "not":
+      return !test.selectors.some((selector) => matchSelector(entry, selector, scope));
+    case "nth":
+      return matchNth(entry, test.nth, test.ofType, test.fromEnd);
+    case "root":
+      return entry.parent === undefined;
+    case "empty":
+      return childrenOf(entry.node).length === 0;
+    case "scope":
+      return scope !== undefined && entry.node === scope.node;
+  }
+}
+
+function matchCompound(entry: Entry, compound: Compound, scope: Entry | undefined): boolean {
+  if (compound.type !== undefined && entry.node.type !== compound.type) {
+    return false;
+  }
+  return compound.tests.every((test) => matchTest(entry, test, scope));
+}
+
+function matchFrom(
+  entry: Entry,
+  selector: Selector,
+  at: number,
+  scope: Entry | undefined,
+): boolean {
+  if (!matchCompound(entry, selector.compounds[at]!, scope)) {
+    return false;
+  }
+  if (at === 0) {
+    return true;
+  }
+
+  const previous = at - 1;
+  switch (selector.combinators[previous]!) {
+    case ">":
+      return entry.parent !== undefined && matchFrom(entry.parent, selector, previous, scope);
+    case " ":
+      for (let ancestor = entry.parent; ancestor; ancestor = ancestor.parent) {
+        if (matchFrom(ancestor, selector, previous, scope)) return true;
+      }
+      return false;
+    case "+": {
+      if (entry.index === 0 || !entry.parent) return false;
+      const sibling: Entry = {
+        node: siblingsOf(entry)[entry.index - 1]!,
+        parent: entry.parent,
+        index: entry.index - 1,
+      };
+      return matchFrom(sibling, selector, previous, scope);
+    }
+    case "~": {
+      if (!entry.parent) return false;
+      const siblings = siblingsOf(entry);
+      for (let index = entry.index - 1; index >= 0; index--) {
+        const sibling: Entry = { node: siblings[index]!, parent: entry.parent, index };
+        if (matchFrom(sibling, selector, previous, scope)) return true;
+      }
+      return false;
+    }
+  }
+}
+
+function matchSelector(entry: Entry, selector: Selector, scope: Entry | undefined): boolean {
+  return matchFrom(entry, selector, selector.compounds.length - 1, scope);
+}
+
+/**
+ * Whether any node related to `entry` matches a relative `:has()` selector
+ */
+function hasMatch(entry: Entry, selectors: Selector[]): boolean {
+  const candidates: Entry[] = [...descendants(entry)];
+  if (entry.parent) {
+    const siblings = siblingsOf(entry);
+    for (let index = entry.index + 1; index < siblings.length; index++) {
+      const sibling: Entry = { node: siblings[index]!, parent: entry.parent, index };
+      candidates.push(sibling, ...descendants(sibling));
+    }
+  }
+
+  return candidates.some((candidate) =>
+    selectors.some((selector) => matchSelector(candidate, selector, entry)),
+  );
+}
+
+function* query(selector: string, tree: SelectableTree): Generator<AnyNode> {
+  const selectors = parseSelector(selector);
+  const root: Entry = { node: tree as unknown as AnyNode, index: 0 };
+
+  for (const entry of [root, ...descendants(root)]) {
+    if (selectors.some((compiled) => matchSelector(entry, compiled, undefined))) {
+      yield entry.node;
+    }
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Find all nodes matching a selector, in document order
+ *
+ * Supported syntax:
+ * - Node types (`WordNode`) and `*`
+ * - Combinators: descendant (space), child (`>`), adjacent sibling
+ *   (`+`) and general sibling (`~`), plus comma-separated lists
+ * - Attributes with dotted paths into node fields:
+ *   `[extras.frequency.level=rare]`, `[transcription.ipa]`. Operators
+ *   are `=`, `!=`, `^=`, `$=`, `*=`, `~=` (array or space-separated
+ *   item) and the numeric comparisons `<`, `<=`, `>`, `>=`. Values may
+ *   be quoted.
+ * - Pseudo-classes: `:has()`, `:not()`, `:nth-child()`,
+ *   `:nth-last-child()`, `:nth-of-type()`, `:nth-last-of-type()`,
+ *   `:first-child`, `:last-child`, `:first-of-type`, `:last-of-type`,
+ *   `:root` and `:empty`
+ *
+ * Passing a `ParallelDocument` searches every language tree; its trees
+ * are the document's children, so `RootNode[lang=th] WordNode` limits
+ * the search to one language.
+ *
+ * @param selector - Selector to match
+ * @param tree - Tree or parallel document to search
+ * @returns Matching nodes, typed by the selector's last node type
+ * @throws {GLOSTParseError} If the selector is invalid
+ *
+ * @example
+ * ```typescript
+ * const rare = selectAll(
+ *   "SentenceNode > WordNode[lang=th][extras.frequency.level=rare]",
+ *   document,
+ * );
+ * // rare: GLOSTWord[]
+ * ```
+ */
+export function selectAll<S extends string>(
+  selector: S,
+  tree: SelectableTree,
+): SelectedNode<S>[] {
+  return [...query(selector, tree)] as unknown as SelectedNode<S>[];
+}
+
+/**
+ * Find the first node matching a selector
+ *
+ * Accepts the same selectors as {@link selectAll}.
+ *
+ * @param selector - Selector to match
+ * @param tree - Tree or parallel document to search
+ * @returns The first matching node in document order, if any
+ * @throws {GLOSTParseError} If the selector is invalid
+ *
+ * @example
+ * ```typescript
+ * const word = select("WordNode:has(SyllableNode[tone=3])", document);
+ * ```
+ */
+export function select<S extends string>(
+  selector: S,
+  tree: SelectableTree,
+): SelectedNode<S> | undefined {
+  for (const node of query(selector, tree)) {
+    return node as unknown as SelectedNode<S>;
+  }
+  return undefined;
+}
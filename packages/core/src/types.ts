@@ -296,6 +296,19 @@ export type PronunciationVariant = {
   notes?: string;
 };
 
+/**
+ * Part of a word's surface text with the transcription that belongs over it
+ *
+ * Lets a reading be shown over the characters it belongs to, such as
+ * furigana over each kanji rather than across the okurigana.
+ */
+export type TranscriptionSegment = {
+  /** Surface text covered by this segment */
+  base: string;
+  /** Transcription over `base`; omitted where none is needed (e.g. kana) */
+  ruby?: string;
+};
+
 /**
  * Transcription information for a text segment
  * 
@@ -313,6 +326,12 @@ export type TranscriptionInfo = {
   syllables?: string[];
   /** Additional phonetic information */
   phonetic?: string;
+  /**
+   * Transcription split over the surface text
+   *
+   * The `base` values concatenate to the word's text.
+   */
+  segments?: TranscriptionSegment[];
 };
 
 /**
@@ -355,6 +374,23 @@ export type LinguisticMetadata = {
   difficulty?: "beginner" | "intermediate" | "advanced" | 1 | 2 | 3 | 4 | 5 | string;
 };
 
+// ============================================================================
+// Source Positions
+// ============================================================================
+
+/**
+ * Location of a node in the source text (unist `Position`)
+ *
+ * `line` and `column` are 1-indexed; `offset` is a 0-indexed UTF-16 code
+ * unit index into the source string. `end` points just past the node.
+ */
+export type GLOSTPosition = NonNullable<NlcstText["position"]>;
+
+/**
+ * A single place in the source text (unist `Point`)
+ */
+export type GLOSTPoint = GLOSTPosition["start"];
+
 // ============================================================================
 // Extended Node Types
 // ============================================================================
@@ -512,6 +548,8 @@ export type GLOSTRoot = Omit<NlcstRoot, "children"> & {
  */
 export type GLOSTClause = {
   type: "ClauseNode";
+  /** Location in the source text (unist position) */
+  position?: GLOSTPosition;
   /** Type of clause */
   clauseType: "main" | "subordinate" | "relative" | "adverbial";
   /** Children nodes - phrases, words, or punctuation */
@@ -539,6 +577,8 @@ export type GLOSTClause = {
  */
 export type GLOSTPhrase = {
   type: "PhraseNode";
+  /** Location in the source text (unist position) */
+  position?: GLOSTPosition;
   /** Type of phrase */
   phraseType: "noun" | "verb" | "prepositional" | "adjectival" | "adverbial";
   /** Main word of the phrase (head) */
@@ -562,6 +602,8 @@ export type GLOSTPhrase = {
  */
 export type GLOSTSyllable = {
   type: "SyllableNode";
+  /** Location in the source text (unist position) */
+  position?: GLOSTPosition;
   /** Syllable structure information */
   structure: {
     /** Initial consonant(s) - Generic (e.g., "h" in "hello") */
@@ -601,6 +643,8 @@ export type GLOSTSyllable = {
  */
 export type GLOSTCharacter = {
   type: "CharacterNode";
+  /** Location in the source text (unist position) */
+  position?: GLOSTPosition;
   /** The character value (single character) */
   value: string;
   /** Linguistic role of the character */
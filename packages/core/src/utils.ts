@@ -8,10 +8,13 @@ import type {
   GLOSTNode,
   GLOSTParagraph,
   GLOSTPhrase,
+  GLOSTPoint,
+  GLOSTPosition,
   GLOSTRoot,
   GLOSTSentence,
   GLOSTSyllable,
   GLOSTWord,
+  TranscriptionSegment,
   TranscriptionSystem,
 } from "./types.js";
 
@@ -538,6 +541,20 @@ export function getWordTranscription(
   return word.transcription?.[system]?.text ?? null;
 }
 
+/**
+ * Get the segmented transcription of a word for a specific system
+ *
+ * Returns `null` when the transcription has no `segments`, in which case the
+ * whole-word `text` applies.
+ */
+export function getWordTranscriptionSegments(
+  word: GLOSTWord,
+  system: TranscriptionSystem,
+): TranscriptionSegment[] | null {
+  const segments = word.transcription?.[system]?.segments;
+  return segments && segments.length > 0 ? segments : null;
+}
+
 /**
  * Check if a word has transcription for a specific system
  */
@@ -728,3 +745,123 @@ export function getGLOSTWordCount(
 
   return undefined;
 }
+
+// ============================================================================
+// Source Position Utilities
+// ============================================================================
+
+/**
+ * Converts character offsets in a source string to unist points
+ *
+ * Returned by {@link createPositionMapper}.
+ */
+export interface PositionMapper {
+  /** Point (line, column, offset) for a 0-indexed offset */
+  pointAt(offset: number): GLOSTPoint;
+  /** Position spanning `[start, end)` */
+  positionAt(start: number, end: number): GLOSTPosition;
+}
+
+/**
+ * Create a mapper from character offsets to line/column positions
+ *
+ * Line starts are indexed once, so mapping every node of a long text
+ * stays cheap. `\n`, `\r\n` and lone `\r` all end a line.
+ *
+ * @param source - The original source text
+ * @returns Offset-to-position mapper for `source`
+ *
+ * @example
+ * ```ts
+ * const mapper = createPositionMapper("Hello\nworld");
+ * mapper.pointAt(6);
+ * // { line: 2, column: 1, offset: 6 }
+ * ```
+ */
+export function createPositionMapper(source: string): PositionMapper {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\n" || (char === "\r" && source[i + 1] !== "\n")) {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const pointAt = (offset: number): GLOSTPoint => {
+    // Binary search for the last line starting at or before offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid]! <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low]! + 1, offset };
+  };
+
+  return {
+    pointAt,
+    positionAt: (start, end) => ({ start: pointAt(start), end: pointAt(end) }),
+  };
+}
+
+/**
+ * Find the deepest node whose source position contains an offset
+ *
+ * A node contains `offset` when `start.offset <= offset < end.offset`.
+ * Nodes without position data are searched through but never returned.
+ * Pass `type` to get the deepest node of that type instead, e.g. the
+ * `WordNode` rather than its `TextNode` child.
+ *
+ * @param root - Node to search (usually the document root)
+ * @param offset - 0-indexed character offset in the source text
+ * @param type - Optional node type to match
+ * @returns The matching node, or undefined if none contains the offset
+ *
+ * @example
+ * ```ts
+ * const doc = convertTextToGLOST("สวัสดีครับ", options);
+ * const word = findNodeAtOffset(doc, 7, "WordNode");
+ * ```
+ */
+export function findNodeAtOffset<T extends GLOSTNode["type"]>(
+  root: GLOSTNode,
+  offset: number,
+  type?: T,
+): Extract<GLOSTNode, { type: T }> | undefined;
+export function findNodeAtOffset(
+  root: GLOSTNode,
+  offset: number,
+  type?: string,
+): GLOSTNode | undefined {
+  const search = (node: GLOSTNode): GLOSTNode | undefined => {
+    if (node.position && !containsOffset(node.position, offset)) {
+      return undefined;
+    }
+
+    if ("children" in node && Array.isArray(node.children)) {
+      for (const child of node.children as GLOSTNode[]) {
+        const match = search(child);
+        if (match) return match;
+      }
+    }
+
+    if (node.position && (!type || node.type === type)) {
+      return node;
+    }
+    return undefined;
+  };
+
+  return search(root);
+}
+
+function containsOffset(position: GLOSTPosition, offset: number): boolean {
+  const start = position.start.offset;
+  const end = position.end.offset;
+  return (
+    start !== undefined && end !== undefined && start <= offset && offset < end
+  );
+}
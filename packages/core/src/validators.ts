@@ -78,6 +78,14 @@ export const PronunciationVariantSchema = z.object({
   notes: z.string().optional()
 });
 
+/**
+ * Transcription segment schema
+ */
+export const TranscriptionSegmentSchema = z.object({
+  base: z.string(),
+  ruby: z.string().optional()
+});
+
 /**
  * Transcription info schema
  */
@@ -87,7 +95,8 @@ export const TranscriptionInfoSchema = z.object({
   variants: z.array(PronunciationVariantSchema).optional(),
   tone: z.number().optional(),
   syllables: z.array(z.string()).optional(),
-  phonetic: z.string().optional()
+  phonetic: z.string().optional(),
+  segments: z.array(TranscriptionSegmentSchema).optional()
 });
 
 /**
@@ -325,6 +334,7 @@ export const schemas = {
   LanguageCode: LanguageCodeSchema,
   ScriptSystem: ScriptSystemSchema,
   PronunciationVariant: PronunciationVariantSchema,
+  TranscriptionSegment: TranscriptionSegmentSchema,
   TranscriptionInfo: TranscriptionInfoSchema,
   TransliterationData: TransliterationDataSchema,
   LinguisticMetadata: LinguisticMetadataSchema,
@@ -29,7 +29,9 @@ export type {
   GLOSTExtension,
   ExtensionContext,
   ExtensionResult,
+  ExtensionWarning,
   ProcessorOptions,
+  RetryOptions,
 } from "./types.js";
 
 // Export errors
@@ -59,6 +61,7 @@ export {
   processGLOST,
   processGLOSTWithMeta,
   processGLOSTChunkAsync,
+  planExtensionStages,
 } from "./processor.js";
 
 // Export built-in extensions
@@ -1,5 +1,19 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { processGLOSTWithExtensions, processGLOSTWithExtensionIds } from "./processor";
+import {
+  GLOSTAbortError,
+  GLOSTExtensionError,
+  GLOSTProviderError,
+  GLOSTTimeoutError,
+  getAllWords,
+} from "@glotblocks/glost-core";
+import {
+  processGLOSTWithExtensions,
+  processGLOSTWithExtensionIds,
+  processGLOSTWithExtensionsAsync,
+  planExtensionStages,
+} from "./processor";
+import { ExtensionConflictError } from "./errors.js";
+import type { ExtensionWarning, GLOSTExtension } from "./types.js";
 import { extensionRegistry, registerExtension } from "./registry";
 import { createMockGLOSTDocument, createMockExtension } from "./test-utils.js";
 
@@ -153,6 +167,38 @@ describe("Extension Processor", () => {
       expect(result.metadata.appliedExtensions).toContain("test-2");
     });
 
+    it("should reject hooks that return a Promise", () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      const extension = createMockExtension("async-1", {
+        visit: {
+          word: async () => {},
+        },
+      });
+
+      expect(() => processGLOSTWithExtensions(document, [extension])).toThrow(
+        GLOSTExtensionError,
+      );
+      expect(() => processGLOSTWithExtensions(document, [extension])).toThrow(
+        "[async-1] visit.word returned a Promise",
+      );
+    });
+
+    it("should record async hooks as errors in lenient mode", () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      const extension = createMockExtension("async-1", {
+        enhanceMetadata: async () => ({ late: true }),
+      });
+
+      const result = processGLOSTWithExtensions(document, [extension], {
+        lenient: true,
+      });
+
+      expect(result.metadata.skippedExtensions).toContain("async-1");
+      expect(result.metadata.errors[0]?.error).toBeInstanceOf(
+        GLOSTExtensionError,
+      );
+    });
+
     it("should clean up temporarily registered extensions", () => {
       const document = createMockGLOSTDocument(["hello"]);
       const extension = createMockExtension("temp-extension");
@@ -199,5 +245,260 @@ describe("Extension Processor", () => {
       expect(result.metadata.appliedExtensions).toContain("test-2");
     });
   });
+
+  describe("planExtensionStages", () => {
+    const parallel = (
+      id: string,
+      options: Parameters<typeof createMockExtension>[1] = {},
+    ): GLOSTExtension => ({ ...createMockExtension(id, options), parallel: true });
+
+    it("should group independent parallel extensions", () => {
+      const a = parallel("a");
+      const b = parallel("b");
+      const c = parallel("c", { dependencies: ["a"] });
+      const d = { ...parallel("d"), requires: { metadata: ["level"] } };
+      const e = { ...parallel("e"), provides: { metadata: ["level"] } };
+
+      const stages = planExtensionStages([a, b, c, e, d]);
+
+      expect(stages.map((stage) => stage.map((ext) => ext.id))).toEqual([
+        ["a", "b", "e"],
+        ["c", "d"],
+      ]);
+    });
+
+    it("should order extensions that provide the same field", () => {
+      const a = { ...parallel("a"), provides: { extras: ["frequency"] } };
+      const b = { ...parallel("b"), provides: { extras: ["frequency"] } };
+      const c = { ...parallel("c"), provides: { extras: ["difficulty"] } };
+
+      const stages = planExtensionStages([a, b, c]);
+
+      expect(stages.map((stage) => stage.map((ext) => ext.id))).toEqual([
+        ["a", "c"],
+        ["b"],
+      ]);
+    });
+
+    it("should not move extensions across sequential ones", () => {
+      const stages = planExtensionStages([
+        parallel("a"),
+        createMockExtension("b"),
+        parallel("c"),
+        parallel("d", { transform: (tree) => tree }),
+        parallel("e"),
+      ]);
+
+      expect(stages.map((stage) => stage.map((ext) => ext.id))).toEqual([
+        ["a"],
+        ["b"],
+        ["c"],
+        ["d"],
+        ["e"],
+      ]);
+    });
+
+    it("should run everything sequentially when parallel is false", () => {
+      const stages = planExtensionStages([parallel("a"), parallel("b")], {
+        parallel: false,
+      });
+
+      expect(stages).toHaveLength(2);
+    });
+  });
+
+  describe("processGLOSTWithExtensionsAsync", () => {
+    const delayed = (id: string, running: { now: number; max: number }) => ({
+      ...createMockExtension(id, {
+        enhanceMetadata: async () => {
+          running.now++;
+          running.max = Math.max(running.max, running.now);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running.now--;
+          return { [id]: true };
+        },
+      }),
+      parallel: true,
+    });
+
+    it("should run independent parallel extensions concurrently", async () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      const running = { now: 0, max: 0 };
+
+      const result = await processGLOSTWithExtensionsAsync(document, [
+        delayed("a", running),
+        delayed("b", running),
+      ]);
+
+      expect(running.max).toBe(2);
+      expect(result.metadata.appliedExtensions).toEqual(["a", "b"]);
+      expect(getAllWords(result.document)[0]!.extras).toMatchObject({ a: true, b: true });
+    });
+
+    it("should run dependent extensions after their dependencies", async () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      const running = { now: 0, max: 0 };
+      const b = { ...delayed("b", running), dependencies: ["a"] };
+
+      await processGLOSTWithExtensionsAsync(document, [delayed("a", running), b]);
+
+      expect(running.max).toBe(1);
+    });
+
+    it("should detect field conflicts between parallel extensions", async () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      const writer = (id: string, value: number) => ({
+        ...createMockExtension(id, { enhanceMetadata: async () => ({ level: value }) }),
+        parallel: true,
+      });
+
+      await expect(
+        processGLOSTWithExtensionsAsync(document, [writer("a", 1), writer("b", 2)]),
+      ).rejects.toThrow(ExtensionConflictError);
+    });
+
+    it("should stop when the signal is aborted", async () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      const controller = new AbortController();
+      const a = createMockExtension("a", { enhanceMetadata: () => ({ a: true }) });
+      const b = createMockExtension("b", {
+        enhanceMetadata: () => {
+          controller.abort();
+          return { b: true };
+        },
+      });
+      const c = createMockExtension("c", { enhanceMetadata: () => ({ c: true }) });
+
+      const error = await processGLOSTWithExtensionsAsync(document, [a, b, c], {
+        lenient: true,
+        signal: controller.signal,
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(GLOSTAbortError);
+      expect((error as GLOSTAbortError).completedPlugins).toEqual(["a"]);
+      expect(getAllWords((error as GLOSTAbortError).document!)[0]!.extras).toEqual({ a: true });
+    });
+
+    it("should pass the signal to hooks", async () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      const controller = new AbortController();
+      let received: AbortSignal | undefined;
+      const extension: GLOSTExtension = {
+        id: "a",
+        name: "A",
+        enhanceMetadata: (_node, context) => {
+          received = context?.signal;
+        },
+      };
+
+      await processGLOSTWithExtensionsAsync(document, [extension], {
+        signal: controller.signal,
+      });
+
+      expect(received).toBe(controller.signal);
+    });
+
+    it("should limit concurrent node calls to the concurrency option", async () => {
+      const document = createMockGLOSTDocument(["a", "b", "c", "d", "e"]);
+      const running = { now: 0, max: 0 };
+
+      await processGLOSTWithExtensionsAsync(document, [delayed("a", running)], {
+        concurrency: 2,
+      });
+
+      expect(running.max).toBe(2);
+    });
+
+    it("should retry transient provider errors with backoff", async () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      let calls = 0;
+      const extension = createMockExtension("flaky", {
+        enhanceMetadata: () => {
+          if (++calls < 3) {
+            throw new GLOSTProviderError("Test", "Rate limited", { transient: true });
+          }
+          return { flaky: true };
+        },
+      });
+
+      const result = await processGLOSTWithExtensionsAsync(document, [extension], {
+        retry: { retries: 2, minDelay: 1 },
+      });
+
+      expect(calls).toBe(3);
+      expect(result.metadata.warnings).toHaveLength(0);
+      expect(getAllWords(result.document)[0]!.extras).toMatchObject({ flaky: true });
+    });
+
+    it("should report provider errors as warnings with the word id", async () => {
+      const document = createMockGLOSTDocument(["hello", "world"]);
+      getAllWords(document).forEach((word, i) => {
+        word.extras = { ...word.extras, id: `w${i}` };
+      });
+      let calls = 0;
+      const extension = createMockExtension("lookup", {
+        visit: {
+          word: (node) => {
+            calls++;
+            if (node.extras?.id === "w1") {
+              throw new GLOSTProviderError("Test", "Not available");
+            }
+          },
+        },
+      });
+      const reported: ExtensionWarning[] = [];
+
+      const result = await processGLOSTWithExtensionsAsync(document, [extension], {
+        retry: { minDelay: 1 },
+        onWarning: (warning) => reported.push(warning),
+      });
+
+      // Non-transient errors are not retried
+      expect(calls).toBe(2);
+      expect(result.metadata.appliedExtensions).toEqual(["lookup"]);
+      expect(result.metadata.warnings).toEqual([
+        expect.objectContaining({
+          extensionId: "lookup",
+          phase: "visit",
+          nodeType: "WordNode",
+          nodeId: "w1",
+          text: "world",
+          attempts: 1,
+        }),
+      ]);
+      expect(reported).toEqual(result.metadata.warnings);
+    });
+
+    it("should time out slow node calls per extension", async () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      const slow = createMockExtension("slow", {
+        enhanceMetadata: () => new Promise<void>(() => {}),
+      });
+      const fast = createMockExtension("fast", { enhanceMetadata: () => ({ fast: true }) });
+
+      const result = await processGLOSTWithExtensionsAsync(document, [slow, fast], {
+        timeout: { slow: 5 },
+        retry: { retries: 1, minDelay: 1 },
+      });
+
+      expect(result.metadata.appliedExtensions).toEqual(["slow", "fast"]);
+      expect(result.metadata.warnings).toHaveLength(1);
+      expect(result.metadata.warnings[0]!.error).toBeInstanceOf(GLOSTTimeoutError);
+      expect(result.metadata.warnings[0]!.attempts).toBe(2);
+    });
+
+    it("should still fail the extension for other errors", async () => {
+      const document = createMockGLOSTDocument(["hello"]);
+      const extension = createMockExtension("broken", {
+        enhanceMetadata: () => {
+          throw new Error("Bug");
+        },
+      });
+
+      await expect(
+        processGLOSTWithExtensionsAsync(document, [extension]),
+      ).rejects.toThrow("Bug");
+    });
+  });
 });
 
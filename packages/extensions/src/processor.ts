@@ -7,6 +7,7 @@
  */
 
 import type {
+  GLOSTNode,
   GLOSTWord,
   GLOSTSentence,
   GLOSTParagraph,
@@ -18,9 +19,18 @@ import type {
   GLOSTExtension,
   ExtensionContext,
   ExtensionResult,
+  ExtensionWarning,
   ProcessorOptions,
+  RetryOptions,
 } from "./types.js";
 import { extensionRegistry } from "./registry.js";
+import {
+  GLOSTAbortError,
+  GLOSTExtensionError,
+  GLOSTProviderError,
+  GLOSTTimeoutError,
+  getWordText,
+} from "@glotblocks/glost-core";
 import { deepMerge } from "./utils/deep-merge.js";
 import { MissingNodeTypeError } from "./errors.js";
 
@@ -88,6 +98,297 @@ function validateNodeRequirements(
   return errors;
 }
 
+/**
+ * Check whether a value is a Promise or other thenable
+ *
+ * @internal
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
+
+/**
+ * Guard a hook result in the synchronous pipeline
+ *
+ * Throws a `GLOSTExtensionError` naming the extension and hook when the
+ * hook returned a Promise. The dangling Promise gets a no-op rejection
+ * handler so a later rejection does not surface as unhandled.
+ *
+ * @internal
+ */
+function assertSyncResult<T>(
+  value: T | Promise<T>,
+  extensionId: string,
+  hook: string,
+): T {
+  if (isPromiseLike(value)) {
+    (value as PromiseLike<unknown>).then(undefined, () => {});
+    throw new GLOSTExtensionError(
+      extensionId,
+      `${hook} returned a Promise during synchronous processing. ` +
+        `Use processGLOSTWithExtensionsAsync() for async extensions.`,
+      { suggestion: "Process the document with the async API instead." },
+    );
+  }
+  return value;
+}
+
+/**
+ * Stop processing if the signal has been aborted
+ *
+ * @param signal - Signal from the processor options
+ * @param document - Document as processed so far
+ * @param completedPlugins - IDs of extensions that finished
+ * @throws {GLOSTAbortError} If the signal is aborted
+ *
+ * @internal
+ */
+function throwIfAborted(
+  signal: AbortSignal | undefined,
+  document: GLOSTRoot | undefined,
+  completedPlugins: string[],
+): void {
+  if (signal?.aborted) {
+    throw new GLOSTAbortError("Processing was aborted", {
+      document,
+      completedPlugins: [...completedPlugins],
+      reason: signal.reason,
+    });
+  }
+}
+
+/**
+ * Settings for the node hook calls of one extension (async processing)
+ *
+ * @internal
+ */
+interface NodeCallPolicy {
+  extensionId: string;
+  concurrency: number;
+  timeout?: number;
+  retry?: Required<RetryOptions>;
+  signal?: AbortSignal;
+  warnings: ExtensionWarning[];
+  onWarning?: (warning: ExtensionWarning) => void;
+}
+
+/**
+ * Build the node call policy for an extension from the processor options
+ *
+ * @param extensionId - ID of the extension whose hooks are called
+ * @param options - Processor options
+ * @param warnings - Collects warnings for failed node calls
+ * @returns The policy for this extension
+ *
+ * @internal
+ */
+function createNodeCallPolicy(
+  extensionId: string,
+  options: ProcessorOptions,
+  warnings: ExtensionWarning[],
+): NodeCallPolicy {
+  const timeout =
+    typeof options.timeout === "number"
+      ? options.timeout
+      : options.timeout?.[extensionId];
+
+  return {
+    extensionId,
+    concurrency:
+      options.concurrency !== undefined && options.concurrency > 0
+        ? options.concurrency
+        : Infinity,
+    timeout,
+    retry: options.retry && {
+      retries: options.retry.retries ?? 2,
+      minDelay: options.retry.minDelay ?? 100,
+      maxDelay: options.retry.maxDelay ?? 5000,
+      factor: options.retry.factor ?? 2,
+    },
+    signal: options.signal,
+    warnings,
+    onWarning: options.onWarning,
+  };
+}
+
+/**
+ * Check whether an error may go away when the call is retried
+ *
+ * @internal
+ */
+function isTransientError(error: unknown): boolean {
+  return (
+    error instanceof GLOSTTimeoutError ||
+    (error instanceof GLOSTProviderError && error.transient)
+  );
+}
+
+/**
+ * Wait before the next retry, stopping early when the signal aborts
+ *
+ * @internal
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Reject with a `GLOSTTimeoutError` if a hook call takes longer than `ms`
+ *
+ * @internal
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  message: string,
+  node: GLOSTNode,
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new GLOSTTimeoutError(message, ms, { node })),
+      ms,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Call a node hook with the extension's timeout and retry settings
+ *
+ * Provider errors and timeouts that remain after retrying are recorded
+ * as warnings, and the call resolves to undefined so the node is left
+ * unchanged. Any other error is re-thrown.
+ *
+ * @param policy - Node call policy of the extension
+ * @param phase - Hook being called
+ * @param node - Node passed to the hook
+ * @param call - Invokes the hook
+ * @returns Promise resolving to the hook result
+ *
+ * @internal
+ */
+async function callNodeHook<T>(
+  policy: NodeCallPolicy,
+  phase: ExtensionWarning["phase"],
+  node: GLOSTNode,
+  call: () => T | Promise<T>,
+): Promise<T | undefined> {
+  const retries = policy.retry?.retries ?? 0;
+
+  for (let attempt = 0; ; attempt++) {
+    policy.signal?.throwIfAborted();
+    try {
+      const result = Promise.resolve().then(call);
+      return policy.timeout === undefined
+        ? await result
+        : await withTimeout(
+            result,
+            policy.timeout,
+            `[${policy.extensionId}] ${phase} hook on ${node.type} timed out after ${policy.timeout}ms`,
+            node,
+          );
+    } catch (error) {
+      if (policy.signal?.aborted) {
+        throw error;
+      }
+
+      if (attempt < retries && isTransientError(error)) {
+        const { minDelay, factor, maxDelay } = policy.retry!;
+        await delay(
+          Math.min(minDelay * factor ** attempt, maxDelay),
+          policy.signal,
+        );
+        continue;
+      }
+
+      if (
+        !(error instanceof GLOSTProviderError) &&
+        !(error instanceof GLOSTTimeoutError)
+      ) {
+        throw error;
+      }
+
+      const id = (node as { extras?: { id?: unknown } }).extras?.id;
+      const warning: ExtensionWarning = {
+        extensionId: policy.extensionId,
+        phase,
+        message: error.message,
+        nodeType: node.type,
+        ...(typeof id === "string" && { nodeId: id }),
+        ...(node.type === "WordNode" && { text: getWarningText(node as GLOSTWord) }),
+        attempts: attempt + 1,
+        error,
+      };
+      policy.warnings.push(warning);
+      policy.onWarning?.(warning);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Text of a word for a warning, tolerating words without children
+ *
+ * @internal
+ */
+function getWarningText(word: GLOSTWord): string {
+  return Array.isArray(word.children)
+    ? getWordText(word)
+    : String((word as { text?: unknown }).text ?? "");
+}
+
+/**
+ * Run a task for every node with at most `limit` tasks in flight
+ *
+ * Stops starting new tasks after the first failure, which is re-thrown.
+ *
+ * @internal
+ */
+async function forEachNode<T>(
+  nodes: T[],
+  limit: number,
+  task: (node: T) => Promise<void>,
+): Promise<void> {
+  if (limit >= nodes.length) {
+    await Promise.all(nodes.map(task));
+    return;
+  }
+
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < nodes.length) {
+      const node = nodes[next++]!;
+      try {
+        await task(node);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: limit }, worker));
+}
+
 /**
  * Find an extension that provides a specific node type
  *
@@ -145,6 +446,7 @@ function findProviderForNode(nodeType: string): GLOSTExtension | undefined {
  * @throws {Error} If circular dependencies are detected in extensions
  * @throws {MissingNodeTypeError} If required node types are missing (unless lenient)
  * @throws {ExtensionConflictError} If metadata conflicts occur (unless conflictStrategy !== "error")
+ * @throws {GLOSTExtensionError} If a hook returns a Promise (unless lenient)
  *
  * @see {@link processGLOSTWithExtensionIds} - Process with extension IDs
  * @see {@link ExtensionResult} - Result type
@@ -170,9 +472,11 @@ export function processGLOSTWithExtensions(
     const extensionIds = extensions.map((ext) => ext.id);
     const orderedIds = extensionRegistry.resolveDependencies(extensionIds);
 
-    // Get extensions in order
+    // Get extensions in order, preferring the objects passed in over
+    // registry entries with the same ID
+    const passedExtensions = new Map(extensions.map((ext) => [ext.id, ext]));
     const orderedExtensions = orderedIds
-      .map((id) => extensionRegistry.get(id))
+      .map((id) => passedExtensions.get(id) ?? extensionRegistry.get(id))
       .filter((ext): ext is GLOSTExtension => ext !== undefined);
 
     // Create mutable context that tracks applied extensions
@@ -189,7 +493,8 @@ export function processGLOSTWithExtensions(
     const errors: Array<{ extensionId: string; error: Error }> = [];
 
     // Track which extension wrote which fields for conflict detection
-    const fieldOwnership: Map<string, string> = new Map();
+    const fieldOwnership: Map<string, string> =
+      options.fieldOwnership ?? new Map();
 
     // Apply extensions in order
     for (const extension of orderedExtensions) {
@@ -216,9 +521,11 @@ export function processGLOSTWithExtensions(
 
         // Apply transform if present (sync transforms only - use processGLOSTWithExtensionsAsync for async)
         if (extension.transform) {
-          const result = extension.transform(processedDocument, context);
-          // Type assertion: sync function expects sync transforms
-          processedDocument = result as GLOSTRoot;
+          processedDocument = assertSyncResult(
+            extension.transform(processedDocument, context),
+            extension.id,
+            "transform",
+          );
         }
 
         // Apply visitors
@@ -226,6 +533,7 @@ export function processGLOSTWithExtensions(
           processedDocument = applyVisitors(
             processedDocument,
             extension.visit,
+            extension.id,
             context,
           );
         }
@@ -234,7 +542,12 @@ export function processGLOSTWithExtensions(
         if (extension.enhanceMetadata) {
           processedDocument = enhanceMetadata(
             processedDocument,
-            extension.enhanceMetadata as (node: GLOSTWord, context?: ExtensionContext) => Partial<GLOSTExtras> | void,
+            (node, ctx) =>
+              assertSyncResult(
+                extension.enhanceMetadata!(node, ctx),
+                extension.id,
+                "enhanceMetadata",
+              ),
             extension.id,
             fieldOwnership,
             options,
@@ -264,6 +577,7 @@ export function processGLOSTWithExtensions(
         appliedExtensions,
         skippedExtensions,
         errors,
+        warnings: [],
       },
     };
   } finally {
@@ -278,9 +592,11 @@ export function processGLOSTWithExtensions(
  * Apply visitor functions to the document tree
  *
  * Visits nodes of specified types and applies visitor functions.
+ * Visitors must be synchronous; a visitor returning a Promise throws.
  *
  * @param document - The document to process
  * @param visitors - Visitor functions for different node types
+ * @param extensionId - ID of the current extension (for error reporting)
  * @param context - Extension context
  * @returns The processed document
  *
@@ -289,6 +605,7 @@ export function processGLOSTWithExtensions(
 function applyVisitors(
   document: GLOSTRoot,
   visitors: NonNullable<GLOSTExtension["visit"]>,
+  extensionId: string,
   context: ExtensionContext,
 ): GLOSTRoot {
   let processed = document;
@@ -297,7 +614,11 @@ function applyVisitors(
   if (visitors.word) {
     visit(processed, "WordNode", (node) => {
       if (node.type === "WordNode") {
-        const result = visitors.word!(node, context);
+        const result = assertSyncResult(
+          visitors.word!(node, context),
+          extensionId,
+          "visit.word",
+        );
         if (result) {
           // Replace node with result
           Object.assign(node, result);
@@ -310,7 +631,11 @@ function applyVisitors(
   if (visitors.sentence) {
     visit(processed, "SentenceNode", (node) => {
       if (node.type === "SentenceNode") {
-        const result = visitors.sentence!(node, context);
+        const result = assertSyncResult(
+          visitors.sentence!(node, context),
+          extensionId,
+          "visit.sentence",
+        );
         if (result) {
           Object.assign(node, result);
         }
@@ -322,7 +647,11 @@ function applyVisitors(
   if (visitors.paragraph) {
     visit(processed, "ParagraphNode", (node) => {
       if (node.type === "ParagraphNode") {
-        const result = visitors.paragraph!(node, context);
+        const result = assertSyncResult(
+          visitors.paragraph!(node, context),
+          extensionId,
+          "visit.paragraph",
+        );
         if (result) {
           Object.assign(node, result);
         }
@@ -488,17 +817,116 @@ export function processGLOSTWithExtensionIds(
   return processGLOSTWithExtensions(document, extensions, options);
 }
 
+/**
+ * Check whether two lists share an entry
+ *
+ * @internal
+ */
+function overlaps(a: string[] | undefined, b: string[] | undefined): boolean {
+  return !!a && !!b && a.some((item) => b.includes(item));
+}
+
+/**
+ * Check whether one extension must run before the other
+ *
+ * Extensions are related when either lists the other in `dependencies`,
+ * when either requires extras, metadata fields or node types the other
+ * provides, or when both provide the same one (so the later extension
+ * deterministically writes last).
+ *
+ * @internal
+ */
+function areDependent(a: GLOSTExtension, b: GLOSTExtension): boolean {
+  const needs = (from: GLOSTExtension, to: GLOSTExtension) =>
+    !!from.dependencies?.includes(to.id) ||
+    overlaps(from.requires?.extras, to.provides?.extras) ||
+    overlaps(from.requires?.metadata, to.provides?.metadata) ||
+    overlaps(from.requires?.nodes, to.provides?.nodes);
+
+  const shareOutput =
+    overlaps(a.provides?.extras, b.provides?.extras) ||
+    overlaps(a.provides?.metadata, b.provides?.metadata) ||
+    overlaps(a.provides?.nodes, b.provides?.nodes);
+
+  return needs(a, b) || needs(b, a) || shareOutput;
+}
+
+/**
+ * Group ordered extensions into stages that can run concurrently
+ *
+ * Builds a DAG from `dependencies`, `requires` and `provides` (including
+ * extensions that provide the same field) and places
+ * each extension marked `parallel` in the earliest stage after everything
+ * it is related to. Extensions that are not parallel, or that have a
+ * `transform`, get a stage of their own and act as barriers: nothing
+ * moves across them, so their position in the pipeline is unchanged.
+ *
+ * Within a stage, extensions keep their order from the input.
+ *
+ * @param extensions - Extensions in dependency order
+ * @param options - Processor options (`parallel: false` disables grouping)
+ * @returns Stages to run one after another
+ *
+ * @example
+ * ```typescript
+ * const stages = planExtensionStages([transcription, frequency, difficulty]);
+ * // [[transcription, frequency], [difficulty]] when difficulty depends on frequency
+ * ```
+ *
+ * @since 0.8.0
+ */
+export function planExtensionStages(
+  extensions: GLOSTExtension[],
+  options: ProcessorOptions = {},
+): GLOSTExtension[][] {
+  const stages: GLOSTExtension[][] = [];
+  const stageIndex = new Map<GLOSTExtension, number>();
+  // First stage extensions may still join (after the last barrier)
+  let firstOpenStage = 0;
+
+  for (const [index, extension] of extensions.entries()) {
+    if (options.parallel === false || !extension.parallel || extension.transform) {
+      stages.push([extension]);
+      stageIndex.set(extension, stages.length - 1);
+      firstOpenStage = stages.length;
+      continue;
+    }
+
+    let stage = firstOpenStage;
+    for (const earlier of extensions.slice(0, index)) {
+      const earlierStage = stageIndex.get(earlier)!;
+      if (earlierStage >= stage && areDependent(extension, earlier)) {
+        stage = earlierStage + 1;
+      }
+    }
+
+    if (stage === stages.length) {
+      stages.push([]);
+    }
+    stages[stage]!.push(extension);
+    stageIndex.set(extension, stage);
+  }
+
+  return stages;
+}
+
 /**
  * Process an GLOST document with extensions (async version)
  *
  * Async version of `processGLOSTWithExtensions` that supports async extensions.
  * Extensions can have async transform, visit, and enhanceMetadata functions.
  *
+ * Independent extensions marked `parallel` run concurrently (see
+ * {@link planExtensionStages}); their metadata writes share one field
+ * ownership map, so conflicts are detected as in sequential processing.
+ *
  * @param document - The GLOST document to process
  * @param extensions - Array of extensions to apply
  * @param options - Optional processing options
  * @returns Promise resolving to result containing processed document and metadata
  *
+ * @throws {GLOSTAbortError} If `options.signal` is aborted, even in lenient mode
+ *
  * @example
  * ```typescript
  * import { processGLOSTWithExtensionsAsync } from "@glotblocks/glost-extensions/processor";
@@ -531,9 +959,11 @@ export async function processGLOSTWithExtensionsAsync(
     const extensionIds = extensions.map((ext) => ext.id);
     const orderedIds = extensionRegistry.resolveDependencies(extensionIds);
 
-    // Get extensions in order
+    // Get extensions in order, preferring the objects passed in over
+    // registry entries with the same ID
+    const passedExtensions = new Map(extensions.map((ext) => [ext.id, ext]));
     const orderedExtensions = orderedIds
-      .map((id) => extensionRegistry.get(id))
+      .map((id) => passedExtensions.get(id) ?? extensionRegistry.get(id))
       .filter((ext): ext is GLOSTExtension => ext !== undefined);
 
     const context: ExtensionContext = {
@@ -541,82 +971,122 @@ export async function processGLOSTWithExtensionsAsync(
       extensionIds: orderedIds,
       appliedExtensions: [],
       options,
+      signal: options.signal,
     };
 
     let processedDocument = document;
     const appliedExtensions: string[] = [];
     const skippedExtensions: string[] = [];
     const errors: Array<{ extensionId: string; error: Error }> = [];
+    const warnings: ExtensionWarning[] = [];
 
     // Track which extension wrote which fields for conflict detection
-    const fieldOwnership: Map<string, string> = new Map();
+    const fieldOwnership: Map<string, string> =
+      options.fieldOwnership ?? new Map();
+
+    /**
+     * Run one extension against the document
+     *
+     * Resolves to the processed document, or undefined when the extension
+     * was skipped because of missing node types (lenient mode).
+     */
+    const runExtension = async (
+      extension: GLOSTExtension,
+      tree: GLOSTRoot,
+    ): Promise<GLOSTRoot | undefined> => {
+      // Validate node requirements before running extension
+      const validationErrors = validateNodeRequirements(
+        extension,
+        tree,
+        options,
+      );
 
-    // Apply extensions in order
-    for (const extension of orderedExtensions) {
-      try {
-        // Validate node requirements before running extension
-        const validationErrors = validateNodeRequirements(
-          extension,
-          processedDocument,
+      if (validationErrors.length > 0) {
+        for (const error of validationErrors) {
+          errors.push({ extensionId: extension.id, error });
+        }
+        skippedExtensions.push(extension.id);
+
+        // In strict mode, throw the first validation error
+        if (!options.lenient && validationErrors[0]) {
+          throw validationErrors[0];
+        }
+        return undefined;
+      }
+
+      // Apply transform if present (supports async)
+      if (extension.transform) {
+        tree = await extension.transform(tree, context);
+      }
+
+      const policy = createNodeCallPolicy(extension.id, options, warnings);
+
+      // Apply visitors (supports async)
+      if (extension.visit) {
+        tree = await applyVisitorsAsync(tree, extension.visit, context, policy);
+      }
+
+      // Apply metadata enhancement (supports async)
+      if (extension.enhanceMetadata) {
+        tree = await enhanceMetadataAsync(
+          tree,
+          extension.enhanceMetadata,
+          fieldOwnership,
           options,
+          context,
+          policy,
         );
+      }
 
-        if (validationErrors.length > 0) {
-          for (const error of validationErrors) {
-            errors.push({ extensionId: extension.id, error });
-          }
-          skippedExtensions.push(extension.id);
+      return tree;
+    };
 
-          // In strict mode, throw the first validation error
-          if (!options.lenient && validationErrors[0]) {
-            throw validationErrors[0];
-          }
-          continue;
-        }
+    // Apply stages in order; extensions within a stage run concurrently
+    for (const stage of planExtensionStages(orderedExtensions, options)) {
+      throwIfAborted(options.signal, processedDocument, appliedExtensions);
 
-        // Apply transform if present (supports async)
-        if (extension.transform) {
-          processedDocument = await extension.transform(
-            processedDocument,
-            context,
-          );
-        }
+      const outcomes = await Promise.allSettled(
+        stage.map((extension) => runExtension(extension, processedDocument)),
+      );
 
-        // Apply visitors (supports async)
-        if (extension.visit) {
-          processedDocument = await applyVisitorsAsync(
-            processedDocument,
-            extension.visit,
-            context,
-          );
+      let firstError: unknown;
+      let interrupted = false;
+      for (const [index, outcome] of outcomes.entries()) {
+        const extension = stage[index]!;
+        if (outcome.status === "fulfilled") {
+          if (outcome.value) {
+            processedDocument = outcome.value;
+            appliedExtensions.push(extension.id);
+            context.appliedExtensions.push(extension.id);
+          }
+          continue;
         }
 
-        // Apply metadata enhancement (supports async)
-        if (extension.enhanceMetadata) {
-          processedDocument = await enhanceMetadataAsync(
-            processedDocument,
-            extension.enhanceMetadata,
-            extension.id,
-            fieldOwnership,
-            options,
-            context,
-          );
+        // Failures caused by cancellation are reported as one abort below
+        if (options.signal?.aborted) {
+          interrupted = true;
+          continue;
         }
 
-        appliedExtensions.push(extension.id);
-        context.appliedExtensions.push(extension.id);
-      } catch (error) {
+        const error = outcome.reason;
         errors.push({
           extensionId: extension.id,
           error: error instanceof Error ? error : new Error(String(error)),
         });
         skippedExtensions.push(extension.id);
-
-        // In strict mode, re-throw the error to stop processing
-        if (!options.lenient) {
-          throw error;
+        if (firstError === undefined) {
+          firstError = error;
         }
       }
+
+      if (interrupted) {
+        throwIfAborted(options.signal, processedDocument, appliedExtensions);
+      }
+
+      // In strict mode, re-throw the error to stop processing
+      if (firstError !== undefined && !options.lenient) {
+        throw firstError;
+      }
     }
 
     return {
@@ -625,6 +1095,7 @@ export async function processGLOSTWithExtensionsAsync(
         appliedExtensions,
         skippedExtensions,
         errors,
+        warnings,
       },
     };
   } finally {
@@ -724,6 +1195,8 @@ export async function processGLOSTWithMeta(
  * @param options - Optional processing options
  * @returns Promise resolving to the processed sentences
  *
+ * @throws {GLOSTAbortError} If `options.signal` is aborted
+ *
  * @since 0.7.0
  */
 export async function processGLOSTChunkAsync(
@@ -761,27 +1234,35 @@ export async function processGLOSTChunkAsync(
     extensionIds: extensions.map((e) => e.id),
     appliedExtensions: [],
     options,
+    signal: options.signal,
   };
 
+  // Warnings reach the caller through `options.onWarning`
+  const warnings: ExtensionWarning[] = [];
+
   for (const extension of extensions) {
+    throwIfAborted(options.signal, undefined, context.appliedExtensions);
+    const policy = createNodeCallPolicy(extension.id, options, warnings);
+
     try {
       if (extension.visit) {
-        await applyVisitorsAsync(tempRoot, extension.visit, context);
+        await applyVisitorsAsync(tempRoot, extension.visit, context, policy);
       }
 
       if (extension.enhanceMetadata) {
         await enhanceMetadataAsync(
           tempRoot,
           extension.enhanceMetadata,
-          extension.id,
           fieldOwnership,
           options,
           context,
+          policy,
         );
       }
 
       context.appliedExtensions.push(extension.id);
     } catch (error) {
+      throwIfAborted(options.signal, undefined, context.appliedExtensions);
       if (!options.lenient) {
         throw error;
       }
@@ -806,11 +1287,13 @@ export async function processGLOSTChunkAsync(
  * Apply visitor functions to the document tree (async version)
  *
  * Visits nodes of specified types and applies visitor functions.
- * Supports async visitor functions.
+ * Supports async visitor functions. Calls run concurrently up to the
+ * policy's limit, with its timeout and retry settings.
  *
  * @param document - The document to process
  * @param visitors - Visitor functions for different node types
  * @param context - Extension context
+ * @param policy - Node call policy of the extension
  * @returns Promise resolving to the processed document
  *
  * @internal
@@ -819,6 +1302,7 @@ async function applyVisitorsAsync(
   document: GLOSTRoot,
   visitors: NonNullable<GLOSTExtension["visit"]>,
   context: ExtensionContext,
+  policy: NodeCallPolicy,
 ): Promise<GLOSTRoot> {
   let processed = document;
 
@@ -831,16 +1315,18 @@ async function applyVisitorsAsync(
       }
     });
 
-    // Process all word nodes in parallel
-    await Promise.all(
-      wordNodes.map(async (node) => {
-        const result = await visitors.word!(node, context);
-        if (result) {
-          // Replace node with result
-          Object.assign(node, result);
-        }
-      }),
-    );
+    // Process word nodes in parallel, up to the concurrency limit
+    await forEachNode(wordNodes, policy.concurrency, async (node) => {
+      context.signal?.throwIfAborted();
+      const result = await callNodeHook(policy, "visit", node, () =>
+        visitors.word!(node, context),
+      );
+      context.signal?.throwIfAborted();
+      if (result) {
+        // Replace node with result
+        Object.assign(node, result);
+      }
+    });
   }
 
   // Visit sentence nodes (supports async)
@@ -852,14 +1338,16 @@ async function applyVisitorsAsync(
       }
     });
 
-    await Promise.all(
-      sentenceNodes.map(async (node) => {
-        const result = await visitors.sentence!(node, context);
-        if (result) {
-          Object.assign(node, result);
-        }
-      }),
-    );
+    await forEachNode(sentenceNodes, policy.concurrency, async (node) => {
+      context.signal?.throwIfAborted();
+      const result = await callNodeHook(policy, "visit", node, () =>
+        visitors.sentence!(node, context),
+      );
+      context.signal?.throwIfAborted();
+      if (result) {
+        Object.assign(node, result);
+      }
+    });
   }
 
   // Visit paragraph nodes (supports async)
@@ -871,14 +1359,16 @@ async function applyVisitorsAsync(
       }
     });
 
-    await Promise.all(
-      paragraphNodes.map(async (node) => {
-        const result = await visitors.paragraph!(node, context);
-        if (result) {
-          Object.assign(node, result);
-        }
-      }),
-    );
+    await forEachNode(paragraphNodes, policy.concurrency, async (node) => {
+      context.signal?.throwIfAborted();
+      const result = await callNodeHook(policy, "visit", node, () =>
+        visitors.paragraph!(node, context),
+      );
+      context.signal?.throwIfAborted();
+      if (result) {
+        Object.assign(node, result);
+      }
+    });
   }
 
   return processed;
@@ -892,10 +1382,11 @@ async function applyVisitorsAsync(
  *
  * @param document - The document to process
  * @param enhancer - Function that enhances metadata for word nodes
- * @param extensionId - ID of the current extension (for conflict tracking)
  * @param fieldOwnership - Map tracking which extension owns which fields
  * @param options - Processor options
  * @param context - Extension context
+ * @param policy - Node call policy of the current extension (its ID is
+ *   used for conflict tracking)
  * @returns Promise resolving to the processed document
  *
  * @internal
@@ -909,11 +1400,12 @@ async function enhanceMetadataAsync(
     | Partial<GLOSTExtras>
     | void
     | Promise<Partial<GLOSTExtras> | void>,
-  extensionId: string,
   fieldOwnership: Map<string, string>,
   options: ProcessorOptions,
   context: ExtensionContext,
+  policy: NodeCallPolicy,
 ): Promise<GLOSTRoot> {
+  const { extensionId } = policy;
   const wordNodes: GLOSTWord[] = [];
   visit(document, "WordNode", (node) => {
     if (node.type === "WordNode") {
@@ -921,28 +1413,30 @@ async function enhanceMetadataAsync(
     }
   });
 
-  // Process all word nodes in parallel
-  await Promise.all(
-    wordNodes.map(async (node) => {
-      const enhancement = await enhancer(node, context);
-      if (enhancement) {
-        // Use deep merge with conflict detection
-        node.extras = deepMerge(node.extras ?? {}, enhancement, {
-          arrayStrategy: "concat",
-          conflictStrategy: options.conflictStrategy ?? "error",
-          existingExtensionId: getOwnerForFields(
-            node.extras ?? {},
-            enhancement,
-            fieldOwnership,
-          ),
-          incomingExtensionId: extensionId,
-        }) as GLOSTExtras;
+  // Process word nodes in parallel, up to the concurrency limit
+  await forEachNode(wordNodes, policy.concurrency, async (node) => {
+    context.signal?.throwIfAborted();
+    const enhancement = await callNodeHook(policy, "enhance", node, () =>
+      enhancer(node, context),
+    );
+    context.signal?.throwIfAborted();
+    if (enhancement) {
+      // Use deep merge with conflict detection
+      node.extras = deepMerge(node.extras ?? {}, enhancement, {
+        arrayStrategy: "concat",
+        conflictStrategy: options.conflictStrategy ?? "error",
+        existingExtensionId: getOwnerForFields(
+          node.extras ?? {},
+          enhancement,
+          fieldOwnership,
+        ),
+        incomingExtensionId: extensionId,
+      }) as GLOSTExtras;
 
-        // Track ownership of new fields
-        trackFieldOwnership(enhancement, extensionId, fieldOwnership);
-      }
-    }),
-  );
+      // Track ownership of new fields
+      trackFieldOwnership(enhancement, extensionId, fieldOwnership);
+    }
+  });
 
   return document;
 }
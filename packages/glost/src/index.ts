@@ -41,9 +41,14 @@ export type {
   GLOSTCharacter,
   GLOSTExtras,
   TransliterationData,
+  TranscriptionInfo,
+  TranscriptionSegment,
   LinguisticMetadata,
   LanguageCode,
   ScriptSystem,
+  GLOSTPosition,
+  GLOSTPoint,
+  PositionMapper,
 } from "@glotblocks/glost-core";
 
 // ============================================================================
@@ -80,6 +85,7 @@ export {
   getWordsFromParagraph,
   getWordsFromDocument,
   findNodesByType,
+  findNodeAtOffset,
   findWordsByLanguage,
   findWordsByTranscriptionSystem,
   isGLOSTWord,
@@ -88,6 +94,7 @@ export {
   isGLOSTRoot,
   getWordText,
   getWordTranscription,
+  getWordTranscriptionSegments,
   hasWordTranscription,
   getWordTranslation,
   getSentenceTranslation,
@@ -95,6 +102,8 @@ export {
   getWordPartOfSpeech,
   getWordDifficulty,
   getWordMeaning,
+  // Source position utilities
+  createPositionMapper,
   // BCP-47 Language utilities
   parseLanguageTag,
   getBaseLanguage,
@@ -105,10 +114,42 @@ export {
   isValidLanguageTag,
 } from "@glotblocks/glost-core";
 
+// ============================================================================
+// Document Diff
+// ============================================================================
+export { diffGLOST, applyGLOSTPatch } from "@glotblocks/glost-core";
+export type {
+  GLOSTPatch,
+  GLOSTChange,
+  GLOSTFieldChange,
+  GLOSTNodePath,
+  DiffGLOSTOptions,
+} from "@glotblocks/glost-core";
+
+// ============================================================================
+// Selectors
+// ============================================================================
+export { select, selectAll } from "@glotblocks/glost-core";
+export type {
+  SelectedNode,
+  SelectableTree,
+  SelectableParallelDocument,
+} from "@glotblocks/glost-core";
+
 // ============================================================================
 // Processor API
 // ============================================================================
-export { glost, GLOSTProcessor, GLOSTStreamProcessor } from "@glotblocks/glost-processor";
+export {
+  glost,
+  GLOSTProcessor,
+  GLOSTStreamProcessor,
+  GLOSTProcessorPool,
+  GLOSTTracer,
+  toChromeTrace,
+  toOpenTelemetrySpans,
+  summarizeTrace,
+  formatTraceSummary,
+} from "@glotblocks/glost-processor";
 export type {
   FrozenProcessor,
   FrozenStreamProcessor,
@@ -116,6 +157,7 @@ export type {
   PluginSpec,
   Preset,
   ProcessorOptions,
+  ProcessOptions,
   ProcessingResult,
   ProcessingError,
   ProcessingWarning,
@@ -128,7 +170,19 @@ export type {
   ProgressStats,
   StreamOptions,
   ProcessedChunk,
+  ProcessorDefinition,
+  ProcessorPoolOptions,
+  ProcessorPoolSetup,
+  ProcessingTrace,
+  TraceSpan,
+  TraceSummaryRow,
 } from "@glotblocks/glost-processor";
+export {
+  GLOSTAbortError,
+  GLOSTProviderError,
+  GLOSTTimeoutError,
+} from "@glotblocks/glost-core";
+export type { GLOSTAbortDetails } from "@glotblocks/glost-core";
 
 // ============================================================================
 // Plugin Registry
@@ -4,13 +4,23 @@
  * Re-exports the processor API for convenient access via glost/processor.
  */
 
-export { glost, GLOSTProcessor } from "@glotblocks/glost-processor";
+export {
+  glost,
+  GLOSTProcessor,
+  GLOSTProcessorPool,
+  GLOSTTracer,
+  toChromeTrace,
+  toOpenTelemetrySpans,
+  summarizeTrace,
+  formatTraceSummary,
+} from "@glotblocks/glost-processor";
 export type {
   FrozenProcessor,
   Plugin,
   PluginSpec,
   Preset,
   ProcessorOptions,
+  ProcessOptions,
   ProcessingResult,
   ProcessingError,
   ProcessingWarning,
@@ -21,4 +31,10 @@ export type {
   SkipHook,
   ProgressHook,
   ProgressStats,
+  ProcessorDefinition,
+  ProcessorPoolOptions,
+  ProcessorPoolSetup,
+  ProcessingTrace,
+  TraceSpan,
+  TraceSummaryRow,
 } from "@glotblocks/glost-processor";
@@ -0,0 +1,246 @@
+import type { Element, ElementContent, Properties, Text } from "hast";
+import type {
+  GLOSTClause,
+  GLOSTParagraph,
+  GLOSTPhrase,
+  GLOSTSentence,
+  GLOSTWord,
+} from "@glotblocks/glost";
+import {
+  getWordDifficulty,
+  getWordPartOfSpeech,
+  getWordText,
+  getWordTranscription,
+  getWordTranslation,
+} from "@glotblocks/glost";
+import type { Handler, Handlers, RubyPosition, SerializableNode } from "./types.js";
+
+function element(
+  tagName: string,
+  properties: Properties,
+  children: ElementContent[],
+): Element {
+  return { type: "element", tagName, properties, children };
+}
+
+function text(value: string): Text {
+  return { type: "text", value };
+}
+
+function hasWhitespace(node: SerializableNode): boolean {
+  const originalText = (node as { originalText?: unknown }).originalText;
+  return typeof originalText === "string" && /\s/.test(originalText);
+}
+
+/**
+ * Words in a sentence are separated by a space when the sentence's
+ * original text has whitespace (there are usually no `WhiteSpaceNode`s)
+ */
+function separateWords(sentence: SerializableNode) {
+  const spaced = hasWhitespace(sentence);
+  return (previous: SerializableNode, next: SerializableNode) =>
+    spaced && previous.type === "WordNode" && next.type === "WordNode"
+      ? " "
+      : undefined;
+}
+
+/**
+ * Scripts whose sentences follow each other without a space
+ * (Han, kana and full-width punctuation such as 。)
+ */
+const UNSPACED_SENTENCE_END =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff01-\uff65]$/u;
+
+/**
+ * Whether the sentence ends in a script written without spaces, judged
+ * from its original text or, without one, its language
+ */
+function endsUnspaced(node: SerializableNode): boolean {
+  const originalText = (node as { originalText?: unknown }).originalText;
+  if (typeof originalText === "string" && originalText.trim()) {
+    return UNSPACED_SENTENCE_END.test(originalText.trimEnd());
+  }
+  return /^(ja|zh)\b/.test(node.lang ?? "");
+}
+
+/**
+ * Sentences are separated by a space unless the previous one ends in
+ * Japanese or Chinese text
+ */
+function separateSentences(previous: SerializableNode, next: SerializableNode) {
+  return previous.type === "SentenceNode" &&
+    next.type === "SentenceNode" &&
+    !endsUnspaced(previous)
+    ? " "
+    : undefined;
+}
+
+const root: Handler = (node, state) =>
+  element(
+    "div",
+    { className: ["glost-root"], ...state.properties(node) },
+    state.all(node, separateSentences),
+  );
+
+const paragraph: Handler<GLOSTParagraph> = (node, state) =>
+  element(
+    "p",
+    { className: ["glost-paragraph"], ...state.properties(node) },
+    state.all(node, separateSentences),
+  );
+
+const sentence: Handler<GLOSTSentence> = (node, state) =>
+  element(
+    "span",
+    { className: ["glost-sentence"], ...state.properties(node) },
+    state.all(node, separateWords(node)),
+  );
+
+const clause: Handler<GLOSTClause> = (node, state) =>
+  element(
+    "span",
+    {
+      className: ["glost-clause"],
+      ...state.properties(node),
+      dataClauseType: node.clauseType,
+    },
+    state.all(node, separateWords(node)),
+  );
+
+const phrase: Handler<GLOSTPhrase> = (node, state) =>
+  element(
+    "span",
+    {
+      className: ["glost-phrase"],
+      ...state.properties(node),
+      dataPhraseType: node.phraseType,
+    },
+    state.all(node, separateWords(node)),
+  );
+
+const literal: Handler<SerializableNode & { value: string }> = (node) =>
+  text(node.value);
+
+/**
+ * Render a word following the `RubyWord` display-level rules
+ */
+const word: Handler<GLOSTWord> = (node, state) => {
+  const { displayLevel, transcriptionSystem, languageStrategy, translationLanguage } =
+    state.options;
+  const level = {
+    transcription: displayLevel >= 2,
+    shortDefinition: displayLevel >= 3,
+    partOfSpeech: displayLevel >= 4,
+    difficulty: displayLevel >= 5,
+  };
+  const properties: Properties = {
+    className: ["glost-word"],
+    ...state.properties(node),
+  };
+  const content = getWordText(node);
+
+  if (displayLevel === 1) {
+    return element("span", properties, [text(content)]);
+  }
+
+  const translation = getWordTranslation(node, translationLanguage);
+  const partOfSpeech = getWordPartOfSpeech(node);
+  const difficulty = getWordDifficulty(node);
+
+  const tooltip = [translation, partOfSpeech && `(${partOfSpeech})`]
+    .filter(Boolean)
+    .join(" ");
+  if (tooltip) {
+    properties.title = tooltip;
+  }
+
+  const transcription =
+    level.transcription && transcriptionSystem
+      ? getWordTranscription(node, transcriptionSystem)
+      : null;
+  const showTranscription =
+    !!transcription &&
+    (languageStrategy?.shouldShowTranscription?.(node, transcriptionSystem!) ??
+      true);
+
+  const children: ElementContent[] = [];
+  if (showTranscription) {
+    const rubyPosition: RubyPosition =
+      languageStrategy?.getRubyPosition?.(node, transcriptionSystem!) ?? "over";
+    const rtClassName = languageStrategy?.getTranscriptionClassName?.(
+      node,
+      transcriptionSystem!,
+    );
+
+    children.push(
+      element("ruby", { style: `ruby-position: ${rubyPosition}` }, [
+        text(content),
+        element("rp", {}, [text("(")]),
+        element(
+          "rt",
+          rtClassName ? { className: rtClassName.split(/\s+/).filter(Boolean) } : {},
+          [text(transcription)],
+        ),
+        element("rp", {}, [text(")")]),
+      ]),
+    );
+  } else {
+    children.push(text(content));
+  }
+
+  if (level.shortDefinition && translation) {
+    children.push(
+      element("span", { className: ["glost-definition"] }, [text(translation)]),
+    );
+  }
+  if (level.partOfSpeech && partOfSpeech) {
+    children.push(
+      element("span", { className: ["glost-pos"] }, [text(partOfSpeech)]),
+    );
+  }
+  if (level.difficulty && difficulty) {
+    children.push(
+      element("span", { className: ["glost-difficulty"] }, [
+        text(String(difficulty)),
+      ]),
+    );
+  }
+
+  return element("span", properties, children);
+};
+
+/**
+ * Fallback for node types without a handler
+ *
+ * Parents become a `<span data-type="...">` around their children and
+ * literals become text; anything else is dropped.
+ */
+export const unknownHandler: Handler = (node, state) => {
+  if (Array.isArray(node.children)) {
+    return element(
+      "span",
+      { ...state.properties(node), dataType: node.type },
+      state.all(node),
+    );
+  }
+
+  const value = (node as { value?: unknown }).value;
+  return typeof value === "string" ? text(value) : undefined;
+};
+
+/**
+ * Built-in handlers for GLOST node types
+ */
+export const defaultHandlers: Handlers = {
+  RootNode: root,
+  ParagraphNode: paragraph,
+  SentenceNode: sentence,
+  ClauseNode: clause,
+  PhraseNode: phrase,
+  WordNode: word,
+  TextNode: literal,
+  WhiteSpaceNode: literal,
+  PunctuationNode: literal,
+  SymbolNode: literal,
+  SourceNode: literal,
+};
@@ -0,0 +1,25 @@
+/**
+ * GloST HTML - Serialize GloST documents to hast and HTML
+ *
+ * Renders `GLOSTRoot` trees as semantic HTML with `<ruby>` annotations
+ * for static sites, emails and EPUB exports, without React.
+ *
+ * @packageDocumentation
+ */
+
+export { toHast } from "./to-hast.js";
+export { toHtml } from "./to-html.js";
+export { defaultHandlers, unknownHandler } from "./handlers.js";
+
+export type {
+  DisplayLevel,
+  Handler,
+  HandlerResult,
+  Handlers,
+  LanguageRenderingStrategy,
+  RubyPosition,
+  SerializableNode,
+  ToHastOptions,
+  ToHastState,
+  ToHtmlOptions,
+} from "./types.js";
@@ -0,0 +1,138 @@
+import type { ElementContent, Properties, Root } from "hast";
+import type { GLOSTNode } from "@glotblocks/glost";
+import { defaultHandlers, unknownHandler } from "./handlers.js";
+import type { SerializableNode, ToHastOptions, ToHastState } from "./types.js";
+
+function isNode(value: unknown): value is SerializableNode {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { type?: unknown }).type === "string"
+  );
+}
+
+/**
+ * Read a level from `extras.difficulty` / `extras.frequency`, which are
+ * either plain values or `{ level }` objects written by the plugins
+ */
+function readLevel(value: unknown): string | undefined {
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value);
+  }
+  if (typeof value === "object" && value !== null && "level" in value) {
+    return readLevel((value as { level: unknown }).level);
+  }
+  return undefined;
+}
+
+function createState(options: ToHastOptions): ToHastState {
+  const handlers = { ...defaultHandlers, ...options.handlers };
+  const fallback = options.unknownHandler ?? unknownHandler;
+  let lang: string | undefined;
+
+  const state: ToHastState = {
+    options: {
+      ...options,
+      displayLevel: options.displayLevel ?? 2,
+      translationLanguage: options.translationLanguage ?? "en-US",
+    },
+
+    get lang() {
+      return lang;
+    },
+
+    one(node) {
+      const handler = handlers[node.type] ?? fallback;
+      const result = handler(node, state);
+      if (result === undefined) return [];
+      return Array.isArray(result) ? result : [result];
+    },
+
+    all(parent, separator) {
+      const children = (parent.children ?? []).filter(isNode);
+      const inherited = lang;
+      lang = parent.lang ?? lang;
+
+      try {
+        const result: ElementContent[] = [];
+        children.forEach((child, index) => {
+          const previous = children[index - 1];
+          const between = previous && separator?.(previous, child);
+          if (between) {
+            result.push({ type: "text", value: between });
+          }
+          result.push(...state.one(child));
+        });
+        return result;
+      } finally {
+        lang = inherited;
+      }
+    },
+
+    properties(node) {
+      const properties: Properties = {};
+      if (node.lang && node.lang !== lang) {
+        properties.lang = node.lang;
+      }
+
+      const extras = (node.extras ?? {}) as Record<string, unknown>;
+      const metadata = (extras.metadata ?? {}) as Record<string, unknown>;
+
+      if (typeof extras.id === "string") {
+        properties.dataId = extras.id;
+      }
+
+      const difficulty =
+        readLevel(extras.difficulty) ??
+        readLevel(metadata.difficulty) ??
+        readLevel((node as { difficulty?: unknown }).difficulty);
+      if (difficulty !== undefined) {
+        properties.dataDifficulty = difficulty;
+      }
+
+      const frequency = readLevel(extras.frequency) ?? readLevel(metadata.frequency);
+      if (frequency !== undefined) {
+        properties.dataFrequency = frequency;
+      }
+
+      return properties;
+    },
+  };
+
+  return state;
+}
+
+/**
+ * Convert a GLOST tree to a hast tree
+ *
+ * Words with a transcription in `transcriptionSystem` become
+ * `<ruby>`/`<rt>` using the same display-level and rendering-strategy
+ * rules as `RubyWord`. Elements carry `lang` where it changes and
+ * `data-id`, `data-difficulty` and `data-frequency` from `extras`.
+ *
+ * @param tree - GLOST root or any GLOST node
+ * @param options - Rendering options and custom handlers
+ * @returns hast root
+ *
+ * @example
+ * ```ts
+ * const hast = toHast(document, {
+ *   displayLevel: 2,
+ *   transcriptionSystem: "furigana",
+ *   handlers: {
+ *     DialogueNode: (node, state) => ({
+ *       type: "element",
+ *       tagName: "section",
+ *       properties: state.properties(node),
+ *       children: state.all(node),
+ *     }),
+ *   },
+ * });
+ * ```
+ */
+export function toHast(
+  tree: GLOSTNode | SerializableNode,
+  options: ToHastOptions = {},
+): Root {
+  return { type: "root", children: createState(options).one(tree) };
+}
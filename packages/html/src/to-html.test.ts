@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import {
+  createGLOSTParagraphNode,
+  createGLOSTRootNode,
+  createGLOSTSentenceNode,
+  createGLOSTWordNode,
+  getWordText,
+} from "@glotblocks/glost";
+import type { GLOSTRoot, GLOSTSentence, GLOSTWord } from "@glotblocks/glost";
+
+import { toHast } from "./to-hast.js";
+import { toHtml } from "./to-html.js";
+import type { Handler, LanguageRenderingStrategy, SerializableNode } from "./types.js";
+
+function thaiWord(value: string, extras?: GLOSTWord["extras"]): GLOSTWord {
+  const word = createGLOSTWordNode({
+    value,
+    lang: "th",
+    script: "thai",
+    transcription: { "paiboon+": { text: `${value}-rom` } },
+    extras,
+  });
+  word.metadata = { partOfSpeech: "noun" };
+  return word;
+}
+
+function buildDocument(sentences: GLOSTSentence[], lang = "th"): GLOSTRoot {
+  return createGLOSTRootNode({
+    lang,
+    script: "thai",
+    children: [createGLOSTParagraphNode(sentences)],
+  });
+}
+
+function thaiSentence(words: GLOSTWord[]): GLOSTSentence {
+  return createGLOSTSentenceNode({
+    originalText: words.map(getWordText).join(""),
+    lang: "th",
+    script: "thai",
+    children: words,
+  });
+}
+
+describe("toHtml", () => {
+  it("renders words with transcriptions as ruby", () => {
+    const doc = buildDocument([thaiSentence([thaiWord("ไทย")])]);
+
+    expect(toHtml(doc, { transcriptionSystem: "paiboon+" })).toBe(
+      '<div class="glost-root" lang="th"><p class="glost-paragraph"><span class="glost-sentence">' +
+        '<span class="glost-word" title="(noun)"><ruby style="ruby-position: over">ไทย' +
+        "<rp>(</rp><rt>ไทย-rom</rt><rp>)</rp></ruby></span></span></p></div>",
+    );
+  });
+
+  it("renders plain text at display level 1", () => {
+    const doc = buildDocument([thaiSentence([thaiWord("ไทย")])]);
+
+    expect(toHtml(doc, { displayLevel: 1, transcriptionSystem: "paiboon+" })).toContain(
+      '<span class="glost-word">ไทย</span>',
+    );
+  });
+
+  it("follows the language strategy for ruby position and visibility", () => {
+    const doc = buildDocument([thaiSentence([thaiWord("ไทย"), thaiWord("ภาษา")])]);
+    const languageStrategy: LanguageRenderingStrategy = {
+      getRubyPosition: () => "under",
+      getTranscriptionClassName: () => "thai-rt",
+      shouldShowTranscription: (word) => getWordText(word) !== "ภาษา",
+    };
+
+    const html = toHtml(doc, { transcriptionSystem: "paiboon+", languageStrategy });
+
+    expect(html).toContain(
+      '<ruby style="ruby-position: under">ไทย<rp>(</rp><rt class="thai-rt">ไทย-rom</rt>',
+    );
+    expect(html).toContain('title="(noun)">ภาษา</span>');
+  });
+
+  it("adds definitions, part of speech and difficulty by display level", () => {
+    const word = thaiWord("ไทย", { translations: { "en-US": "Thai" } });
+    word.difficulty = 2;
+    const doc = buildDocument([thaiSentence([word])]);
+
+    const level3 = toHtml(doc, { displayLevel: 3, transcriptionSystem: "paiboon+" });
+    expect(level3).toContain('<span class="glost-definition">Thai</span>');
+    expect(level3).not.toContain("glost-pos");
+
+    const level5 = toHtml(doc, { displayLevel: 5, transcriptionSystem: "paiboon+" });
+    expect(level5).toContain('<span class="glost-pos">noun</span>');
+    expect(level5).toContain('<span class="glost-difficulty">2</span>');
+    expect(level5).toContain('title="Thai (noun)"');
+  });
+
+  it("writes data attributes for id, difficulty and frequency", () => {
+    const doc = buildDocument([
+      thaiSentence([
+        thaiWord("ไทย", {
+          id: "p1-s1-w1",
+          difficulty: { level: "beginner" },
+          frequency: { level: "very-common" },
+        }),
+      ]),
+    ]);
+
+    expect(toHtml(doc, { displayLevel: 1 })).toContain(
+      '<span class="glost-word" data-id="p1-s1-w1" data-difficulty="beginner" data-frequency="very-common">',
+    );
+  });
+
+  it("marks language changes and separates space-delimited words", () => {
+    const english = createGLOSTSentenceNode({
+      originalText: "Hello world",
+      lang: "en",
+      script: "latin",
+      children: [
+        createGLOSTWordNode({ value: "Hello", lang: "en", script: "latin" }),
+        createGLOSTWordNode({ value: "world", lang: "en", script: "latin" }),
+      ],
+    });
+    const doc = buildDocument([english, thaiSentence([thaiWord("ไทย")])]);
+
+    expect(toHtml(doc, { displayLevel: 1 })).toBe(
+      '<div class="glost-root" lang="th"><p class="glost-paragraph">' +
+        '<span class="glost-sentence" lang="en"><span class="glost-word">Hello</span> ' +
+        '<span class="glost-word">world</span></span> ' +
+        '<span class="glost-sentence"><span class="glost-word">ไทย</span></span></p></div>',
+    );
+  });
+
+  it("separates single-word sentences", () => {
+    const sentence = (value: string) =>
+      createGLOSTSentenceNode({
+        originalText: value,
+        lang: "en",
+        script: "latin",
+        children: [createGLOSTWordNode({ value, lang: "en", script: "latin" })],
+      });
+    const doc = buildDocument([sentence("Hi"), sentence("Fine")], "en");
+
+    expect(toHtml(doc, { displayLevel: 1 })).toContain(
+      '<span class="glost-word">Hi</span></span> <span class="glost-sentence">',
+    );
+  });
+
+  it("keeps Japanese sentences unspaced", () => {
+    const sentence = (value: string) =>
+      createGLOSTSentenceNode({
+        originalText: `${value}。`,
+        lang: "ja",
+        script: "mixed",
+        children: [createGLOSTWordNode({ value, lang: "ja", script: "mixed" })],
+      });
+    const doc = buildDocument([sentence("はい"), sentence("そう")], "ja");
+
+    expect(toHtml(doc, { displayLevel: 1 })).toContain(
+      '<span class="glost-word">はい</span></span><span class="glost-sentence">',
+    );
+  });
+});
+
+describe("toHast", () => {
+  interface DialogueNode extends SerializableNode {
+    type: "DialogueNode";
+    children: GLOSTSentence[];
+  }
+
+  const dialogue = (): GLOSTRoot => {
+    const doc = buildDocument([]);
+    const paragraph = doc.children[0] as { children: unknown[] };
+    paragraph.children.push({
+      type: "DialogueNode",
+      children: [thaiSentence([thaiWord("ไทย")])],
+    } satisfies DialogueNode);
+    return doc;
+  };
+
+  it("wraps unknown parent nodes in a span with their type", () => {
+    const html = toHtml(dialogue(), { displayLevel: 1 });
+
+    expect(html).toContain(
+      '<span data-type="DialogueNode"><span class="glost-sentence">',
+    );
+  });
+
+  it("uses custom handlers for custom node types", () => {
+    const handler: Handler<DialogueNode> = (node, state) => ({
+      type: "element",
+      tagName: "section",
+      properties: { ...state.properties(node), className: ["dialogue"] },
+      children: state.all(node),
+    });
+
+    const tree = toHast(dialogue(), { displayLevel: 1, handlers: { DialogueNode: handler } });
+    const paragraph = (tree.children[0] as { children: unknown[] }).children[0] as {
+      children: Array<{ tagName: string }>;
+    };
+
+    expect(paragraph.children[0]!.tagName).toBe("section");
+  });
+
+  it("serializes nodes other than the root", () => {
+    const tree = toHast(thaiWord("ไทย"), { displayLevel: 1 });
+
+    expect(tree).toEqual({
+      type: "root",
+      children: [
+        {
+          type: "element",
+          tagName: "span",
+          properties: { className: ["glost-word"], lang: "th" },
+          children: [{ type: "text", value: "ไทย" }],
+        },
+      ],
+    });
+  });
+});
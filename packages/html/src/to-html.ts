@@ -0,0 +1,30 @@
+import { toHtml as hastToHtml } from "hast-util-to-html";
+import type { GLOSTNode } from "@glotblocks/glost";
+import { toHast } from "./to-hast.js";
+import type { SerializableNode, ToHtmlOptions } from "./types.js";
+
+/**
+ * Serialize a GLOST tree to an HTML string
+ *
+ * Shorthand for `toHast` followed by `hast-util-to-html`.
+ *
+ * @param tree - GLOST root or any GLOST node
+ * @param options - Rendering options, plus `html` options for the serializer
+ * @returns HTML fragment
+ *
+ * @example
+ * ```ts
+ * const html = toHtml(document, {
+ *   displayLevel: 3,
+ *   transcriptionSystem: "paiboon+",
+ *   languageStrategy: { getRubyPosition: () => "under" },
+ * });
+ * ```
+ */
+export function toHtml(
+  tree: GLOSTNode | SerializableNode,
+  options: ToHtmlOptions = {},
+): string {
+  const { html, ...hastOptions } = options;
+  return hastToHtml(toHast(tree, hastOptions), html);
+}
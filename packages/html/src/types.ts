@@ -0,0 +1,136 @@
+import type { ElementContent, Properties } from "hast";
+import type { Options as HastToHtmlOptions } from "hast-util-to-html";
+import type { GLOSTWord } from "@glotblocks/glost";
+
+/**
+ * Display level, as in glost-react
+ *
+ * - 1: text only
+ * - 2: + transcription as ruby
+ * - 3: + short definition
+ * - 4: + part of speech
+ * - 5: + difficulty
+ */
+export type DisplayLevel = 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Position of the ruby text (the CSS `ruby-position` value)
+ */
+export type RubyPosition = "over" | "under" | "inter-character";
+
+/**
+ * Language-specific rendering rules
+ *
+ * The subset of glost-react's `LanguageRenderingStrategy` used for HTML,
+ * so strategies written for `RubyWord` can be passed as they are.
+ */
+export interface LanguageRenderingStrategy {
+  /** Whether to show the transcription for this word (default: true) */
+  shouldShowTranscription?: (word: GLOSTWord, transcriptionSystem: string) => boolean;
+  /** Ruby position for this word (default: "over") */
+  getRubyPosition?: (word: GLOSTWord, transcriptionSystem: string) => RubyPosition;
+  /** Class name(s) for the `<rt>` element */
+  getTranscriptionClassName?: (word: GLOSTWord, transcriptionSystem: string) => string;
+}
+
+/**
+ * Minimal shape of a node handed to a handler
+ *
+ * Handlers for custom node types (such as `DialogueNode`) can narrow this
+ * to their own node type.
+ */
+export interface SerializableNode {
+  type: string;
+  children?: readonly unknown[];
+  lang?: string;
+  extras?: object;
+}
+
+/**
+ * Result of a handler: one hast node, several, or nothing
+ */
+export type HandlerResult = ElementContent | ElementContent[] | undefined;
+
+/**
+ * Turn a GLOST node into hast
+ *
+ * @example
+ * ```ts
+ * const dialogue: Handler<GLOSTDialogue> = (node, state) => ({
+ *   type: "element",
+ *   tagName: "section",
+ *   properties: { ...state.properties(node), className: ["dialogue"] },
+ *   children: state.all(node),
+ * });
+ * ```
+ */
+export type Handler<N extends SerializableNode = SerializableNode> = (
+  node: N,
+  state: ToHastState,
+) => HandlerResult;
+
+/**
+ * Handlers by node type
+ */
+export type Handlers = Partial<Record<string, Handler<any>>>;
+
+/**
+ * Options for {@link toHast}
+ */
+export interface ToHastOptions {
+  /** Display level (1-5), using the same rules as `RubyWord` (default: 2) */
+  displayLevel?: DisplayLevel;
+  /** Transcription system rendered as ruby text (e.g. "furigana", "paiboon+") */
+  transcriptionSystem?: string;
+  /** Language-specific rendering strategy, as passed to `RubyWord` */
+  languageStrategy?: LanguageRenderingStrategy;
+  /** Language of definitions shown at level 3+ (default: "en-US") */
+  translationLanguage?: string;
+  /** Handlers for custom node types, or to override the built-in ones */
+  handlers?: Handlers;
+  /**
+   * Handler for node types without a handler
+   *
+   * By default, nodes with children become a `<span>` with a
+   * `data-type` attribute and nodes with a string `value` become text.
+   */
+  unknownHandler?: Handler;
+}
+
+/**
+ * Options for {@link toHtml}
+ */
+export interface ToHtmlOptions extends ToHastOptions {
+  /** Options passed to `hast-util-to-html` */
+  html?: HastToHtmlOptions;
+}
+
+/**
+ * State shared by handlers during one {@link toHast} call
+ */
+export interface ToHastState {
+  /** Resolved options */
+  readonly options: ToHastOptions & {
+    displayLevel: DisplayLevel;
+    translationLanguage: string;
+  };
+  /** Language inherited from the nearest ancestor with a `lang` */
+  readonly lang: string | undefined;
+  /** Serialize a single node */
+  one(node: SerializableNode): ElementContent[];
+  /**
+   * Serialize the children of a node
+   *
+   * @param separator - Text to insert between two adjacent children, if any
+   */
+  all(
+    parent: SerializableNode,
+    separator?: (previous: SerializableNode, next: SerializableNode) => string | undefined,
+  ): ElementContent[];
+  /**
+   * Common properties for a node's element: `lang` when it differs from
+   * the inherited language, plus `data-id`, `data-difficulty` and
+   * `data-frequency` from `extras`
+   */
+  properties(node: SerializableNode): Properties;
+}
@@ -4,6 +4,7 @@
  */
 import { BaseDataProvider, type BaseProviderOptions, type DataLoader, type GlostLanguage } from "@glotblocks/glost-common";
 import type { TranscriptionProvider } from "@glotblocks/glost-transcription";
+import { JAPANESE_ROMAJI_SCHEMES, isKanaText, kanaToRomaji } from "../romaji.js";
 
 export interface JapaneseTranscriptionData {
   [word: string]: { romaji?: string; hepburn?: string; kunrei?: string; ipa?: string; [scheme: string]: string | undefined };
@@ -11,20 +12,26 @@ export interface JapaneseTranscriptionData {
 
 export interface JapaneseTranscriptionProviderOptions extends BaseProviderOptions {
   dataLoader?: DataLoader<JapaneseTranscriptionData>;
+  /** Romanize kana words and schemes missing from the data by rule (default: true) */
+  romanizeKana?: boolean;
 }
 
 export class JapaneseTranscriptionProvider extends BaseDataProvider<JapaneseTranscriptionData> implements TranscriptionProvider {
   protected supportedLanguages = ["ja" as const];
   private dataLoader?: DataLoader<JapaneseTranscriptionData>;
+  private romanizeKana: boolean;
 
   constructor(options: JapaneseTranscriptionProviderOptions = {}) {
     super(options);
     this.dataLoader = options.dataLoader;
+    this.romanizeKana = options.romanizeKana ?? true;
   }
 
   protected async loadData(): Promise<JapaneseTranscriptionData> {
     if (!this.dataLoader) {
-      this.log("No data loader provided for Japanese transcription.", "warn");
+      if (!this.romanizeKana) {
+        this.log("No data loader provided for Japanese transcription.", "warn");
+      }
       return {};
     }
     try {
@@ -42,11 +49,16 @@ export class JapaneseTranscriptionProvider extends BaseDataProvider<JapaneseTran
     if (!word || typeof word !== "string" || word.trim().length === 0) return undefined;
     return this.withErrorHandling(async () => {
       const data = await this.ensureLoaded();
-      const result = data[word.trim()];
-      if (!result) return undefined;
+      const text = word.trim();
+      const result = data[text] ?? {};
       
       // Filter out undefined values to match Record<string, string>
       const filtered: Record<string, string> = {};
+      if (this.romanizeKana && isKanaText(text)) {
+        for (const scheme of JAPANESE_ROMAJI_SCHEMES) {
+          filtered[scheme] = kanaToRomaji(text, scheme);
+        }
+      }
       for (const [key, value] of Object.entries(result)) {
         if (value !== undefined) {
           filtered[key] = value;
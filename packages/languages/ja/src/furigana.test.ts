@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { createGLOSTWordNode, createSimpleDocument, getAllWords, getWordTranscriptionSegments } from '@glotblocks/glost';
+import { processGLOSTWithExtensionsAsync } from '@glotblocks/glost-plugins';
+import { alignFurigana, createFuriganaAlignmentExtension } from './furigana.js';
+import { createJapaneseWord } from './helpers.js';
+
+describe('alignFurigana', () => {
+  it('splits the reading around okurigana', () => {
+    expect(alignFurigana('食べ物', 'たべもの')).toEqual([
+      { base: '食', ruby: 'た' },
+      { base: 'べ' },
+      { base: '物', ruby: 'もの' },
+    ]);
+    expect(alignFurigana('お茶', 'おちゃ')).toEqual([{ base: 'お' }, { base: '茶', ruby: 'ちゃ' }]);
+    expect(alignFurigana('見る', 'みる')).toEqual([{ base: '見', ruby: 'み' }, { base: 'る' }]);
+  });
+
+  it('keeps a kanji run with its whole reading', () => {
+    expect(alignFurigana('日本語', 'にほんご')).toEqual([{ base: '日本語', ruby: 'にほんご' }]);
+  });
+
+  it('reads 々 and ヶ like kanji', () => {
+    expect(alignFurigana('時々', 'ときどき')).toEqual([{ base: '時々', ruby: 'ときどき' }]);
+    expect(alignFurigana('三ヶ月', 'さんかげつ')).toEqual([{ base: '三ヶ月', ruby: 'さんかげつ' }]);
+  });
+
+  it('gives the shortest fit to the first kanji span', () => {
+    expect(alignFurigana('取り扱い', 'とりあつかい')).toEqual([
+      { base: '取', ruby: 'と' },
+      { base: 'り' },
+      { base: '扱', ruby: 'あつか' },
+      { base: 'い' },
+    ]);
+  });
+
+  it('matches kana regardless of script and keeps the reading script', () => {
+    expect(alignFurigana('食べ物', 'タベモノ')).toEqual([
+      { base: '食', ruby: 'タ' },
+      { base: 'べ' },
+      { base: '物', ruby: 'モノ' },
+    ]);
+    expect(alignFurigana('カメラ付き', 'かめらつき')).toEqual([
+      { base: 'カメラ' },
+      { base: '付', ruby: 'つ' },
+      { base: 'き' },
+    ]);
+  });
+
+  it('returns undefined when the reading does not fit', () => {
+    expect(alignFurigana('食べ物', 'のみもの')).toBeUndefined();
+    expect(alignFurigana('食べる', 'べる')).toBeUndefined();
+    expect(alignFurigana('食べ物', '')).toBeUndefined();
+  });
+});
+
+describe('createFuriganaAlignmentExtension', () => {
+  const word = (value: string, reading: string) =>
+    createGLOSTWordNode({
+      value,
+      lang: 'ja',
+      script: 'mixed',
+      transcription: { furigana: { text: reading } },
+    });
+  const processWords = async (words: ReturnType<typeof word>[], extension = createFuriganaAlignmentExtension()) => {
+    const result = await processGLOSTWithExtensionsAsync(createSimpleDocument(words, 'ja', 'mixed'), [extension]);
+    return getAllWords(result.document);
+  };
+
+  it('stores segments on the furigana transcription', async () => {
+    const [tabemono] = await processWords([word('食べ物', 'たべもの')]);
+
+    expect(getWordTranscriptionSegments(tabemono, 'furigana')).toEqual([
+      { base: '食', ruby: 'た' },
+      { base: 'べ' },
+      { base: '物', ruby: 'もの' },
+    ]);
+  });
+
+  it('leaves kana-only words and unalignable readings alone', async () => {
+    const [kana, wrong] = await processWords([word('すし', 'すし'), word('食べ物', 'のみもの')]);
+
+    expect(getWordTranscriptionSegments(kana, 'furigana')).toBeNull();
+    expect(getWordTranscriptionSegments(wrong, 'furigana')).toBeNull();
+  });
+
+  it('keeps existing segments unless overwriting', async () => {
+    const existing = [{ base: '食べ物', ruby: 'たべもの' }];
+    const aligned = word('食べ物', 'たべもの');
+    aligned.transcription!.furigana!.segments = existing;
+
+    const [kept] = await processWords([aligned]);
+    expect(getWordTranscriptionSegments(kept, 'furigana')).toEqual(existing);
+
+    const [replaced] = await processWords([aligned], createFuriganaAlignmentExtension({ overwrite: true }));
+    expect(getWordTranscriptionSegments(replaced, 'furigana')).toHaveLength(3);
+  });
+
+  it('reads from another system when configured', async () => {
+    const hiragana = createGLOSTWordNode({
+      value: 'お茶',
+      lang: 'ja',
+      script: 'mixed',
+      transcription: { hiragana: { text: 'おちゃ' } },
+    });
+
+    const [result] = await processWords([hiragana], createFuriganaAlignmentExtension({ system: 'hiragana' }));
+    expect(getWordTranscriptionSegments(result, 'hiragana')).toEqual([
+      { base: 'お' },
+      { base: '茶', ruby: 'ちゃ' },
+    ]);
+  });
+});
+
+describe('createJapaneseWord', () => {
+  it('aligns the furigana it is given', () => {
+    const tabemono = createJapaneseWord({ text: '食べ物', furigana: 'たべもの' });
+
+    expect(tabemono.transcription?.furigana?.segments).toEqual([
+      { base: '食', ruby: 'た' },
+      { base: 'べ' },
+      { base: '物', ruby: 'もの' },
+    ]);
+  });
+
+  it('omits segments when the reading does not fit', () => {
+    const word = createJapaneseWord({ text: '食べ物', furigana: 'のみもの' });
+
+    expect(word.transcription?.furigana?.text).toBe('のみもの');
+    expect(word.transcription?.furigana?.segments).toBeUndefined();
+  });
+});
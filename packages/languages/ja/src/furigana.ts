@@ -0,0 +1,165 @@
+/**
+ * Furigana Alignment
+ *
+ * Splits a word's reading over its surface text, so furigana sits over each
+ * kanji span instead of across the whole word: 食べ物 + たべもの becomes
+ * 食(た) べ 物(もの).
+ *
+ * Kana in the surface (okurigana and the like) is matched against the
+ * reading, and whatever is left between the matches goes to the kanji spans.
+ * When a kanji span's reading could end at more than one place, the shortest
+ * fit wins.
+ *
+ * @packageDocumentation
+ */
+
+import type { GLOSTWord, TranscriptionSegment } from '@glotblocks/glost';
+import { getWordText } from '@glotblocks/glost';
+import type { GLOSTExtension } from '@glotblocks/glost-plugins';
+import { getScriptType } from './constants.js';
+import { toHiragana } from './romaji.js';
+
+/** Kanji-like marks that take a reading: 々 (repeat), 〆, and the counters ヶ/ヵ */
+const KANJI_LIKE = /[々〆ヶヵ]/;
+
+/**
+ * Whether a surface character is read from the reading rather than matched
+ */
+function needsRuby(char: string): boolean {
+  if (KANJI_LIKE.test(char)) return true;
+  const script = getScriptType(char);
+  return script !== 'hiragana' && script !== 'katakana';
+}
+
+/**
+ * Align a reading with the surface text of a word
+ *
+ * Returns one segment per run of kana or kanji. Kanji runs carry their part
+ * of the reading as `ruby`, in the script the reading was given in; kana runs
+ * have no `ruby`. Returns `undefined` when the reading doesn't fit the kana in
+ * the surface (e.g. a reading for a different word).
+ *
+ * @param surface - Word as written, e.g. `'食べ物'`
+ * @param reading - Kana reading, e.g. `'たべもの'`
+ *
+ * @example
+ * ```typescript
+ * alignFurigana('食べ物', 'たべもの');
+ * // [{ base: '食', ruby: 'た' }, { base: 'べ' }, { base: '物', ruby: 'もの' }]
+ *
+ * alignFurigana('お茶', 'おちゃ');
+ * // [{ base: 'お' }, { base: '茶', ruby: 'ちゃ' }]
+ *
+ * alignFurigana('日本語', 'にほんご');
+ * // [{ base: '日本語', ruby: 'にほんご' }]
+ * ```
+ */
+export function alignFurigana(
+  surface: string,
+  reading: string,
+): TranscriptionSegment[] | undefined {
+  if (!surface || !reading) return undefined;
+
+  // Group the surface into alternating kana / kanji runs
+  const runs: { text: string; ruby: boolean }[] = [];
+  for (const char of surface) {
+    const ruby = needsRuby(char);
+    const last = runs[runs.length - 1];
+    if (last && last.ruby === ruby) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, ruby });
+    }
+  }
+
+  // Kana runs must appear verbatim (ignoring hiragana/katakana); kanji runs
+  // take at least one character of reading each
+  const pattern = runs
+    .map((run) => (run.ruby ? '(.+?)' : `(${escapeRegExp(toHiragana(run.text))})`))
+    .join('');
+  const match = new RegExp(`^${pattern}$`, 'u').exec(toHiragana(reading));
+  if (!match) return undefined;
+
+  // toHiragana keeps lengths, so offsets into the match apply to `reading`
+  const segments: TranscriptionSegment[] = [];
+  let offset = 0;
+  runs.forEach((run, i) => {
+    const length = match[i + 1]!.length;
+    if (run.ruby) {
+      segments.push({ base: run.text, ruby: reading.slice(offset, offset + length) });
+    } else {
+      segments.push({ base: run.text });
+    }
+    offset += length;
+  });
+
+  return segments;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Options for the furigana alignment extension
+ */
+export interface FuriganaAlignmentExtensionOptions {
+  /**
+   * Transcription system holding the reading
+   * @default 'furigana'
+   */
+  system?: string;
+  /**
+   * Re-align words that already have segments
+   * @default false
+   */
+  overwrite?: boolean;
+}
+
+/**
+ * Create the furigana alignment extension
+ *
+ * Stores `segments` on each Japanese word's furigana transcription, which
+ * `RubyWord` in glost-react renders as one ruby per kanji span. Words whose
+ * reading doesn't fit, or that have no kanji, are left as they are.
+ *
+ * @example
+ * ```typescript
+ * import { createFuriganaAlignmentExtension } from '@glotblocks/glost-ja/furigana';
+ *
+ * const result = await processGLOSTWithExtensionsAsync(document, [
+ *   createFuriganaAlignmentExtension(),
+ * ]);
+ * ```
+ */
+export function createFuriganaAlignmentExtension(
+  options: FuriganaAlignmentExtensionOptions = {},
+): GLOSTExtension {
+  const { system = 'furigana', overwrite = false } = options;
+
+  return {
+    id: 'furigana-alignment',
+    name: 'Furigana Alignment',
+    description: 'Splits furigana readings over the kanji they belong to',
+
+    visit: {
+      word: (node: GLOSTWord) => {
+        if (node.lang && !node.lang.startsWith('ja')) return;
+
+        const info = node.transcription?.[system];
+        if (!info?.text) return;
+        if (info.segments && !overwrite) return;
+
+        const segments = alignFurigana(getWordText(node), info.text);
+        if (segments?.some((segment) => segment.ruby !== undefined)) {
+          info.segments = segments;
+        }
+      },
+    },
+  };
+}
+
+/**
+ * Default furigana alignment extension
+ */
+export const furiganaAlignmentExtension = createFuriganaAlignmentExtension();
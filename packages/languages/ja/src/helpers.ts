@@ -6,6 +6,7 @@
 
 import type { GLOSTWord, TransliterationData, LinguisticMetadata } from '@glotblocks/glost';
 import { createGLOSTWordNode } from '@glotblocks/glost';
+import { alignFurigana } from './furigana.js';
 
 /**
  * Options for creating a Japanese word node
@@ -17,7 +18,7 @@ export interface CreateJapaneseWordOptions {
   romaji?: string;
   /** Part of speech (default: "unknown") */
   partOfSpeech?: string;
-  /** Furigana reading */
+  /** Furigana reading, split over the kanji it belongs to */
   furigana?: string;
 }
 
@@ -43,6 +44,12 @@ export function createJapaneseWord(
 ): GLOSTWord {
   const { text, romaji, partOfSpeech = "unknown", furigana } = options;
 
+  // Per-kanji furigana, when the reading fits and any kanji needs it
+  const aligned = furigana ? alignFurigana(text, furigana) : undefined;
+  const segments = aligned?.some((segment) => segment.ruby !== undefined)
+    ? aligned
+    : undefined;
+
   // Only create transcription if romaji or furigana is provided
   const transcription: TransliterationData | undefined = (romaji || furigana) ? {
     ...(romaji && {
@@ -55,6 +62,7 @@ export function createJapaneseWord(
       furigana: {
         text: furigana,
         syllables: [text],
+        ...(segments && { segments }),
       },
     }),
   } : undefined;
@@ -9,3 +9,5 @@
 export * from './constants.js';
 export * from './helpers.js';
 export * from './transcription.js';
+export * from './romaji.js';
+export * from './furigana.js';
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import type { GLOSTWord } from '@glotblocks/glost';
+import { createGLOSTWordNode, createSimpleDocument, getAllWords } from '@glotblocks/glost';
+import { processGLOSTWithExtensionsAsync } from '@glotblocks/glost-plugins';
+import {
+  JAPANESE_ROMAJI_SCHEMES,
+  createJapaneseRomajiExtension,
+  createJapaneseRomajiProvider,
+  isKanaText,
+  kanaToRomaji,
+  matchesKanaReading,
+  romajiToKana,
+  toHiragana,
+  toKatakana,
+  type JapaneseRomajiScheme,
+} from './romaji.js';
+import { JapaneseTranscriptionProvider } from './extensions/transcription.js';
+
+/** Expected romaji as [hepburn, kunrei, nihon, romaji] */
+const EXAMPLES: Array<[string, [string, string, string, string]]> = [
+  // Sokuon
+  ['きっぷ', ['kippu', 'kippu', 'kippu', 'kippu']],
+  ['マッチ', ['matchi', 'matti', 'matti', 'matchi']],
+  ['ざっし', ['zasshi', 'zassi', 'zassi', 'zasshi']],
+  ['あっ', ['a', 'a', 'a', 'a']],
+  // Hatsuon
+  ['しんよう', ["shin'yō", "sin'yô", "sin'yô", "shin'you"]],
+  ['かんい', ["kan'i", "kan'i", "kan'i", "kan'i"]],
+  ['さんぽ', ['sanpo', 'sanpo', 'sanpo', 'sanpo']],
+  // Long vowels
+  ['とうきょう', ['tōkyō', 'tôkyô', 'tôkyô', 'toukyou']],
+  ['おおきい', ['ōkii', 'ôkii', 'ôkii', 'ookii']],
+  ['くうき', ['kūki', 'kûki', 'kûki', 'kuuki']],
+  ['コーヒー', ['kōhī', 'kôhî', 'kôhî', 'ko-hi-']],
+  // Scheme-specific spellings
+  ['ふじさん', ['fujisan', 'huzisan', 'huzisan', 'fujisan']],
+  ['ちぢむ', ['chijimu', 'tizimu', 'tidimu', 'chidimu']],
+  ['しゃしん', ['shashin', 'syasin', 'syasin', 'shashin']],
+  ['ほんを', ["hon'o", "hon'o", 'honwo', 'honwo']],
+  ['パーティー', ['pātī', 'pâtî', 'pâtî', 'pa-thi-']],
+];
+
+describe('kanaToRomaji', () => {
+  for (const [kana, expected] of EXAMPLES) {
+    JAPANESE_ROMAJI_SCHEMES.forEach((scheme, i) => {
+      it(`romanizes ${kana} in ${scheme}`, () => {
+        expect(kanaToRomaji(kana, scheme)).toBe(expected[i]);
+      });
+    });
+  }
+
+  it('defaults to Hepburn', () => {
+    expect(kanaToRomaji('ありがとう')).toBe('arigatō');
+  });
+
+  it('passes kanji through and maps Japanese punctuation', () => {
+    expect(kanaToRomaji('日本へ。')).toBe('日本he.');
+  });
+});
+
+describe('romajiToKana', () => {
+  const ROUND_TRIP = ['とうきょう', 'きっぷ', 'まっち', 'しんよう', 'がっこう', 'ちゃわん', 'じゅぎょう', 'さんぽ', 'おんな', 'ちぢむ'];
+
+  for (const scheme of ['hepburn', 'kunrei', 'nihon', 'romaji'] as JapaneseRomajiScheme[]) {
+    it(`round-trips ${scheme} romaji back to kana`, () => {
+      for (const kana of ROUND_TRIP) {
+        const romaji = kanaToRomaji(kana, scheme);
+        // Hepburn and Kunrei spell ぢ like じ, so it can't round-trip
+        const expected = kana === 'ちぢむ' && (scheme === 'hepburn' || scheme === 'kunrei') ? 'ちじむ' : kana;
+        expect(romajiToKana(romaji), `${kana} → ${romaji}`).toBe(expected);
+      }
+    });
+  }
+
+  it('accepts IME spellings', () => {
+    expect(romajiToKana("shin'you")).toBe('しんよう');
+    expect(romajiToKana('sinnbunn')).toBe('しんぶん');
+    expect(romajiToKana('konnyaku')).toBe('こんにゃく');
+    expect(romajiToKana('kaxtu')).toBe('かっ');
+    expect(romajiToKana('jyugyou')).toBe('じゅぎょう');
+  });
+
+  it('writes katakana with ー for long vowels', () => {
+    expect(romajiToKana('kōhī', { script: 'katakana' })).toBe('コーヒー');
+    expect(romajiToKana('ko-hi-', { script: 'katakana' })).toBe('コーヒー');
+  });
+
+  it('passes non-romaji through', () => {
+    expect(romajiToKana('日本 123')).toBe('日本 123');
+  });
+});
+
+describe('kana helpers', () => {
+  it('converts between hiragana and katakana', () => {
+    expect(toHiragana('カタカナー')).toBe('かたかなー');
+    expect(toKatakana('ひらがな')).toBe('ヒラガナ');
+  });
+
+  it('detects kana-only text', () => {
+    expect(isKanaText('ありがとう、コーヒー！')).toBe(true);
+    expect(isKanaText('日本')).toBe(false);
+    expect(isKanaText('。')).toBe(false);
+  });
+});
+
+describe('matchesKanaReading', () => {
+  it('accepts any romaji scheme and long vowel spelling', () => {
+    expect(matchesKanaReading('toukyou', 'とうきょう')).toBe(true);
+    expect(matchesKanaReading('tōkyō', 'とうきょう')).toBe(true);
+    expect(matchesKanaReading('tôkyô', 'とうきょう')).toBe(true);
+    expect(matchesKanaReading('sinbun', 'しんぶん')).toBe(true);
+    expect(matchesKanaReading('kouhii', 'コーヒー')).toBe(true);
+    expect(matchesKanaReading('ookii', 'おおきい')).toBe(true);
+  });
+
+  it('accepts kana in either script', () => {
+    expect(matchesKanaReading('ひらがな', 'ヒラガナ')).toBe(true);
+  });
+
+  it('rejects wrong readings', () => {
+    expect(matchesKanaReading('tokyo', 'とうきょう')).toBe(false);
+    expect(matchesKanaReading('kipu', 'きっぷ')).toBe(false);
+  });
+});
+
+describe('createJapaneseRomajiProvider', () => {
+  const provider = createJapaneseRomajiProvider();
+
+  it('transcribes kana in every scheme', () => {
+    expect(provider.getTranscription('ありがとう', 'hepburn')).toBe('arigatō');
+    expect(provider.getTranscription('ありがとう', 'kunrei')).toBe('arigatô');
+    expect(provider.getTranscription('ありがとう', 'katakana')).toBe('アリガトウ');
+    expect(provider.getTranscription('アリガトウ', 'hiragana')).toBe('ありがとう');
+  });
+
+  it('returns undefined for text with kanji', () => {
+    expect(provider.getTranscription('日本', 'hepburn')).toBeUndefined();
+  });
+});
+
+describe('createJapaneseRomajiExtension', () => {
+  const processWords = async (words: GLOSTWord[], extension = createJapaneseRomajiExtension()) => {
+    const document = createSimpleDocument(words, 'ja', 'mixed');
+    const result = await processGLOSTWithExtensionsAsync(document, [extension]);
+    return getAllWords(result.document);
+  };
+
+  it('romanizes the furigana reading of kanji words', async () => {
+    const word = createGLOSTWordNode({
+      value: '漢字',
+      lang: 'ja',
+      script: 'mixed',
+      transcription: { furigana: { text: 'かんじ' } },
+    });
+
+    const [result] = await processWords([word]);
+    expect(result.transcription?.hepburn?.text).toBe('kanji');
+    expect(result.transcription?.kunrei?.text).toBe('kanzi');
+  });
+
+  it('romanizes kana words from their text', async () => {
+    const [result] = await processWords([createGLOSTWordNode({ value: 'すし', lang: 'ja', script: 'hiragana' })]);
+
+    expect(result.transcription?.hepburn?.text).toBe('sushi');
+  });
+
+  it('leaves kanji words without a reading alone', async () => {
+    const [result] = await processWords([createGLOSTWordNode({ value: '日本', lang: 'ja', script: 'kanji' })]);
+
+    expect(result.transcription?.hepburn).toBeUndefined();
+  });
+
+  it('keeps existing romaji unless overwriting', async () => {
+    const word = () =>
+      createGLOSTWordNode({
+        value: 'とうきょう',
+        lang: 'ja',
+        script: 'hiragana',
+        transcription: { hepburn: { text: 'Tokyo' } },
+      });
+
+    const [kept] = await processWords([word()], createJapaneseRomajiExtension({ schemes: ['hepburn'] }));
+    expect(kept.transcription?.hepburn?.text).toBe('Tokyo');
+
+    const [replaced] = await processWords(
+      [word()],
+      createJapaneseRomajiExtension({ schemes: ['hepburn'], overwrite: true }),
+    );
+    expect(replaced.transcription?.hepburn?.text).toBe('tōkyō');
+    expect(replaced.transcription?.kunrei).toBeUndefined();
+  });
+});
+
+describe('JapaneseTranscriptionProvider', () => {
+  it('romanizes kana words without dictionary data', async () => {
+    const provider = new JapaneseTranscriptionProvider();
+
+    expect(await provider.getTranscriptions('きっぷ', 'ja')).toEqual({
+      hepburn: 'kippu',
+      kunrei: 'kippu',
+      nihon: 'kippu',
+      romaji: 'kippu',
+    });
+  });
+
+  it('prefers dictionary entries and fills the missing schemes by rule', async () => {
+    const provider = new JapaneseTranscriptionProvider({
+      dataLoader: { load: async () => ({ 'とうきょう': { hepburn: 'Tōkyō', ipa: 'toːkʲoː' } }) },
+    });
+
+    const result = await provider.getTranscriptions('とうきょう', 'ja');
+    expect(result).toMatchObject({ hepburn: 'Tōkyō', ipa: 'toːkʲoː', kunrei: 'tôkyô' });
+  });
+
+  it('returns undefined for kanji words without data', async () => {
+    const provider = new JapaneseTranscriptionProvider();
+
+    expect(await provider.getTranscriptions('日本', 'ja')).toBeUndefined();
+  });
+
+  it('ignores other languages', async () => {
+    const provider = new JapaneseTranscriptionProvider();
+
+    expect(await provider.getTranscriptions('きっぷ', 'ko')).toBeUndefined();
+  });
+});
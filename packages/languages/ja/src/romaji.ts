@@ -0,0 +1,594 @@
+/**
+ * Japanese Kana ↔ Romaji Conversion
+ *
+ * Rule-based conversion between hiragana/katakana and the romaji schemes in
+ * `JAPANESE_TRANSCRIPTION_SCHEMES`:
+ *
+ * - `hepburn`: modified Hepburn (shi, chi, tsu, fu, ji; ō/ū for long vowels)
+ * - `kunrei`: Kunrei-shiki (si, ti, tu, hu, zi; ô/û for long vowels)
+ * - `nihon`: Nihon-shiki (as Kunrei, but ぢ di, づ du, を wo)
+ * - `romaji`: kana-faithful "wāpuro" romaji as typed into an IME
+ *   (toukyou, を wo, ティ thi, ー as -)
+ *
+ * Conversion works on readings, so it can't see morpheme boundaries: おう
+ * is always treated as a long ō (correct in とうきょう, not in おもう), and
+ * particles は/へ are read as ha/he. Kanji pass through unchanged.
+ *
+ * @packageDocumentation
+ */
+
+import { createLookupProvider, type TranscriptionProvider } from '@glotblocks/glost-common';
+import type { GLOSTWord } from '@glotblocks/glost';
+import { getWordText } from '@glotblocks/glost';
+import type { GLOSTExtension } from '@glotblocks/glost-plugins';
+import {
+  JAPANESE_TRANSCRIPTION_SCHEMES,
+  JAPANESE_TRANSCRIPTION_SCHEME_NAMES,
+} from './constants.js';
+
+/**
+ * Romaji schemes `kanaToRomaji` can produce
+ */
+export const JAPANESE_ROMAJI_SCHEMES = [
+  JAPANESE_TRANSCRIPTION_SCHEMES.HEPBURN,
+  JAPANESE_TRANSCRIPTION_SCHEMES.KUNREI,
+  JAPANESE_TRANSCRIPTION_SCHEMES.NIHON,
+  JAPANESE_TRANSCRIPTION_SCHEMES.ROMAJI,
+] as const;
+
+export type JapaneseRomajiScheme = typeof JAPANESE_ROMAJI_SCHEMES[number];
+
+/**
+ * Mora spelling as [Hepburn, Kunrei, Nihon, wāpuro]; a string is the same in
+ * all, and wāpuro defaults to Hepburn
+ */
+type Spelling = string | [string, string, string, string?];
+
+/** Single hiragana, including small kana read on their own */
+const MONOGRAPHS: Record<string, Spelling> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'さ': 'sa', 'し': ['shi', 'si', 'si'], 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'ざ': 'za', 'じ': ['ji', 'zi', 'zi'], 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'た': 'ta', 'ち': ['chi', 'ti', 'ti'], 'つ': ['tsu', 'tu', 'tu'], 'て': 'te', 'と': 'to',
+  'だ': 'da', 'ぢ': ['ji', 'zi', 'di', 'di'], 'づ': ['zu', 'zu', 'du', 'du'], 'で': 'de', 'ど': 'do',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': ['fu', 'hu', 'hu'], 'へ': 'he', 'ほ': 'ho',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': ['i', 'i', 'wi', 'wi'], 'ゑ': ['e', 'e', 'we', 'we'], 'を': ['o', 'o', 'wo', 'wo'],
+  'ゔ': 'vu',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o',
+  'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo', 'ゎ': 'wa', 'ゕ': 'ka', 'ゖ': 'ke',
+};
+
+/** Combinations outside the regular yōon (mostly for katakana loanwords) */
+const EXTENDED_DIGRAPHS: Record<string, Spelling> = {
+  'しぇ': ['she', 'sye', 'sye'], 'ちぇ': ['che', 'tye', 'tye'], 'じぇ': ['je', 'zye', 'zye'],
+  'ぢぇ': ['je', 'zye', 'dye'],
+  'つぁ': 'tsa', 'つぃ': 'tsi', 'つぇ': 'tse', 'つぉ': 'tso',
+  'てぃ': ['ti', 'ti', 'ti', 'thi'], 'でぃ': ['di', 'di', 'di', 'dhi'],
+  'とぅ': ['tu', 'tu', 'tu', 'twu'], 'どぅ': ['du', 'du', 'du', 'dwu'],
+  'てゅ': ['tyu', 'tyu', 'tyu', 'thu'], 'でゅ': ['dyu', 'dyu', 'dyu', 'dhu'],
+  'ふぁ': 'fa', 'ふぃ': 'fi', 'ふぇ': 'fe', 'ふぉ': 'fo', 'ふゅ': 'fyu',
+  'うぃ': 'wi', 'うぇ': 'we', 'うぉ': 'wo', 'いぇ': 'ye',
+  'ゔぁ': 'va', 'ゔぃ': 'vi', 'ゔぇ': 've', 'ゔぉ': 'vo', 'ゔゅ': 'vyu',
+  'くぁ': 'kwa', 'ぐぁ': 'gwa',
+};
+
+const SMALL_Y: Record<string, string> = { 'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o' };
+
+const PUNCTUATION: Record<string, string> = {
+  '。': '.', '、': ',', '・': ' ', '「': '"', '」': '"', '『': '"', '』': '"',
+  '！': '!', '？': '?', '（': '(', '）': ')', '〜': '~', '　': ' ',
+};
+
+const MACRON: Record<string, string> = { a: 'ā', i: 'ī', u: 'ū', e: 'ē', o: 'ō' };
+const CIRCUMFLEX: Record<string, string> = { a: 'â', i: 'î', u: 'û', e: 'ê', o: 'ô' };
+
+const VOWELS = 'aiueo';
+const SOKUON = 'っ';
+const HATSUON = 'ん';
+const CHOONPU = 'ー';
+
+/**
+ * Convert katakana to hiragana
+ *
+ * The prolonged sound mark ー and non-kana characters are kept as they are.
+ *
+ * @example
+ * ```typescript
+ * toHiragana('カタカナ'); // 'かたかな'
+ * ```
+ */
+export function toHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, (char) =>
+    String.fromCharCode(char.charCodeAt(0) - 0x60),
+  );
+}
+
+/**
+ * Convert hiragana to katakana
+ *
+ * @example
+ * ```typescript
+ * toKatakana('ひらがな'); // 'ヒラガナ'
+ * ```
+ */
+export function toKatakana(text: string): string {
+  return text.replace(/[ぁ-ゖ]/g, (char) =>
+    String.fromCharCode(char.charCodeAt(0) + 0x60),
+  );
+}
+
+/**
+ * Whether text is written entirely in kana (ignoring spaces and punctuation)
+ */
+export function isKanaText(text: string): boolean {
+  let hasKana = false;
+  for (const char of text) {
+    if (/[ぁ-ゖァ-ヺー]/.test(char)) {
+      hasKana = true;
+    } else if (!/[\s　-〿・！-／：-＠]/.test(char)) {
+      return false;
+    }
+  }
+  return hasKana;
+}
+
+function spell(spelling: Spelling, scheme: JapaneseRomajiScheme): string {
+  if (typeof spelling === 'string') return spelling;
+  switch (scheme) {
+    case JAPANESE_TRANSCRIPTION_SCHEMES.KUNREI:
+      return spelling[1];
+    case JAPANESE_TRANSCRIPTION_SCHEMES.NIHON:
+      return spelling[2];
+    case JAPANESE_TRANSCRIPTION_SCHEMES.ROMAJI:
+      return spelling[3] ?? spelling[0];
+    default:
+      return spelling[0];
+  }
+}
+
+/**
+ * Read one mora of hiragana at `i`, returning its spelling and length
+ */
+function readMora(
+  chars: string[],
+  i: number,
+  scheme: JapaneseRomajiScheme,
+): { romaji: string; length: number } | undefined {
+  const char = chars[i]!;
+  const next = chars[i + 1];
+
+  if (next !== undefined) {
+    const extended = EXTENDED_DIGRAPHS[char + next];
+    if (extended) return { romaji: spell(extended, scheme), length: 2 };
+
+    // Yōon: an i-row kana plus small ya/yu/yo
+    const vowel = SMALL_Y[next];
+    const base = MONOGRAPHS[char];
+    if (vowel && base && char !== 'い') {
+      const romaji = spell(base, scheme);
+      if (romaji.length > 1 && romaji.endsWith('i')) {
+        const stem = romaji.slice(0, -1);
+        // sh, ch and j already carry the glide
+        const glide = stem === 'sh' || stem === 'ch' || stem === 'j' ? '' : 'y';
+        return { romaji: stem + glide + vowel, length: 2 };
+      }
+    }
+  }
+
+  const single = MONOGRAPHS[char];
+  return single ? { romaji: spell(single, scheme), length: 1 } : undefined;
+}
+
+/**
+ * Convert hiragana or katakana to romaji
+ *
+ * Handles sokuon (っ doubles the next consonant, っち → tchi in Hepburn),
+ * long vowels (おう/おお/うう and ー), ん before vowels and y (n'), and yōon.
+ * A っ with no consonant after it (as in あっ) is dropped.
+ * Kanji and other characters pass through unchanged; Japanese punctuation is
+ * mapped to its ASCII counterpart.
+ *
+ * @param text - Kana text
+ * @param scheme - Romaji scheme (default: 'hepburn')
+ * @returns Romanized text
+ *
+ * @example
+ * ```typescript
+ * kanaToRomaji('とうきょう');          // 'tōkyō'
+ * kanaToRomaji('とうきょう', 'kunrei'); // 'tôkyô'
+ * kanaToRomaji('とうきょう', 'romaji'); // 'toukyou'
+ * kanaToRomaji('きっぷ');              // 'kippu'
+ * kanaToRomaji('マッチ');              // 'matchi'
+ * kanaToRomaji('しんよう');            // "shin'yō"
+ * kanaToRomaji('コーヒー');            // 'kōhī'
+ * ```
+ */
+export function kanaToRomaji(
+  text: string,
+  scheme: JapaneseRomajiScheme = JAPANESE_TRANSCRIPTION_SCHEMES.HEPBURN,
+): string {
+  const chars = Array.from(toHiragana(text));
+  const long = scheme === JAPANESE_TRANSCRIPTION_SCHEMES.HEPBURN
+    ? MACRON
+    : scheme === JAPANESE_TRANSCRIPTION_SCHEMES.ROMAJI
+      ? undefined
+      : CIRCUMFLEX;
+
+  let out = '';
+  /** Vowel the output currently ends in, if it ends in a plain vowel */
+  let lastVowel: string | undefined;
+  let pendingSokuon = false;
+
+  for (let i = 0; i < chars.length; ) {
+    const char = chars[i]!;
+
+    if (char === SOKUON) {
+      pendingSokuon = true;
+      lastVowel = undefined;
+      i++;
+      continue;
+    }
+
+    if (char === HATSUON) {
+      const next = readMora(chars, i + 1, scheme)?.romaji;
+      const beforeVowel = next !== undefined && (VOWELS.includes(next[0]!) || next[0] === 'y');
+      out += beforeVowel ? "n'" : 'n';
+      pendingSokuon = false;
+      lastVowel = undefined;
+      i++;
+      continue;
+    }
+
+    if (char === CHOONPU) {
+      if (lastVowel && long) {
+        out = out.slice(0, -1) + long[lastVowel];
+        lastVowel = undefined;
+      } else if (!long) {
+        out += '-';
+      }
+      pendingSokuon = false;
+      i++;
+      continue;
+    }
+
+    const mora = readMora(chars, i, scheme);
+    if (!mora) {
+      out += PUNCTUATION[char] ?? char;
+      pendingSokuon = false;
+      lastVowel = undefined;
+      i++;
+      continue;
+    }
+
+    let romaji = mora.romaji;
+    const isPlainVowel = mora.length === 1 && romaji.length === 1 && !/[ぁぃぅぇぉ]/.test(char);
+
+    // おう, おお and うう are long vowels (ii, ei, aa and ee are written out)
+    if (
+      long &&
+      isPlainVowel &&
+      lastVowel !== undefined &&
+      ((lastVowel === 'o' && (romaji === 'u' || romaji === 'o')) ||
+        (lastVowel === 'u' && romaji === 'u'))
+    ) {
+      out = out.slice(0, -1) + long[lastVowel];
+      lastVowel = undefined;
+      pendingSokuon = false;
+      i += mora.length;
+      continue;
+    }
+
+    if (pendingSokuon && !VOWELS.includes(romaji[0]!)) {
+      const tch = romaji.startsWith('ch') && scheme !== JAPANESE_TRANSCRIPTION_SCHEMES.KUNREI &&
+        scheme !== JAPANESE_TRANSCRIPTION_SCHEMES.NIHON;
+      romaji = (tch ? 't' : romaji[0]) + romaji;
+    }
+    pendingSokuon = false;
+
+    out += romaji;
+    const final = romaji[romaji.length - 1]!;
+    lastVowel = VOWELS.includes(final) ? final : undefined;
+    i += mora.length;
+  }
+
+  return out;
+}
+
+/** Romaji spellings accepted on input, longest first */
+let romajiInputTable: [string, string][] | undefined;
+
+function getRomajiInputTable(): [string, string][] {
+  if (romajiInputTable) return romajiInputTable;
+
+  const table = new Map<string, string>();
+  const add = (romaji: string, kana: string) => {
+    if (!table.has(romaji)) table.set(romaji, kana);
+  };
+
+  // Regular kana first so they win over small kana and digraph aliases
+  const regular = Object.keys(MONOGRAPHS).filter((kana) => !/[ぁぃぅぇぉゃゅょゎゕゖ]/.test(kana));
+  for (const kana of regular) {
+    for (const scheme of JAPANESE_ROMAJI_SCHEMES) add(spell(MONOGRAPHS[kana]!, scheme), kana);
+  }
+  for (const kana of regular) {
+    for (const small of Object.keys(SMALL_Y)) {
+      const chars = [kana, small];
+      for (const scheme of JAPANESE_ROMAJI_SCHEMES) {
+        const mora = readMora(chars, 0, scheme);
+        if (mora?.length === 2) add(mora.romaji, kana + small);
+      }
+    }
+  }
+  for (const [kana, spelling] of Object.entries(EXTENDED_DIGRAPHS)) {
+    for (const scheme of JAPANESE_ROMAJI_SCHEMES) add(spell(spelling, scheme), kana);
+  }
+
+  // Common IME spellings
+  const ime: Record<string, string> = {
+    'shya': 'しゃ', 'shyu': 'しゅ', 'shyo': 'しょ', 'jya': 'じゃ', 'jyu': 'じゅ', 'jyo': 'じょ',
+    'cya': 'ちゃ', 'cyu': 'ちゅ', 'cyo': 'ちょ', 'dzu': 'づ', 'ca': 'か', 'cu': 'く', 'co': 'こ',
+    'la': 'ぁ', 'li': 'ぃ', 'lu': 'ぅ', 'le': 'ぇ', 'lo': 'ぉ',
+    'xa': 'ぁ', 'xi': 'ぃ', 'xu': 'ぅ', 'xe': 'ぇ', 'xo': 'ぉ',
+    'lya': 'ゃ', 'lyu': 'ゅ', 'lyo': 'ょ', 'xya': 'ゃ', 'xyu': 'ゅ', 'xyo': 'ょ',
+    'ltu': 'っ', 'xtu': 'っ', 'ltsu': 'っ', 'xtsu': 'っ', 'lwa': 'ゎ', 'xwa': 'ゎ',
+  };
+  for (const [romaji, kana] of Object.entries(ime)) add(romaji, kana);
+
+  romajiInputTable = [...table.entries()].sort((a, b) => b[0].length - a[0].length);
+  return romajiInputTable;
+}
+
+/**
+ * Options for `romajiToKana`
+ */
+export interface RomajiToKanaOptions {
+  /**
+   * Script to output
+   * @default 'hiragana'
+   */
+  script?: 'hiragana' | 'katakana';
+}
+
+/**
+ * Convert romaji to kana, IME-style
+ *
+ * Accepts Hepburn, Kunrei, Nihon-shiki and common IME spellings (shi/si,
+ * tsu/tu, nn, n', xtu, …). Doubled consonants become っ, and long vowels
+ * written with a macron or circumflex are spelled out (ō → おう in hiragana,
+ * オー in katakana). Anything that isn't romaji passes through unchanged.
+ *
+ * @example
+ * ```typescript
+ * romajiToKana('toukyou');                        // 'とうきょう'
+ * romajiToKana('tōkyō');                          // 'とうきょう'
+ * romajiToKana('kippu');                          // 'きっぷ'
+ * romajiToKana("shin'you");                       // 'しんよう'
+ * romajiToKana('ko-hi-', { script: 'katakana' }); // 'コーヒー'
+ * ```
+ */
+export function romajiToKana(text: string, options: RomajiToKanaOptions = {}): string {
+  const katakana = options.script === 'katakana';
+  const table = getRomajiInputTable();
+
+  // Spell out long vowels before matching
+  const input = text.toLowerCase().replace(/[āīūēôâîûêō]/g, (mark) => {
+    const vowel = mark.normalize('NFD')[0]!;
+    return katakana ? vowel + '-' : vowel + (vowel === 'o' ? 'u' : vowel);
+  });
+
+  let out = '';
+  for (let i = 0; i < input.length; ) {
+    const char = input[i]!;
+    const next = input[i + 1];
+
+    // Doubled consonant (or tch) → っ
+    if (
+      next !== undefined &&
+      /[bcdfghjklmpqrstvwxyz]/.test(char) &&
+      (next === char || (char === 't' && next === 'c')) &&
+      char !== 'n'
+    ) {
+      out += SOKUON;
+      i++;
+      continue;
+    }
+
+    // ん: n' or nn, or n before a consonant other than y or at the end.
+    // nn followed by a vowel is ん plus a na-row mora (onna → おんな).
+    if (char === 'n' && (next === undefined || !/[aiueoy]/.test(next))) {
+      out += HATSUON;
+      const after = input[i + 2];
+      i += next === "'" || (next === 'n' && (after === undefined || !/[aiueoy]/.test(after))) ? 2 : 1;
+      continue;
+    }
+
+    if (char === '-') {
+      out += CHOONPU;
+      i++;
+      continue;
+    }
+
+    const match = table.find(([romaji]) => input.startsWith(romaji, i));
+    if (match) {
+      out += match[1];
+      i += match[0].length;
+      continue;
+    }
+
+    out += char;
+    i++;
+  }
+
+  return katakana ? toKatakana(out) : out;
+}
+
+/** Kana spelling each vowel lengthened, as `romajiToKana` writes ō, ā, … */
+const LENGTHENER: Record<string, string> = { a: 'あ', i: 'い', u: 'う', e: 'え', o: 'う' };
+
+/**
+ * Spell long vowels one way: ー and a lengthening お become the kana
+ * `romajiToKana` writes for a macron (おう, ああ, いい, …)
+ */
+function normalizeLongVowels(kana: string): string {
+  const chars = Array.from(kana);
+  let out = '';
+  let lastVowel: string | undefined;
+  for (const char of chars) {
+    if ((char === CHOONPU || (char === 'お' && lastVowel === 'o')) && lastVowel) {
+      out += LENGTHENER[lastVowel];
+      lastVowel = undefined;
+      continue;
+    }
+    out += char;
+    const romaji = kanaToRomaji(char, JAPANESE_TRANSCRIPTION_SCHEMES.ROMAJI);
+    const final = romaji[romaji.length - 1];
+    lastVowel = final && VOWELS.includes(final) ? final : undefined;
+  }
+  return out;
+}
+
+/**
+ * Check a romaji or kana answer against a kana reading
+ *
+ * Both sides are converted to hiragana before comparing, so scheme
+ * differences (shi/si, ō/ou/oo) and script differences (ー/う) don't count
+ * as errors.
+ *
+ * @example
+ * ```typescript
+ * matchesKanaReading('toukyou', 'とうきょう'); // true
+ * matchesKanaReading('tokyo', 'とうきょう');   // false
+ * matchesKanaReading('ひらがな', 'ヒラガナ');   // true
+ * ```
+ */
+export function matchesKanaReading(answer: string, reading: string): boolean {
+  const normalize = (text: string) =>
+    normalizeLongVowels(toHiragana(romajiToKana(text.trim())).replace(/\s+/g, ''));
+  return normalize(answer) === normalize(reading);
+}
+
+/**
+ * Create a rule-based Japanese transcription provider
+ *
+ * Transcribes kana-only input into every romaji scheme, plus hiragana and
+ * katakana. Text containing kanji returns `undefined`, since its reading
+ * can't be derived by rule.
+ *
+ * @example
+ * ```typescript
+ * const provider = createJapaneseRomajiProvider();
+ * provider.getTranscription('ありがとう', 'hepburn');  // 'arigatō'
+ * provider.getTranscription('ありがとう', 'katakana'); // 'アリガトウ'
+ * provider.getTranscription('日本', 'hepburn');       // undefined
+ * ```
+ */
+export function createJapaneseRomajiProvider(): TranscriptionProvider {
+  type Scheme = JapaneseRomajiScheme | 'hiragana' | 'katakana';
+  const schemes: readonly Scheme[] = [
+    ...JAPANESE_ROMAJI_SCHEMES,
+    JAPANESE_TRANSCRIPTION_SCHEMES.HIRAGANA,
+    JAPANESE_TRANSCRIPTION_SCHEMES.KATAKANA,
+  ];
+
+  return createLookupProvider<Scheme>({
+    lookup: (word, scheme) => {
+      if (!isKanaText(word)) return undefined;
+      if (scheme === JAPANESE_TRANSCRIPTION_SCHEMES.HIRAGANA) return toHiragana(word);
+      if (scheme === JAPANESE_TRANSCRIPTION_SCHEMES.KATAKANA) return toKatakana(word);
+      return kanaToRomaji(word, scheme);
+    },
+    availableSchemes: schemes,
+    defaultScheme: JAPANESE_TRANSCRIPTION_SCHEMES.HEPBURN,
+    schemeDisplayNames: Object.fromEntries(
+      schemes.map((scheme) => [scheme, JAPANESE_TRANSCRIPTION_SCHEME_NAMES[scheme] ?? scheme]),
+    ) as Record<Scheme, string>,
+  });
+}
+
+/**
+ * Default rule-based Japanese transcription provider
+ */
+export const japaneseRomajiProvider = createJapaneseRomajiProvider();
+
+/**
+ * Transcription schemes that hold a kana reading, in order of preference
+ */
+const READING_SCHEMES = ['furigana', 'hiragana', 'katakana'];
+
+/**
+ * Options for the Japanese romaji extension
+ */
+export interface JapaneseRomajiExtensionOptions {
+  /**
+   * Schemes to fill in
+   * @default all of JAPANESE_ROMAJI_SCHEMES
+   */
+  schemes?: readonly JapaneseRomajiScheme[];
+  /**
+   * Replace romaji a word already has
+   * @default false
+   */
+  overwrite?: boolean;
+}
+
+/**
+ * Create the Japanese romaji extension
+ *
+ * Fills in romaji transcriptions for words whose reading is known: from a
+ * `furigana`, `hiragana` or `katakana` transcription (e.g. ruby text), or
+ * from the word itself when it is written in kana. Words with kanji and no
+ * reading are left alone.
+ *
+ * @example
+ * ```typescript
+ * import { createJapaneseRomajiExtension } from '@glotblocks/glost-ja/romaji';
+ *
+ * const result = await processGLOSTWithExtensionsAsync(document, [
+ *   createJapaneseRomajiExtension({ schemes: ['hepburn'] }),
+ * ]);
+ * // 漢字 with furigana かんじ → transcription.hepburn.text === 'kanji'
+ * ```
+ */
+export function createJapaneseRomajiExtension(
+  options: JapaneseRomajiExtensionOptions = {},
+): GLOSTExtension {
+  const { schemes = JAPANESE_ROMAJI_SCHEMES, overwrite = false } = options;
+
+  return {
+    id: 'japanese-romaji',
+    name: 'Japanese Romaji',
+    description: 'Adds rule-based romaji to Japanese words with a known kana reading',
+
+    visit: {
+      word: (node: GLOSTWord) => {
+        if (node.lang && !node.lang.startsWith('ja')) return;
+
+        const transcription = node.transcription ?? {};
+        const reading =
+          READING_SCHEMES.map((scheme) => transcription[scheme]?.text).find(
+            (text) => text !== undefined && isKanaText(text),
+          ) ?? getWordText(node);
+        if (!isKanaText(reading)) return;
+
+        for (const scheme of schemes) {
+          if (transcription[scheme] && !overwrite) continue;
+          transcription[scheme] = { text: kanaToRomaji(reading, scheme) };
+        }
+        node.transcription = transcription;
+      },
+    },
+  };
+}
+
+/**
+ * Default Japanese romaji extension
+ */
+export const japaneseRomajiExtension = createJapaneseRomajiExtension();
@@ -1,8 +1,13 @@
 /**
  * Korean Transcription Provider - Revised Romanization + IPA
+ *
+ * Dictionary entries win; schemes they lack (or words they don't list) are
+ * filled in by the rule-based romanizer.
  */
 import { BaseDataProvider, type BaseProviderOptions, type DataLoader, type GlostLanguage } from "@glotblocks/glost-common";
 import type { TranscriptionProvider } from "@glotblocks/glost-transcription";
+import { containsKoreanCharacters } from "../constants.js";
+import { KOREAN_ROMANIZATION_SCHEMES, romanizeKorean } from "../transcription.js";
 
 export interface KoreanTranscriptionData {
   [word: string]: { rr?: string; ipa?: string; [scheme: string]: string | undefined };
@@ -10,20 +15,26 @@ export interface KoreanTranscriptionData {
 
 export interface KoreanTranscriptionProviderOptions extends BaseProviderOptions {
   dataLoader?: DataLoader<KoreanTranscriptionData>;
+  /** Romanize words and schemes missing from the data by rule (default: true) */
+  romanizeUnknown?: boolean;
 }
 
 export class KoreanTranscriptionProvider extends BaseDataProvider<KoreanTranscriptionData> implements TranscriptionProvider {
   protected supportedLanguages = ["ko" as const];
   private dataLoader?: DataLoader<KoreanTranscriptionData>;
+  private romanizeUnknown: boolean;
 
   constructor(options: KoreanTranscriptionProviderOptions = {}) {
     super(options);
     this.dataLoader = options.dataLoader;
+    this.romanizeUnknown = options.romanizeUnknown ?? true;
   }
 
   protected async loadData(): Promise<KoreanTranscriptionData> {
     if (!this.dataLoader) {
-      this.log("No data loader provided for Korean transcription.", "warn");
+      if (!this.romanizeUnknown) {
+        this.log("No data loader provided for Korean transcription.", "warn");
+      }
       return {};
     }
     try {
@@ -41,11 +52,16 @@ export class KoreanTranscriptionProvider extends BaseDataProvider<KoreanTranscri
     if (!word || typeof word !== "string" || word.trim().length === 0) return undefined;
     return this.withErrorHandling(async () => {
       const data = await this.ensureLoaded();
-      const result = data[word.trim()];
-      if (!result) return undefined;
+      const text = word.trim();
+      const result = data[text] ?? {};
       
       // Filter out undefined values to match Record<string, string>
       const filtered: Record<string, string> = {};
+      if (this.romanizeUnknown && containsKoreanCharacters(text)) {
+        for (const scheme of KOREAN_ROMANIZATION_SCHEMES) {
+          filtered[scheme] = romanizeKorean(text, scheme);
+        }
+      }
       for (const [key, value] of Object.entries(result)) {
         if (value !== undefined) {
           filtered[key] = value;
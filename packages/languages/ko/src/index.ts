@@ -1,10 +1,12 @@
 /**
  * glost-ko - Korean Language Support for GLOST
  * 
- * Provides Korean-specific helper functions, constants, and utilities.
+ * Provides Korean-specific helper functions, constants, utilities and a
+ * rule-based romanizer.
  * 
  * @packageDocumentation
  */
 
 export * from './constants.js';
 export * from './helpers.js';
+export * from './transcription.js';
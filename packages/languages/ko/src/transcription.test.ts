@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createKoreanRomanizationProvider,
+  romanizeKorean,
+  type KoreanRomanizationScheme,
+} from './transcription.js';
+import { KoreanTranscriptionProvider } from './extensions/transcription.js';
+
+const EXAMPLES: Array<[string, Record<KoreanRomanizationScheme, string>]> = [
+  ['한국어', { rr: 'hangugeo', mr: "han'gugŏ", yale: 'hankwuke', ipa: 'hanɡuɡʌ' }],
+  ['같이 먹어요', { rr: 'gachi meogeoyo', mr: "kach'i mŏgŏyo", yale: 'kathi mekeyo', ipa: 'katɕʰi mʌɡʌjo' }],
+  ['감사합니다', { rr: 'gamsahamnida', mr: 'kamsahamnida', yale: 'kamsahapnita', ipa: 'kamsahamnida' }],
+  ['학교', { rr: 'hakgyo', mr: 'hakkyo', yale: 'hakkyo', ipa: 'hak̚k͈jo' }],
+  ['넓게', { rr: 'neolge', mr: 'nŏlkke', yale: 'nelpkey', ipa: 'nʌlk͈e' }],
+  ['밟다', { rr: 'bapda', mr: 'papta', yale: 'palpta', ipa: 'pap̚t͈a' }],
+  ['밟고', { rr: 'bapgo', mr: 'papko', yale: 'palpko', ipa: 'pap̚k͈o' }],
+  ['글자', { rr: 'geulja', mr: 'kŭlja', yale: 'kulca', ipa: 'kɯldʑa' }],
+  ['닭', { rr: 'dak', mr: 'tak', yale: 'talk', ipa: 'tak̚' }],
+  ['신라', { rr: 'silla', mr: 'shilla', yale: 'sinla', ipa: 'ɕilla' }],
+  ['종로', { rr: 'jongno', mr: 'chongno', yale: 'conglo', ipa: 'tɕoŋno' }],
+  ['좋다', { rr: 'jota', mr: "chot'a", yale: 'cohta', ipa: 'tɕotʰa' }],
+  ['값이', { rr: 'gapsi', mr: 'kapshi', yale: 'kapsi', ipa: 'kap̚ɕ͈i' }],
+  ['국물', { rr: 'gungmul', mr: 'kungmul', yale: 'kwukmul', ipa: 'kuŋmul' }],
+  ['독립', { rr: 'dongnip', mr: 'tongnip', yale: 'toklip', ipa: 'toŋnip̚' }],
+  ['희망', { rr: 'huimang', mr: 'hŭimang', yale: 'huymang', ipa: 'himaŋ' }],
+];
+
+describe('romanizeKorean', () => {
+  for (const [text, expected] of EXAMPLES) {
+    for (const [scheme, output] of Object.entries(expected)) {
+      it(`romanizes ${text} in ${scheme}`, () => {
+        expect(romanizeKorean(text, scheme as KoreanRomanizationScheme)).toBe(output);
+      });
+    }
+  }
+
+  it('defaults to Revised Romanization', () => {
+    expect(romanizeKorean('같이')).toBe('gachi');
+  });
+
+  it('passes non-Hangul text through', () => {
+    expect(romanizeKorean('Hello 세계!')).toBe('Hello segye!');
+  });
+});
+
+describe('createKoreanRomanizationProvider', () => {
+  const provider = createKoreanRomanizationProvider();
+
+  it('romanizes in the requested scheme', () => {
+    expect(provider.getTranscription('감사합니다', 'rr')).toBe('gamsahamnida');
+    expect(provider.getTranscription('감사합니다', 'mr')).toBe('kamsahamnida');
+  });
+
+  it('returns undefined for unknown schemes', () => {
+    expect(provider.getTranscription('감사합니다', 'pinyin')).toBeUndefined();
+  });
+});
+
+describe('KoreanTranscriptionProvider', () => {
+  it('romanizes words without dictionary data', async () => {
+    const provider = new KoreanTranscriptionProvider();
+
+    expect(await provider.getTranscriptions('한국어', 'ko')).toEqual({
+      rr: 'hangugeo',
+      mr: "han'gugŏ",
+      yale: 'hankwuke',
+      ipa: 'hanɡuɡʌ',
+    });
+  });
+
+  it('prefers dictionary entries and fills the missing schemes by rule', async () => {
+    const provider = new KoreanTranscriptionProvider({
+      dataLoader: { load: async () => ({ '글자': { ipa: 'kɯl͈t͈ɕa' } }) },
+    });
+
+    const result = await provider.getTranscriptions('글자', 'ko');
+    expect(result?.ipa).toBe('kɯl͈t͈ɕa');
+    expect(result?.rr).toBe('geulja');
+  });
+
+  it('returns undefined for unknown words when rule romanization is off', async () => {
+    const provider = new KoreanTranscriptionProvider({ romanizeUnknown: false });
+
+    expect(await provider.getTranscriptions('한국어', 'ko')).toBeUndefined();
+  });
+
+  it('ignores other languages', async () => {
+    const provider = new KoreanTranscriptionProvider();
+
+    expect(await provider.getTranscriptions('한국어', 'ja')).toBeUndefined();
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Korean Rule-Based Romanization
+ *
+ * Deterministic transliteration of Hangul into Revised Romanization,
+ * McCune-Reischauer, Yale and IPA, built on `decomposeHangul`.
+ *
+ * RR, McCune-Reischauer and IPA transcribe pronunciation, so syllables are
+ * first run through the standard cross-syllable sound changes (liaison,
+ * nasalization, palatalization, aspiration and tensification). Yale is a
+ * transliteration of the spelling and skips them.
+ *
+ * Rules are applied within each run of Hangul syllables. They cover the
+ * regular cases; lexical exceptions (e.g. ㄴ-insertion in 한여름, or
+ * tensification in 안다 "to hug") still need a dictionary entry. So do
+ * proper nouns, which RR writes without aspiration (묵호 is officially
+ * "Mukho", not the pronounced "muko").
+ *
+ * @packageDocumentation
+ */
+
+import { createMappingProvider, type TranscriptionProvider } from '@glotblocks/glost-common';
+import {
+  KOREAN_TRANSCRIPTION_SCHEMES,
+  KOREAN_TRANSCRIPTION_SCHEME_NAMES,
+  decomposeHangul,
+  isHangulSyllable,
+} from './constants.js';
+
+/**
+ * Schemes `romanizeKorean` can produce
+ */
+export const KOREAN_ROMANIZATION_SCHEMES = [
+  KOREAN_TRANSCRIPTION_SCHEMES.RR,
+  KOREAN_TRANSCRIPTION_SCHEMES.MCCUNE_REISCHAUER,
+  KOREAN_TRANSCRIPTION_SCHEMES.YALE,
+  KOREAN_TRANSCRIPTION_SCHEMES.IPA,
+] as const;
+
+export type KoreanRomanizationScheme = typeof KOREAN_ROMANIZATION_SCHEMES[number];
+
+/**
+ * A syllable during sound-change processing
+ */
+interface Syllable {
+  /** Surface initial consonant ('ㅇ' for none) */
+  initial: string;
+  medial: string;
+  /** Surface final consonant ('' for none) */
+  final: string;
+  /** Initial is pronounced tense by rule, though written plain */
+  tense: boolean;
+}
+
+/** Compound finals split into [stays, moves on liaison] */
+const COMPOUND_FINALS: Record<string, [string, string]> = {
+  'ㄳ': ['ㄱ', 'ㅅ'],
+  'ㄵ': ['ㄴ', 'ㅈ'],
+  'ㄶ': ['ㄴ', 'ㅎ'],
+  'ㄺ': ['ㄹ', 'ㄱ'],
+  'ㄻ': ['ㄹ', 'ㅁ'],
+  'ㄼ': ['ㄹ', 'ㅂ'],
+  'ㄽ': ['ㄹ', 'ㅅ'],
+  'ㄾ': ['ㄹ', 'ㅌ'],
+  'ㄿ': ['ㄹ', 'ㅍ'],
+  'ㅀ': ['ㄹ', 'ㅎ'],
+  'ㅄ': ['ㅂ', 'ㅅ'],
+};
+
+/** Finals pronounced as one of the seven coda sounds */
+const NEUTRALIZED_FINALS: Record<string, string> = {
+  'ㄲ': 'ㄱ', 'ㅋ': 'ㄱ', 'ㄳ': 'ㄱ',
+  'ㄵ': 'ㄴ', 'ㄶ': 'ㄴ',
+  'ㅅ': 'ㄷ', 'ㅆ': 'ㄷ', 'ㅈ': 'ㄷ', 'ㅊ': 'ㄷ', 'ㅌ': 'ㄷ', 'ㅎ': 'ㄷ',
+  'ㄼ': 'ㄹ', 'ㄽ': 'ㄹ', 'ㄾ': 'ㄹ', 'ㅀ': 'ㄹ',
+  'ㄻ': 'ㅁ',
+  'ㅍ': 'ㅂ', 'ㅄ': 'ㅂ', 'ㄿ': 'ㅂ',
+};
+
+/** Aspirated result of a final meeting ㅎ (or ㅎ meeting an initial) */
+const ASPIRATED: Record<string, string> = {
+  'ㄱ': 'ㅋ', 'ㄲ': 'ㅋ', 'ㅋ': 'ㅋ',
+  'ㄷ': 'ㅌ', 'ㅅ': 'ㅌ', 'ㅆ': 'ㅌ', 'ㅌ': 'ㅌ',
+  'ㅈ': 'ㅊ', 'ㅊ': 'ㅊ',
+  'ㅂ': 'ㅍ', 'ㅍ': 'ㅍ',
+};
+
+const NASALIZED: Record<string, string> = { 'ㄱ': 'ㅇ', 'ㄷ': 'ㄴ', 'ㅂ': 'ㅁ' };
+
+const OBSTRUENT_CODAS = new Set(['ㄱ', 'ㄷ', 'ㅂ']);
+const TENSIFIABLE = new Set(['ㄱ', 'ㄷ', 'ㅂ', 'ㅅ', 'ㅈ']);
+const VOICED_CODAS = new Set(['', 'ㄴ', 'ㄹ', 'ㅁ', 'ㅇ']);
+
+/**
+ * Apply the sound changes between the final of `a` and the initial of `b`
+ */
+function applyBoundary(a: Syllable, b: Syllable): void {
+  let final = a.final;
+  let initial = b.initial;
+
+  if (final === 'ㅎ' || final === 'ㄶ' || final === 'ㅀ') {
+    // ㅎ-final: aspirates the next plosive, otherwise drops out
+    const rest = final === 'ㅎ' ? '' : COMPOUND_FINALS[final][0];
+    if (initial === 'ㄱ' || initial === 'ㄷ' || initial === 'ㅈ' || initial === 'ㅂ') {
+      initial = ASPIRATED[initial];
+      final = rest;
+    } else if (initial === 'ㅅ') {
+      initial = 'ㅆ';
+      final = rest;
+    } else if (initial === 'ㄴ' && rest === '') {
+      final = 'ㄴ';
+    } else if (initial === 'ㅇ' || initial === 'ㄴ') {
+      final = rest;
+    }
+  } else if (initial === 'ㅎ' && final !== '') {
+    // Aspiration: plosive final + ㅎ
+    const [stays, last] = COMPOUND_FINALS[final] ?? ['', final];
+    const aspirated = ASPIRATED[last];
+    if (aspirated) {
+      initial = aspirated === 'ㅌ' && b.medial === 'ㅣ' ? 'ㅊ' : aspirated;
+      final = stays;
+    }
+  }
+
+  if (initial === 'ㅇ' && final !== '' && final !== 'ㅇ') {
+    // Liaison, with palatalization of ㄷ/ㅌ before 이
+    const [stays, moves] = COMPOUND_FINALS[final] ?? ['', final];
+    let onset = moves;
+    if (b.medial === 'ㅣ' && moves === 'ㄷ') onset = 'ㅈ';
+    if (b.medial === 'ㅣ' && moves === 'ㅌ') onset = 'ㅊ';
+    if (OBSTRUENT_CODAS.has(stays) && onset === 'ㅅ') b.tense = true;
+    final = stays;
+    initial = onset;
+  }
+
+  // ㄺ/ㄼ/ㄾ stems tense the next obstruent even though the coda is ㄹ (넓게 → 널께)
+  if ((final === 'ㄺ' || final === 'ㄼ' || final === 'ㄾ') && TENSIFIABLE.has(initial)) {
+    b.tense = true;
+  }
+  final = neutralizeFinal(a, final, initial);
+
+  // ㄹ after anything but ㄹ/ㄴ becomes ㄴ; ㄴ next to ㄹ becomes ㄹ
+  if (initial === 'ㄹ') {
+    if (final === 'ㄴ') final = 'ㄹ';
+    else if (final !== '' && final !== 'ㄹ') initial = 'ㄴ';
+  } else if (initial === 'ㄴ' && final === 'ㄹ') {
+    initial = 'ㄹ';
+  }
+
+  // Nasalization: plosive coda before a nasal
+  if ((initial === 'ㄴ' || initial === 'ㅁ') && NASALIZED[final]) {
+    final = NASALIZED[final];
+  }
+
+  // Tensification: plain obstruent after a plosive coda
+  if (OBSTRUENT_CODAS.has(final) && TENSIFIABLE.has(initial)) {
+    b.tense = true;
+  }
+
+  a.final = final;
+  b.initial = initial;
+}
+
+function neutralizeFinal(syllable: Syllable, final: string, nextInitial: string): string {
+  // ㄺ keeps ㄹ before ㄱ (맑게 → 말께), ㄱ elsewhere (닭 → 닥)
+  if (final === 'ㄺ') return nextInitial === 'ㄱ' ? 'ㄹ' : 'ㄱ';
+  // The stem 밟- keeps ㅂ instead (밟다 → 밥따, 밟고 → 밥꼬)
+  if (final === 'ㄼ' && syllable.initial === 'ㅂ' && syllable.medial === 'ㅏ') return 'ㅂ';
+  return NEUTRALIZED_FINALS[final] ?? final;
+}
+
+/**
+ * Decompose a run of Hangul syllables, applying sound changes if asked
+ */
+function toSyllables(run: string, phonetic: boolean): Syllable[] {
+  const syllables = Array.from(run).map((char): Syllable => {
+    const jamo = decomposeHangul(char)!;
+    return { initial: jamo.initial, medial: jamo.medial, final: jamo.final, tense: false };
+  });
+  if (!phonetic) return syllables;
+
+  for (let i = 0; i < syllables.length - 1; i++) {
+    applyBoundary(syllables[i], syllables[i + 1]);
+  }
+  const last = syllables[syllables.length - 1];
+  last.final = neutralizeFinal(last, last.final, '');
+  return syllables;
+}
+
+const RR_INITIALS: Record<string, string> = {
+  'ㄱ': 'g', 'ㄲ': 'kk', 'ㄴ': 'n', 'ㄷ': 'd', 'ㄸ': 'tt', 'ㄹ': 'r', 'ㅁ': 'm',
+  'ㅂ': 'b', 'ㅃ': 'pp', 'ㅅ': 's', 'ㅆ': 'ss', 'ㅇ': '', 'ㅈ': 'j', 'ㅉ': 'jj',
+  'ㅊ': 'ch', 'ㅋ': 'k', 'ㅌ': 't', 'ㅍ': 'p', 'ㅎ': 'h',
+};
+
+const RR_VOWELS: Record<string, string> = {
+  'ㅏ': 'a', 'ㅐ': 'ae', 'ㅑ': 'ya', 'ㅒ': 'yae', 'ㅓ': 'eo', 'ㅔ': 'e', 'ㅕ': 'yeo',
+  'ㅖ': 'ye', 'ㅗ': 'o', 'ㅘ': 'wa', 'ㅙ': 'wae', 'ㅚ': 'oe', 'ㅛ': 'yo', 'ㅜ': 'u',
+  'ㅝ': 'wo', 'ㅞ': 'we', 'ㅟ': 'wi', 'ㅠ': 'yu', 'ㅡ': 'eu', 'ㅢ': 'ui', 'ㅣ': 'i',
+};
+
+const CODAS: Record<string, string> = {
+  '': '', 'ㄱ': 'k', 'ㄴ': 'n', 'ㄷ': 't', 'ㄹ': 'l', 'ㅁ': 'm', 'ㅂ': 'p', 'ㅇ': 'ng',
+};
+
+const MR_INITIALS: Record<string, string> = {
+  'ㄱ': 'k', 'ㄲ': 'kk', 'ㄴ': 'n', 'ㄷ': 't', 'ㄸ': 'tt', 'ㄹ': 'r', 'ㅁ': 'm',
+  'ㅂ': 'p', 'ㅃ': 'pp', 'ㅅ': 's', 'ㅆ': 'ss', 'ㅇ': '', 'ㅈ': 'ch', 'ㅉ': 'tch',
+  'ㅊ': "ch'", 'ㅋ': "k'", 'ㅌ': "t'", 'ㅍ': "p'", 'ㅎ': 'h',
+};
+
+/** McCune-Reischauer voiced forms of plain consonants between voiced sounds */
+const MR_VOICED: Record<string, string> = { 'ㄱ': 'g', 'ㄷ': 'd', 'ㅂ': 'b', 'ㅈ': 'j' };
+
+const MR_TENSE: Record<string, string> = {
+  'ㄱ': 'kk', 'ㄷ': 'tt', 'ㅂ': 'pp', 'ㅅ': 'ss', 'ㅈ': 'tch',
+};
+
+const MR_VOWELS: Record<string, string> = {
+  ...RR_VOWELS,
+  'ㅓ': 'ŏ', 'ㅕ': 'yŏ', 'ㅝ': 'wŏ', 'ㅡ': 'ŭ', 'ㅢ': 'ŭi',
+};
+
+const YALE_INITIALS: Record<string, string> = {
+  'ㄱ': 'k', 'ㄲ': 'kk', 'ㄴ': 'n', 'ㄷ': 't', 'ㄸ': 'tt', 'ㄹ': 'l', 'ㅁ': 'm',
+  'ㅂ': 'p', 'ㅃ': 'pp', 'ㅅ': 's', 'ㅆ': 'ss', 'ㅇ': '', 'ㅈ': 'c', 'ㅉ': 'cc',
+  'ㅊ': 'ch', 'ㅋ': 'kh', 'ㅌ': 'th', 'ㅍ': 'ph', 'ㅎ': 'h',
+};
+
+const YALE_FINALS: Record<string, string> = {
+  '': '', 'ㄱ': 'k', 'ㄲ': 'kk', 'ㄳ': 'ks', 'ㄴ': 'n', 'ㄵ': 'nc', 'ㄶ': 'nh',
+  'ㄷ': 't', 'ㄹ': 'l', 'ㄺ': 'lk', 'ㄻ': 'lm', 'ㄼ': 'lp', 'ㄽ': 'ls', 'ㄾ': 'lth',
+  'ㄿ': 'lph', 'ㅀ': 'lh', 'ㅁ': 'm', 'ㅂ': 'p', 'ㅄ': 'ps', 'ㅅ': 's', 'ㅆ': 'ss',
+  'ㅇ': 'ng', 'ㅈ': 'c', 'ㅊ': 'ch', 'ㅋ': 'kh', 'ㅌ': 'th', 'ㅍ': 'ph', 'ㅎ': 'h',
+};
+
+const YALE_VOWELS: Record<string, string> = {
+  'ㅏ': 'a', 'ㅐ': 'ay', 'ㅑ': 'ya', 'ㅒ': 'yay', 'ㅓ': 'e', 'ㅔ': 'ey', 'ㅕ': 'ye',
+  'ㅖ': 'yey', 'ㅗ': 'o', 'ㅘ': 'wa', 'ㅙ': 'way', 'ㅚ': 'oy', 'ㅛ': 'yo', 'ㅜ': 'wu',
+  'ㅝ': 'we', 'ㅞ': 'wey', 'ㅟ': 'wi', 'ㅠ': 'yu', 'ㅡ': 'u', 'ㅢ': 'uy', 'ㅣ': 'i',
+};
+
+const YALE_LABIALS = new Set(['ㅁ', 'ㅂ', 'ㅃ', 'ㅍ']);
+
+const IPA_INITIALS: Record<string, string> = {
+  'ㄱ': 'k', 'ㄲ': 'k͈', 'ㄴ': 'n', 'ㄷ': 't', 'ㄸ': 't͈', 'ㄹ': 'ɾ', 'ㅁ': 'm',
+  'ㅂ': 'p', 'ㅃ': 'p͈', 'ㅅ': 's', 'ㅆ': 's͈', 'ㅇ': '', 'ㅈ': 'tɕ', 'ㅉ': 't͈ɕ',
+  'ㅊ': 'tɕʰ', 'ㅋ': 'kʰ', 'ㅌ': 'tʰ', 'ㅍ': 'pʰ', 'ㅎ': 'h',
+};
+
+const IPA_VOICED: Record<string, string> = { 'ㄱ': 'ɡ', 'ㄷ': 'd', 'ㅂ': 'b', 'ㅈ': 'dʑ' };
+
+const IPA_TENSE: Record<string, string> = {
+  'ㄱ': 'k͈', 'ㄷ': 't͈', 'ㅂ': 'p͈', 'ㅅ': 's͈', 'ㅈ': 't͈ɕ',
+};
+
+const IPA_VOWELS: Record<string, string> = {
+  'ㅏ': 'a', 'ㅐ': 'ɛ', 'ㅑ': 'ja', 'ㅒ': 'jɛ', 'ㅓ': 'ʌ', 'ㅔ': 'e', 'ㅕ': 'jʌ',
+  'ㅖ': 'je', 'ㅗ': 'o', 'ㅘ': 'wa', 'ㅙ': 'wɛ', 'ㅚ': 'ø', 'ㅛ': 'jo', 'ㅜ': 'u',
+  'ㅝ': 'wʌ', 'ㅞ': 'we', 'ㅟ': 'ɥi', 'ㅠ': 'ju', 'ㅡ': 'ɯ', 'ㅢ': 'ɰi', 'ㅣ': 'i',
+};
+
+const IPA_CODAS: Record<string, string> = {
+  '': '', 'ㄱ': 'k̚', 'ㄴ': 'n', 'ㄷ': 't̚', 'ㄹ': 'l', 'ㅁ': 'm', 'ㅂ': 'p̚', 'ㅇ': 'ŋ',
+};
+
+function renderRR(syllables: Syllable[]): string {
+  return syllables.map((s, i) => {
+    const prev = syllables[i - 1];
+    // RR doesn't mark tensification; ㄹㄹ is written ll
+    const initial = s.initial === 'ㄹ' && prev?.final === 'ㄹ' ? 'l' : RR_INITIALS[s.initial];
+    return initial + RR_VOWELS[s.medial] + CODAS[s.final];
+  }).join('');
+}
+
+function renderMR(syllables: Syllable[]): string {
+  return syllables.map((s, i) => {
+    const prev = syllables[i - 1];
+    let initial = MR_INITIALS[s.initial];
+    if (s.tense && prev && VOICED_CODAS.has(prev.final) && MR_TENSE[s.initial]) {
+      // Tensing after a voiced coda is written doubled (넓게 → nŏlkke);
+      // after a voiceless one the plain letter already reads tense (학교 → hakkyo).
+      // Lexical tensing (글자 [글짜]) isn't predicted, so 글자 stays kŭlja
+      initial = MR_TENSE[s.initial];
+    } else if (prev && !s.tense && VOICED_CODAS.has(prev.final) && MR_VOICED[s.initial]) {
+      initial = MR_VOICED[s.initial];
+      // n'g keeps ㄴ+ㄱ apart from ㅇ
+      if (s.initial === 'ㄱ' && prev.final === 'ㄴ') initial = "'g";
+    }
+    if (s.initial === 'ㄹ' && prev?.final === 'ㄹ') initial = 'l';
+    if (s.initial === 'ㅅ' && (s.medial === 'ㅣ' || s.medial === 'ㅟ')) initial = 'sh';
+    return initial + MR_VOWELS[s.medial] + CODAS[s.final];
+  }).join('');
+}
+
+function renderYale(syllables: Syllable[]): string {
+  return syllables.map((s) => {
+    const vowel = s.medial === 'ㅜ' && YALE_LABIALS.has(s.initial) ? 'u' : YALE_VOWELS[s.medial];
+    return YALE_INITIALS[s.initial] + vowel + YALE_FINALS[s.final];
+  }).join('');
+}
+
+function renderIPA(syllables: Syllable[]): string {
+  return syllables.map((s, i) => {
+    const prev = syllables[i - 1];
+    let initial = IPA_INITIALS[s.initial];
+    if (s.tense && IPA_TENSE[s.initial]) {
+      initial = IPA_TENSE[s.initial];
+    } else if (prev && VOICED_CODAS.has(prev.final) && IPA_VOICED[s.initial]) {
+      initial = IPA_VOICED[s.initial];
+    } else if (s.initial === 'ㄹ' && prev?.final === 'ㄹ') {
+      initial = 'l';
+    }
+    if (s.medial === 'ㅣ' || s.medial === 'ㅟ') {
+      initial = initial.replace(/^(s͈?)$/, (m) => m.replace('s', 'ɕ'));
+    }
+    // ㅢ after a consonant is pronounced [i]
+    const vowel = s.medial === 'ㅢ' && s.initial !== 'ㅇ' ? 'i' : IPA_VOWELS[s.medial];
+    return initial + vowel + IPA_CODAS[s.final];
+  }).join('');
+}
+
+/**
+ * Romanize Korean text
+ *
+ * Each run of Hangul syllables is romanized as one word; everything else
+ * (spaces, punctuation, Latin text) passes through unchanged.
+ *
+ * @param text - Text containing Hangul
+ * @param scheme - Romanization scheme (default: 'rr')
+ * @returns Romanized text
+ *
+ * @example
+ * ```typescript
+ * romanizeKorean('한국어');          // 'hangugeo'
+ * romanizeKorean('한국어', 'mr');    // "han'gugŏ"
+ * romanizeKorean('한국어', 'yale');  // 'hankwuke'
+ * romanizeKorean('한국어', 'ipa');   // 'hanɡuɡʌ'
+ * romanizeKorean('같이 먹어요');     // 'gachi meogeoyo'
+ * ```
+ */
+export function romanizeKorean(
+  text: string,
+  scheme: KoreanRomanizationScheme = KOREAN_TRANSCRIPTION_SCHEMES.RR,
+): string {
+  let out = '';
+  let run = '';
+
+  const flush = () => {
+    if (!run) return;
+    const syllables = toSyllables(run, scheme !== KOREAN_TRANSCRIPTION_SCHEMES.YALE);
+    switch (scheme) {
+      case KOREAN_TRANSCRIPTION_SCHEMES.MCCUNE_REISCHAUER:
+        out += renderMR(syllables);
+        break;
+      case KOREAN_TRANSCRIPTION_SCHEMES.YALE:
+        out += renderYale(syllables);
+        break;
+      case KOREAN_TRANSCRIPTION_SCHEMES.IPA:
+        out += renderIPA(syllables);
+        break;
+      default:
+        out += renderRR(syllables);
+    }
+    run = '';
+  };
+
+  for (const char of text) {
+    if (isHangulSyllable(char)) {
+      run += char;
+    } else {
+      flush();
+      out += char;
+    }
+  }
+  flush();
+
+  return out;
+}
+
+/**
+ * Create a rule-based Korean transcription provider
+ *
+ * Romanizes any Hangul input, so it works as the fallback behind a
+ * dictionary provider (see `createFallbackProvider` in glost-common).
+ *
+ * @example
+ * ```typescript
+ * const provider = createKoreanRomanizationProvider();
+ * provider.getTranscription('감사합니다', 'rr'); // 'gamsahamnida'
+ * provider.getTranscription('감사합니다', 'mr'); // 'kamsahamnida'
+ * ```
+ */
+export function createKoreanRomanizationProvider(): TranscriptionProvider {
+  return createMappingProvider<KoreanRomanizationScheme>({
+    transliterate: romanizeKorean,
+    availableSchemes: KOREAN_ROMANIZATION_SCHEMES,
+    defaultScheme: KOREAN_TRANSCRIPTION_SCHEMES.RR,
+    schemeDisplayNames: {
+      rr: KOREAN_TRANSCRIPTION_SCHEME_NAMES.rr,
+      mr: KOREAN_TRANSCRIPTION_SCHEME_NAMES.mr,
+      yale: KOREAN_TRANSCRIPTION_SCHEME_NAMES.yale,
+      ipa: KOREAN_TRANSCRIPTION_SCHEME_NAMES.ipa,
+    },
+  });
+}
+
+/**
+ * Default rule-based Korean transcription provider
+ */
+export const koreanRomanizationProvider = createKoreanRomanizationProvider();
@@ -81,6 +81,23 @@ export const THAI_TONE_NAMES: Record<number, string> = {
   [THAI_TONES.RISING]: 'Rising',
 };
 
+/**
+ * Thai consonant classes (อักษรกลาง/สูง/ต่ำ)
+ * 
+ * The class of a syllable's initial consonant, together with live/dead
+ * syllable type and tone mark, determines the tone.
+ */
+export const THAI_CONSONANT_CLASSES = {
+  /** Mid class (อักษรกลาง) */
+  MID: 'กจฎฏดตบปอ',
+  /** High class (อักษรสูง) */
+  HIGH: 'ขฃฉฐถผฝศษสห',
+  /** Low class (อักษรต่ำ) */
+  LOW: 'คฅฆงชซฌญฑฒณทธนพฟภมยรลวฬฮ',
+} as const;
+
+export type ThaiConsonantClass = 'high' | 'mid' | 'low';
+
 /**
  * Thai script Unicode ranges
  */
@@ -293,6 +310,27 @@ export function getToneNumber(toneMark: string): number | undefined {
   }
 }
 
+/**
+ * Get the class of a Thai consonant
+ * 
+ * @param char - Thai consonant
+ * @returns 'high', 'mid' or 'low', or undefined if not a consonant
+ * 
+ * @example
+ * ```typescript
+ * getThaiConsonantClass('ก'); // 'mid'
+ * getThaiConsonantClass('ข'); // 'high'
+ * getThaiConsonantClass('ค'); // 'low'
+ * ```
+ */
+export function getThaiConsonantClass(char: string): ThaiConsonantClass | undefined {
+  if (!isThaiConsonant(char)) return undefined;
+  if (THAI_CONSONANT_CLASSES.MID.includes(char)) return 'mid';
+  if (THAI_CONSONANT_CLASSES.HIGH.includes(char)) return 'high';
+  if (THAI_CONSONANT_CLASSES.LOW.includes(char)) return 'low';
+  return undefined;
+}
+
 /**
  * Validate a Thai transcription scheme
  * 
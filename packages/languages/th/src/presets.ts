@@ -29,6 +29,7 @@ import {
   thaiTranslationProvider,
 } from "./extensions/index.js";
 import { thaiSegmenterProvider } from "./segmenter/index.js";
+import { createThaiSyllableExtension } from "./syllables/index.js";
 
 // Re-export types for convenience
 export type { GLOSTExtension } from "@glotblocks/glost-plugins";
@@ -117,7 +118,7 @@ export function createThaiQuickStartPreset(
  * **Includes:**
  * - Transcription (RTGS + IPA)
  * - Translation (English)
- * - Syllable segmentation (when available)
+ * - Syllable segmentation (consonant classes and tones)
  * 
  * @example
  * ```typescript
@@ -139,21 +140,20 @@ export const thaiPronunciationPreset: GLOSTExtension[] = [
     to: "en",
     provider: thaiTranslationProvider,
   }),
-  // Note: Syllable segmentation would be added here when available
-  // from the extensions suite
+  createThaiSyllableExtension(),
 ];
 
 /**
  * Create a customized pronunciation preset
  */
 export function createThaiPronunciationPreset(
-  options?: { nativeLanguage?: GlostLanguage }
+  options?: ThaiPresetOptions
 ): GLOSTExtension[] {
   const targetLang = (options?.nativeLanguage?.startsWith("en") 
     ? "en" 
     : options?.nativeLanguage || "en") as GlostLanguage;
   
-  return [
+  const extensions: GLOSTExtension[] = [
     createTranscriptionExtension({
       targetLanguage: "th",
       provider: thaiTranscriptionProvider,
@@ -164,6 +164,12 @@ export function createThaiPronunciationPreset(
       provider: thaiTranslationProvider,
     }),
   ];
+
+  if (options?.includeSyllables !== false) {
+    extensions.push(createThaiSyllableExtension());
+  }
+
+  return extensions;
 }
 
 // ============================================================================
@@ -255,7 +261,7 @@ export function createThaiGrammarPreset(
  * - Transcription (RTGS + IPA)
  * - Translation (English)
  * - Clause segmentation
- * - Syllable segmentation (when available)
+ * - Syllable segmentation (consonant classes and tones)
  * 
  * @example
  * ```typescript
@@ -282,6 +288,7 @@ export const thaiLearningPreset: GLOSTExtension[] = [
     provider: thaiSegmenterProvider,
     includeMarkers: true,
   }),
+  createThaiSyllableExtension(),
 ];
 
 /**
@@ -316,6 +323,10 @@ export function createThaiLearningPreset(
     );
   }
 
+  if (options?.includeSyllables !== false) {
+    extensions.push(createThaiSyllableExtension());
+  }
+
   return extensions;
 }
 
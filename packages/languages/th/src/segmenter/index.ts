@@ -1,5 +1,5 @@
 /**
- * Thai clause segmenter provider
+ * Thai clause and word segmenters
  * 
  * @packageDocumentation
  */
@@ -235,3 +235,15 @@ export function createThaiSegmenterProvider(
     },
   };
 }
+
+export {
+  ThaiWordSegmenter,
+  createThaiWordSegmenter,
+  createThaiLanguageStrategy,
+  splitThaiCharacterClusters,
+} from "./words.js";
+export type {
+  ThaiLexiconData,
+  ThaiWordSegmenterOptions,
+  ThaiLanguageStrategyOptions,
+} from "./words.js";
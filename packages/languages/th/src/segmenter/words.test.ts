@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { getAllWords, getWordText } from "@glotblocks/glost";
+import { convertTextToGLOST } from "@glotblocks/glost-utils";
+import {
+  createThaiLanguageStrategy,
+  createThaiWordSegmenter,
+  splitThaiCharacterClusters,
+} from "./words.js";
+
+const LEXICON = ["ผม", "ชอบ", "เรียน", "ภาษา", "ไทย", "มา", "กว่า", "กิน", "ข้าว"];
+
+async function loadedSegmenter(words = LEXICON, customWords?: string[]) {
+  const segmenter = createThaiWordSegmenter({
+    dataLoader: { load: async () => words },
+    customWords,
+  });
+  await segmenter.preload();
+  return segmenter;
+}
+
+describe("splitThaiCharacterClusters", () => {
+  it("keeps vowels and tone marks with their consonant", () => {
+    expect(splitThaiCharacterClusters("เรียนภาษา")).toEqual(["เรีย", "น", "ภา", "ษา"]);
+    expect(splitThaiCharacterClusters("ข้าว")).toEqual(["ข้า", "ว"]);
+  });
+
+  it("keeps ั with its final and ์ with the consonant it silences", () => {
+    expect(splitThaiCharacterClusters("จันทร์")).toEqual(["จัน", "ทร์"]);
+  });
+});
+
+describe("ThaiWordSegmenter", () => {
+  it("splits by the lexicon", async () => {
+    const segmenter = await loadedSegmenter();
+
+    expect(segmenter.segmentWords("ผมชอบเรียนภาษาไทย")).toEqual(["ผม", "ชอบ", "เรียน", "ภาษา", "ไทย"]);
+  });
+
+  it("keeps unmatched clusters together as one word", async () => {
+    const segmenter = await loadedSegmenter();
+
+    expect(segmenter.segmentWords("ผมชอบสุนัข")).toEqual(["ผม", "ชอบ", "สุนัข"]);
+  });
+
+  it("keeps a lone unmatched consonant with the word before it", async () => {
+    const segmenter = await loadedSegmenter();
+
+    expect(segmenter.segmentWords("มาก")).toEqual(["มาก"]);
+    expect(segmenter.segmentWords("มากกว่า")).toEqual(["มาก", "กว่า"]);
+  });
+
+  it("matches custom words without a lexicon", () => {
+    const segmenter = createThaiWordSegmenter({ customWords: ["กิน", "ข้าว"] });
+
+    expect(segmenter.segmentWords("กินข้าว")).toEqual(["กิน", "ข้าว"]);
+    expect(segmenter.hasWord("กิน")).toBe(true);
+    expect(segmenter.hasWord("ผม")).toBe(false);
+  });
+
+  it("prefers fewer words when the cover is equally known", async () => {
+    const segmenter = await loadedSegmenter([...LEXICON, "กินข้าว"]);
+
+    expect(segmenter.segmentWords("กินข้าว")).toEqual(["กินข้าว"]);
+  });
+
+  it("returns non-Thai runs whole and drops spaces and punctuation", async () => {
+    const segmenter = await loadedSegmenter();
+
+    expect(segmenter.segmentWords("ผมชอบ GLOST 2024, ไทย!")).toEqual(["ผม", "ชอบ", "GLOST", "2024", "ไทย"]);
+  });
+
+  it("keeps ฯ with the word before it", async () => {
+    const segmenter = await loadedSegmenter([], ["กรุงเทพ"]);
+
+    expect(segmenter.segmentWords("กรุงเทพฯ")).toEqual(["กรุงเทพฯ"]);
+  });
+});
+
+describe("createThaiLanguageStrategy", () => {
+  it("describes Thai script and transcription schemes", () => {
+    const strategy = createThaiLanguageStrategy();
+
+    expect(strategy.getScriptForLanguage("th")).toBe("thai");
+    expect(strategy.getScriptForLanguage("en")).toBe("latin");
+    expect(strategy.getDefaultTranscriptionSystem()).toBe("rtgs");
+    expect(Object.keys(strategy.getTranscriptionSystems())).toContain("ipa");
+    expect(strategy.getGenderTerms()).toEqual({ male: [], female: [] });
+  });
+
+  it("segments with the given segmenter", async () => {
+    const strategy = createThaiLanguageStrategy({ segmenter: await loadedSegmenter() });
+
+    expect(strategy.segmentWords?.("ผมชอบไทย", "th")).toEqual(["ผม", "ชอบ", "ไทย"]);
+  });
+
+  it("gives convertTextToGLOST one word per segment with source positions", async () => {
+    const document = convertTextToGLOST("ผมชอบ เรียนภาษาไทย", {
+      language: "th",
+      languageStrategy: createThaiLanguageStrategy({ segmenter: await loadedSegmenter() }),
+    });
+    const words = getAllWords(document);
+
+    expect(words.map(getWordText)).toEqual(["ผม", "ชอบ", "เรียน", "ภาษา", "ไทย"]);
+    expect(words.map((word) => [word.position?.start.offset, word.position?.end.offset])).toEqual([
+      [0, 2],
+      [2, 5],
+      [6, 11],
+      [11, 15],
+      [15, 18],
+    ]);
+  });
+});
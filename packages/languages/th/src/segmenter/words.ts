@@ -0,0 +1,416 @@
+/**
+ * Thai word segmenter
+ *
+ * Thai is written without spaces between words. This segmenter splits runs
+ * of Thai script by maximal matching against a lexicon: of all ways to cover
+ * the text with dictionary words, it picks the one with the fewest
+ * characters left unmatched, then the fewest words. Unmatched text is cut
+ * only at Thai Character Cluster (TCC) boundaries — places where a vowel,
+ * tone mark or silent consonant can't be separated from its neighbour — and
+ * adjacent unmatched clusters are kept together as one unknown word. A lone
+ * unmatched consonant after a word is kept as that word's final, so a
+ * lexicon that only has มา still leaves มาก whole.
+ *
+ * The lexicon is loaded through a `DataLoader` (e.g. a `JsonLoader` over a
+ * word list) and can be extended with custom words at any time.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  BaseDataProvider,
+  type BaseProviderOptions,
+  type DataLoader,
+} from "@glotblocks/glost-common";
+import type { ILanguageStrategy } from "@glotblocks/glost-utils";
+
+import {
+  THAI_LANGUAGE_INFO,
+  THAI_TRANSCRIPTION_SCHEME_NAMES,
+  THAI_TRANSCRIPTION_SCHEMES,
+} from "../constants.js";
+
+/**
+ * Thai lexicon data: a plain list of words
+ */
+export type ThaiLexiconData = string[];
+
+/**
+ * Thai word segmenter options
+ */
+export interface ThaiWordSegmenterOptions extends BaseProviderOptions {
+  /**
+   * Data loader for the lexicon
+   *
+   * Without one, only `customWords` are matched and everything else is
+   * split into character clusters.
+   */
+  dataLoader?: DataLoader<ThaiLexiconData>;
+
+  /**
+   * Extra words to recognise on top of the loaded lexicon
+   *
+   * Useful for names, loanwords and domain terms.
+   */
+  customWords?: Iterable<string>;
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  end: boolean;
+}
+
+/** Characters that can't start a cluster: following vowels, above/below marks */
+const NON_STARTER = /[\u0E30-\u0E3A\u0E45\u0E47-\u0E4E]/;
+/** Leading vowels เ แ โ ใ ไ, which always need a following consonant */
+const LEADING_VOWEL = /[\u0E40-\u0E44]/;
+/** Above/below vowels and tone marks that may sit between a consonant and ์ */
+const MARK = /[\u0E34-\u0E3A\u0E48-\u0E4B]/;
+const KARAN = "\u0E4C";
+/** A single consonant (not ฤ/ฦ), which can't be a word on its own */
+const LONE_CONSONANT = /^[\u0E01-\u0E23\u0E25\u0E27-\u0E2E]$/;
+
+/** A run of Thai letters, an iteration mark, or a run of other letters/digits */
+const TOKEN =
+  /([\u0E01-\u0E2E\u0E30-\u0E3A\u0E40-\u0E45\u0E47-\u0E4E]+)|(\u0E46)|(\u0E2F)|((?:[\u0E50-\u0E59]|(?![\u0E00-\u0E7F])[\p{L}\p{M}\p{N}])+)/gu;
+
+/**
+ * Thai word segmenter class
+ *
+ * `segmentWords` is synchronous so it can back an `ILanguageStrategy`; call
+ * `preload()` first, otherwise the loaded lexicon isn't used yet.
+ */
+export class ThaiWordSegmenter extends BaseDataProvider<TrieNode> {
+  protected supportedLanguages = ["th" as const];
+  private dataLoader?: DataLoader<ThaiLexiconData>;
+  private custom: TrieNode = createTrieNode();
+
+  constructor(options: ThaiWordSegmenterOptions = {}) {
+    super(options);
+    this.dataLoader = options.dataLoader;
+    if (options.customWords) {
+      this.addWords(options.customWords);
+    }
+  }
+
+  protected async loadData(): Promise<TrieNode> {
+    const trie = createTrieNode();
+    if (!this.dataLoader) {
+      this.log(
+        "No data loader provided for the Thai lexicon. Only custom words will be matched.",
+        "warn"
+      );
+      return trie;
+    }
+
+    try {
+      const words = await this.dataLoader.load();
+      for (const word of words) {
+        insertWord(trie, word);
+      }
+      this.log(`Loaded ${words.length} Thai lexicon entries`, "info");
+    } catch (error) {
+      this.log(
+        `Failed to load Thai lexicon: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+    return trie;
+  }
+
+  /**
+   * Add custom words to the lexicon
+   */
+  addWords(words: Iterable<string>): void {
+    for (const word of words) {
+      insertWord(this.custom, word);
+    }
+  }
+
+  /**
+   * Whether a word is in the loaded lexicon or the custom words
+   */
+  hasWord(word: string): boolean {
+    return (
+      isWord(this.custom, word) ||
+      (this.data !== undefined && isWord(this.data, word))
+    );
+  }
+
+  /**
+   * Split text into words, without whitespace or punctuation
+   *
+   * Non-Thai runs (Latin words, digits) are returned whole, and the
+   * abbreviation mark ฯ stays attached to the word before it.
+   */
+  segmentWords(text: string): string[] {
+    const words: string[] = [];
+    let lastEnd = -1;
+
+    for (const match of text.matchAll(TOKEN)) {
+      const [token, thai, , abbreviation] = match;
+      const start = match.index!;
+
+      if (abbreviation) {
+        if (start === lastEnd && words.length > 0) {
+          words[words.length - 1] += token;
+          lastEnd = start + token.length;
+        }
+        continue;
+      }
+
+      if (thai) {
+        words.push(...this.segmentThai(thai));
+      } else {
+        words.push(token);
+      }
+      lastEnd = start + token.length;
+    }
+
+    return words;
+  }
+
+  /**
+   * Maximal matching over one run of Thai letters
+   */
+  private segmentThai(run: string): string[] {
+    const chars = Array.from(run);
+    const breaks = getClusterBreaks(chars);
+    const tries = this.data ? [this.custom, this.data] : [this.custom];
+
+    // best[i]: cheapest cover of chars[0..i), compared by unknown characters
+    // then word count
+    const best: ({ unknown: number; count: number; from: number; known: boolean } | undefined)[] =
+      new Array(chars.length + 1);
+    best[0] = { unknown: 0, count: 0, from: 0, known: true };
+
+    const relax = (from: number, to: number, known: boolean) => {
+      const prev = best[from]!;
+      const unknown = prev.unknown + (known ? 0 : to - from);
+      const count = prev.count + 1;
+      const current = best[to];
+      if (
+        !current ||
+        unknown < current.unknown ||
+        (unknown === current.unknown && count < current.count)
+      ) {
+        best[to] = { unknown, count, from, known };
+      }
+    };
+
+    for (let i = 0; i < chars.length; i++) {
+      if (!best[i] || !breaks.has(i)) continue;
+
+      for (const trie of tries) {
+        for (const end of matchEnds(trie, chars, i)) {
+          if (breaks.has(end)) relax(i, end, true);
+        }
+      }
+
+      let next = i + 1;
+      while (!breaks.has(next)) next++;
+      relax(i, next, false);
+    }
+
+    const pieces: { text: string; known: boolean }[] = [];
+    for (let end = chars.length; end > 0; ) {
+      const { from, known } = best[end]!;
+      pieces.unshift({ text: chars.slice(from, end).join(""), known });
+      end = from;
+    }
+
+    // Adjacent unknown clusters form one unknown word, and a lone unknown
+    // consonant is the final of the word before it (มา + ก is มาก)
+    const words: string[] = [];
+    let unknownRun = "";
+    const flush = () => {
+      if (unknownRun && words.length > 0 && LONE_CONSONANT.test(unknownRun)) {
+        words[words.length - 1] += unknownRun;
+      } else if (unknownRun) {
+        words.push(unknownRun);
+      }
+      unknownRun = "";
+    };
+    for (const piece of pieces) {
+      if (piece.known) {
+        flush();
+        words.push(piece.text);
+      } else {
+        unknownRun += piece.text;
+      }
+    }
+    flush();
+
+    return words;
+  }
+}
+
+/**
+ * Split Thai text into Thai Character Clusters
+ *
+ * A cluster is the smallest unit that can't be split without separating a
+ * vowel, tone mark or silent consonant from the consonant it belongs to.
+ * Word boundaries always fall between clusters.
+ *
+ * @example
+ * ```typescript
+ * splitThaiCharacterClusters("เรียนภาษา"); // ["เรีย", "น", "ภา", "ษา"]
+ * ```
+ */
+export function splitThaiCharacterClusters(text: string): string[] {
+  const chars = Array.from(text);
+  const breaks = [...getClusterBreaks(chars)].sort((a, b) => a - b);
+  const clusters: string[] = [];
+  for (let i = 1; i < breaks.length; i++) {
+    clusters.push(chars.slice(breaks[i - 1], breaks[i]).join(""));
+  }
+  return clusters;
+}
+
+/**
+ * Offsets (in code points) where `chars` may be cut, including 0 and the end
+ */
+function getClusterBreaks(chars: string[]): Set<number> {
+  const breaks = new Set<number>([0, chars.length]);
+  let clusterStart = 0;
+
+  for (let j = 1; j < chars.length; j++) {
+    const prev = chars[j - 1]!;
+    const cur = chars[j]!;
+    const next = chars[j + 1];
+    const lead = chars[clusterStart]!;
+
+    const joined =
+      NON_STARTER.test(cur) ||
+      LEADING_VOWEL.test(prev) ||
+      // ั and ็ always take a final consonant
+      prev === "ั" ||
+      prev === "็" ||
+      // Consonants silenced by ์ belong to the cluster before them
+      next === KARAN ||
+      (next !== undefined && MARK.test(next) && chars[j + 2] === KARAN) ||
+      // The ย of เ-ีย and the อ of -ือ, เ-อ and เ-ือ
+      (cur === "ย" && prev === "ี" && lead === "เ") ||
+      (cur === "อ" && (prev === "ื" || lead === "เ"));
+
+    if (!joined) {
+      breaks.add(j);
+      clusterStart = j;
+    }
+  }
+
+  return breaks;
+}
+
+function createTrieNode(): TrieNode {
+  return { children: new Map(), end: false };
+}
+
+function insertWord(trie: TrieNode, word: string): void {
+  const trimmed = word.trim();
+  if (!trimmed) return;
+  let node = trie;
+  for (const char of trimmed) {
+    let child = node.children.get(char);
+    if (!child) node.children.set(char, (child = createTrieNode()));
+    node = child;
+  }
+  node.end = true;
+}
+
+function isWord(trie: TrieNode, word: string): boolean {
+  let node: TrieNode | undefined = trie;
+  for (const char of word) {
+    node = node.children.get(char);
+    if (!node) return false;
+  }
+  return node.end;
+}
+
+/**
+ * End offsets of every lexicon word starting at `start`
+ */
+function matchEnds(trie: TrieNode, chars: string[], start: number): number[] {
+  const ends: number[] = [];
+  let node: TrieNode | undefined = trie;
+  for (let i = start; i < chars.length; i++) {
+    node = node.children.get(chars[i]!);
+    if (!node) break;
+    if (node.end) ends.push(i + 1);
+  }
+  return ends;
+}
+
+/**
+ * Create a Thai word segmenter
+ *
+ * @example
+ * ```typescript
+ * import { JsonLoader } from "@glotblocks/glost-common";
+ *
+ * const segmenter = createThaiWordSegmenter({
+ *   dataLoader: new JsonLoader({ path: "./data/thai-words.json" }),
+ *   customWords: ["กรุงเทพมหานคร"],
+ * });
+ * await segmenter.preload();
+ *
+ * segmenter.segmentWords("ผมชอบเรียนภาษาไทย");
+ * // ["ผม", "ชอบ", "เรียน", "ภาษา", "ไทย"]
+ * ```
+ */
+export function createThaiWordSegmenter(
+  options: ThaiWordSegmenterOptions = {}
+): ThaiWordSegmenter {
+  return new ThaiWordSegmenter(options);
+}
+
+/**
+ * Options for the Thai language strategy
+ */
+export interface ThaiLanguageStrategyOptions {
+  /** Word segmenter to split text with (default: one with no lexicon) */
+  segmenter?: ThaiWordSegmenter;
+  /** Gendered terms to split out and tag (default: none) */
+  genderTerms?: { male: string[]; female: string[] };
+  /** Default transcription scheme (default: `"rtgs"`) */
+  defaultTranscriptionSystem?: string;
+}
+
+/**
+ * Create an `ILanguageStrategy` for Thai backed by a word segmenter
+ *
+ * Passing it to `convertTextToGLOST` turns raw Thai text into one
+ * `WordNode` per segmented word.
+ *
+ * @example
+ * ```typescript
+ * import { convertTextToGLOST } from "@glotblocks/glost-utils";
+ *
+ * const doc = convertTextToGLOST("ผมชอบเรียนภาษาไทย", {
+ *   language: "th",
+ *   languageStrategy: createThaiLanguageStrategy({ segmenter }),
+ * });
+ * ```
+ */
+export function createThaiLanguageStrategy(
+  options: ThaiLanguageStrategyOptions = {}
+): ILanguageStrategy {
+  const segmenter = options.segmenter ?? new ThaiWordSegmenter();
+  const genderTerms = options.genderTerms ?? { male: [], female: [] };
+
+  return {
+    getGenderTerms: () => genderTerms,
+    getScriptForLanguage: (language) =>
+      language.startsWith(THAI_LANGUAGE_INFO.code) ? "thai" : "latin",
+    getDefaultTranscriptionSystem: () =>
+      options.defaultTranscriptionSystem ?? THAI_TRANSCRIPTION_SCHEMES.RTGS,
+    getTranscriptionSystems: () =>
+      Object.fromEntries(
+        Object.values(THAI_TRANSCRIPTION_SCHEMES).map((scheme) => [
+          scheme,
+          { name: THAI_TRANSCRIPTION_SCHEME_NAMES[scheme] ?? scheme },
+        ])
+      ),
+    segmentWords: (text) => segmenter.segmentWords(text),
+  };
+}
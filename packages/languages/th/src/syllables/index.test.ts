@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import type { GLOSTSyllable } from "@glotblocks/glost";
+import { createGLOSTWordNode, createSimpleDocument, getAllWords, getWordText } from "@glotblocks/glost";
+import { processGLOSTWithExtensionsAsync } from "@glotblocks/glost-plugins";
+import {
+  THAI_CONSONANT_CLASSES,
+  THAI_TONES,
+  THAI_UNICODE_RANGES,
+  getThaiConsonantClass,
+} from "../constants.js";
+import {
+  createThaiLearningPreset,
+  createThaiPronunciationPreset,
+  thaiLearningPreset,
+  thaiPronunciationPreset,
+  thaiQuickStartPreset,
+} from "../presets.js";
+import { computeThaiTone, createThaiSyllableExtension, syllabifyThai } from "./index.js";
+
+describe("THAI_CONSONANT_CLASSES", () => {
+  it("puts every consonant in exactly one class", () => {
+    const classes = Object.values(THAI_CONSONANT_CLASSES).join("");
+    const { start, end } = THAI_UNICODE_RANGES.CONSONANTS;
+    // ฤ and ฦ sit in the consonant block but are vowels
+    const consonants = Array.from({ length: end - start + 1 }, (_, i) => String.fromCharCode(start + i))
+      .filter((char) => char !== "ฤ" && char !== "ฦ");
+
+    expect(Array.from(classes).sort()).toEqual(consonants.sort());
+    expect(THAI_CONSONANT_CLASSES.MID).toHaveLength(9);
+    expect(THAI_CONSONANT_CLASSES.HIGH).toHaveLength(11);
+    expect(THAI_CONSONANT_CLASSES.LOW).toHaveLength(24);
+  });
+
+  it("looks up a consonant's class", () => {
+    expect(getThaiConsonantClass("ก")).toBe("mid");
+    expect(getThaiConsonantClass("ข")).toBe("high");
+    expect(getThaiConsonantClass("ค")).toBe("low");
+    expect(getThaiConsonantClass("า")).toBeUndefined();
+  });
+});
+
+describe("computeThaiTone", () => {
+  it("computes unmarked tones from class and syllable type", () => {
+    expect(computeThaiTone("mid", true, "long")).toBe(THAI_TONES.MID);
+    expect(computeThaiTone("high", true, "long")).toBe(THAI_TONES.RISING);
+    expect(computeThaiTone("low", true, "long")).toBe(THAI_TONES.MID);
+    expect(computeThaiTone("mid", false, "short")).toBe(THAI_TONES.LOW);
+    expect(computeThaiTone("high", false, "long")).toBe(THAI_TONES.LOW);
+    expect(computeThaiTone("low", false, "short")).toBe(THAI_TONES.HIGH);
+    expect(computeThaiTone("low", false, "long")).toBe(THAI_TONES.FALLING);
+  });
+
+  it("applies tone marks by class", () => {
+    expect(computeThaiTone("mid", true, "long", "่")).toBe(THAI_TONES.LOW);
+    expect(computeThaiTone("low", true, "long", "่")).toBe(THAI_TONES.FALLING);
+    expect(computeThaiTone("mid", true, "long", "้")).toBe(THAI_TONES.FALLING);
+    expect(computeThaiTone("low", true, "long", "้")).toBe(THAI_TONES.HIGH);
+    expect(computeThaiTone("mid", true, "long", "๊")).toBe(THAI_TONES.HIGH);
+    expect(computeThaiTone("mid", true, "long", "๋")).toBe(THAI_TONES.RISING);
+  });
+});
+
+describe("syllabifyThai", () => {
+  const summary = (text: string) =>
+    syllabifyThai(text).map(({ text, consonantClass, tone }) => [text, consonantClass, tone]);
+
+  it("splits สวัสดี with the leading ส governing วัส", () => {
+    expect(summary("สวัสดี")).toEqual([
+      ["ส", "high", THAI_TONES.LOW],
+      ["วัส", "high", THAI_TONES.LOW],
+      ["ดี", "mid", THAI_TONES.MID],
+    ]);
+  });
+
+  it("carries a mid-class lead across the syllable break", () => {
+    expect(summary("อร่อย")[1]).toEqual(["ร่อย", "mid", THAI_TONES.LOW]);
+    expect(summary("ตลาด")[1]).toEqual(["ลาด", "mid", THAI_TONES.LOW]);
+  });
+
+  it("does not lead non-sonorants", () => {
+    expect(summary("สบาย")[1]).toEqual(["บาย", "mid", THAI_TONES.MID]);
+  });
+
+  it("reads true clusters and tone marks", () => {
+    const [krap] = syllabifyThai("ครับ");
+    expect(krap.initial).toBe("คร");
+    expect(krap.final).toBe("บ");
+    expect(krap.live).toBe(false);
+    expect(krap.tone).toBe(THAI_TONES.HIGH);
+
+    const [mai] = syllabifyThai("ไม่");
+    expect(mai.toneMark).toBe("่");
+    expect(mai.tone).toBe(THAI_TONES.FALLING);
+  });
+
+  it("reads false clusters as one onset", () => {
+    const [sri] = syllabifyThai("ศรี");
+    expect(syllabifyThai("ศรี")).toHaveLength(1);
+    expect(sri).toMatchObject({ initial: "ศร", consonantClass: "high", tone: THAI_TONES.RISING });
+    expect(sri.characters[1].extras?.silent).toBe(true);
+
+    expect(summary("จริง")).toEqual([["จริง", "mid", THAI_TONES.MID]]);
+    expect(summary("ทราย")).toEqual([["ทราย", "low", THAI_TONES.MID]]);
+  });
+
+  it("reads เ-ิ as a long vowel", () => {
+    expect(syllabifyThai("เดิน")[0]).toMatchObject({ vowel: "เ-ิ", vowelLength: "long", tone: THAI_TONES.MID });
+    expect(syllabifyThai("เงิน")[0].vowelLength).toBe("long");
+    expect(syllabifyThai("เกิด")[0]).toMatchObject({ vowelLength: "long", tone: THAI_TONES.LOW });
+  });
+
+  it("raises sonorants led by ห", () => {
+    const [nu] = syllabifyThai("หนู");
+    expect(nu.initial).toBe("หน");
+    expect(nu.consonantClass).toBe("high");
+    expect(nu.tone).toBe(THAI_TONES.RISING);
+  });
+
+  it("keeps silent consonants in their syllable", () => {
+    const [chan] = syllabifyThai("จันทร์");
+    expect(syllabifyThai("จันทร์")).toHaveLength(1);
+    expect(chan.final).toBe("น");
+    expect(chan.characters.filter((c) => c.extras?.silent).map((c) => c.value)).toEqual(["ท", "ร"]);
+
+    const [thai] = syllabifyThai("ไทย");
+    expect(thai.text).toBe("ไทย");
+    expect(thai.characters.at(-1)?.extras?.silent).toBe(true);
+  });
+
+  it("spells vowels with consonant letters", () => {
+    expect(syllabifyThai("เรียน")[0].vowel).toBe("เ-ีย");
+    expect(syllabifyThai("ควร")[0].vowel).toBe("-ว");
+    expect(syllabifyThai("ความ")[0]).toMatchObject({ initial: "คว", vowel: "-า", final: "ม" });
+  });
+
+  it("tags characters with roles and consonant classes", () => {
+    const [, wat] = syllabifyThai("สวัสดี");
+    expect(wat.characters.map((c) => [c.value, c.role, c.extras?.class])).toEqual([
+      ["ว", "consonant", "low"],
+      ["ั", "vowel", undefined],
+      ["ส", "consonant", "high"],
+    ]);
+  });
+});
+
+describe("createThaiSyllableExtension", () => {
+  const processWords = async (words: string[]) => {
+    const document = createSimpleDocument(
+      words.map((value) => createGLOSTWordNode({ value, lang: "th", script: "thai" })),
+      "th",
+      "thai",
+    );
+    const result = await processGLOSTWithExtensionsAsync(document, [createThaiSyllableExtension()]);
+    return getAllWords(result.document);
+  };
+  const syllablesOf = (word: { children: Array<{ type: string }> }) =>
+    word.children.filter((child): child is GLOSTSyllable => child.type === "SyllableNode");
+
+  it("appends syllables with tones after the word text", async () => {
+    const [word] = await processWords(["สวัสดี"]);
+
+    expect(getWordText(word)).toBe("สวัสดี");
+    expect(syllablesOf(word).map((s) => [s.extras?.text, s.tone])).toEqual([
+      ["ส", THAI_TONES.LOW],
+      ["วัส", THAI_TONES.LOW],
+      ["ดี", THAI_TONES.MID],
+    ]);
+    expect(syllablesOf(word)[1].structure).toMatchObject({ Ci: "ว", V: "-ั", Cf: "ส" });
+  });
+
+  it("keeps existing syllables unless overwriting", async () => {
+    const existing: GLOSTSyllable = {
+      type: "SyllableNode",
+      structure: { onset: "x", nucleus: "y" },
+      children: [],
+    };
+    const word = createGLOSTWordNode({ value: "ครับ", lang: "th", script: "thai" });
+    word.children.push(existing);
+    const document = createSimpleDocument([word], "th", "thai");
+
+    const kept = await processGLOSTWithExtensionsAsync(document, [
+      createThaiSyllableExtension({ overwrite: false }),
+    ]);
+    expect(syllablesOf(getAllWords(kept.document)[0])).toEqual([existing]);
+
+    const replaced = await processGLOSTWithExtensionsAsync(document, [createThaiSyllableExtension()]);
+    expect(syllablesOf(getAllWords(replaced.document)[0]).map((s) => s.extras?.text)).toEqual(["ครับ"]);
+  });
+
+  it("skips words in other languages", async () => {
+    const document = createSimpleDocument(
+      [createGLOSTWordNode({ value: "สวัสดี", lang: "en", script: "latin" })],
+      "en",
+      "latin",
+    );
+    const result = await processGLOSTWithExtensionsAsync(document, [createThaiSyllableExtension()]);
+
+    expect(syllablesOf(getAllWords(result.document)[0])).toHaveLength(0);
+  });
+});
+
+describe("presets", () => {
+  const ids = (extensions: Array<{ id: string }>) => extensions.map((extension) => extension.id);
+
+  it("includes syllables in the pronunciation and learning presets", () => {
+    expect(ids(thaiPronunciationPreset)).toContain("thai-syllables");
+    expect(ids(thaiLearningPreset)).toContain("thai-syllables");
+    expect(ids(thaiQuickStartPreset)).not.toContain("thai-syllables");
+  });
+
+  it("leaves syllables out when includeSyllables is false", () => {
+    expect(ids(createThaiPronunciationPreset())).toContain("thai-syllables");
+    expect(ids(createThaiPronunciationPreset({ includeSyllables: false }))).not.toContain("thai-syllables");
+    expect(ids(createThaiLearningPreset({ includeSyllables: false }))).not.toContain("thai-syllables");
+  });
+});
@@ -0,0 +1,465 @@
+/**
+ * Thai syllabifier
+ *
+ * Splits Thai words into `SyllableNode`s with `CharacterNode` children,
+ * fills the Thai `Ci`/`V`/`Cf`/`T` structure slots, tags consonants with
+ * their class and computes each syllable's tone from consonant class,
+ * live/dead syllable type and tone mark.
+ *
+ * Syllabification is orthographic and rule-based. It handles leading vowels,
+ * true clusters, false clusters with a silent ร (จริง, ศรี, and ทร read as
+ * ซ in ทราย), leading ห/อ, sonorants led by the previous syllable's
+ * consonant (the วัส of สวัสดี), hidden vowels and silent (์) consonants,
+ * but words whose syllable breaks aren't visible in the spelling (ขนม is
+ * ข-นม, not ขน-ม) may split differently from the dictionary.
+ *
+ * @packageDocumentation
+ */
+
+import type { GLOSTCharacter, GLOSTSyllable, GLOSTWord } from "@glotblocks/glost";
+import { getWordText } from "@glotblocks/glost";
+import type { GLOSTExtension } from "@glotblocks/glost-plugins";
+import {
+  THAI_TONE_MARKS,
+  THAI_TONES,
+  containsThaiCharacters,
+  getThaiConsonantClass,
+  isThaiConsonant,
+  isThaiToneMark,
+  type ThaiConsonantClass,
+} from "../constants.js";
+
+/** Vowels written before the initial consonant */
+const LEADING_VOWELS = "เแโใไ";
+/** Vowels written above or below the initial consonant */
+const COMBINING_VOWELS = "ัิีึืุู็";
+/** Vowels written after the initial consonant */
+const FOLLOWING_VOWELS = "าะำๅ";
+const KARAN = "์";
+
+/** Second consonants of true clusters (ควบกล้ำแท้) */
+const TRUE_CLUSTERS: Record<string, string> = {
+  "ก": "รลว",
+  "ข": "รลว",
+  "ค": "รลว",
+  "ต": "ร",
+  "ป": "รล",
+  "พ": "รล",
+  "ผ": "ล",
+};
+
+/**
+ * Consonants whose following ร is not pronounced (ควบกล้ำไม่แท้); ทร is
+ * read as ซ. The first consonant's class governs the tone either way.
+ */
+const FALSE_CLUSTERS = "จซศสท";
+
+/** Sonorants that take ห as a silent class-raising lead (อักษรนำ) */
+const LEADING_HO_SONORANTS = "งญนมยรลว";
+
+/** Finals that close a syllable with a stop (k/t/p) */
+const STOP_FINALS = "กขคฆจชซฌฎฏฐฑฒดตถทธศษสบปพฟภ";
+
+/** Short vowel signs; open syllables with these are dead */
+const SHORT_VOWEL_SIGNS = "ะัิึุ็";
+
+/**
+ * One orthographic Thai syllable
+ */
+export interface ThaiSyllable {
+  /** The syllable as written */
+  text: string;
+  /** Initial consonant(s), including a leading ห/อ */
+  initial: string;
+  /** Vowel in dictionary notation with `-` for the consonant, e.g. `เ-ีย` */
+  vowel: string;
+  /** Pronounced final consonant */
+  final?: string;
+  /** Tone mark */
+  toneMark?: string;
+  /** Class that governs the tone */
+  consonantClass: ThaiConsonantClass;
+  /** Live (คำเป็น) or dead (คำตาย) syllable */
+  live: boolean;
+  vowelLength: "short" | "long";
+  /** Computed tone (see `THAI_TONES`) */
+  tone: number;
+  /** Characters in written order */
+  characters: GLOSTCharacter[];
+}
+
+/**
+ * Compute a Thai syllable's tone
+ *
+ * @param consonantClass - Class of the initial consonant
+ * @param live - Whether the syllable is live (long vowel or sonorant final)
+ * @param vowelLength - Vowel length, which matters for dead low-class syllables
+ * @param toneMark - Tone mark, if any
+ * @returns Tone number (see `THAI_TONES`)
+ *
+ * @example
+ * ```typescript
+ * computeThaiTone('mid', true, 'long');           // 0 (Mid) - กา
+ * computeThaiTone('high', true, 'long');          // 4 (Rising) - ขา
+ * computeThaiTone('low', false, 'short');         // 3 (High) - คะ
+ * computeThaiTone('low', true, 'long', '้'); // 3 (High) - ค้า
+ * ```
+ */
+export function computeThaiTone(
+  consonantClass: ThaiConsonantClass,
+  live: boolean,
+  vowelLength: "short" | "long",
+  toneMark?: string,
+): number {
+  switch (toneMark) {
+    case THAI_TONE_MARKS.MAI_EK:
+      return consonantClass === "low" ? THAI_TONES.FALLING : THAI_TONES.LOW;
+    case THAI_TONE_MARKS.MAI_THO:
+      return consonantClass === "low" ? THAI_TONES.HIGH : THAI_TONES.FALLING;
+    case THAI_TONE_MARKS.MAI_TRI:
+      return THAI_TONES.HIGH;
+    case THAI_TONE_MARKS.MAI_CHATTAWA:
+      return THAI_TONES.RISING;
+  }
+
+  if (live) {
+    return consonantClass === "high" ? THAI_TONES.RISING : THAI_TONES.MID;
+  }
+  if (consonantClass === "low") {
+    return vowelLength === "short" ? THAI_TONES.HIGH : THAI_TONES.FALLING;
+  }
+  return THAI_TONES.LOW;
+}
+
+function isCombiningVowel(char: string | undefined): boolean {
+  return char !== undefined && COMBINING_VOWELS.includes(char);
+}
+
+function isDependent(char: string | undefined): boolean {
+  return char !== undefined && (
+    isCombiningVowel(char) || FOLLOWING_VOWELS.includes(char) || isThaiToneMark(char)
+  );
+}
+
+/** A consonant at `i` begins the next syllable rather than closing this one */
+function startsSyllable(chars: string[], i: number): boolean {
+  if (!isThaiConsonant(chars[i])) return false;
+  if (isDependent(chars[i + 1])) return true;
+  // ห/อ leads and true clusters followed by a vowel, e.g. the หน in ขนหนู
+  const next = chars[i + 1];
+  return next !== undefined && isClusterPair(chars[i], next) && isDependent(chars[i + 2]);
+}
+
+function isFalseCluster(first: string, second: string): boolean {
+  return second === "ร" && FALSE_CLUSTERS.includes(first);
+}
+
+function isClusterPair(first: string, second: string): boolean {
+  if (TRUE_CLUSTERS[first]?.includes(second)) return true;
+  if (isFalseCluster(first, second)) return true;
+  if (first === "ห" && LEADING_HO_SONORANTS.includes(second)) return true;
+  return first === "อ" && second === "ย";
+}
+
+function character(
+  value: string,
+  role: NonNullable<GLOSTCharacter["role"]>,
+  placement?: GLOSTCharacter["placement"],
+): GLOSTCharacter {
+  const node: GLOSTCharacter = {
+    type: "CharacterNode",
+    value,
+    role,
+    lang: "th",
+    script: "thai",
+    extras: {
+      unicode: `U+${value.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}`,
+    },
+  };
+  if (placement) node.placement = placement;
+  const consonantClass = role === "consonant" ? getThaiConsonantClass(value) : undefined;
+  if (consonantClass) node.extras!.class = consonantClass;
+  return node;
+}
+
+function vowelPlacement(char: string): GLOSTCharacter["placement"] {
+  if (LEADING_VOWELS.includes(char)) return "before";
+  if ("ุู".includes(char)) return "below";
+  if (isCombiningVowel(char)) return "above";
+  return "after";
+}
+
+/**
+ * Split a Thai word into syllables
+ *
+ * Non-Thai characters and marks that can't start a syllable (ๆ, ฯ) are
+ * attached to the preceding syllable as modifiers.
+ *
+ * @param text - Thai word
+ * @returns Syllables in reading order
+ *
+ * @example
+ * ```typescript
+ * syllabifyThai('สวัสดี').map((s) => s.text); // ['ส', 'วัส', 'ดี']
+ * syllabifyThai('ครับ')[0].tone;              // 3 (High)
+ * syllabifyThai('ไม่')[0].tone;               // 2 (Falling)
+ * ```
+ */
+export function syllabifyThai(text: string): ThaiSyllable[] {
+  const chars = Array.from(text);
+  const syllables: ThaiSyllable[] = [];
+  // Modifiers seen before the first syllable
+  let prefix = "";
+  let prefixCharacters: GLOSTCharacter[] = [];
+  let i = 0;
+
+  while (i < chars.length) {
+    const start = i;
+    const characters: GLOSTCharacter[] = [];
+    let leading = "";
+    let vowelSigns = "";
+    let toneMark: string | undefined;
+    let final: string | undefined;
+
+    if (LEADING_VOWELS.includes(chars[i]) && isThaiConsonant(chars[i + 1])) {
+      leading = chars[i];
+      characters.push(character(leading, "vowel", "before"));
+      i++;
+    }
+
+    if (!isThaiConsonant(chars[i])) {
+      // Stray mark or non-Thai character
+      const modifier = character(chars[i], isThaiToneMark(chars[i]) ? "tone" : "modifier");
+      const previous = syllables[syllables.length - 1];
+      if (previous) {
+        previous.text += chars[i];
+        previous.characters.push(modifier);
+      } else {
+        prefix += chars[i];
+        prefixCharacters.push(modifier);
+      }
+      i++;
+      continue;
+    }
+
+    let initial = chars[i];
+    characters.push(character(chars[i], "consonant", "initial"));
+    i++;
+    // ว between consonants is the vowel -ัว- (ควร, ชวน) unless a vowel follows
+    const wawVowel = chars[i] === "ว" && leading === "" && !isDependent(chars[i + 1]);
+    // A false cluster needs a vowel after it; otherwise ร is the final (ศร)
+    const falseCluster = isFalseCluster(initial, chars[i]);
+    if (
+      isThaiConsonant(chars[i]) && isClusterPair(initial, chars[i]) && !wawVowel &&
+      (!falseCluster || isDependent(chars[i + 1]))
+    ) {
+      const second = character(chars[i], "consonant", "initial");
+      if (falseCluster) second.extras!.silent = true;
+      initial += chars[i];
+      characters.push(second);
+      i++;
+    }
+
+    // Vowel signs and tone mark written around the initial
+    let closed = false;
+    while (i < chars.length && isDependent(chars[i]) && !closed) {
+      const char = chars[i];
+      if (isThaiToneMark(char)) {
+        toneMark = char;
+        characters.push(character(char, "tone", "above"));
+      } else {
+        vowelSigns += char;
+        characters.push(character(char, char === "็" ? "diacritic" : "vowel", vowelPlacement(char)));
+        closed = char === "ะ" || char === "ำ";
+      }
+      i++;
+    }
+
+    // Consonants that spell part of the vowel: -ัว, -ว-, เ-ีย, เ-ือ, -ือ, เ-อ, -อ
+    const spelledVowel =
+      (chars[i] === "ว" && vowelSigns === "ั") ||
+      (chars[i] === "ว" && vowelSigns === "" && leading === "" &&
+        isThaiConsonant(chars[i + 1]) && !startsSyllable(chars, i + 1)) ||
+      (chars[i] === "ย" && leading === "เ" && vowelSigns === "ี") ||
+      (chars[i] === "อ" && (vowelSigns === "ื" || (vowelSigns === "" && !isDependent(chars[i + 1]))));
+    if (!closed && spelledVowel) {
+      vowelSigns += chars[i];
+      characters.push(character(chars[i], "vowel", "after"));
+      i++;
+      if (chars[i] === "ะ") {
+        vowelSigns += chars[i];
+        characters.push(character(chars[i], "vowel", "after"));
+        closed = true;
+        i++;
+      }
+    }
+
+    // Final consonant
+    const openVowel = leading === "ใ" || leading === "ไ" || (leading === "เ" && vowelSigns.startsWith("า"));
+    if (!closed && !openVowel && isThaiConsonant(chars[i]) && !startsSyllable(chars, i)) {
+      final = chars[i];
+      characters.push(character(chars[i], "consonant", "final"));
+      i++;
+    }
+
+    // The silent ย of ไทย
+    if (leading === "ไ" && chars[i] === "ย" && !startsSyllable(chars, i)) {
+      const silent = character(chars[i], "consonant", "final");
+      silent.extras!.silent = true;
+      characters.push(silent);
+      i++;
+    }
+
+    // Silent consonants under a karan, e.g. the ทร์ of จันทร์
+    const silentLength = chars[i + 1] === KARAN ? 1 : chars[i + 2] === KARAN && isThaiConsonant(chars[i + 1]) ? 2 : 0;
+    if (silentLength > 0 && isThaiConsonant(chars[i])) {
+      for (let k = 0; k < silentLength; k++) {
+        const silent = character(chars[i], "consonant", "final");
+        silent.extras!.silent = true;
+        characters.push(silent);
+        i++;
+      }
+      characters.push(character(chars[i], "diacritic", "above"));
+      i++;
+    }
+
+    // A sonorant after a bare high or mid consonant is read with that
+    // consonant's class (อักษรนำ across the break), e.g. the วัส of สวัสดี
+    const leader = syllables[syllables.length - 1];
+    const leaderClass = leader && leader.text === leader.initial && leader.initial.length === 1
+      ? getThaiConsonantClass(leader.initial)
+      : undefined;
+    const led = initial.length === 1 && LEADING_HO_SONORANTS.includes(initial) &&
+      (leaderClass === "high" || leaderClass === "mid");
+    const consonantClass = (led ? leaderClass : getThaiConsonantClass(initial[0])) ?? "low";
+    const inherent = leading === "" && vowelSigns === "";
+    const vowel = inherent
+      ? (final ? "โ-ะ" : "-ะ")
+      : `${leading}-${vowelSigns}`;
+    // ำ, ใ-, ไ- and เ-า end in a sonorant glide and count as live
+    const glide = vowelSigns.includes("ำ") || leading === "ใ" || leading === "ไ" || (leading === "เ" && vowelSigns === "า");
+    // ั is short except as the first half of -ัว, and ิ is long in เ-ิ (เดิน)
+    const short =
+      inherent ||
+      glide ||
+      vowelSigns.includes("ะ") ||
+      Array.from(vowelSigns).some((c) =>
+        SHORT_VOWEL_SIGNS.includes(c) &&
+        !(c === "ั" && vowelSigns.includes("ว")) &&
+        !(c === "ิ" && leading === "เ"));
+    const vowelLength = short ? "short" : "long";
+    const live = final !== undefined
+      ? !STOP_FINALS.includes(final)
+      : glide || vowelLength === "long";
+
+    syllables.push({
+      text: prefix + chars.slice(start, i).join(""),
+      initial,
+      vowel,
+      final,
+      toneMark,
+      consonantClass,
+      live,
+      vowelLength,
+      tone: computeThaiTone(consonantClass, live, vowelLength, toneMark),
+      characters: [...prefixCharacters, ...characters],
+    });
+    prefix = "";
+    prefixCharacters = [];
+  }
+
+  return syllables;
+}
+
+/**
+ * Convert a syllable to a `SyllableNode`
+ */
+export function createThaiSyllableNode(syllable: ThaiSyllable): GLOSTSyllable {
+  return {
+    type: "SyllableNode",
+    structure: {
+      onset: syllable.initial,
+      nucleus: syllable.vowel,
+      coda: syllable.final,
+      Ci: syllable.initial,
+      V: syllable.vowel,
+      Cf: syllable.final,
+      T: syllable.toneMark,
+    },
+    children: syllable.characters,
+    lang: "th",
+    script: "thai",
+    tone: syllable.tone,
+    extras: {
+      text: syllable.text,
+      consonantClass: syllable.consonantClass,
+      live: syllable.live,
+      vowelLength: syllable.vowelLength,
+    },
+  };
+}
+
+/**
+ * Options for the Thai syllable extension
+ */
+export interface ThaiSyllableExtensionOptions {
+  /**
+   * Replace `SyllableNode`s a word already has
+   * @default true
+   */
+  overwrite?: boolean;
+}
+
+/**
+ * Create the Thai syllable extension
+ *
+ * Appends one `SyllableNode` per syllable after each Thai word's `TextNode`,
+ * so `getWordText` keeps working. Each syllable carries the computed `tone`
+ * that tone drills and selectors like `WordNode:has(SyllableNode[tone=3])`
+ * rely on.
+ *
+ * @example
+ * ```typescript
+ * import { createThaiSyllableExtension } from "@glotblocks/glost-th/syllables";
+ *
+ * const result = await processGLOSTWithExtensionsAsync(document, [
+ *   createThaiSyllableExtension(),
+ * ]);
+ * ```
+ */
+export function createThaiSyllableExtension(
+  options: ThaiSyllableExtensionOptions = {},
+): GLOSTExtension {
+  const { overwrite = true } = options;
+
+  return {
+    id: "thai-syllables",
+    name: "Thai Syllables",
+    description: "Splits Thai words into syllables with consonant class and computed tone",
+
+    provides: {
+      nodes: ["SyllableNode", "CharacterNode"],
+    },
+
+    visit: {
+      word: (node: GLOSTWord) => {
+        if (node.lang && !node.lang.startsWith("th")) return;
+        const hasSyllables = node.children.some((child) => child.type === "SyllableNode");
+        if (hasSyllables && !overwrite) return;
+
+        const text = getWordText(node);
+        if (!containsThaiCharacters(text)) return;
+
+        node.children = [
+          ...node.children.filter((child) => child.type !== "SyllableNode"),
+          ...syllabifyThai(text).map(createThaiSyllableNode),
+        ];
+      },
+    },
+  };
+}
+
+/**
+ * Default Thai syllable extension
+ */
+export const thaiSyllableExtension = createThaiSyllableExtension();
@@ -0,0 +1,223 @@
+import type { Nodes, Paragraph, PhrasingContent, Root } from "mdast";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkMdx from "remark-mdx";
+import type {
+  GLOSTParagraph,
+  GLOSTRoot,
+  GLOSTSentence,
+  GLOSTWord,
+  LanguageCode,
+  ScriptSystem,
+} from "@glotblocks/glost";
+import {
+  createGLOSTParagraphNode,
+  createGLOSTRootNode,
+  createGLOSTSentenceNode,
+  createGLOSTWordNode,
+} from "@glotblocks/glost/nodes";
+import { applyGloss, isGlossExpression, parseGlossText } from "./gloss.js";
+import type { GlossSpan } from "./gloss.js";
+import { sentenceRanges, wordRanges } from "./segment.js";
+import type { TextRange } from "./segment.js";
+import type { GLOSTHeading, MarkdownToGLOSTOptions } from "./types.js";
+
+/** Block nodes that carry no lesson text */
+const SKIPPED_BLOCKS = new Set([
+  "code",
+  "html",
+  "thematicBreak",
+  "definition",
+  "yaml",
+  "mdxjsEsm",
+  "mdxFlowExpression",
+]);
+
+/** Inline nodes that carry no lesson text */
+const SKIPPED_INLINES = new Set([
+  "html",
+  "image",
+  "imageReference",
+  "footnoteReference",
+]);
+
+/**
+ * Plain text of inline content, keeping gloss syntax intact
+ *
+ * Formatting such as emphasis is dropped. `[word]` is parsed as a link
+ * reference when a matching definition exists, so its brackets are
+ * restored. With MDX, gloss syntax is parsed as an expression and turned
+ * back into text; real expressions are skipped.
+ */
+function inlineText(nodes: PhrasingContent[]): string {
+  return nodes
+    .map((node): string => {
+      if (SKIPPED_INLINES.has(node.type)) return "";
+      if (node.type === "mdxTextExpression") {
+        return isGlossExpression(node.value) ? `{${node.value}}` : "";
+      }
+      if (node.type === "text" || node.type === "inlineCode") return node.value;
+      if (node.type === "break") return "\n";
+      if (node.type === "linkReference" && node.referenceType === "shortcut") {
+        return `[${inlineText(node.children)}]`;
+      }
+      return "children" in node ? inlineText(node.children as PhrasingContent[]) : "";
+    })
+    .join("");
+}
+
+/**
+ * Move sentence boundaries that fall inside a glossed word to its end
+ */
+function snapToGlosses(ranges: TextRange[], glosses: GlossSpan[]): TextRange[] {
+  const snapped: TextRange[] = [];
+  for (const range of ranges) {
+    const previous = snapped[snapped.length - 1];
+    let { start, end } = range;
+    if (previous && start < previous.end) start = previous.end;
+    for (const gloss of glosses) {
+      if (gloss.start < end && end < gloss.end) end = gloss.end;
+    }
+    if (start < end) snapped.push({ start, end });
+  }
+  return snapped;
+}
+
+function createSentences(
+  source: string,
+  options: MarkdownToGLOSTOptions,
+  script: ScriptSystem,
+  scheme: string,
+): GLOSTSentence[] {
+  const { language, languageStrategy } = options;
+  const { text, glosses } = parseGlossText(source);
+  const lang = language as LanguageCode;
+
+  const word = (start: number, end: number, gloss?: GlossSpan): GLOSTWord => {
+    const node = createGLOSTWordNode({ value: text.slice(start, end), lang, script });
+    if (gloss) applyGloss(node, gloss, scheme);
+    return node;
+  };
+
+  const plainWords = (start: number, end: number): GLOSTWord[] =>
+    wordRanges(text.slice(start, end), language, languageStrategy).map((range) =>
+      word(start + range.start, start + range.end),
+    );
+
+  return snapToGlosses(sentenceRanges(text, language, languageStrategy), glosses).map(
+    ({ start, end }) => {
+      const children: GLOSTWord[] = [];
+      let cursor = start;
+      for (const gloss of glosses) {
+        if (gloss.start < start || gloss.start >= end) continue;
+        children.push(...plainWords(cursor, gloss.start), word(gloss.start, gloss.end, gloss));
+        cursor = gloss.end;
+      }
+      children.push(...plainWords(cursor, end));
+
+      return createGLOSTSentenceNode({
+        originalText: text.slice(start, end),
+        lang,
+        script,
+        children,
+      });
+    },
+  );
+}
+
+/**
+ * Convert a Markdown syntax tree (mdast) to a GLOST document
+ *
+ * Use this when Markdown is already parsed by a remark pipeline; see
+ * {@link markdownToGLOST} for the conversion rules.
+ *
+ * @param tree - mdast root
+ * @param options - Language, strategy and transcription options
+ * @returns GLOST document
+ */
+export function mdastToGLOST(tree: Root, options: MarkdownToGLOSTOptions): GLOSTRoot {
+  const { language, languageStrategy } = options;
+  const script = languageStrategy.getScriptForLanguage(language) as ScriptSystem;
+  const scheme =
+    options.transcriptionScheme ?? languageStrategy.getDefaultTranscriptionSystem();
+
+  const paragraphs: GLOSTParagraph[] = [];
+  let title: string | undefined;
+  let heading: GLOSTHeading | undefined;
+
+  const addParagraph = (node: Paragraph) => {
+    const sentences = createSentences(inlineText(node.children), options, script, scheme);
+    if (sentences.length === 0) return;
+    paragraphs.push(
+      createGLOSTParagraphNode(
+        sentences,
+        heading && { heading },
+        node.position,
+      ),
+    );
+  };
+
+  const visit = (node: Nodes) => {
+    if (SKIPPED_BLOCKS.has(node.type)) return;
+
+    if (node.type === "heading") {
+      const text = inlineText(node.children).trim();
+      if (node.depth === 1 && title === undefined && !heading && paragraphs.length === 0) {
+        title = text;
+      } else {
+        heading = { text, depth: node.depth };
+      }
+    } else if (node.type === "paragraph") {
+      addParagraph(node);
+    } else if ("children" in node) {
+      // Lists, block quotes, MDX elements, ...
+      for (const child of node.children as Nodes[]) visit(child);
+    }
+  };
+  visit(tree);
+
+  return createGLOSTRootNode({
+    lang: language as LanguageCode,
+    script,
+    children: paragraphs,
+    metadata: title === undefined ? undefined : { title },
+  });
+}
+
+/**
+ * Parse Markdown (or MDX) into a GLOST document
+ *
+ * - Each Markdown paragraph (including those in lists and block quotes)
+ *   becomes a `ParagraphNode`, split into sentences and words by the
+ *   language strategy
+ * - `{漢字|かんじ}` becomes a word with a transcription in
+ *   `transcriptionScheme`; `[word]{pos=noun difficulty=2}` sets the
+ *   word's part of speech, difficulty or other `extras` fields
+ * - A level-1 heading before any text becomes `metadata.title`; other
+ *   headings are recorded as `extras.heading` on the paragraphs that
+ *   follow them
+ * - Code, HTML, images and MDX expressions are skipped, except `{...}`
+ *   groups that hold gloss syntax
+ *
+ * @param markdown - Markdown source
+ * @param options - Language, strategy and transcription options
+ * @returns GLOST document
+ *
+ * @example
+ * ```typescript
+ * const doc = markdownToGLOST("# 第一課\n\n{日本語|にほんご}を[勉強]{pos=noun}します。", {
+ *   language: "ja",
+ *   languageStrategy: japaneseStrategy,
+ *   transcriptionScheme: "furigana",
+ * });
+ * ```
+ */
+export function markdownToGLOST(
+  markdown: string,
+  options: MarkdownToGLOSTOptions,
+): GLOSTRoot {
+  const tree = options.mdx
+    ? unified().use(remarkParse).use(remarkMdx).parse(markdown)
+    : unified().use(remarkParse).parse(markdown);
+  return mdastToGLOST(tree, options);
+}
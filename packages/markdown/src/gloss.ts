@@ -0,0 +1,212 @@
+/**
+ * Inline gloss syntax
+ *
+ * - `{漢字|かんじ}` annotates a word with ruby text
+ * - `[word]{pos=noun difficulty=2}` attaches attributes to a word; the
+ *   bracketed text may itself be a ruby annotation
+ *   (`[{漢字|かんじ}]{pos=noun}`)
+ *
+ * `pos` maps to `metadata.partOfSpeech`, `difficulty` to
+ * `extras.metadata.difficulty` and any other (dotted) key to a path in
+ * `extras`, e.g. `translations.en=cat`. Keys with a `__proto__`,
+ * `constructor` or `prototype` segment are not valid attributes.
+ */
+
+import type { GLOSTWord } from "@glotblocks/glost";
+import { getWordText } from "@glotblocks/glost";
+
+export type GlossValue = string | number | boolean;
+
+/**
+ * A glossed word found in text
+ */
+export interface GlossSpan {
+  /** Offset of the word in the plain text */
+  start: number;
+  /** End offset (exclusive) of the word in the plain text */
+  end: number;
+  /** Ruby text, if annotated */
+  ruby?: string;
+  /** Attributes from `{key=value ...}` */
+  attributes: Record<string, GlossValue>;
+}
+
+/**
+ * Text with gloss markup removed, plus where the glossed words are
+ */
+export interface ParsedGlossText {
+  text: string;
+  glosses: GlossSpan[];
+}
+
+const GLOSS = /\[([^[\]]+)\]\{([^{}]*)\}|\{([^{}|]+)\|([^{}]+)\}/g;
+const RUBY = /^\{([^{}|]+)\|([^{}]+)\}$/;
+const ATTRIBUTE = /([\w.-]+)=(?:"([^"]*)"|'([^']*)'|([^\s"']+))/g;
+const NUMBER = /^-?\d+(?:\.\d+)?$/;
+const BARE_VALUE = /^[^\s"'{}[\]]+$/;
+
+/** Path segments that would reach `Object.prototype` */
+const UNSAFE_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+function isSafeKey(key: string): boolean {
+  return key.split(".").every((segment) => !UNSAFE_SEGMENTS.has(segment));
+}
+
+function parseAttributes(source: string): Record<string, GlossValue> | undefined {
+  const attributes: Record<string, GlossValue> = {};
+  let safe = true;
+  const rest = source.replace(
+    ATTRIBUTE,
+    (_, key: string, double?: string, single?: string, bare?: string) => {
+      if (!isSafeKey(key)) {
+        safe = false;
+      } else if (bare === undefined) {
+        attributes[key] = double ?? single ?? "";
+      } else if (NUMBER.test(bare)) {
+        attributes[key] = Number(bare);
+      } else if (bare === "true" || bare === "false") {
+        attributes[key] = bare === "true";
+      } else {
+        attributes[key] = bare;
+      }
+      return "";
+    },
+  );
+  return safe && rest.trim() === "" ? attributes : undefined;
+}
+
+/**
+ * Whether the content of a `{...}` group is gloss syntax
+ *
+ * MDX parses `{漢字|かんじ}` and the `{pos=noun}` of `[word]{pos=noun}`
+ * as JavaScript expressions; this tells them apart from real ones.
+ */
+export function isGlossExpression(value: string): boolean {
+  if (RUBY.test(`{${value}}`)) return true;
+  return value.trim() !== "" && parseAttributes(value) !== undefined;
+}
+
+/**
+ * Remove gloss markup from text and record the glossed words
+ *
+ * Brackets followed by something that is not a valid attribute list are
+ * left as plain text.
+ */
+export function parseGlossText(source: string): ParsedGlossText {
+  const glosses: GlossSpan[] = [];
+  let text = "";
+  let cursor = 0;
+
+  for (const match of source.matchAll(GLOSS)) {
+    const [raw, bracketed, attributeSource, rubyBase, rubyText] = match;
+    let base: string;
+    let ruby: string | undefined;
+    let attributes: Record<string, GlossValue> = {};
+
+    if (bracketed !== undefined) {
+      const parsed = parseAttributes(attributeSource!);
+      if (!parsed) continue;
+      attributes = parsed;
+      const nested = RUBY.exec(bracketed);
+      base = nested ? nested[1]! : bracketed;
+      ruby = nested?.[2];
+    } else {
+      base = rubyBase!;
+      ruby = rubyText;
+    }
+
+    text += source.slice(cursor, match.index);
+    glosses.push({
+      start: text.length,
+      end: text.length + base.length,
+      ...(ruby !== undefined && { ruby }),
+      attributes,
+    });
+    text += base;
+    cursor = match.index + raw.length;
+  }
+
+  return { text: text + source.slice(cursor), glosses };
+}
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  const [key, ...rest] = path;
+  if (key === undefined || UNSAFE_SEGMENTS.has(key)) return;
+  if (rest.length === 0) {
+    target[key] = value;
+    return;
+  }
+  const next = Object.hasOwn(target, key) ? target[key] : undefined;
+  const child =
+    typeof next === "object" && next !== null
+      ? (next as Record<string, unknown>)
+      : (target[key] = {});
+  setPath(child as Record<string, unknown>, rest, value);
+}
+
+/**
+ * Write a gloss's ruby and attributes onto a word node
+ */
+export function applyGloss(word: GLOSTWord, gloss: GlossSpan, scheme: string): void {
+  if (gloss.ruby !== undefined) {
+    word.transcription = { ...word.transcription, [scheme]: { text: gloss.ruby } };
+  }
+
+  for (const [key, value] of Object.entries(gloss.attributes)) {
+    if (key === "pos") {
+      word.metadata = { ...word.metadata, partOfSpeech: String(value) };
+      continue;
+    }
+    const extras = (word.extras ??= {}) as Record<string, unknown>;
+    setPath(extras, key === "difficulty" ? ["metadata", "difficulty"] : key.split("."), value);
+  }
+}
+
+function collectExtras(
+  value: unknown,
+  path: string[],
+  into: Array<[string, GlossValue]>,
+): void {
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    const key = path.join(".");
+    into.push([key === "metadata.difficulty" ? "difficulty" : key, value]);
+  } else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      collectExtras(child, [...path, key], into);
+    }
+  }
+}
+
+function formatValue(value: GlossValue): string {
+  if (typeof value !== "string") return String(value);
+  if (BARE_VALUE.test(value) && !NUMBER.test(value) && value !== "true" && value !== "false") {
+    return value;
+  }
+  return value.includes('"') ? `'${value}'` : `"${value}"`;
+}
+
+/**
+ * Attributes of a word in `key=value` form, or "" when it has none
+ *
+ * Arrays in `extras` have no attribute form and are not written.
+ */
+export function formatAttributes(word: GLOSTWord): string {
+  const attributes: Array<[string, GlossValue]> = [];
+  if (word.metadata?.partOfSpeech) {
+    attributes.push(["pos", word.metadata.partOfSpeech]);
+  }
+  collectExtras(word.extras, [], attributes);
+  return attributes.map(([key, value]) => `${key}=${formatValue(value)}`).join(" ");
+}
+
+/**
+ * Write a word back in gloss syntax
+ */
+export function formatWord(word: GLOSTWord, scheme?: string): string {
+  const text = getWordText(word);
+  const system = scheme ?? Object.keys(word.transcription ?? {})[0];
+  const ruby = system ? word.transcription?.[system]?.text : undefined;
+  const base = ruby ? `{${text}|${ruby}}` : text;
+  const attributes = formatAttributes(word);
+  return attributes ? `[${base}]{${attributes}}` : base;
+}
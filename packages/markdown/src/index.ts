@@ -0,0 +1,20 @@
+/**
+ * GloST Markdown - Markdown/MDX ingestion with inline gloss syntax
+ *
+ * Parses lesson Markdown into GloST documents and writes them back,
+ * with `{漢字|かんじ}` ruby and `[word]{pos=noun difficulty=2}`
+ * attribute syntax.
+ *
+ * @packageDocumentation
+ */
+
+export { markdownToGLOST, mdastToGLOST } from "./from-markdown.js";
+export { glostToMarkdown } from "./to-markdown.js";
+export { parseGlossText, formatWord } from "./gloss.js";
+
+export type { GlossSpan, GlossValue, ParsedGlossText } from "./gloss.js";
+export type {
+  GLOSTHeading,
+  GLOSTToMarkdownOptions,
+  MarkdownToGLOSTOptions,
+} from "./types.js";
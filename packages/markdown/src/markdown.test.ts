@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAllParagraphs,
+  getAllSentences,
+  getAllWords,
+  getWordText,
+} from "@glotblocks/glost";
+import type { GLOSTWord } from "@glotblocks/glost";
+import type { ILanguageStrategy } from "@glotblocks/glost-utils";
+
+import { glostToMarkdown } from "./to-markdown.js";
+import { markdownToGLOST } from "./from-markdown.js";
+import { parseGlossText } from "./gloss.js";
+
+const japanese: ILanguageStrategy = {
+  getGenderTerms: () => ({ male: [], female: [] }),
+  getScriptForLanguage: () => "mixed",
+  getDefaultTranscriptionSystem: () => "furigana",
+  getTranscriptionSystems: () => ({ furigana: { name: "Furigana" } }),
+  segmentSentences: (text) => text.match(/[^。]+。?/g) ?? [],
+  // Splits on particles, enough for the fixtures below
+  segmentWords: (text) => text.split(/(を|は|します|。)/).filter((w) => w && w !== "。"),
+};
+
+const english: ILanguageStrategy = {
+  getGenderTerms: () => ({ male: [], female: [] }),
+  getScriptForLanguage: () => "latin",
+  getDefaultTranscriptionSystem: () => "ipa",
+  getTranscriptionSystems: () => ({ ipa: { name: "IPA" } }),
+};
+
+const texts = (words: GLOSTWord[]) => words.map(getWordText);
+
+describe("parseGlossText", () => {
+  it("strips ruby and attribute markup", () => {
+    expect(parseGlossText("{漢字|かんじ}を[読]{pos=verb}む")).toEqual({
+      text: "漢字を読む",
+      glosses: [
+        { start: 0, end: 2, ruby: "かんじ", attributes: {} },
+        { start: 3, end: 4, attributes: { pos: "verb" } },
+      ],
+    });
+  });
+
+  it("parses typed and quoted attribute values", () => {
+    const { glosses } = parseGlossText(`[cat]{difficulty=2 note="a pet" ok=true}`);
+
+    expect(glosses[0]!.attributes).toEqual({ difficulty: 2, note: "a pet", ok: true });
+  });
+
+  it("leaves brackets without valid attributes as text", () => {
+    expect(parseGlossText("[see]{this one}").text).toBe("[see]{this one}");
+  });
+
+  it("rejects attribute keys that reach the object prototype", () => {
+    for (const key of ["__proto__.polluted", "constructor.prototype.polluted", "a.__proto__"]) {
+      const source = `[x]{${key}=yes}`;
+      expect(parseGlossText(source)).toEqual({ text: source, glosses: [] });
+
+      markdownToGLOST(source, { language: "en", languageStrategy: english });
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    }
+  });
+});
+
+describe("markdownToGLOST", () => {
+  it("segments paragraphs with the language strategy", () => {
+    const doc = markdownToGLOST("日本語を勉強します。漢字は難しい。\n\n二つ目。", {
+      language: "ja",
+      languageStrategy: japanese,
+    });
+
+    expect(doc.children).toHaveLength(2);
+    expect(getAllSentences(doc).map((s) => s.originalText)).toEqual([
+      "日本語を勉強します。",
+      "漢字は難しい。",
+      "二つ目。",
+    ]);
+    expect(texts(getAllWords(doc.children[0]!))).toEqual([
+      "日本語",
+      "を",
+      "勉強",
+      "します",
+      "漢字",
+      "は",
+      "難しい",
+    ]);
+  });
+
+  it("turns gloss syntax into transcriptions and attributes", () => {
+    const doc = markdownToGLOST(
+      "{日本語|にほんご}を[{勉強|べんきょう}]{pos=noun difficulty=2 translations.en=study}します。",
+      { language: "ja", languageStrategy: japanese },
+    );
+    const [nihongo, , benkyou] = getAllWords(doc);
+
+    expect(nihongo!.transcription).toEqual({ furigana: { text: "にほんご" } });
+    expect(benkyou!.transcription).toEqual({ furigana: { text: "べんきょう" } });
+    expect(benkyou!.metadata?.partOfSpeech).toBe("noun");
+    expect(benkyou!.extras).toEqual({
+      metadata: { difficulty: 2 },
+      translations: { en: "study" },
+    });
+  });
+
+  it("falls back to Intl.Segmenter and keeps glossed words whole", () => {
+    const doc = markdownToGLOST("I *really* like [New York]{pos=noun}. It is big.", {
+      language: "en",
+      languageStrategy: english,
+    });
+
+    expect(getAllSentences(doc)).toHaveLength(2);
+    expect(texts(getAllWords(doc))).toEqual([
+      "I",
+      "really",
+      "like",
+      "New York",
+      "It",
+      "is",
+      "big",
+    ]);
+  });
+
+  it("maps headings to the title and paragraph extras", () => {
+    const doc = markdownToGLOST("# Lesson 1\n\n## Greetings\n\nHello.\n\n- Bye.\n", {
+      language: "en",
+      languageStrategy: english,
+    });
+
+    expect(doc.metadata).toEqual({ title: "Lesson 1" });
+    expect(getAllParagraphs(doc).map((p) => p.extras?.heading)).toEqual([
+      { text: "Greetings", depth: 2 },
+      { text: "Greetings", depth: 2 },
+    ]);
+  });
+
+  it("skips code and unwraps MDX elements", () => {
+    const doc = markdownToGLOST(
+      'import X from "x"\n\n<Note>\n\nInside note.\n\n</Note>\n\n```js\ncode();\n```\n\n' +
+        "{日本語|にほんご}を[勉強]{pos=noun}します。{count + 1}\n",
+      { language: "ja", languageStrategy: japanese, mdx: true },
+    );
+    const [nihongo, , benkyou] = getAllWords(doc).slice(-4);
+
+    expect(getAllSentences(doc).map((s) => s.originalText)).toEqual([
+      "Inside note.",
+      "日本語を勉強します。",
+    ]);
+    expect(nihongo!.transcription).toEqual({ furigana: { text: "にほんご" } });
+    expect(benkyou!.metadata?.partOfSpeech).toBe("noun");
+  });
+});
+
+describe("glostToMarkdown", () => {
+  it("round-trips gloss syntax, headings and punctuation", () => {
+    const source = [
+      "# 第一課",
+      "",
+      "## 挨拶",
+      "",
+      "{日本語|にほんご}を[{勉強|べんきょう}]{pos=noun difficulty=2}します。漢字は難しい。",
+      "",
+      "## 二",
+      "",
+      "[本]{translations.en=book note=\"a b\"}は[高]{difficulty=\"3\"}い。",
+      "",
+    ].join("\n");
+
+    const doc = markdownToGLOST(source, { language: "ja", languageStrategy: japanese });
+
+    expect(glostToMarkdown(doc)).toBe(source);
+  });
+
+  it("keeps the space after single-word sentences", () => {
+    const source = "Hi. How are you? Fine.\n";
+    const doc = markdownToGLOST(source, { language: "en", languageStrategy: english });
+
+    expect(glostToMarkdown(doc)).toBe(source);
+  });
+
+  it("round-trips space-separated text", () => {
+    const source = "Say {hello|həˈloʊ} to [everyone]{pos=pronoun}, please. Thanks!\n";
+    const doc = markdownToGLOST(source, { language: "en", languageStrategy: english });
+
+    expect(glostToMarkdown(doc, { transcriptionScheme: "ipa" })).toBe(source);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Sentence and word boundaries from a language strategy, falling back
+ * to `Intl.Segmenter`
+ */
+
+import type { ILanguageStrategy } from "@glotblocks/glost-utils";
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find strategy-provided pieces in the text, skipping any that cannot be
+ * found verbatim after the previous one
+ */
+function locate(text: string, pieces: string[]): TextRange[] {
+  const ranges: TextRange[] = [];
+  let cursor = 0;
+  for (const piece of pieces) {
+    const start = text.indexOf(piece, cursor);
+    if (start === -1 || piece === "") continue;
+    ranges.push({ start, end: start + piece.length });
+    cursor = start + piece.length;
+  }
+  return ranges;
+}
+
+/**
+ * Sentence ranges in `text`, without surrounding whitespace
+ */
+export function sentenceRanges(
+  text: string,
+  language: string,
+  strategy: ILanguageStrategy,
+): TextRange[] {
+  const ranges = strategy.segmentSentences
+    ? locate(text, strategy.segmentSentences(text, language))
+    : Array.from(
+        new Intl.Segmenter(language, { granularity: "sentence" }).segment(text),
+        ({ index, segment }) => ({ start: index, end: index + segment.length }),
+      );
+
+  return ranges.flatMap(({ start, end }) => {
+    const piece = text.slice(start, end);
+    const trimmedStart = start + piece.length - piece.trimStart().length;
+    const trimmedEnd = end - (piece.length - piece.trimEnd().length);
+    return trimmedStart < trimmedEnd ? [{ start: trimmedStart, end: trimmedEnd }] : [];
+  });
+}
+
+/**
+ * Word ranges in `text`, excluding whitespace and punctuation
+ */
+export function wordRanges(
+  text: string,
+  language: string,
+  strategy: ILanguageStrategy,
+): TextRange[] {
+  if (strategy.segmentWords) {
+    return locate(text, strategy.segmentWords(text, language));
+  }
+
+  return Array.from(
+    new Intl.Segmenter(language, { granularity: "word" }).segment(text),
+  )
+    .filter((segment) => segment.isWordLike)
+    .map(({ index, segment }) => ({ start: index, end: index + segment.length }));
+}
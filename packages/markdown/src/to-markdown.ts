@@ -0,0 +1,105 @@
+import type { GLOSTParagraph, GLOSTRoot, GLOSTSentence } from "@glotblocks/glost";
+import { getAllWords, getWordText } from "@glotblocks/glost";
+import { formatWord } from "./gloss.js";
+import type { GLOSTHeading, GLOSTToMarkdownOptions } from "./types.js";
+
+function formatSentence(sentence: GLOSTSentence, scheme: string | undefined): string {
+  const words = getAllWords(sentence);
+  const original = sentence.originalText;
+  if (!original) {
+    return words.map((word) => formatWord(word, scheme)).join(" ");
+  }
+
+  // Keep the text between words (spaces, punctuation) from the original
+  let result = "";
+  let cursor = 0;
+  for (const word of words) {
+    const text = getWordText(word);
+    const index = original.indexOf(text, cursor);
+    if (index === -1) {
+      result += formatWord(word, scheme);
+      continue;
+    }
+    result += original.slice(cursor, index) + formatWord(word, scheme);
+    cursor = index + text.length;
+  }
+  return result + original.slice(cursor);
+}
+
+/**
+ * Scripts whose sentences follow each other without a space
+ * (Han, kana and full-width punctuation such as 。)
+ */
+const UNSPACED_SENTENCE_END =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff01-\uff65]$/u;
+
+function endsUnspaced(sentence: GLOSTSentence): boolean {
+  const original = sentence.originalText?.trimEnd();
+  return original ? UNSPACED_SENTENCE_END.test(original) : /^(ja|zh)\b/.test(sentence.lang ?? "");
+}
+
+function formatParagraph(paragraph: GLOSTParagraph, scheme: string | undefined): string {
+  let result = "";
+  let previous: GLOSTSentence | undefined;
+  for (const child of paragraph.children) {
+    if (child.type !== "SentenceNode") continue;
+    // Japanese and Chinese sentences follow each other without a space
+    if (previous && !endsUnspaced(previous)) result += " ";
+    result += formatSentence(child, scheme);
+    previous = child;
+  }
+  return result;
+}
+
+function sameHeading(a: GLOSTHeading | undefined, b: GLOSTHeading | undefined): boolean {
+  return a?.text === b?.text && a?.depth === b?.depth;
+}
+
+/**
+ * Serialize a GLOST document to Markdown with inline gloss syntax
+ *
+ * The inverse of {@link markdownToGLOST}: `metadata.title` becomes a
+ * level-1 heading, `extras.heading` changes become headings, words with
+ * a transcription become `{base|ruby}` and words with part of speech or
+ * `extras` become `[word]{key=value ...}`. Text between words comes
+ * from each sentence's `originalText`, so punctuation and spacing are
+ * preserved.
+ *
+ * @param root - GLOST document
+ * @param options - Transcription system to write as ruby
+ * @returns Markdown source
+ *
+ * @example
+ * ```typescript
+ * glostToMarkdown(doc, { transcriptionScheme: "furigana" });
+ * // "# 第一課\n\n{日本語|にほんご}を[勉強]{pos=noun}します。\n"
+ * ```
+ */
+export function glostToMarkdown(
+  root: GLOSTRoot,
+  options: GLOSTToMarkdownOptions = {},
+): string {
+  const { transcriptionScheme } = options;
+  const blocks: string[] = [];
+  if (root.metadata?.title) {
+    blocks.push(`# ${root.metadata.title}`);
+  }
+
+  let heading: GLOSTHeading | undefined;
+  for (const child of root.children) {
+    if (child.type === "SentenceNode") {
+      blocks.push(formatSentence(child, transcriptionScheme));
+      continue;
+    }
+    if (child.type !== "ParagraphNode") continue;
+
+    const paragraphHeading = child.extras?.heading as GLOSTHeading | undefined;
+    if (paragraphHeading && !sameHeading(paragraphHeading, heading)) {
+      blocks.push(`${"#".repeat(paragraphHeading.depth)} ${paragraphHeading.text}`);
+    }
+    heading = paragraphHeading;
+    blocks.push(formatParagraph(child, transcriptionScheme));
+  }
+
+  return blocks.length > 0 ? `${blocks.join("\n\n")}\n` : "";
+}
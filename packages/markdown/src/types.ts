@@ -0,0 +1,44 @@
+import type { ILanguageStrategy } from "@glotblocks/glost-utils";
+
+/**
+ * Options for {@link markdownToGLOST} and {@link mdastToGLOST}
+ */
+export interface MarkdownToGLOSTOptions {
+  /** Language code of the text (e.g. "ja", "th-TH") */
+  language: string;
+  /**
+   * Language strategy used for script detection and segmentation
+   *
+   * `segmentSentences` / `segmentWords` are used when present, otherwise
+   * `Intl.Segmenter`.
+   */
+  languageStrategy: ILanguageStrategy;
+  /**
+   * Transcription system that `{base|ruby}` annotations are stored under
+   * (default: the strategy's default transcription system)
+   */
+  transcriptionScheme?: string;
+  /** Parse the input as MDX; JSX elements are unwrapped to their text */
+  mdx?: boolean;
+}
+
+/**
+ * Options for {@link glostToMarkdown}
+ */
+export interface GLOSTToMarkdownOptions {
+  /**
+   * Transcription system written as `{base|ruby}` (default: the first
+   * transcription on each word)
+   */
+  transcriptionScheme?: string;
+}
+
+/**
+ * Heading recorded on `ParagraphNode.extras.heading`
+ */
+export interface GLOSTHeading {
+  /** Heading text */
+  text: string;
+  /** Heading level (1-6) */
+  depth: number;
+}
@@ -29,7 +29,9 @@ export type {
   GLOSTExtension,
   ExtensionContext,
   ExtensionResult,
+  ExtensionWarning,
   ProcessorOptions,
+  RetryOptions,
 } from "./types.js";
 
 // Export errors
@@ -58,6 +60,7 @@ export {
   processGLOSTWithExtensionIds,
   processGLOST,
   processGLOSTWithMeta,
+  planExtensionStages,
 } from "./processor.js";
 
 // Export built-in extensions
@@ -273,6 +273,25 @@ export interface GLOSTExtension {
     nodes?: string[];
   };
 
+  /**
+   * Whether this extension may run concurrently with independent ones
+   *
+   * Mirrors `PluginCapabilities.parallel` in the plugin registry. The async
+   * processor runs parallel extensions at the same time when none of them
+   * depends on another through `dependencies` or `requires`/`provides`.
+   * Their `enhanceMetadata` results are merged with the usual field
+   * ownership and conflict rules. Visitors should modify nodes in place,
+   * since a returned node overwrites writes made by other extensions in
+   * the meantime.
+   *
+   * Extensions with a `transform` always run on their own.
+   *
+   * @default false
+   *
+   * @since 0.8.0
+   */
+  parallel?: boolean;
+
   /**
    * Extension options/configuration
    *
@@ -288,6 +307,24 @@ export interface GLOSTExtension {
    * ```
    */
   options?: Record<string, unknown>;
+
+  /**
+   * Fingerprint of configuration the annotation cache cannot see
+   *
+   * The cache keys entries by `options` and the plugin options. Set this
+   * when output also depends on state held elsewhere, such as a provider
+   * captured in a factory closure, and change it whenever that state
+   * changes. Persistent cache stores only cache extensions that set it
+   * (unless the cache has an `optionsKey`).
+   *
+   * @example
+   * ```typescript
+   * cacheKey: `${provider.id}@${provider.version}`
+   * ```
+   *
+   * @since 0.8.0
+   */
+  cacheKey?: string;
 }
 
 /**
@@ -320,6 +357,90 @@ export interface ProcessorOptions {
    */
   conflictStrategy?: "error" | "warn" | "lastWins";
 
+  /**
+   * Run independent extensions marked `parallel` concurrently
+   *
+   * Set to false to apply every extension one after another.
+   * Default: true
+   *
+   * @since 0.8.0
+   */
+  parallel?: boolean;
+
+  /**
+   * Field ownership shared across calls
+   *
+   * Records which extension wrote each `extras` field, for conflict
+   * detection. Pipelines that apply one extension per call (such as
+   * `GLOSTProcessor`) pass the same map to every call, so a field
+   * overwritten by a later extension is still reported as a conflict.
+   * Default: a new map for each call
+   *
+   * @since 0.8.0
+   */
+  fieldOwnership?: Map<string, string>;
+
+  /**
+   * Signal to cancel processing
+   *
+   * Checked between extensions and before and after each node hook. An
+   * aborted run throws a `GLOSTAbortError` with the partially processed
+   * document and the IDs of the extensions that completed, even in
+   * lenient mode. The signal is also available to hooks as
+   * `context.signal`, so providers can cancel in-flight lookups.
+   *
+   * @since 0.8.0
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Maximum number of node hook calls in flight per extension
+   *
+   * Limits how many `visit` and `enhanceMetadata` calls of one extension
+   * run at the same time (async processing only), e.g. to stay within a
+   * provider's rate limit.
+   *
+   * Plugins that batch lookups with `createBatchLoader` only batch the
+   * calls in flight together, so a limit also caps each provider batch
+   * at `concurrency` words. Leave it unset for batched providers, or set
+   * it to the batch size you want.
+   * Default: unlimited
+   *
+   * @since 0.8.0
+   */
+  concurrency?: number;
+
+  /**
+   * Time limit in milliseconds for each node hook call
+   *
+   * Pass a number for every extension or a map of extension ID to limit.
+   * A call that runs longer fails with a `GLOSTTimeoutError`, which is
+   * retried like a transient provider error and then reported as a
+   * warning. The late call is not cancelled; use `context.signal` for
+   * that.
+   *
+   * @example
+   * ```typescript
+   * processGLOST(doc, extensions, {
+   *   timeout: { translation: 2000, transcription: 500 },
+   * });
+   * ```
+   *
+   * @since 0.8.0
+   */
+  timeout?: number | Record<string, number>;
+
+  /**
+   * Retry node hook calls that fail with a transient error
+   *
+   * A `GLOSTProviderError` with `transient: true` or a `GLOSTTimeoutError`
+   * is retried with exponential backoff (async processing only).
+   * Default: no retries
+   *
+   * @since 0.8.0
+   */
+  retry?: RetryOptions;
+
   /**
    * Enable debug mode for verbose logging
    * 
@@ -380,6 +501,73 @@ export interface ProcessorOptions {
    * ```
    */
   onSkip?: (extensionId: string, node: any, reason: string) => void;
+
+  /**
+   * Callback invoked when a node hook call fails with a provider error
+   * or timeout
+   *
+   * The node is left as it was and the extension carries on with the
+   * other nodes. Warnings are also collected in `metadata.warnings`.
+   *
+   * @since 0.8.0
+   */
+  onWarning?: (warning: ExtensionWarning) => void;
+}
+
+/**
+ * Backoff settings for retrying transient failures
+ *
+ * The delay before retry `n` (starting at 0) is
+ * `min(minDelay * factor ** n, maxDelay)`.
+ *
+ * @since 0.8.0
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt (default: 2) */
+  retries?: number;
+
+  /** Delay before the first retry in milliseconds (default: 100) */
+  minDelay?: number;
+
+  /** Upper bound for the delay in milliseconds (default: 5000) */
+  maxDelay?: number;
+
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  factor?: number;
+}
+
+/**
+ * A node hook call that failed without failing its extension
+ *
+ * Reported for `GLOSTProviderError`s and `GLOSTTimeoutError`s once any
+ * retries are used up.
+ *
+ * @since 0.8.0
+ */
+export interface ExtensionWarning {
+  /** Extension whose hook failed */
+  extensionId: string;
+
+  /** Hook that failed */
+  phase: "visit" | "enhance";
+
+  /** Error message */
+  message: string;
+
+  /** Type of the node the hook was called with */
+  nodeType: string;
+
+  /** ID of the node (`extras.id`), if it has one */
+  nodeId?: string;
+
+  /** Text of the word, for word nodes */
+  text?: string;
+
+  /** Number of attempts made, including the first */
+  attempts: number;
+
+  /** The final error */
+  error: Error;
 }
 
 /**
@@ -430,6 +618,16 @@ export interface ExtensionContext {
    * Options passed to the processor that may affect extension behavior.
    */
   options?: ProcessorOptions;
+
+  /**
+   * Signal that is aborted when processing is cancelled
+   *
+   * Pass it on to providers (e.g. `fetch(url, { signal })`) so in-flight
+   * lookups stop too.
+   *
+   * @since 0.8.0
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -513,6 +711,13 @@ export interface ExtensionResult {
      * ```
      */
     errors: Array<{ extensionId: string; error: Error }>;
+
+    /**
+     * Node hook calls that failed without failing their extension
+     *
+     * @since 0.8.0
+     */
+    warnings: ExtensionWarning[];
   };
 }
 
@@ -87,6 +87,7 @@ export function createDifficultyEnhancerExtension(
     id: "difficulty-enhancer",
     name: "Difficulty Enhancer",
     description: "Enhances word difficulty metadata with display properties",
+    parallel: true,
 
     dependencies: ["difficulty-generator"],
 
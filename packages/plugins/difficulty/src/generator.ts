@@ -8,10 +8,11 @@
 
 import type { GLOSTExtension } from "@glotblocks/glost-plugins";
 import type { GLOSTWord } from "@glotblocks/glost";
-import { getWordText } from "@glotblocks/glost";
+import { getWordText, GLOSTProviderError } from "@glotblocks/glost";
 import type { DifficultyProvider } from "./types.js";
 
 import type { GlostLanguage } from "@glotblocks/glost-common";
+import { createBatchLoader } from "@glotblocks/glost-common";
 
 /**
  * Difficulty generator extension options
@@ -65,11 +66,23 @@ export function createDifficultyGeneratorExtension(
   options: DifficultyGeneratorOptions,
 ): GLOSTExtension {
   const { provider, skipExisting = true } = options;
+  const language = options.targetLanguage;
+
+  // Coalesce per-word lookups into one provider call per run
+  const loader = provider
+    ? createBatchLoader({
+        getData: (word: string) => provider.getDifficulty(word, language),
+        batchGetData: provider.batchGetDifficulty
+          ? (words: string[]) => provider.batchGetDifficulty!(words, language)
+          : undefined,
+      })
+    : undefined;
 
   return {
     id: "difficulty-generator",
     name: "Difficulty Generator",
     description: "Generates word difficulty data using a provider",
+    parallel: true,
 
     provides: {
       metadata: ["difficulty"],
@@ -78,7 +91,7 @@ export function createDifficultyGeneratorExtension(
     visit: {
       word: async (node: GLOSTWord) => {
         // Skip if no provider
-        if (!provider) {
+        if (!loader) {
           console.warn(
             "[Difficulty Generator] No provider provided, skipping processing",
           );
@@ -105,20 +118,21 @@ export function createDifficultyGeneratorExtension(
         const cleanWordText = wordText.trim().replace(/[!?.,:;]$/, "");
 
         try {
-          const difficulty = await provider.getDifficulty(
-            cleanWordText,
-            options.targetLanguage as any, // Type cast for flexibility
-          );
+          const difficulty = await loader.load(cleanWordText);
 
           if (difficulty) {
             // Store difficulty in node
             node.difficulty = difficulty;
           }
         } catch (error) {
-          // Silently fail - difficulty assessment is optional
-          console.debug(
-            `[Difficulty Generator] Difficulty assessment failed for "${cleanWordText}":`,
-            error,
+          // The processor reports provider errors as warnings for this word
+          if (error instanceof GLOSTProviderError) {
+            throw error;
+          }
+          throw new GLOSTProviderError(
+            "Difficulty",
+            `Assessment failed for "${cleanWordText}": ${error instanceof Error ? error.message : String(error)}`,
+            { node, cause: error },
           );
         }
       },
@@ -60,6 +60,19 @@ export interface DifficultyProvider {
    * @returns Difficulty level or undefined if not available
    */
   getDifficulty(word: string, language: string): Promise<DifficultyLevel | string | undefined>;
+
+  /**
+   * Get difficulty levels for multiple words in one call (optional)
+   * 
+   * When implemented, the generator resolves all unique words of a document
+   * or stream chunk with a single call instead of calling `getDifficulty()` for
+   * every word.
+   * 
+   * @param words - Unique words to look up
+   * @param language - Language code
+   * @returns Map of word -> difficulty level, omitting words without data
+   */
+  batchGetDifficulty?(words: string[], language: string): Promise<Map<string, DifficultyLevel | string>>;
 }
 
 /**
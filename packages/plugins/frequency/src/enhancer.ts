@@ -103,6 +103,7 @@ export function createFrequencyEnhancerExtension(
     id: "frequency-enhancer",
     name: "Frequency Enhancer",
     description: "Enhances word frequency metadata with display properties",
+    parallel: true,
 
     dependencies: ["frequency-generator"],
 
@@ -8,10 +8,11 @@
 
 import type { GLOSTExtension } from "@glotblocks/glost-plugins";
 import type { GLOSTWord } from "@glotblocks/glost";
-import { getWordText } from "@glotblocks/glost";
+import { getWordText, GLOSTProviderError } from "@glotblocks/glost";
 import type { FrequencyProvider, FrequencyLevel } from "./types.js";
 
 import type { GlostLanguage } from "@glotblocks/glost-common";
+import { createBatchLoader } from "@glotblocks/glost-common";
 
 /**
  * Frequency generator extension options
@@ -67,12 +68,24 @@ export function createFrequencyGeneratorExtension(
   options: FrequencyGeneratorOptions,
 ): GLOSTExtension {
   const { provider, skipExisting = true } = options;
+  const language = options.targetLanguage;
+
+  // Coalesce per-word lookups into one provider call per run
+  const loader = provider
+    ? createBatchLoader({
+        getData: (word: string) => provider.getFrequency(word, language),
+        batchGetData: provider.batchGetFrequency
+          ? (words: string[]) => provider.batchGetFrequency!(words, language)
+          : undefined,
+      })
+    : undefined;
 
   return {
     id: "frequency-generator",
     name: "Frequency Generator",
     description:
       "Generates word frequency data using a provider",
+    parallel: true,
     
     provides: {
       metadata: ["frequency"],
@@ -81,7 +94,7 @@ export function createFrequencyGeneratorExtension(
     visit: {
       word: async (node: GLOSTWord) => {
         // Skip if no provider
-        if (!provider) {
+        if (!loader) {
           console.warn(
             "[Frequency Generator] No provider provided, skipping processing",
           );
@@ -108,10 +121,7 @@ export function createFrequencyGeneratorExtension(
         const cleanWordText = wordText.trim().replace(/[!?.,:;]$/, "");
 
         try {
-          const frequency = await provider.getFrequency(
-            cleanWordText,
-            options.targetLanguage,
-          );
+          const frequency = await loader.load(cleanWordText);
 
           if (frequency) {
             // Store raw frequency level in metadata
@@ -125,10 +135,14 @@ export function createFrequencyGeneratorExtension(
             (extras.metadata as any).frequency = frequency;
           }
         } catch (error) {
-          // Silently fail - frequency lookup is optional
-          console.debug(
-            `[Frequency Generator] Frequency lookup failed for "${cleanWordText}":`,
-            error,
+          // The processor reports provider errors as warnings for this word
+          if (error instanceof GLOSTProviderError) {
+            throw error;
+          }
+          throw new GLOSTProviderError(
+            "Frequency",
+            `Lookup failed for "${cleanWordText}": ${error instanceof Error ? error.message : String(error)}`,
+            { node, cause: error },
           );
         }
       },
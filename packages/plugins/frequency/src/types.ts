@@ -54,6 +54,19 @@ export interface FrequencyProvider {
    * @returns Frequency level or undefined if not available
    */
   getFrequency(word: string, language: string): Promise<FrequencyLevel | undefined>;
+
+  /**
+   * Get frequency data for multiple words in one call (optional)
+   * 
+   * When implemented, the generator resolves all unique words of a document
+   * or stream chunk with a single call instead of calling `getFrequency()` for
+   * every word.
+   * 
+   * @param words - Unique words to look up
+   * @param language - Language code
+   * @returns Map of word -> frequency level, omitting words without data
+   */
+  batchGetFrequency?(words: string[], language: string): Promise<Map<string, FrequencyLevel>>;
 }
 
 /**
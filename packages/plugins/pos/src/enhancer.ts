@@ -124,6 +124,7 @@ export function createPOSEnhancerExtension(
     id: "pos-enhancer",
     name: "POS Enhancer",
     description: "Enhances part-of-speech metadata with display properties",
+    parallel: true,
 
     dependencies: ["pos-generator"],
 
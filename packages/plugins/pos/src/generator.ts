@@ -8,10 +8,11 @@
 
 import type { GLOSTExtension } from "@glotblocks/glost-plugins";
 import type { GLOSTWord } from "@glotblocks/glost";
-import { getWordText } from "@glotblocks/glost";
+import { getWordText, GLOSTProviderError } from "@glotblocks/glost";
 import type { POSProvider } from "./types.js";
 
 import type { GlostLanguage } from "@glotblocks/glost-common";
+import { createBatchLoader } from "@glotblocks/glost-common";
 
 /**
  * POS generator extension options
@@ -65,11 +66,23 @@ export function createPOSGeneratorExtension(
   options: POSGeneratorOptions,
 ): GLOSTExtension {
   const { provider, skipExisting = true } = options;
+  const language = options.targetLanguage;
+
+  // Coalesce per-word lookups into one provider call per run
+  const loader = provider
+    ? createBatchLoader({
+        getData: (word: string) => provider.getPOS(word, language),
+        batchGetData: provider.batchGetPOS
+          ? (words: string[]) => provider.batchGetPOS!(words, language)
+          : undefined,
+      })
+    : undefined;
 
   return {
     id: "pos-generator",
     name: "POS Generator",
     description: "Generates part-of-speech tags using a provider",
+    parallel: true,
 
     provides: {
       metadata: ["partOfSpeech"],
@@ -78,7 +91,7 @@ export function createPOSGeneratorExtension(
     visit: {
       word: async (node: GLOSTWord) => {
         // Skip if no provider
-        if (!provider) {
+        if (!loader) {
           console.warn(
             "[POS Generator] No provider provided, skipping processing",
           );
@@ -105,10 +118,7 @@ export function createPOSGeneratorExtension(
         const cleanWordText = wordText.trim().replace(/[!?.,:;]$/, "");
 
         try {
-          const pos = await provider.getPOS(
-            cleanWordText,
-            options.targetLanguage,
-          );
+          const pos = await loader.load(cleanWordText);
 
           if (pos) {
             // Store raw POS tag in metadata
@@ -119,10 +129,14 @@ export function createPOSGeneratorExtension(
             }
           }
         } catch (error) {
-          // Silently fail - POS tagging is optional
-          console.debug(
-            `[POS Generator] POS tagging failed for "${cleanWordText}":`,
-            error,
+          // The processor reports provider errors as warnings for this word
+          if (error instanceof GLOSTProviderError) {
+            throw error;
+          }
+          throw new GLOSTProviderError(
+            "POS",
+            `Tagging failed for "${cleanWordText}": ${error instanceof Error ? error.message : String(error)}`,
+            { node, cause: error },
           );
         }
       },
@@ -82,6 +82,19 @@ export interface POSProvider {
    * @returns POS tag (string) or undefined if not available
    */
   getPOS(word: string, language: string): Promise<string | undefined>;
+
+  /**
+   * Get POS tags for multiple words in one call (optional)
+   * 
+   * When implemented, the generator resolves all unique words of a document
+   * or stream chunk with a single call instead of calling `getPOS()` for
+   * every word.
+   * 
+   * @param words - Unique words to look up
+   * @param language - Language code
+   * @returns Map of word -> POS tag, omitting words without data
+   */
+  batchGetPOS?(words: string[], language: string): Promise<Map<string, string>>;
 }
 
 /**
@@ -17,8 +17,9 @@
 
 import type { GLOSTExtension } from "@glotblocks/glost-plugins";
 import type { GLOSTWord } from "@glotblocks/glost";
-import { getWordText } from "@glotblocks/glost";
+import { getWordText, GLOSTProviderError } from "@glotblocks/glost";
 import type { GlostLanguage } from "@glotblocks/glost-common";
+import { createBatchLoader, type BatchLoader } from "@glotblocks/glost-common";
 import { Logger, type LogVerbosity } from "@glotblocks/glost-utils/logger";
 
 // Re-export logger types for external use
@@ -54,6 +55,22 @@ export interface TranscriptionProvider {
     word: string,
     language: string
   ): Promise<Record<string, string> | undefined>;
+
+  /**
+   * Get transcriptions for multiple words in one call (optional)
+   *
+   * When implemented, the extension resolves all unique words of a document
+   * or stream chunk with a single call per language instead of calling
+   * `getTranscriptions()` for every word.
+   *
+   * @param words - Unique words to transcribe
+   * @param language - Language code
+   * @returns Map of word -> transcriptions, omitting words without data
+   */
+  batchGetTranscriptions?(
+    words: string[],
+    language: string
+  ): Promise<Map<string, Record<string, string>>>;
 }
 
 /**
@@ -143,11 +160,28 @@ export function createTranscriptionExtension(
   // Create a logger instance for this extension
   const logger = new Logger(verbosity, "[Transcription Extension]");
 
+  // One loader per language so lookups from the same run share a batch
+  const loaders = new Map<string, BatchLoader<string, Record<string, string>>>();
+  const getLoader = (language: string) => {
+    let loader = loaders.get(language);
+    if (!loader) {
+      loader = createBatchLoader({
+        getData: (word: string) => provider.getTranscriptions(word, language),
+        batchGetData: provider.batchGetTranscriptions
+          ? (words: string[]) => provider.batchGetTranscriptions!(words, language)
+          : undefined,
+      });
+      loaders.set(language, loader);
+    }
+    return loader;
+  };
+
   return {
     id: "transcription",
     name: "Transcription",
     description:
       "Augments word nodes with transcription data via provider",
+    parallel: true,
     visit: {
       word: async (node: GLOSTWord) => {
         // Skip if transcription already exists
@@ -171,10 +205,7 @@ export function createTranscriptionExtension(
         );
 
         try {
-          const transcriptions = await provider.getTranscriptions(
-            cleanWordText,
-            nodeLanguage
-          );
+          const transcriptions = await getLoader(nodeLanguage).load(cleanWordText);
 
           if (transcriptions && Object.keys(transcriptions).length > 0) {
             // Convert to GLOST transcription format
@@ -194,8 +225,15 @@ export function createTranscriptionExtension(
             logger.info(`✗ No transcription found for "${cleanWordText}"`);
           }
         } catch (error) {
-          // Silently fail - transcription lookup is optional
-          logger.debug(`Lookup failed for "${cleanWordText}":`, error);
+          // The processor reports provider errors as warnings for this word
+          if (error instanceof GLOSTProviderError) {
+            throw error;
+          }
+          throw new GLOSTProviderError(
+            "Transcription",
+            `Lookup failed for "${cleanWordText}": ${error instanceof Error ? error.message : String(error)}`,
+            { node, cause: error },
+          );
         }
       },
     },
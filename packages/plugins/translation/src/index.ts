@@ -17,8 +17,9 @@
 
 import type { GLOSTExtension } from "@glotblocks/glost-plugins";
 import type { GLOSTWord } from "@glotblocks/glost";
-import { getWordText } from "@glotblocks/glost";
+import { getWordText, GLOSTProviderError } from "@glotblocks/glost";
 import type { GlostLanguage } from "@glotblocks/glost-common";
+import { createBatchLoader } from "@glotblocks/glost-common";
 
 /**
  * Provider interface for translation data
@@ -51,6 +52,24 @@ export interface TranslationProvider {
     from: GlostLanguage,
     to: GlostLanguage
   ): Promise<string | undefined>;
+
+  /**
+   * Get translations for multiple words in one call (optional)
+   *
+   * When implemented, the extension resolves all unique words of a document
+   * or stream chunk with a single call instead of calling `getTranslation()`
+   * for every word.
+   *
+   * @param words - Unique words to translate
+   * @param from - Source language code
+   * @param to - Target language code
+   * @returns Map of word -> translation, omitting words without data
+   */
+  batchGetTranslations?(
+    words: string[],
+    from: GlostLanguage,
+    to: GlostLanguage
+  ): Promise<Map<string, string>>;
 }
 
 /**
@@ -128,11 +147,19 @@ export function createTranslationExtension(
     );
   }
 
+  const loader = createBatchLoader({
+    getData: (word: string) => provider.getTranslation(word, from, to),
+    batchGetData: provider.batchGetTranslations
+      ? (words: string[]) => provider.batchGetTranslations!(words, from, to)
+      : undefined,
+  });
+
   return {
     id: "translation",
     name: "Translation",
     description:
       "Augments word nodes with translation data via provider",
+    parallel: true,
     visit: {
       word: async (node: GLOSTWord) => {
         // Check if translation already exists
@@ -159,11 +186,7 @@ export function createTranslationExtension(
         const cleanWordText = wordText.trim().replace(/[!?.,:;]$/, "");
 
         try {
-          const translation = await provider.getTranslation(
-            cleanWordText,
-            from,
-            to
-          );
+          const translation = await loader.load(cleanWordText);
 
           if (translation) {
             // Store translation in extras.translations (i18n-friendly format)
@@ -181,10 +204,14 @@ export function createTranslationExtension(
             }
           }
         } catch (error) {
-          // Silently fail - translation lookup is optional
-          console.debug(
-            `[Translation] Lookup failed for "${cleanWordText}":`,
-            error,
+          // The processor reports provider errors as warnings for this word
+          if (error instanceof GLOSTProviderError) {
+            throw error;
+          }
+          throw new GLOSTProviderError(
+            "Translation",
+            `Lookup failed for "${cleanWordText}": ${error instanceof Error ? error.message : String(error)}`,
+            { node, cause: error },
           );
         }
       },
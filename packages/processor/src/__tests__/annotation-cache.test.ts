@@ -0,0 +1,400 @@
+/**
+ * Annotation Cache Tests
+ *
+ * Tests for the per-word annotation cache and its stores.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, rm, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  glost,
+  MemoryCacheStore,
+  createJsonFileCacheStore,
+  createSqliteCacheStore,
+} from "../index.js";
+import type { SqliteAdapter } from "../index.js";
+import type { GLOSTRoot, GLOSTExtension } from "@glotblocks/glost-extensions";
+
+const createDocument = (words: string[], lang = "th"): GLOSTRoot =>
+  ({
+    type: "RootNode",
+    lang,
+    children: [
+      {
+        type: "ParagraphNode",
+        children: [
+          {
+            type: "SentenceNode",
+            children: words.map((value) => ({
+              type: "WordNode",
+              lang,
+              children: [{ type: "TextNode", value }],
+              extras: {},
+            })),
+          },
+        ],
+      },
+    ],
+  }) as unknown as GLOSTRoot;
+
+const getWords = (doc: GLOSTRoot): any[] =>
+  (doc.children[0] as any).children[0].children;
+
+const createTranscriber = (
+  visit: (word: any) => void,
+  options?: Record<string, unknown>,
+): GLOSTExtension => ({
+  id: "test-transcriber",
+  name: "Test Transcriber",
+  options,
+  visit: {
+    word: (node: any) => {
+      visit(node);
+      node.transcription = {
+        ...node.transcription,
+        ipa: { text: `/${node.children[0].value}/`, system: "ipa" },
+      };
+    },
+  },
+});
+
+/**
+ * In-memory stand-in for a better-sqlite3 / node:sqlite database
+ */
+const createFakeSqlite = (): SqliteAdapter & { rows: Map<string, string> } => {
+  const rows = new Map<string, string>();
+  return {
+    rows,
+    exec(sql: string) {
+      if (sql.startsWith("DELETE")) rows.clear();
+    },
+    prepare(sql: string) {
+      return {
+        get: (key: unknown) =>
+          sql.startsWith("SELECT") && rows.has(key as string)
+            ? { value: rows.get(key as string) }
+            : undefined,
+        run: (key: unknown, value: unknown) => {
+          rows.set(key as string, value as string);
+        },
+      };
+    },
+  };
+};
+
+describe("annotation cache", () => {
+  it("reuses visit.word results across runs", async () => {
+    const visit = vi.fn();
+    const store = new MemoryCacheStore();
+    const processor = glost({ cache: { store } }).use(
+      createTranscriber(visit),
+    );
+
+    const first = await processor.processWithMeta(
+      createDocument(["สวัสดี", "ครับ"]),
+    );
+    expect(visit).toHaveBeenCalledTimes(2);
+    expect(first.metadata.stats.cache).toEqual({ hits: 0, misses: 2 });
+
+    const second = await processor.processWithMeta(
+      createDocument(["สวัสดี", "ครับ", "ผม"]),
+    );
+    expect(visit).toHaveBeenCalledTimes(3);
+    expect(second.metadata.stats.cache).toEqual({ hits: 2, misses: 1 });
+    expect(getWords(second.document)[0].transcription.ipa.text).toBe(
+      "/สวัสดี/",
+    );
+  });
+
+  it("only replays fields changed by the cached extension", async () => {
+    const store = new MemoryCacheStore();
+    const processor = glost({ cache: { store } }).use(
+      createTranscriber(() => {}),
+    );
+    await processor.process(createDocument(["ครับ"]));
+
+    const doc = createDocument(["ครับ"]);
+    getWords(doc)[0].transcription = { paiboon: { text: "khráp" } };
+    getWords(doc)[0].extras = { frequency: "common" };
+    const result = await processor.process(doc);
+
+    const word = getWords(result)[0];
+    expect(word.transcription.paiboon.text).toBe("khráp");
+    expect(word.transcription.ipa.text).toBe("/ครับ/");
+    expect(word.extras.frequency).toBe("common");
+  });
+
+  it("keys entries by language and extension options", async () => {
+    const visit = vi.fn();
+    const store = new MemoryCacheStore();
+
+    await glost({ cache: { store } })
+      .use(createTranscriber(visit, { scheme: "ipa" }))
+      .process(createDocument(["a"], "en"));
+    await glost({ cache: { store } })
+      .use(createTranscriber(visit, { scheme: "ipa" }))
+      .process(createDocument(["a"], "fr"));
+    await glost({ cache: { store } })
+      .use(createTranscriber(visit, { scheme: "paiboon" }))
+      .process(createDocument(["a"], "en"));
+
+    expect(visit).toHaveBeenCalledTimes(3);
+    expect(store.size).toBe(3);
+  });
+
+  it("includes plugin options in the key", async () => {
+    const visit = vi.fn();
+    const store = new MemoryCacheStore();
+    const plugin = (options?: { scheme: string }) =>
+      createTranscriber(() => visit(options?.scheme));
+
+    await glost({ cache: { store } })
+      .use(plugin, { scheme: "ipa" })
+      .process(createDocument(["a"]));
+    await glost({ cache: { store } })
+      .use(plugin, { scheme: "rtgs" })
+      .process(createDocument(["a"]));
+
+    expect(visit.mock.calls).toEqual([["ipa"], ["rtgs"]]);
+  });
+
+  it("includes the extension cacheKey in the key", async () => {
+    const visit = vi.fn();
+    const store = new MemoryCacheStore();
+    const plugin = (provider: string): GLOSTExtension => ({
+      ...createTranscriber(() => visit(provider)),
+      cacheKey: provider,
+    });
+
+    await glost({ cache: { store } })
+      .use(plugin("espeak"))
+      .process(createDocument(["a"]));
+    await glost({ cache: { store } })
+      .use(plugin("dictionary"))
+      .process(createDocument(["a"]));
+
+    expect(visit.mock.calls).toEqual([["espeak"], ["dictionary"]]);
+  });
+
+  it("does not replay a hook that skipped an annotated word", async () => {
+    const store = new MemoryCacheStore();
+    const processor = glost({ cache: { store } }).use({
+      id: "skip-existing",
+      name: "Skip Existing",
+      visit: {
+        word: (node: any) => {
+          if (node.transcription?.ipa) return;
+          node.transcription = {
+            ...node.transcription,
+            ipa: { text: `/${node.children[0].value}/`, system: "ipa" },
+          };
+        },
+      },
+    });
+
+    const annotated = createDocument(["cat"], "en");
+    getWords(annotated)[0].transcription = {
+      ipa: { text: "/kæt/", system: "ipa" },
+    };
+    await processor.process(annotated);
+    const result = await processor.processWithMeta(
+      createDocument(["cat"], "en"),
+    );
+
+    expect(result.metadata.stats.cache).toEqual({ hits: 0, misses: 1 });
+    expect(getWords(result.document)[0].transcription.ipa.text).toBe("/cat/");
+  });
+
+  it("caches enhanceMetadata results", () => {
+    const enhance = vi.fn(() => ({ difficulty: 2 as const }));
+    const store = new MemoryCacheStore();
+    const processor = glost({ cache: { store } }).use({
+      id: "difficulty",
+      name: "Difficulty",
+      enhanceMetadata: enhance,
+    });
+
+    processor.processSync(createDocument(["ผม"]));
+    const result = processor.processWithMetaSync(createDocument(["ผม"]));
+
+    expect(enhance).toHaveBeenCalledTimes(1);
+    expect(result.metadata.stats.cache).toEqual({ hits: 1, misses: 0 });
+    expect(getWords(result.document)[0].extras.difficulty).toBe(2);
+  });
+
+  it("skips extensions not listed in cache.extensions", async () => {
+    const visit = vi.fn();
+    const processor = glost({
+      cache: { store: new MemoryCacheStore(), extensions: ["other"] },
+    }).use(createTranscriber(visit));
+
+    await processor.process(createDocument(["ผม"]));
+    const result = await processor.processWithMeta(createDocument(["ผม"]));
+
+    expect(visit).toHaveBeenCalledTimes(2);
+    expect(result.metadata.stats.cache).toEqual({ hits: 0, misses: 0 });
+  });
+
+  it("caches async visitors", async () => {
+    const visit = vi.fn();
+    const processor = glost({ cache: { store: new MemoryCacheStore() } }).use({
+      id: "async-transcriber",
+      name: "Async Transcriber",
+      visit: {
+        word: async (node: any) => {
+          visit();
+          await Promise.resolve();
+          node.extras = { ...node.extras, translation: "hello" };
+        },
+      },
+    });
+
+    await processor.process(createDocument(["สวัสดี"]));
+    const result = await processor.process(createDocument(["สวัสดี"]));
+
+    expect(visit).toHaveBeenCalledTimes(1);
+    expect(getWords(result)[0].extras.translation).toBe("hello");
+  });
+
+  it("does not cache hooks that change a word's children", async () => {
+    const visit = vi.fn();
+    const processor = glost({ cache: { store: new MemoryCacheStore() } }).use({
+      id: "syllabifier",
+      name: "Syllabifier",
+      visit: {
+        word: (node: any) => {
+          visit();
+          node.children = [
+            ...node.children,
+            { type: "SyllableNode", text: node.children[0].value },
+          ];
+          node.extras = { ...node.extras, syllables: 1 };
+        },
+      },
+    });
+
+    await processor.process(createDocument(["สวัสดี"]));
+    const result = await processor.processWithMeta(createDocument(["สวัสดี"]));
+
+    expect(visit).toHaveBeenCalledTimes(2);
+    expect(result.metadata.stats.cache).toEqual({ hits: 0, misses: 1 });
+    expect(getWords(result.document)[0].children.map((c: any) => c.type)).toEqual(
+      ["TextNode", "SyllableNode"],
+    );
+  });
+
+  it("does not cache hooks that return a replacement node", async () => {
+    const processor = glost({ cache: { store: new MemoryCacheStore() } }).use({
+      id: "difficulty",
+      name: "Difficulty",
+      visit: {
+        word: (node: any) => ({ ...node, difficulty: "beginner" }),
+      },
+    });
+
+    await processor.process(createDocument(["ผม"]));
+    const result = await processor.processWithMeta(createDocument(["ผม"]));
+
+    expect(result.metadata.stats.cache).toEqual({ hits: 0, misses: 1 });
+    expect(getWords(result.document)[0].difficulty).toBe("beginner");
+  });
+
+  it("omits cache stats when no cache is configured", async () => {
+    const result = await glost()
+      .use(createTranscriber(() => {}))
+      .processWithMeta(createDocument(["ผม"]));
+
+    expect(result.metadata.stats.cache).toBeUndefined();
+  });
+});
+
+describe("JsonFileCacheStore", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it("persists entries between processors", async () => {
+    dir = await mkdtemp(join(tmpdir(), "glost-cache-"));
+    const path = join(dir, "cache.json");
+    const visit = vi.fn();
+
+    await glost({ cache: { store: createJsonFileCacheStore({ path }) } })
+      .use({ ...createTranscriber(visit), cacheKey: "v1" })
+      .process(createDocument(["สวัสดี"]));
+
+    const saved = JSON.parse(await readFile(path, "utf-8"));
+    expect(Object.keys(saved)).toHaveLength(1);
+
+    const result = await glost({
+      cache: { store: createJsonFileCacheStore({ path }) },
+    })
+      .use({ ...createTranscriber(visit), cacheKey: "v1" })
+      .processWithMeta(createDocument(["สวัสดี"]));
+
+    expect(visit).toHaveBeenCalledTimes(1);
+    expect(result.metadata.stats.cache).toEqual({ hits: 1, misses: 0 });
+  });
+
+  it("treats a missing file as an empty cache", async () => {
+    dir = await mkdtemp(join(tmpdir(), "glost-cache-"));
+    const store = createJsonFileCacheStore({ path: join(dir, "none.json") });
+
+    await store.load();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe("SqliteCacheStore", () => {
+  it("reads and writes through the adapter", () => {
+    const db = createFakeSqlite();
+    const visit = vi.fn();
+    const processor = glost({
+      cache: { store: createSqliteCacheStore({ db }) },
+    }).use({ ...createTranscriber(visit), cacheKey: "v1" });
+
+    processor.processSync(createDocument(["ผม", "ครับ"]));
+    processor.processSync(createDocument(["ผม"]));
+
+    expect(visit).toHaveBeenCalledTimes(2);
+    expect(db.rows.size).toBe(2);
+  });
+
+  it("only caches extensions that can be fingerprinted", () => {
+    const db = createFakeSqlite();
+    const visit = vi.fn();
+
+    const uncached = glost({
+      cache: { store: createSqliteCacheStore({ db }) },
+    }).use(createTranscriber(visit));
+    uncached.processSync(createDocument(["ผม"]));
+    const result = uncached.processWithMetaSync(createDocument(["ผม"]));
+
+    expect(visit).toHaveBeenCalledTimes(2);
+    expect(result.metadata.stats.cache).toEqual({ hits: 0, misses: 0 });
+    expect(db.rows.size).toBe(0);
+
+    glost({
+      cache: {
+        store: createSqliteCacheStore({ db }),
+        optionsKey: (id) => `${id}@1`,
+      },
+    })
+      .use(createTranscriber(visit))
+      .processSync(createDocument(["ผม"]));
+
+    expect(db.rows.size).toBe(1);
+  });
+
+  it("rejects invalid table names", () => {
+    expect(() =>
+      createSqliteCacheStore({ db: createFakeSqlite(), table: "x; DROP" }),
+    ).toThrow("Invalid SQLite cache table name");
+  });
+});
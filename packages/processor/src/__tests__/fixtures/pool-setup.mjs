@@ -0,0 +1,48 @@
+// Setup module loaded by every worker in the processor pool tests
+import { threadId } from "worker_threads";
+
+const extensions = new Map([
+  [
+    "mark",
+    {
+      id: "mark",
+      name: "Mark",
+      transform: (tree) => ({
+        ...tree,
+        extras: { ...tree.extras, threadId, marked: true },
+      }),
+    },
+  ],
+  [
+    "fail",
+    {
+      id: "fail",
+      name: "Fail",
+      transform: (tree) => {
+        if (tree.extras?.fail) {
+          throw new Error(`Cannot process ${tree.extras.name}`);
+        }
+        return tree;
+      },
+    },
+  ],
+  [
+    "crash",
+    {
+      id: "crash",
+      name: "Crash",
+      transform: (tree) => {
+        if (tree.extras?.crash) {
+          process.exit(1);
+        }
+        return tree;
+      },
+    },
+  ],
+]);
+
+export const registry = {
+  getExtension: (id) => extensions.get(id),
+};
+
+export const presets = [{ id: "test", name: "Test", plugins: ["mark"] }];
@@ -0,0 +1,88 @@
+/**
+ * GLOST Processor Pool Tests
+ *
+ * Workers load the compiled `pool-worker.js`, so these tests run against
+ * the build output.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { GLOSTProcessorPool } from "../../dist/index.js";
+import type { ProcessorDefinition, ProgressStats } from "../index.js";
+import type { GLOSTRoot } from "@glotblocks/glost-core";
+
+const setup = new URL("./fixtures/pool-setup.mjs", import.meta.url);
+
+const createDocument = (name: string, extras: Record<string, unknown> = {}): GLOSTRoot =>
+  ({
+    type: "RootNode",
+    lang: "en",
+    children: [],
+    extras: { name, ...extras },
+  }) as GLOSTRoot;
+
+describe("GLOSTProcessorPool", () => {
+  let pool: GLOSTProcessorPool | undefined;
+
+  const createPool = (definition: ProcessorDefinition, size = 2) => {
+    pool = new GLOSTProcessorPool(definition, { setup, size });
+    return pool;
+  };
+
+  afterEach(async () => {
+    await pool?.close();
+    pool = undefined;
+  });
+
+  it("processes documents across workers in input order", async () => {
+    const documents = Array.from({ length: 6 }, (_, i) => createDocument(`doc-${i}`));
+    const progress: ProgressStats[] = [];
+
+    const results = await createPool({ preset: "test" })
+      .onProgress((stats) => progress.push(stats))
+      .processAll(documents);
+
+    expect(results.map((r) => r.document.extras?.name)).toEqual(
+      documents.map((d) => d.extras?.name)
+    );
+    expect(results.every((r) => r.document.extras?.marked)).toBe(true);
+    expect(results[0]!.metadata.appliedPlugins).toEqual(["mark"]);
+    expect(new Set(results.map((r) => r.document.extras?.threadId)).size).toBe(2);
+    expect(progress.map((s) => s.completed)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(progress.every((s) => s.total === 6)).toBe(true);
+  });
+
+  it("reports per-document errors without stopping the batch", async () => {
+    const results = await createPool({ plugins: ["fail", "mark"] }).processAll([
+      createDocument("ok"),
+      createDocument("bad", { fail: true }),
+      createDocument("also-ok"),
+    ]);
+
+    expect(results.map((r) => r.metadata.errors.length)).toEqual([0, 1, 0]);
+    expect(results[1]!.metadata.errors[0]).toMatchObject({
+      plugin: "fail",
+      message: "Cannot process bad",
+      recoverable: false,
+    });
+    expect(results[1]!.document.extras?.name).toBe("bad");
+    expect(results[2]!.document.extras?.marked).toBe(true);
+  });
+
+  it("replaces a worker that crashes", async () => {
+    const results = await createPool({ plugins: ["crash", "mark"] }, 1).processAll([
+      createDocument("before"),
+      createDocument("crash", { crash: true }),
+      createDocument("after"),
+    ]);
+
+    expect(results[1]!.metadata.errors[0]!.message).toMatch(/exited with code 1/);
+    expect(results[0]!.document.extras?.marked).toBe(true);
+    expect(results[2]!.document.extras?.marked).toBe(true);
+  });
+
+  it("rejects when a plugin cannot be resolved", async () => {
+    await expect(
+      createPool({ plugins: ["missing"] }).processAll([createDocument("doc")])
+    ).rejects.toThrow('Plugin "missing" not found in registry');
+  });
+});
@@ -18,6 +18,7 @@ import type {
   ProgressHook,
 } from "../types.js";
 import type { GLOSTRoot, GLOSTExtension } from "@glotblocks/glost-extensions";
+import { GLOSTAbortError, GLOSTExtensionError, GLOSTProviderError } from "@glotblocks/glost-core";
 
 // Mock GLOST document for testing
 const createMockDocument = (): GLOSTRoot => ({
@@ -685,6 +686,29 @@ describe("GLOSTProcessor", () => {
 
       expect(result).toBeDefined();
     });
+
+    it("preserves source positions", async () => {
+      const position = {
+        start: { line: 1, column: 1, offset: 0 },
+        end: { line: 1, column: 6, offset: 5 },
+      };
+      const doc = createMockDocument();
+      const word = (doc.children[0] as any).children[0].children[0];
+      word.position = position;
+
+      const result = await glost()
+        .use(transcriptionExtension)
+        .use({
+          id: "rewriter",
+          name: "Rewriter",
+          visit: { word: (node) => ({ ...node, extras: { rewritten: true } }) },
+        })
+        .process(doc);
+
+      const processed = (result.children[0] as any).children[0].children[0];
+      expect(processed.extras.rewritten).toBe(true);
+      expect(processed.position).toEqual(position);
+    });
   });
 
   describe("processWithMeta() - detailed processing", () => {
@@ -720,6 +744,38 @@ describe("GLOSTProcessor", () => {
       expect(result.metadata.appliedPlugins).toContain("transcription");
     });
 
+    it("reports provider errors as warnings with the word id", async () => {
+      const lookupExtension: GLOSTExtension = {
+        id: "lookup",
+        name: "Lookup",
+        visit: {
+          word: (node) => {
+            if (node.text === "world") {
+              throw new GLOSTProviderError("Test", "Not available");
+            }
+          },
+        },
+      };
+      const doc = createMockDocument();
+      const words = doc.children[0]!.children[0]!.children;
+      words[1]!.extras = { id: "p0-s0-w1" };
+
+      const result = await glost().use(lookupExtension).processWithMeta(doc);
+
+      expect(result.metadata.appliedPlugins).toEqual(["lookup"]);
+      expect(result.metadata.warnings).toEqual([
+        expect.objectContaining({
+          plugin: "lookup",
+          severity: "medium",
+          phase: "visit",
+          nodeType: "WordNode",
+          nodeId: "p0-s0-w1",
+          text: "world",
+          attempts: 1,
+        }),
+      ]);
+    });
+
     it("includes processing errors", async () => {
       const processor = glost({ lenient: true }).use(errorExtension);
 
@@ -769,15 +825,205 @@ describe("GLOSTProcessor", () => {
 
       expect(result.metadata.warnings).toEqual([]);
     });
+
+    it("runs independent parallel plugins concurrently", async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const slow = (id: string): GLOSTExtension => ({
+        id,
+        name: id,
+        parallel: true,
+        visit: {
+          word: async (node) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running--;
+            node.extras = { ...node.extras, [id]: true };
+          },
+        },
+      });
+
+      const result = await glost()
+        .use(slow("a"))
+        .use(slow("b"))
+        .use({ ...slow("c"), dependencies: ["a"] })
+        .processWithMeta(createMockDocument());
+
+      expect(maxRunning).toBe(4);
+      expect(result.metadata.appliedPlugins).toEqual(["a", "b", "c"]);
+      expect(result.metadata.stats.timing.size).toBe(3);
+    });
+
+    it("detects field conflicts between plugins", async () => {
+      const frequency = (id: string, value: string): GLOSTExtension => ({
+        id,
+        name: id,
+        parallel: true,
+        provides: { extras: ["frequency"] },
+        enhanceMetadata: () => ({ frequency: value }),
+      });
+
+      await expect(
+        glost()
+          .use(frequency("a", "common"))
+          .use(frequency("b", "rare"))
+          .process(createMockDocument())
+      ).rejects.toThrow(/frequency/);
+
+      const result = await glost({ conflictStrategy: "lastWins" })
+        .use(frequency("a", "common"))
+        .use(frequency("b", "rare"))
+        .process(createMockDocument());
+      const word = (result.children[0] as any).children[0].children[0];
+      expect(word.extras.frequency).toBe("rare");
+    });
+
+    it("detects field conflicts between plugins in processSync()", () => {
+      const frequency = (id: string, value: string): GLOSTExtension => ({
+        id,
+        name: id,
+        enhanceMetadata: () => ({ frequency: value }),
+      });
+
+      expect(() =>
+        glost()
+          .use(frequency("a", "common"))
+          .use(frequency("b", "rare"))
+          .processSync(createMockDocument())
+      ).toThrow(/frequency/);
+    });
+
+    it("rejects with GLOSTAbortError when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const aborting: GLOSTExtension = {
+        id: "aborting",
+        name: "Aborting",
+        transform: (tree) => {
+          controller.abort();
+          return tree;
+        },
+      };
+
+      const error = await glost({ lenient: true })
+        .use(transcriptionExtension)
+        .use(aborting)
+        .use(translationExtension)
+        .processWithMeta(createMockDocument(), { signal: controller.signal })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(GLOSTAbortError);
+      expect((error as GLOSTAbortError).completedPlugins).toEqual([
+        "transcription",
+        "aborting",
+      ]);
+      expect(JSON.stringify((error as GLOSTAbortError).document)).not.toContain(
+        "translation"
+      );
+    });
   });
 
   describe("processSync()", () => {
-    it("throws not implemented error", () => {
-      const processor = glost();
+    it("processes a document with sync plugins", () => {
+      const processor = glost()
+        .use(transcriptionExtension)
+        .use(translationExtension);
+
+      const result = processor.processSync(createMockDocument());
+      const word = (result.children[0] as any).children[0].children[0];
+
+      expect(word.extras.transcription).toBe("[hello]");
+      expect(word.extras.translation).toEqual({ en: "Hello" });
+    });
+
+    it("processes without plugins", () => {
       const doc = createMockDocument();
+      expect(glost().processSync(doc)).toEqual(doc);
+    });
 
-      expect(() => processor.processSync(doc)).toThrow(
-        "Synchronous processing not yet implemented"
+    it("runs before and after hooks in order", () => {
+      const calls: string[] = [];
+      const processor = glost()
+        .use(transcriptionExtension)
+        .before("transcription", () => {
+          calls.push("before");
+        })
+        .after("transcription", () => {
+          calls.push("after");
+        });
+
+      processor.processSync(createMockDocument());
+
+      expect(calls).toEqual(["before", "after"]);
+    });
+
+    it("throws a GLOSTExtensionError naming an async plugin", () => {
+      const asyncExtension: GLOSTExtension = {
+        id: "async-plugin",
+        name: "Async Plugin",
+        transform: async (tree) => tree,
+      };
+
+      const processor = glost().use(asyncExtension);
+
+      expect(() => processor.processSync(createMockDocument())).toThrow(
+        GLOSTExtensionError
+      );
+      expect(() => processor.processSync(createMockDocument())).toThrow(
+        "[async-plugin] transform returned a Promise"
+      );
+    });
+
+    it("throws a GLOSTExtensionError for async hooks", () => {
+      const processor = glost()
+        .use(transcriptionExtension)
+        .before("transcription", async () => {});
+
+      expect(() => processor.processSync(createMockDocument())).toThrow(
+        "[transcription] before hook returned a Promise"
+      );
+    });
+
+    it("calls skip hooks for failed plugins in lenient mode", () => {
+      const hook = vi.fn();
+      const processor = glost({ lenient: true })
+        .onSkip(hook)
+        .use(errorExtension)
+        .use(transcriptionExtension);
+
+      processor.processSync(createMockDocument());
+
+      expect(hook).toHaveBeenCalledWith("error-plugin", "Skipped by processor");
+    });
+  });
+
+  describe("processWithMetaSync()", () => {
+    it("returns the same metadata shape as processWithMeta()", () => {
+      const processor = glost({ lenient: true })
+        .use(errorExtension)
+        .use(transcriptionExtension);
+
+      const result = processor.processWithMetaSync(createMockDocument());
+
+      expect(result.metadata.appliedPlugins).toEqual(["transcription"]);
+      expect(result.metadata.skippedPlugins).toEqual(["error-plugin"]);
+      expect(result.metadata.errors).toHaveLength(1);
+      expect(result.metadata.errors[0]!.message).toBe("Plugin error");
+      expect(result.metadata.stats.timing.has("transcription")).toBe(true);
+      expect(result.metadata.warnings).toEqual([]);
+    });
+
+    it("reports progress for each plugin", () => {
+      const hook = vi.fn();
+      glost()
+        .onProgress(hook)
+        .use(transcriptionExtension)
+        .use(translationExtension)
+        .processWithMetaSync(createMockDocument());
+
+      expect(hook).toHaveBeenCalledTimes(3);
+      expect(hook).toHaveBeenLastCalledWith(
+        expect.objectContaining({ total: 2, completed: 2, current: "translation" })
       );
     });
   });
@@ -10,6 +10,7 @@ import {
   GLOSTStreamProcessor,
   type ProcessedChunk,
   type StreamOptions,
+  type TextStreamOptions,
 } from "../stream-processor.js";
 import type { GLOSTExtension } from "@glotblocks/glost-extensions";
 import type {
@@ -18,6 +19,7 @@ import type {
   GLOSTParagraph,
   GLOSTWord,
 } from "@glotblocks/glost-core";
+import { GLOSTAbortError } from "@glotblocks/glost-core";
 
 // ============================================================================
 // Helpers
@@ -507,6 +509,31 @@ describe("GLOSTStreamProcessor", () => {
 
       expect(processedChunks).toHaveLength(2);
     });
+
+    it("rejects with GLOSTAbortError when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const sp = new GLOSTStreamProcessor()
+        .use(docTransformExtension)
+        .use(chunkTranscriptionExtension);
+      const chunks: ProcessedChunk[] = [];
+
+      const error = await (async () => {
+        for await (const chunk of sp.stream(makeLargeDocument(30), {
+          batchSize: 10,
+          signal: controller.signal,
+        })) {
+          chunks.push(chunk);
+          controller.abort();
+        }
+      })().catch((e: unknown) => e);
+
+      expect(chunks).toHaveLength(1);
+      expect(error).toBeInstanceOf(GLOSTAbortError);
+      expect((error as GLOSTAbortError).completedPlugins).toEqual(["doc-transform"]);
+      expect((error as GLOSTAbortError).document?.extras).toMatchObject({
+        docTransformRan: true,
+      });
+    });
   });
 
   describe("stream() — ProcessedChunk metadata", () => {
@@ -571,4 +598,211 @@ describe("GLOSTStreamProcessor", () => {
       ).toBe(5);
     });
   });
+
+  describe("stream() — text input", () => {
+    const strategy = {
+      getScriptForLanguage: () => "latin",
+    };
+
+    async function* textChunks(...parts: string[]): AsyncGenerator<string> {
+      for (const part of parts) {
+        yield part;
+      }
+    }
+
+    async function collectText(
+      processor: GLOSTStreamProcessor,
+      parts: string[],
+      batchSize?: number,
+    ): Promise<ProcessedChunk[]> {
+      const chunks: ProcessedChunk[] = [];
+      for await (const chunk of processor.stream(textChunks(...parts), {
+        language: "en",
+        languageStrategy: strategy,
+        batchSize,
+      })) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    }
+
+    it("segments paragraphs, sentences and words", async () => {
+      const chunks = await collectText(new GLOSTStreamProcessor(), [
+        "Hello world. How are you?\n\nSecond paragraph here.",
+      ]);
+
+      expect(chunks.map((c) => c.paragraphIndex)).toEqual([0, 1]);
+      expect(chunks[0]!.sentences.map((s) => s.originalText)).toEqual([
+        "Hello world.",
+        "How are you?",
+      ]);
+      const words = chunks[0]!.sentences[0]!.children as GLOSTWord[];
+      expect(words.map((w) => (w.children[0] as { value: string }).value))
+        .toEqual(["Hello", "world"]);
+      expect(chunks[1]!.isLast).toBe(true);
+    });
+
+    it("joins sentences split across incoming chunks", async () => {
+      const chunks = await collectText(new GLOSTStreamProcessor(), [
+        "The quick brown ",
+        "fox jumps. The la",
+        "zy dog sleeps.",
+      ]);
+
+      expect(
+        chunks.flatMap((c) => c.sentences).map((s) => s.originalText),
+      ).toEqual(["The quick brown fox jumps.", "The lazy dog sleeps."]);
+    });
+
+    it("records source positions relative to the whole stream", async () => {
+      const chunks = await collectText(new GLOSTStreamProcessor(), [
+        "Hi there. Bye",
+        " now.\n\n  Next one.",
+      ]);
+      const sentences = chunks.flatMap((c) => c.sentences);
+
+      expect(sentences[1]!.position).toEqual({
+        start: { line: 1, column: 11, offset: 10 },
+        end: { line: 1, column: 19, offset: 18 },
+      });
+
+      const next = sentences[2]!.children as GLOSTWord[];
+      expect(next[1]!.position).toEqual({
+        start: { line: 3, column: 8, offset: 27 },
+        end: { line: 3, column: 11, offset: 30 },
+      });
+      expect(next[1]!.children[0]!.position).toEqual(next[1]!.position);
+    });
+
+    it("yields the first chunk before the input ends", async () => {
+      let released = false;
+      async function* slowText(): AsyncGenerator<string> {
+        yield "One. Two. Three. Fo";
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        released = true;
+        yield "ur.";
+      }
+
+      const stream = new GLOSTStreamProcessor().stream(slowText(), {
+        language: "en",
+        languageStrategy: strategy,
+        batchSize: 2,
+      });
+      const first = await stream.next();
+
+      expect(released).toBe(false);
+      expect(first.value!.sentences).toHaveLength(2);
+      expect(first.value!.isLast).toBe(false);
+      await stream.return(undefined);
+    });
+
+    it("respects batchSize and chunkIndex within a paragraph", async () => {
+      const chunks = await collectText(
+        new GLOSTStreamProcessor(),
+        ["A one. A two. A three. A four. A five."],
+        2,
+      );
+
+      expect(chunks.map((c) => c.sentences.length)).toEqual([2, 2, 1]);
+      expect(chunks.map((c) => c.chunkIndex)).toEqual([0, 1, 2]);
+      expect(chunks.map((c) => c.isLast)).toEqual([false, false, true]);
+    });
+
+    it("reads a web ReadableStream of text", async () => {
+      const readable = new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue("Hello there. ");
+          controller.enqueue("General Kenobi.");
+          controller.close();
+        },
+      });
+
+      const chunks: ProcessedChunk[] = [];
+      for await (const chunk of new GLOSTStreamProcessor().stream(readable, {
+        language: "en",
+        languageStrategy: strategy,
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]!.sentences).toHaveLength(2);
+    });
+
+    it("uses strategy segmenters when provided", async () => {
+      const chunks: ProcessedChunk[] = [];
+      for await (const chunk of new GLOSTStreamProcessor().stream(
+        textChunks("สวัสดีครับ ขอบคุณครับ"),
+        {
+          language: "th",
+          languageStrategy: {
+            getScriptForLanguage: () => "thai",
+            segmentSentences: (text) => text.split(" "),
+            segmentWords: (text) => [text.slice(0, -4), text.slice(-4)],
+          },
+        },
+      )) {
+        chunks.push(chunk);
+      }
+
+      const sentences = chunks.flatMap((c) => c.sentences);
+      expect(sentences.map((s) => s.originalText)).toEqual([
+        "สวัสดีครับ",
+        "ขอบคุณครับ",
+      ]);
+      expect(sentences[0]!.script).toBe("thai");
+      expect(sentences[0]!.children).toHaveLength(2);
+    });
+
+    it("runs chunk-level extensions on each batch", async () => {
+      const processor = new GLOSTStreamProcessor().use({
+        id: "mark",
+        name: "Mark",
+        streamingSupport: "chunk",
+        visit: {
+          word: (node) => {
+            node.extras = { ...node.extras, marked: true };
+          },
+        },
+      });
+
+      const chunks = await collectText(processor, ["Hi there. Bye now."], 1);
+      const words = chunks.flatMap((c) =>
+        c.sentences.flatMap((s) => s.children as GLOSTWord[]),
+      );
+
+      expect(words).toHaveLength(4);
+      expect(words.every((w) => w.extras?.marked === true)).toBe(true);
+    });
+
+    it("rejects doc-level extensions", async () => {
+      const processor = new GLOSTStreamProcessor().use(noopExtension);
+
+      await expect(collectText(processor, ["Hello."])).rejects.toThrow(
+        /"noop" need the full document/,
+      );
+    });
+
+    it("skips doc-level extensions with a warning in lenient mode", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const processor = new GLOSTStreamProcessor({ lenient: true }).use(
+        noopExtension,
+      );
+
+      const chunks = await collectText(processor, ["Hello."]);
+
+      expect(chunks).toHaveLength(1);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("requires language options for text input", async () => {
+      const stream = new GLOSTStreamProcessor().stream(
+        textChunks("Hello."),
+        undefined as unknown as TextStreamOptions,
+      );
+
+      await expect(stream.next()).rejects.toThrow(/languageStrategy/);
+    });
+  });
 });
@@ -0,0 +1,223 @@
+/**
+ * Processing Trace Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  glost,
+  GLOSTTracer,
+  toChromeTrace,
+  toOpenTelemetrySpans,
+  summarizeTrace,
+  formatTraceSummary,
+} from "../index.js";
+import type { GLOSTExtension, GLOSTRoot } from "@glotblocks/glost-extensions";
+
+const createDocument = (words: string[]): GLOSTRoot =>
+  ({
+    type: "RootNode",
+    lang: "en",
+    children: [
+      {
+        type: "ParagraphNode",
+        children: [
+          {
+            type: "SentenceNode",
+            children: words.map((text) => ({
+              type: "WordNode",
+              children: [{ type: "TextNode", value: text }],
+            })),
+          },
+        ],
+      },
+    ],
+  }) as GLOSTRoot;
+
+const wordPlugin: GLOSTExtension = {
+  id: "lengths",
+  name: "Lengths",
+  visit: {
+    word: async (node) => {
+      node.extras = { ...node.extras, seen: true };
+    },
+  },
+  enhanceMetadata: () => ({}),
+};
+
+const transformPlugin: GLOSTExtension = {
+  id: "stamp",
+  name: "Stamp",
+  transform: (tree) => tree,
+};
+
+describe("processor tracing", () => {
+  it("records run, plugin and hook spans with node counts", async () => {
+    const result = await glost({ trace: true })
+      .use(wordPlugin)
+      .use(transformPlugin)
+      .processWithMeta(createDocument(["a", "b", "c"]));
+
+    const spans = result.metadata.stats.trace!.spans;
+    const run = spans.find((s) => s.kind === "process")!;
+    const plugin = spans.find((s) => s.name === "lengths")!;
+    const visit = spans.find((s) => s.name === "lengths visit.word")!;
+
+    expect(plugin).toMatchObject({ kind: "plugin", parentId: run.id });
+    expect(visit).toMatchObject({
+      kind: "hook",
+      hook: "visit.word",
+      plugin: "lengths",
+      parentId: plugin.id,
+      calls: 3,
+      nodes: 3,
+    });
+    expect(spans.find((s) => s.name === "lengths enhanceMetadata")!.nodes).toBe(3);
+    expect(spans.find((s) => s.name === "stamp transform")).toMatchObject({
+      calls: 1,
+    });
+    expect(spans.find((s) => s.name === "stamp transform")!.nodes).toBeUndefined();
+  });
+
+  it("leaves stats.trace unset by default", async () => {
+    const result = await glost().use(wordPlugin).processWithMeta(createDocument(["a"]));
+
+    expect(result.metadata.stats.trace).toBeUndefined();
+  });
+
+  it("traces sync runs without making hooks async", () => {
+    const syncPlugin: GLOSTExtension = {
+      id: "sync",
+      name: "Sync",
+      visit: { word: () => {} },
+    };
+
+    const result = glost({ trace: true })
+      .use(syncPlugin)
+      .processWithMetaSync(createDocument(["a", "b"]));
+
+    expect(
+      result.metadata.stats.trace!.spans.find((s) => s.name === "sync visit.word")!.calls
+    ).toBe(2);
+  });
+
+  it("records failed plugins", async () => {
+    const failing: GLOSTExtension = {
+      id: "failing",
+      name: "Failing",
+      transform: () => {
+        throw new Error("boom");
+      },
+    };
+
+    const result = await glost({ trace: true, lenient: true })
+      .use(failing)
+      .processWithMeta(createDocument(["a"]));
+
+    expect(
+      result.metadata.stats.trace!.spans.find((s) => s.name === "failing transform")!.error
+    ).toBe("boom");
+  });
+
+  it("records provider calls, including calls a provider makes on itself", async () => {
+    class DictionaryProvider {
+      protected data?: Map<string, string>;
+
+      protected async loadData() {
+        return new Map([["a", "ay"]]);
+      }
+
+      async lookup(word: string) {
+        this.data ??= await this.loadData();
+        return this.data.get(word);
+      }
+    }
+
+    const tracer = new GLOSTTracer();
+    const provider = tracer.traceProvider(new DictionaryProvider(), "dictionary");
+    const plugin: GLOSTExtension = {
+      id: "dictionary",
+      name: "Dictionary",
+      visit: {
+        word: async (node) => {
+          await provider.lookup("a");
+        },
+      },
+    };
+
+    const result = await glost({ trace: tracer })
+      .use(plugin)
+      .processWithMeta(createDocument(["a", "b"]));
+    const names = result.metadata.stats.trace!.spans
+      .filter((s) => s.kind === "provider")
+      .map((s) => s.name);
+
+    expect(names.filter((n) => n === "dictionary.lookup")).toHaveLength(2);
+    expect(names).toContain("dictionary.loadData");
+    expect(result.metadata.stats.trace!.traceId).toBe(tracer.traceId);
+  });
+});
+
+describe("trace exporters", () => {
+  const trace = {
+    traceId: "0af7651916cd43dd8448eb211c80319c",
+    startTime: 1_700_000_000_000,
+    spans: [
+      { id: 2, parentId: 1, name: "freq", kind: "plugin" as const, plugin: "freq", start: 1, duration: 4 },
+      {
+        id: 3,
+        parentId: 2,
+        name: "freq visit.word",
+        kind: "hook" as const,
+        plugin: "freq",
+        hook: "visit.word" as const,
+        start: 1.5,
+        duration: 3,
+        calls: 10,
+        nodes: 10,
+        selfTime: 2.5,
+      },
+      { id: 4, name: "dict.lookup", kind: "provider" as const, provider: "dict", start: 2, duration: 0.5, error: "offline" },
+      { id: 1, name: "process", kind: "process" as const, start: 0, duration: 6 },
+    ],
+  };
+
+  it("exports Chrome trace events on per-plugin lanes", () => {
+    const { traceEvents } = toChromeTrace(trace);
+    const hook = traceEvents.find((e) => e.name === "freq visit.word")!;
+    const lanes = traceEvents.filter((e) => e.ph === "M").map((e) => e.args!.name);
+
+    expect(hook).toMatchObject({ ph: "X", cat: "hook", ts: 1500, dur: 3000 });
+    expect(hook.args).toMatchObject({ nodes: 10, calls: 10 });
+    expect(lanes).toEqual(["processor", "freq", "dict"]);
+  });
+
+  it("exports OpenTelemetry spans", () => {
+    const spans = toOpenTelemetrySpans(trace);
+    const hook = spans.find((s) => s.name === "freq visit.word")!;
+
+    expect(hook).toMatchObject({
+      traceId: trace.traceId,
+      spanId: "0000000000000003",
+      parentSpanId: "0000000000000002",
+      kind: 1,
+      startTimeUnixNano: "1700000000001500000",
+      endTimeUnixNano: "1700000000004500000",
+    });
+    expect(hook.attributes).toContainEqual({ key: "glost.nodes", value: { intValue: "10" } });
+    expect(spans.find((s) => s.name === "dict.lookup")!.status).toEqual({
+      code: 2,
+      message: "offline",
+    });
+  });
+
+  it("summarizes spans into a table, slowest first", () => {
+    const rows = summarizeTrace(trace);
+
+    expect(rows.map((r) => r.name)).toEqual(["freq", "freq visit.word", "dict.lookup"]);
+    expect(rows[1]).toMatchObject({ calls: 10, nodes: 10, total: 3 });
+
+    const lines = formatTraceSummary(trace).split("\n");
+    expect(lines[0]).toMatch(/^Span\s+Kind\s+Calls\s+Nodes\s+Total ms\s+Avg ms\s+Max ms\s+Errors$/);
+    expect(lines[2]).toMatch(/^freq visit\.word\s+hook\s+10\s+10\s+3\.00\s+3\.00\s+3\.00\s+0$/);
+  });
+});
@@ -0,0 +1,506 @@
+/**
+ * Word Annotation Cache
+ *
+ * Opt-in cache for per-word extension output. Re-processing a document
+ * where only a few sentences changed then skips `visit.word` and
+ * `enhanceMetadata` calls for every word seen before.
+ *
+ * Entries are keyed by extension ID, a hash of the extension options
+ * and `cacheKey`, the word text and its language. This assumes word
+ * hooks are pure functions of those inputs; leave non-deterministic
+ * extensions out via `AnnotationCacheOptions.extensions`. Persistent
+ * stores outlive the configuration they were filled with, so they only
+ * cache extensions with a `cacheKey` (or any extension when
+ * `AnnotationCacheOptions.optionsKey` is set).
+ *
+ * Only changes to `transcription`, `metadata` and `extras` can be
+ * replayed. When a hook changes anything else on a word (its children,
+ * other top-level fields, or by returning a replacement node), that
+ * result is not cached and the hook runs again next time.
+ *
+ * @packageDocumentation
+ *
+ * @since 1.1.0
+ */
+
+import type { GLOSTWord, GLOSTExtras } from "@glotblocks/glost-core";
+import type {
+  GLOSTExtension,
+  ExtensionContext,
+} from "@glotblocks/glost-extensions";
+
+// ============================================================================
+// Public types
+// ============================================================================
+
+/**
+ * Word fields written by a `visit.word` hook
+ *
+ * Only top-level keys that the hook changed are stored, so replaying a
+ * cached entry does not clobber fields written by other extensions.
+ *
+ * @since 1.1.0
+ */
+export interface CachedWordFields {
+  transcription?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+  extras?: Record<string, unknown>;
+}
+
+/**
+ * A cached annotation for one word and one hook
+ *
+ * - `visit`: fields changed by `visit.word`
+ * - `enhance`: value returned by `enhanceMetadata` (`null` for void)
+ *
+ * @since 1.1.0
+ */
+export type CachedAnnotation =
+  | { hook: "visit"; fields: CachedWordFields }
+  | { hook: "enhance"; enhancement: Partial<GLOSTExtras> | null };
+
+/**
+ * Storage backend for the annotation cache
+ *
+ * `get` and `set` are synchronous so cached hooks work in both
+ * `process()` and `processSync()`. Persistent stores keep entries in
+ * memory and implement `load`/`flush`, which the async processor
+ * methods call before and after each run.
+ *
+ * @since 1.1.0
+ */
+export interface AnnotationCacheStore {
+  /**
+   * Entries outlive the process (file or database backed). Such stores
+   * only cache extensions that can be fingerprinted.
+   */
+  readonly persistent?: boolean;
+
+  /** Read an entry */
+  get(key: string): CachedAnnotation | undefined;
+
+  /** Write an entry */
+  set(key: string, value: CachedAnnotation): void;
+
+  /** Remove every entry */
+  clear(): void;
+
+  /** Load persisted entries (called before each async run) */
+  load?(): void | Promise<void>;
+
+  /** Persist pending writes (called after each async run) */
+  flush?(): void | Promise<void>;
+}
+
+/**
+ * Annotation cache configuration for `ProcessorOptions.cache`
+ *
+ * @example
+ * ```typescript
+ * const processor = glost({
+ *   cache: {
+ *     store: createJsonFileCacheStore({ path: ".glost-cache.json" }),
+ *     extensions: ["transcription", "translation"],
+ *   },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface AnnotationCacheOptions {
+  /** Storage backend */
+  store: AnnotationCacheStore;
+
+  /**
+   * Extension IDs whose word hooks are cached.
+   * Default: every extension in the pipeline.
+   */
+  extensions?: string[];
+
+  /**
+   * Custom options fingerprint for an extension.
+   * Default: a hash of the plugin options, `extension.options` and
+   * `extension.cacheKey`. Setting this also lets persistent stores cache
+   * extensions without a `cacheKey`.
+   */
+  optionsKey?: (extensionId: string, options: unknown) => string;
+}
+
+/**
+ * Cache counters for a single run
+ *
+ * @since 1.1.0
+ */
+export interface CacheStats {
+  /** Word hook calls answered from the cache */
+  hits: number;
+
+  /** Word hook calls that ran the extension */
+  misses: number;
+}
+
+// ============================================================================
+// In-memory store
+// ============================================================================
+
+/**
+ * In-memory annotation cache store
+ *
+ * Lives as long as the processor (or the store instance) does. Useful
+ * for long-running servers and editors that re-process the same
+ * document repeatedly.
+ *
+ * @example
+ * ```typescript
+ * const processor = glost({ cache: { store: new MemoryCacheStore() } });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class MemoryCacheStore implements AnnotationCacheStore {
+  protected entries = new Map<string, CachedAnnotation>();
+
+  get(key: string): CachedAnnotation | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: CachedAnnotation): void {
+    this.entries.set(key, value);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /** Number of cached entries */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Create an in-memory annotation cache store
+ *
+ * @since 1.1.0
+ */
+export function createMemoryCacheStore(): MemoryCacheStore {
+  return new MemoryCacheStore();
+}
+
+// ============================================================================
+// Cache session
+// ============================================================================
+
+/**
+ * Per-run cache wrapper that tracks hit/miss counts
+ *
+ * @internal
+ */
+export class AnnotationCacheSession {
+  readonly stats: CacheStats = { hits: 0, misses: 0 };
+
+  constructor(private readonly options: AnnotationCacheOptions) {}
+
+  /**
+   * Wrap an extension so its word hooks consult the cache
+   *
+   * Extensions without word hooks, or not selected for caching, are
+   * returned unchanged.
+   */
+  wrap(extension: GLOSTExtension, pluginOptions?: unknown): GLOSTExtension {
+    const { extensions: include } = this.options;
+    if (include && !include.includes(extension.id)) {
+      return extension;
+    }
+    if (!extension.visit?.word && !extension.enhanceMetadata) {
+      return extension;
+    }
+    // Configuration in closures (such as a provider) is invisible to the
+    // default key, which is only safe while the store lives in memory
+    if (
+      this.options.store.persistent &&
+      !this.options.optionsKey &&
+      extension.cacheKey === undefined
+    ) {
+      return extension;
+    }
+
+    const optionsSource = {
+      plugin: pluginOptions,
+      extension: extension.options,
+      cacheKey: extension.cacheKey,
+    };
+    const optionsKey = this.options.optionsKey
+      ? this.options.optionsKey(extension.id, optionsSource)
+      : hashString(stableStringify(optionsSource));
+    const keyPrefix = `${extension.id}\u0000${optionsKey}`;
+
+    const wrapped: GLOSTExtension = { ...extension };
+
+    if (extension.visit?.word) {
+      const visitWord = extension.visit.word;
+      wrapped.visit = {
+        ...extension.visit,
+        word: (node, context) =>
+          this.cachedVisit(keyPrefix, node, context, visitWord),
+      };
+    }
+
+    if (extension.enhanceMetadata) {
+      const enhance = extension.enhanceMetadata;
+      wrapped.enhanceMetadata = (node, context) =>
+        this.cachedEnhance(keyPrefix, node, context, enhance);
+    }
+
+    return wrapped;
+  }
+
+  private cachedVisit(
+    keyPrefix: string,
+    node: GLOSTWord,
+    context: ExtensionContext | undefined,
+    visitWord: NonNullable<NonNullable<GLOSTExtension["visit"]>["word"]>,
+  ): void | Promise<void> {
+    const key = `${keyPrefix}\u0000visit\u0000${wordKey(node, context)}`;
+    const cached = this.options.store.get(key);
+
+    if (cached?.hook === "visit") {
+      this.stats.hits++;
+      applyFields(node, cached.fields);
+      return;
+    }
+
+    this.stats.misses++;
+    const before = snapshotFields(node);
+    const rest = snapshotRest(node);
+    const finish = (result: GLOSTWord | void): void => {
+      if (result) {
+        Object.assign(node, result);
+      }
+      // Changes outside the annotation fields can't be replayed
+      if (snapshotRest(node) !== rest) {
+        return;
+      }
+      const fields = diffFields(before, snapshotFields(node));
+      // A hook that left an annotated word alone may have skipped it
+      // because of those annotations; replaying nothing would be wrong
+      // for a bare word with the same text
+      if (isEmpty(fields) && !isEmpty(before)) {
+        return;
+      }
+      this.options.store.set(key, { hook: "visit", fields });
+    };
+
+    const result = visitWord(node, context);
+    if (isPromiseLike(result)) {
+      return Promise.resolve(result).then(finish);
+    }
+    finish(result);
+  }
+
+  private cachedEnhance(
+    keyPrefix: string,
+    node: GLOSTWord,
+    context: ExtensionContext | undefined,
+    enhance: NonNullable<GLOSTExtension["enhanceMetadata"]>,
+  ):
+    | Partial<GLOSTExtras>
+    | void
+    | Promise<Partial<GLOSTExtras> | void> {
+    const key = `${keyPrefix}\u0000enhance\u0000${wordKey(node, context)}`;
+    const cached = this.options.store.get(key);
+
+    if (cached?.hook === "enhance") {
+      this.stats.hits++;
+      return cached.enhancement ? clone(cached.enhancement) : undefined;
+    }
+
+    this.stats.misses++;
+    const finish = (
+      enhancement: Partial<GLOSTExtras> | void,
+    ): Partial<GLOSTExtras> | void => {
+      this.options.store.set(key, {
+        hook: "enhance",
+        enhancement: enhancement ? clone(enhancement) : null,
+      });
+      return enhancement;
+    };
+
+    const result = enhance(node, context);
+    if (isPromiseLike(result)) {
+      return Promise.resolve(result).then(finish);
+    }
+    return finish(result);
+  }
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+const WORD_FIELDS = ["transcription", "metadata", "extras"] as const;
+
+/**
+ * Text and language part of a cache key
+ */
+function wordKey(node: GLOSTWord, context?: ExtensionContext): string {
+  const lang = node.lang ?? context?.originalDocument.lang ?? "";
+  return `${lang}\u0000${getText(node)}`;
+}
+
+/**
+ * Word text from its TextNode child, falling back to a `text` field
+ */
+function getText(node: GLOSTWord): string {
+  const textNode = node.children?.find((child) => child.type === "TextNode");
+  if (textNode && "value" in textNode) {
+    return textNode.value;
+  }
+  return (node as { text?: string }).text ?? "";
+}
+
+/**
+ * JSON snapshot of the annotation fields of a word
+ */
+function snapshotFields(node: GLOSTWord): CachedWordFields {
+  const snapshot: CachedWordFields = {};
+  for (const field of WORD_FIELDS) {
+    const value = node[field];
+    if (value && typeof value === "object") {
+      snapshot[field] = clone(value as Record<string, unknown>);
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * JSON snapshot of everything on a word except the annotation fields
+ */
+function snapshotRest(node: GLOSTWord): string {
+  const rest: Record<string, unknown> = { ...node };
+  for (const field of WORD_FIELDS) {
+    delete rest[field];
+  }
+  return JSON.stringify(rest);
+}
+
+/**
+ * Top-level keys of each field that changed between two snapshots
+ */
+function diffFields(
+  before: CachedWordFields,
+  after: CachedWordFields,
+): CachedWordFields {
+  const diff: CachedWordFields = {};
+  for (const field of WORD_FIELDS) {
+    const next = after[field];
+    if (!next) continue;
+    const prev = before[field] ?? {};
+    const changed: Record<string, unknown> = {};
+    let hasChanges = false;
+    for (const [key, value] of Object.entries(next)) {
+      if (JSON.stringify(prev[key]) !== JSON.stringify(value)) {
+        changed[key] = value;
+        hasChanges = true;
+      }
+    }
+    if (hasChanges) {
+      diff[field] = changed;
+    }
+  }
+  return diff;
+}
+
+/**
+ * Whether no field holds any key
+ */
+function isEmpty(fields: CachedWordFields): boolean {
+  return WORD_FIELDS.every(
+    (field) => !fields[field] || Object.keys(fields[field]!).length === 0,
+  );
+}
+
+/**
+ * Replay cached field changes onto a word
+ */
+function applyFields(node: GLOSTWord, fields: CachedWordFields): void {
+  for (const field of WORD_FIELDS) {
+    const changed = fields[field];
+    if (!changed) continue;
+    node[field] = {
+      ...(node[field] as Record<string, unknown> | undefined),
+      ...clone(changed),
+    } as never;
+  }
+}
+
+/**
+ * Deep copy of a JSON-compatible value
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Deterministic JSON encoding with sorted keys
+ *
+ * Functions are skipped and repeated references are cut, so options
+ * holding provider instances can still be fingerprinted.
+ */
+function stableStringify(value: unknown): string {
+  const seen = new WeakSet<object>();
+
+  const encode = (input: unknown): unknown => {
+    if (typeof input === "function" || typeof input === "symbol") {
+      return undefined;
+    }
+    if (input === null || typeof input !== "object") {
+      return input;
+    }
+    if (seen.has(input)) {
+      return "[Circular]";
+    }
+    seen.add(input);
+
+    if (Array.isArray(input)) {
+      return input.map(encode);
+    }
+    if (input instanceof Map) {
+      return { "[Map]": [...input.entries()].map(encode) };
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(input).sort()) {
+      out[key] = encode((input as Record<string, unknown>)[key]);
+    }
+    return out;
+  };
+
+  return JSON.stringify(encode(value)) ?? "";
+}
+
+/**
+ * 53-bit string hash (cyrb53) as a hex string
+ */
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
@@ -0,0 +1,233 @@
+/**
+ * Persistent Annotation Cache Stores
+ *
+ * Disk-backed stores for the word annotation cache: a JSON file and a
+ * SQLite database accessed through a small adapter.
+ *
+ * @packageDocumentation
+ *
+ * @since 1.1.0
+ */
+
+import type {
+  AnnotationCacheStore,
+  CachedAnnotation,
+} from "./annotation-cache.js";
+import { MemoryCacheStore } from "./annotation-cache.js";
+
+// ============================================================================
+// JSON file store
+// ============================================================================
+
+/**
+ * Options for {@link JsonFileCacheStore}
+ *
+ * @since 1.1.0
+ */
+export interface JsonFileCacheStoreOptions {
+  /** Path of the JSON cache file */
+  path: string;
+
+  /** Pretty-print the file (default: false) */
+  pretty?: boolean;
+}
+
+/**
+ * Annotation cache store persisted as a single JSON file
+ *
+ * Entries are kept in memory; `load()` reads the file (a missing file is
+ * treated as an empty cache) and `flush()` rewrites it when entries
+ * changed. The async processor methods call both automatically; call
+ * them yourself around `processSync()`.
+ *
+ * Node.js only.
+ *
+ * @example
+ * ```typescript
+ * const store = createJsonFileCacheStore({ path: ".glost-cache.json" });
+ * const processor = glost({ cache: { store } });
+ *
+ * await processor.process(doc); // loads, processes, flushes
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class JsonFileCacheStore extends MemoryCacheStore {
+  readonly persistent = true;
+  private loaded = false;
+  private dirty = false;
+
+  constructor(private readonly options: JsonFileCacheStoreOptions) {
+    super();
+  }
+
+  override set(key: string, value: CachedAnnotation): void {
+    super.set(key, value);
+    this.dirty = true;
+  }
+
+  override clear(): void {
+    super.clear();
+    this.dirty = true;
+  }
+
+  /**
+   * Read entries from the cache file (once per store)
+   */
+  async load(): Promise<void> {
+    if (this.loaded) return;
+
+    const fs = await import("fs/promises");
+    let content: string;
+    try {
+      content = await fs.readFile(this.options.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.loaded = true;
+        return;
+      }
+      throw error;
+    }
+
+    const data = JSON.parse(content) as Record<string, CachedAnnotation>;
+    for (const [key, value] of Object.entries(data)) {
+      // Entries written during this session take precedence
+      if (!this.entries.has(key)) {
+        this.entries.set(key, value);
+      }
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * Write entries to the cache file if anything changed
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+
+    const fs = await import("fs/promises");
+    const data = Object.fromEntries(this.entries);
+    const json = this.options.pretty
+      ? JSON.stringify(data, null, 2)
+      : JSON.stringify(data);
+    await fs.writeFile(this.options.path, json, "utf-8");
+    this.dirty = false;
+  }
+}
+
+/**
+ * Create a JSON file annotation cache store
+ *
+ * @since 1.1.0
+ */
+export function createJsonFileCacheStore(
+  options: JsonFileCacheStoreOptions,
+): JsonFileCacheStore {
+  return new JsonFileCacheStore(options);
+}
+
+// ============================================================================
+// SQLite store
+// ============================================================================
+
+/**
+ * Prepared statement used by {@link SqliteCacheStore}
+ *
+ * @since 1.1.0
+ */
+export interface SqliteStatement {
+  get(...params: unknown[]): unknown;
+  run(...params: unknown[]): unknown;
+}
+
+/**
+ * Minimal synchronous SQLite database interface
+ *
+ * Matches `better-sqlite3` databases and Node's built-in
+ * `node:sqlite` `DatabaseSync`, so either can be passed directly
+ * without glost depending on a SQLite driver.
+ *
+ * @since 1.1.0
+ */
+export interface SqliteAdapter {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * Options for {@link SqliteCacheStore}
+ *
+ * @since 1.1.0
+ */
+export interface SqliteCacheStoreOptions {
+  /** Open database connection */
+  db: SqliteAdapter;
+
+  /** Table name (default: "glost_annotation_cache") */
+  table?: string;
+}
+
+/**
+ * Annotation cache store backed by a SQLite table
+ *
+ * Reads and writes go straight to the database, so the cache is shared
+ * by every process using the same file and works with `processSync()`
+ * without load/flush calls.
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const store = createSqliteCacheStore({ db: new Database("glost-cache.db") });
+ * const processor = glost({ cache: { store } });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class SqliteCacheStore implements AnnotationCacheStore {
+  readonly persistent = true;
+  private readonly table: string;
+  private readonly selectStatement: SqliteStatement;
+  private readonly upsertStatement: SqliteStatement;
+
+  constructor(private readonly options: SqliteCacheStoreOptions) {
+    this.table = options.table ?? "glost_annotation_cache";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+      throw new Error(`Invalid SQLite cache table name: "${this.table}"`);
+    }
+
+    options.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY, value TEXT NOT NULL)`,
+    );
+    this.selectStatement = options.db.prepare(
+      `SELECT value FROM ${this.table} WHERE key = ?`,
+    );
+    this.upsertStatement = options.db.prepare(
+      `INSERT OR REPLACE INTO ${this.table} (key, value) VALUES (?, ?)`,
+    );
+  }
+
+  get(key: string): CachedAnnotation | undefined {
+    const row = this.selectStatement.get(key) as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as CachedAnnotation) : undefined;
+  }
+
+  set(key: string, value: CachedAnnotation): void {
+    this.upsertStatement.run(key, JSON.stringify(value));
+  }
+
+  clear(): void {
+    this.options.db.exec(`DELETE FROM ${this.table}`);
+  }
+}
+
+/**
+ * Create a SQLite annotation cache store
+ *
+ * @since 1.1.0
+ */
+export function createSqliteCacheStore(
+  options: SqliteCacheStoreOptions,
+): SqliteCacheStore {
+  return new SqliteCacheStore(options);
+}
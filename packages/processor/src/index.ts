@@ -27,6 +27,7 @@ export type {
   PluginSpec,
   Preset,
   ProcessorOptions,
+  ProcessOptions,
   ProcessingResult,
   ProcessingError,
   ProcessingWarning,
@@ -42,8 +43,63 @@ export { GLOSTStreamProcessor } from "./stream-processor.js";
 export type {
   FrozenStreamProcessor,
   StreamOptions,
+  TextStreamOptions,
   ProcessedChunk,
 } from "./stream-processor.js";
+export {
+  GLOSTTracer,
+  toChromeTrace,
+  toOpenTelemetrySpans,
+  summarizeTrace,
+  formatTraceSummary,
+} from "./tracing.js";
+export type {
+  ActiveSpan,
+  ChromeTrace,
+  ChromeTraceEvent,
+  OpenTelemetryAttribute,
+  OpenTelemetrySpan,
+  ProcessingTrace,
+  TraceHookKind,
+  TraceSpan,
+  TraceSpanKind,
+  TraceSummaryRow,
+} from "./tracing.js";
+export { GLOSTProcessorPool } from "./processor-pool.js";
+export type {
+  ProcessorDefinition,
+  ProcessorPoolOptions,
+  ProcessorPoolSetup,
+  PoolPluginSpec,
+  PoolProcessorOptions,
+} from "./processor-pool.js";
+export type {
+  TextStreamInput,
+  TextStreamLanguageStrategy,
+} from "./text-segmentation.js";
+export {
+  MemoryCacheStore,
+  createMemoryCacheStore,
+} from "./annotation-cache.js";
+export type {
+  AnnotationCacheOptions,
+  AnnotationCacheStore,
+  CachedAnnotation,
+  CachedWordFields,
+  CacheStats,
+} from "./annotation-cache.js";
+export {
+  JsonFileCacheStore,
+  createJsonFileCacheStore,
+  SqliteCacheStore,
+  createSqliteCacheStore,
+} from "./cache-stores.js";
+export type {
+  JsonFileCacheStoreOptions,
+  SqliteAdapter,
+  SqliteStatement,
+  SqliteCacheStoreOptions,
+} from "./cache-stores.js";
 
 import { GLOSTProcessor } from "./processor.js";
 import type { ProcessorOptions } from "./types.js";
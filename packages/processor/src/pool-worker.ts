@@ -0,0 +1,94 @@
+/**
+ * Processor Pool Worker
+ *
+ * Worker thread entry for `GLOSTProcessorPool`. Builds a processor from the
+ * pool's definition, then processes each document it is sent.
+ *
+ * @packageDocumentation
+ *
+ * @internal
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { pathToFileURL } from "url";
+import type { GLOSTRoot } from "@glotblocks/glost-core";
+import { extensionRegistry } from "@glotblocks/glost-extensions";
+import { GLOSTProcessor } from "./processor.js";
+import type { PluginSpec, Preset } from "./types.js";
+import type {
+  PoolPluginSpec,
+  PoolWorkerData,
+  PoolWorkerMessage,
+  ProcessorPoolSetup,
+} from "./processor-pool.js";
+
+const { setup: setupPath, definition } = workerData as PoolWorkerData;
+const port = parentPort!;
+
+const setupUrl = setupPath.startsWith("file:")
+  ? setupPath
+  : pathToFileURL(setupPath).href;
+const setupModule = await import(setupUrl);
+const setup: ProcessorPoolSetup = setupModule.default ?? setupModule;
+
+/**
+ * Resolve a plugin ID through the setup registry, then the global registry
+ */
+function resolvePluginId(pluginId: string): PluginSpec {
+  const extension =
+    setup.registry?.getExtension(pluginId) ?? extensionRegistry.get(pluginId);
+  if (!extension) {
+    throw new Error(`Plugin "${pluginId}" not found in registry`);
+  }
+  return extension;
+}
+
+/**
+ * Resolve string IDs in a plugin entry, keeping its options
+ */
+function resolveEntry(
+  entry: Preset["plugins"][number] | PoolPluginSpec
+): [PluginSpec, unknown] {
+  const [spec, options] = Array.isArray(entry) ? entry : [entry, undefined];
+  return [typeof spec === "string" ? resolvePluginId(spec) : spec, options];
+}
+
+const processor = new GLOSTProcessor(definition.options);
+
+if (definition.preset) {
+  const preset = setup.presets?.find((p) => p.id === definition.preset);
+  if (!preset) {
+    throw new Error(`Preset "${definition.preset}" not found in setup module`);
+  }
+  for (const entry of preset.plugins) {
+    processor.use(...resolveEntry(entry));
+  }
+}
+
+for (const entry of definition.plugins ?? []) {
+  processor.use(...resolveEntry(entry));
+}
+
+// Remember which plugin failed so the pool can attribute the error
+let failedPlugin = "processor";
+processor.onError((_error, pluginId) => {
+  failedPlugin = pluginId;
+});
+
+port.on("message", async (document: GLOSTRoot) => {
+  failedPlugin = "processor";
+  let message: PoolWorkerMessage;
+  try {
+    message = { type: "result", result: await processor.processWithMeta(document) };
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    message = {
+      type: "failure",
+      plugin: failedPlugin,
+      error: { name: err.name, message: err.message, stack: err.stack },
+    };
+  }
+  port.postMessage(message);
+});
+
+port.postMessage({ type: "ready" } satisfies PoolWorkerMessage);
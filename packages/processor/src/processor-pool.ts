@@ -0,0 +1,509 @@
+/**
+ * GLOST Processor Pool
+ *
+ * Spreads documents across Node.js worker threads, each running its own
+ * `GLOSTProcessor` built from a serializable definition.
+ *
+ * @packageDocumentation
+ *
+ * @since 1.1.0
+ */
+
+import type { Worker } from "worker_threads";
+import type { GLOSTRoot } from "@glotblocks/glost-core";
+import type { GLOSTExtension } from "@glotblocks/glost-extensions";
+import type {
+  Preset,
+  ProcessorOptions,
+  ProcessingError,
+  ProcessingResult,
+  ProgressHook,
+  ProgressStats,
+} from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Plugin reference in a pool definition
+ *
+ * Plugins are referenced by ID (optionally with options) because functions
+ * and extension objects cannot be sent to worker threads.
+ *
+ * @since 1.1.0
+ */
+export type PoolPluginSpec = string | [string, unknown];
+
+/**
+ * Processor options that can be sent to worker threads
+ *
+ * `trace: true` returns each document's trace in its result.
+ *
+ * @since 1.1.0
+ */
+export type PoolProcessorOptions = Omit<ProcessorOptions, "cache" | "signal" | "trace"> & {
+  trace?: boolean;
+};
+
+/**
+ * Frozen, serializable processor definition
+ *
+ * Each worker builds its processor by applying the preset first, then the
+ * plugins, in order.
+ *
+ * @since 1.1.0
+ */
+export interface ProcessorDefinition {
+  /** ID of a preset exported by the setup module */
+  preset?: string;
+
+  /** Plugin IDs resolved through the setup module's registry */
+  plugins?: PoolPluginSpec[];
+
+  /** Processor options */
+  options?: PoolProcessorOptions;
+}
+
+/**
+ * Exports of the module each worker loads before processing
+ *
+ * The module is imported once per worker, so it should also register any
+ * providers or extensions the plugins need. Exports can be named or
+ * collected in a default export.
+ *
+ * @example
+ * ```typescript
+ * // glost-setup.ts
+ * import { PluginRegistry } from "@glotblocks/glost-registry";
+ * import { languageLearningPreset } from "@glotblocks/glost-presets";
+ *
+ * export const registry = new PluginRegistry();
+ * registry.register(transcriptionExtension, { version: "1.0.0", category: "enhancer" });
+ *
+ * export const presets = [languageLearningPreset];
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface ProcessorPoolSetup {
+  /**
+   * Registry used to resolve plugin IDs, such as a `PluginRegistry`
+   *
+   * IDs it doesn't know fall back to the global extension registry.
+   */
+  registry?: {
+    getExtension(pluginId: string): GLOSTExtension | undefined;
+  };
+
+  /** Presets that the definition can reference by ID */
+  presets?: Preset[];
+}
+
+/**
+ * Processor pool options
+ *
+ * @since 1.1.0
+ */
+export interface ProcessorPoolOptions {
+  /** Path or URL of the setup module loaded by every worker */
+  setup: string | URL;
+
+  /** Number of worker threads (default: available parallelism - 1, at least 1) */
+  size?: number;
+}
+
+/**
+ * Message sent from a worker to the pool
+ *
+ * @internal
+ */
+export type PoolWorkerMessage =
+  | { type: "ready" }
+  | { type: "result"; result: ProcessingResult }
+  | {
+      type: "failure";
+      plugin: string;
+      error: { name: string; message: string; stack?: string };
+    };
+
+/**
+ * Data passed to each worker on startup
+ *
+ * @internal
+ */
+export interface PoolWorkerData {
+  setup: string;
+  definition: ProcessorDefinition;
+}
+
+interface PoolTask {
+  document: GLOSTRoot;
+  startTime: number;
+  resolve: (result: ProcessingResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  thread: Worker;
+  ready: boolean;
+  retired: boolean;
+  task?: PoolTask;
+}
+
+// ============================================================================
+// Pool
+// ============================================================================
+
+/**
+ * Worker-thread pool for processing many documents
+ *
+ * Documents are dispatched to idle workers as they free up. Results come
+ * back in input order, progress is reported per document through
+ * `ProgressHook`s, and a document whose processing throws resolves with a
+ * `ProcessingError` instead of failing the batch. A crashed worker is
+ * replaced.
+ *
+ * Node.js only. Call `close()` when done; idle workers keep the process
+ * alive.
+ *
+ * @example
+ * ```typescript
+ * import { GLOSTProcessorPool } from "@glotblocks/glost-processor";
+ *
+ * const pool = new GLOSTProcessorPool(
+ *   { preset: "language-learning", options: { lenient: true } },
+ *   { setup: new URL("./glost-setup.js", import.meta.url), size: 4 }
+ * );
+ *
+ * pool.onProgress((stats) => {
+ *   console.log(`${stats.completed}/${stats.total} documents`);
+ * });
+ *
+ * const results = await pool.processAll(documents);
+ * await pool.close();
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class GLOSTProcessorPool {
+  private readonly definition: Readonly<ProcessorDefinition>;
+  private readonly setup: string;
+  private readonly size?: number;
+  private workers: PoolWorker[] = [];
+  private idle: PoolWorker[] = [];
+  private queue: PoolTask[] = [];
+  private progressHooks: ProgressHook[] = [];
+  private starting?: Promise<void>;
+  private closed = false;
+
+  /**
+   * Create a processor pool
+   *
+   * Workers are started on first use.
+   *
+   * @param definition - Processor definition shared by all workers
+   * @param options - Pool options
+   */
+  constructor(definition: ProcessorDefinition, options: ProcessorPoolOptions) {
+    this.definition = Object.freeze(structuredClone(definition));
+    this.setup = options.setup instanceof URL
+      ? options.setup.href
+      : options.setup;
+    this.size = options.size;
+  }
+
+  /**
+   * Register a progress hook
+   *
+   * Called once when a batch starts and after each document completes.
+   *
+   * @param hook - Progress hook function
+   * @returns This pool for chaining
+   */
+  onProgress(hook: ProgressHook): this {
+    this.progressHooks.push(hook);
+    return this;
+  }
+
+  /**
+   * Process a single document on the next free worker
+   *
+   * @param document - GLOST document to process
+   * @returns Promise resolving to the processing result
+   */
+  async process(document: GLOSTRoot): Promise<ProcessingResult> {
+    if (this.closed) {
+      throw new Error("Cannot use closed processor pool");
+    }
+
+    await this.start();
+
+    return new Promise<ProcessingResult>((resolve, reject) => {
+      this.queue.push({ document, startTime: Date.now(), resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Process documents across the pool
+   *
+   * @param documents - GLOST documents to process
+   * @returns Promise resolving to one result per document, in input order
+   * @throws {Error} If the workers cannot start (e.g. the setup module or a plugin is missing)
+   */
+  async processAll(documents: GLOSTRoot[]): Promise<ProcessingResult[]> {
+    const startTime = Date.now();
+    let completed = 0;
+
+    this.emitProgress({
+      total: documents.length,
+      completed,
+      startTime,
+      elapsed: 0,
+    });
+
+    return Promise.all(
+      documents.map(async (document) => {
+        const result = await this.process(document);
+        this.emitProgress({
+          total: documents.length,
+          completed: ++completed,
+          startTime,
+          elapsed: Date.now() - startTime,
+        });
+        return result;
+      })
+    );
+  }
+
+  /**
+   * Terminate all workers
+   *
+   * Pending documents are rejected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new Error("Processor pool was closed");
+    for (const task of this.queue.splice(0)) {
+      task.reject(error);
+    }
+    await this.terminate(error);
+  }
+
+  /**
+   * Start the workers once
+   */
+  private start(): Promise<void> {
+    this.starting ??= this.spawnWorkers().catch((error) => {
+      this.starting = undefined;
+      throw error;
+    });
+    return this.starting;
+  }
+
+  /**
+   * Spawn workers and wait until all have loaded the definition
+   */
+  private async spawnWorkers(): Promise<void> {
+    const { availableParallelism } = await import("os");
+    const size = Math.max(1, this.size ?? availableParallelism() - 1);
+
+    const spawned = await Promise.allSettled(
+      Array.from({ length: size }, () => this.spawnWorker())
+    );
+
+    const failure = spawned.find(
+      (outcome): outcome is PromiseRejectedResult =>
+        outcome.status === "rejected"
+    );
+    if (failure) {
+      await this.terminate(failure.reason);
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Spawn one worker, resolving once it is ready for documents
+   */
+  private async spawnWorker(): Promise<void> {
+    const { Worker } = await import("worker_threads");
+    const workerData: PoolWorkerData = {
+      setup: this.setup,
+      definition: this.definition,
+    };
+    const worker: PoolWorker = {
+      thread: new Worker(new URL("./pool-worker.js", import.meta.url), {
+        workerData,
+      }),
+      ready: false,
+      retired: false,
+    };
+    this.workers.push(worker);
+
+    await new Promise<void>((resolve, reject) => {
+      worker.thread.on("message", (message: PoolWorkerMessage) => {
+        if (message.type === "ready") {
+          worker.ready = true;
+          resolve();
+          this.release(worker);
+          return;
+        }
+
+        const task = worker.task;
+        worker.task = undefined;
+        if (task) {
+          task.resolve(
+            message.type === "result"
+              ? message.result
+              : createFailedResult(task, message.plugin, toError(message.error))
+          );
+        }
+        this.release(worker);
+      });
+
+      worker.thread.on("error", (error) => {
+        this.retire(worker, error);
+        reject(error);
+      });
+
+      worker.thread.on("exit", (code) => {
+        const error = new Error(`Pool worker exited with code ${code}`);
+        this.retire(worker, error);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Remove a crashed worker, fail its document and replace it
+   */
+  private retire(worker: PoolWorker, error: Error): void {
+    if (worker.retired) {
+      return;
+    }
+    worker.retired = true;
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.idle = this.idle.filter((w) => w !== worker);
+
+    const task = worker.task;
+    worker.task = undefined;
+    if (task) {
+      task.resolve(createFailedResult(task, "processor", error));
+    }
+
+    // Only replace workers that were running; startup failures are fatal
+    if (worker.ready && !this.closed) {
+      this.spawnWorker().catch((spawnError) => {
+        for (const pending of this.queue.splice(0)) {
+          pending.reject(spawnError);
+        }
+      });
+    }
+  }
+
+  /**
+   * Mark a worker idle and hand it the next document
+   */
+  private release(worker: PoolWorker): void {
+    if (worker.retired || this.closed) {
+      return;
+    }
+    this.idle.push(worker);
+    this.dispatch();
+  }
+
+  /**
+   * Hand queued documents to idle workers
+   */
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.shift()!;
+      const task = this.queue.shift()!;
+      worker.task = task;
+      worker.thread.postMessage(task.document);
+    }
+  }
+
+  /**
+   * Terminate every worker, rejecting their documents
+   */
+  private async terminate(error: unknown): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.idle = [];
+    this.starting = undefined;
+
+    await Promise.all(
+      workers.map((worker) => {
+        worker.retired = true;
+        worker.task?.reject(error);
+        worker.task = undefined;
+        return worker.thread.terminate();
+      })
+    );
+  }
+
+  /**
+   * Emit progress to progress handlers
+   */
+  private emitProgress(stats: ProgressStats): void {
+    for (const hook of this.progressHooks) {
+      try {
+        hook(stats);
+      } catch (err) {
+        console.error("Error in progress hook:", err);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Rebuild an error sent from a worker
+ */
+function toError(data: { name: string; message: string; stack?: string }): Error {
+  const error = new Error(data.message);
+  error.name = data.name;
+  error.stack = data.stack;
+  return error;
+}
+
+/**
+ * Result for a document whose processing threw
+ */
+function createFailedResult(
+  task: PoolTask,
+  plugin: string,
+  error: Error
+): ProcessingResult {
+  const endTime = Date.now();
+  const processingError: ProcessingError = {
+    plugin,
+    phase: "transform",
+    message: error.message,
+    stack: error.stack,
+    recoverable: false,
+    error,
+  };
+
+  return {
+    document: task.document,
+    metadata: {
+      appliedPlugins: [],
+      skippedPlugins: [],
+      errors: [processingError],
+      warnings: [],
+      stats: {
+        totalTime: endTime - task.startTime,
+        timing: new Map(),
+        nodesProcessed: 0,
+        startTime: task.startTime,
+        endTime,
+      },
+    },
+  };
+}
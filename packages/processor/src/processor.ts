@@ -8,12 +8,19 @@
  */
 
 import type { GLOSTRoot } from "@glotblocks/glost-core";
-import type { GLOSTExtension } from "@glotblocks/glost-extensions";
-import { processGLOSTWithExtensionsAsync, extensionRegistry } from "@glotblocks/glost-extensions";
+import { GLOSTAbortError, GLOSTExtensionError } from "@glotblocks/glost-core";
+import type { GLOSTExtension, ExtensionResult } from "@glotblocks/glost-extensions";
+import {
+  processGLOSTWithExtensions,
+  processGLOSTWithExtensionsAsync,
+  extensionRegistry,
+  planExtensionStages,
+} from "@glotblocks/glost-extensions";
 import type {
   PluginSpec,
   Preset,
   ProcessorOptions,
+  ProcessOptions,
   ProcessingResult,
   ProcessorHooks,
   BeforeHook,
@@ -25,6 +32,8 @@ import type {
   ProcessingWarning,
   ProgressStats,
 } from "./types.js";
+import { AnnotationCacheSession } from "./annotation-cache.js";
+import { GLOSTTracer } from "./tracing.js";
 
 /**
  * GLOST Processor
@@ -280,16 +289,28 @@ export class GLOSTProcessor {
    * Process a document through the pipeline
    * 
    * @param document - GLOST document to process
+   * @param options - Per-call options such as an `AbortSignal`
    * @returns Promise resolving to the processed document
+   * @throws {GLOSTAbortError} If the signal is aborted before processing completes
    * 
    * @example
    * ```typescript
    * const result = await processor.process(document);
    * console.log(result);
    * ```
+   * 
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const pending = processor.process(document, { signal: controller.signal });
+   * controller.abort(); // pending rejects with a GLOSTAbortError
+   * ```
    */
-  async process(document: GLOSTRoot): Promise<GLOSTRoot> {
-    const result = await this.processWithMeta(document);
+  async process(
+    document: GLOSTRoot,
+    options: ProcessOptions = {}
+  ): Promise<GLOSTRoot> {
+    const result = await this.processWithMeta(document, options);
     return result.document;
   }
 
@@ -297,7 +318,9 @@ export class GLOSTProcessor {
    * Process a document and return detailed metadata
    * 
    * @param document - GLOST document to process
+   * @param options - Per-call options such as an `AbortSignal`
    * @returns Promise resolving to processing result with metadata
+   * @throws {GLOSTAbortError} If the signal is aborted before processing completes
    * 
    * @example
    * ```typescript
@@ -306,9 +329,21 @@ export class GLOSTProcessor {
    * console.log(result.metadata.stats.totalTime);
    * ```
    */
-  async processWithMeta(document: GLOSTRoot): Promise<ProcessingResult> {
+  async processWithMeta(
+    document: GLOSTRoot,
+    options: ProcessOptions = {}
+  ): Promise<ProcessingResult> {
     const startTime = Date.now();
-    const extensions = await this.resolveExtensions();
+    const signal = options.signal ?? this.options.signal;
+    const extensionOptions = { ...this.getExtensionOptions(), signal };
+    // One ownership map for the run, so conflicts between plugins are
+    // detected even though each plugin is applied in its own call
+    extensionOptions.fieldOwnership ??= new Map();
+    const cache = this.createCacheSession();
+    const tracer = this.createTracer();
+    const runSpan = tracer?.startSpan("process", "process");
+    await this.options.cache?.store.load?.();
+    const extensions = await this.resolveExtensions(cache);
     const timing = new Map<string, number>();
     const errors: ProcessingError[] = [];
     const warnings: ProcessingWarning[] = [];
@@ -323,55 +358,218 @@ export class GLOSTProcessor {
       elapsed: 0,
     });
 
-    // Process extensions with hooks
+    // Process extensions with hooks; independent parallel plugins share a stage
+    let processedDoc = document;
+    let completed = 0;
+    let interrupted = false;
+
+    for (const stage of planExtensionStages(extensions, this.options)) {
+      this.throwIfAborted(signal, processedDoc, appliedPlugins);
+
+      const stageDoc = processedDoc;
+      const outcomes = await Promise.all(
+        stage.map(async (extension) => {
+          const pluginStart = Date.now();
+          const span = tracer?.startSpan(extension.id, "plugin", {
+            parentId: runSpan?.id,
+            plugin: extension.id,
+          });
+          const traced = tracer?.traceExtension(extension, span?.id);
+          let result: ExtensionResult | undefined;
+          try {
+            // Run before hooks
+            await this.runBeforeHooks(stageDoc, extension.id);
+
+            // Process with this extension
+            result = await processGLOSTWithExtensionsAsync(
+              stageDoc,
+              [traced?.extension ?? extension],
+              extensionOptions
+            );
+
+            // Run after hooks
+            await this.runAfterHooks(result.document, extension.id);
+
+            traced?.end();
+            span?.end();
+            return { extension, result, time: Date.now() - pluginStart };
+          } catch (error) {
+            traced?.end();
+            span?.end(error);
+            return { extension, result, error };
+          }
+        })
+      );
+
+      for (const outcome of outcomes) {
+        const { extension, result } = outcome;
+        if (result) {
+          processedDoc = result.document;
+          this.recordExtensionResult(
+            extension.id,
+            result,
+            errors,
+            warnings,
+            appliedPlugins,
+            skippedPlugins
+          );
+        }
+
+        if ("error" in outcome) {
+          // Cancellation is reported once for the whole stage below
+          if (signal?.aborted) {
+            interrupted = true;
+            continue;
+          }
+
+          completed++;
+          const err = this.handlePluginFailure(
+            extension.id,
+            outcome.error,
+            errors,
+            skippedPlugins
+          );
+
+          // Re-throw in strict mode
+          if (!this.options.lenient) {
+            throw err;
+          }
+          continue;
+        }
+
+        // Record timing
+        timing.set(extension.id, outcome.time);
+
+        // Emit progress
+        this.emitProgress({
+          total: extensions.length,
+          completed: ++completed,
+          current: extension.id,
+          startTime,
+          elapsed: Date.now() - startTime,
+        });
+      }
+
+      if (interrupted) {
+        this.throwIfAborted(signal, processedDoc, appliedPlugins);
+      }
+    }
+
+    await this.options.cache?.store.flush?.();
+    runSpan?.end();
+    const endTime = Date.now();
+
+    return {
+      document: processedDoc,
+      metadata: {
+        appliedPlugins,
+        skippedPlugins,
+        errors,
+        warnings,
+        stats: {
+          totalTime: endTime - startTime,
+          timing,
+          nodesProcessed: 0, // Could be calculated by visiting the tree
+          startTime,
+          endTime,
+          ...(cache && { cache: { ...cache.stats } }),
+          ...(tracer && { trace: tracer.trace }),
+        },
+      },
+    };
+  }
+
+  /**
+   * Process a document synchronously (only if all plugins are sync)
+   * 
+   * @param document - GLOST document to process
+   * @returns The processed document
+   * @throws {GLOSTExtensionError} If any plugin or hook returns a Promise
+   * 
+   * @example
+   * ```typescript
+   * const result = processor.processSync(document);
+   * ```
+   */
+  processSync(document: GLOSTRoot): GLOSTRoot {
+    return this.processWithMetaSync(document).document;
+  }
+
+  /**
+   * Process a document synchronously and return detailed metadata
+   * 
+   * Synchronous counterpart of `processWithMeta()`. Every plugin hook
+   * (`transform`, `visit`, `enhanceMetadata`) and every before/after
+   * hook must return synchronously. A Promise is reported as a
+   * `GLOSTExtensionError` naming the offending plugin.
+   * 
+   * @param document - GLOST document to process
+   * @returns Processing result with metadata
+   * @throws {GLOSTExtensionError} If any plugin or hook returns a Promise
+   * 
+   * @example
+   * ```typescript
+   * const result = processor.processWithMetaSync(document);
+   * console.log(result.metadata.appliedPlugins);
+   * ```
+   */
+  processWithMetaSync(document: GLOSTRoot): ProcessingResult {
+    const startTime = Date.now();
+    const extensionOptions = this.getExtensionOptions();
+    extensionOptions.fieldOwnership ??= new Map();
+    const cache = this.createCacheSession();
+    const tracer = this.createTracer();
+    const runSpan = tracer?.startSpan("process", "process");
+    const extensions = this.resolveExtensionsSync(cache);
+    const timing = new Map<string, number>();
+    const errors: ProcessingError[] = [];
+    const warnings: ProcessingWarning[] = [];
+    const appliedPlugins: string[] = [];
+    const skippedPlugins: string[] = [];
+
+    this.emitProgress({
+      total: extensions.length,
+      completed: 0,
+      startTime,
+      elapsed: 0,
+    });
+
     let processedDoc = document;
-    
+
     for (let i = 0; i < extensions.length; i++) {
       const extension = extensions[i]!;
       const pluginStart = Date.now();
+      const span = tracer?.startSpan(extension.id, "plugin", {
+        parentId: runSpan?.id,
+        plugin: extension.id,
+      });
+      const traced = tracer?.traceExtension(extension, span?.id);
 
       try {
-        // Run before hooks
-        await this.runBeforeHooks(processedDoc, extension.id);
+        this.runBeforeHooksSync(processedDoc, extension.id);
 
-        // Process with this extension
-        const { data: _, ...extensionOptions } = this.options as any;
-        const result = await processGLOSTWithExtensionsAsync(
+        const result = processGLOSTWithExtensions(
           processedDoc,
-          [extension],
+          [traced?.extension ?? extension],
           extensionOptions
         );
 
         processedDoc = result.document;
-        
-        // Check for errors/skips
-        if (result.metadata.errors.length > 0) {
-          for (const err of result.metadata.errors) {
-            errors.push({
-              plugin: extension.id,
-              phase: "transform",
-              message: err.error.message,
-              stack: err.error.stack,
-              recoverable: true,
-              error: err.error,
-            });
-          }
-        }
-
-        if (result.metadata.skippedExtensions.includes(extension.id)) {
-          skippedPlugins.push(extension.id);
-          this.emitSkip(extension.id, "Skipped by processor");
-        } else {
-          appliedPlugins.push(extension.id);
-        }
+        this.recordExtensionResult(
+          extension.id,
+          result,
+          errors,
+          warnings,
+          appliedPlugins,
+          skippedPlugins
+        );
 
-        // Run after hooks
-        await this.runAfterHooks(processedDoc, extension.id);
+        this.runAfterHooksSync(processedDoc, extension.id);
 
-        // Record timing
+        traced?.end();
+        span?.end();
         timing.set(extension.id, Date.now() - pluginStart);
 
-        // Emit progress
         this.emitProgress({
           total: extensions.length,
           completed: i + 1,
@@ -380,26 +578,22 @@ export class GLOSTProcessor {
           elapsed: Date.now() - startTime,
         });
       } catch (error) {
-        const err = error instanceof Error ? error : new Error(String(error));
-        errors.push({
-          plugin: extension.id,
-          phase: "transform",
-          message: err.message,
-          stack: err.stack,
-          recoverable: false,
-          error: err,
-        });
-        skippedPlugins.push(extension.id);
-        this.emitError(err, extension.id);
-        this.emitSkip(extension.id, err.message);
+        traced?.end();
+        span?.end(error);
+        const err = this.handlePluginFailure(
+          extension.id,
+          error,
+          errors,
+          skippedPlugins
+        );
 
-        // Re-throw in strict mode
         if (!this.options.lenient) {
           throw err;
         }
       }
     }
 
+    runSpan?.end();
     const endTime = Date.now();
 
     return {
@@ -412,42 +606,155 @@ export class GLOSTProcessor {
         stats: {
           totalTime: endTime - startTime,
           timing,
-          nodesProcessed: 0, // Could be calculated by visiting the tree
+          nodesProcessed: 0,
           startTime,
           endTime,
+          ...(cache && { cache: { ...cache.stats } }),
+          ...(tracer && { trace: tracer.trace }),
         },
       },
     };
   }
 
   /**
-   * Process a document synchronously (only if all plugins are sync)
-   * 
-   * @param document - GLOST document to process
-   * @returns The processed document
-   * @throws {Error} If any plugin is async
+   * Options forwarded to the extension processor (without the data store)
+   */
+  private getExtensionOptions(): Omit<ProcessorOptions, "data" | "cache" | "trace"> {
+    const { data: _, cache: __, trace: ___, ...extensionOptions } = this.options;
+    return extensionOptions;
+  }
+
+  /**
+   * Throw a `GLOSTAbortError` if the run's signal has been aborted
+   */
+  private throwIfAborted(
+    signal: AbortSignal | undefined,
+    document: GLOSTRoot,
+    appliedPlugins: string[]
+  ): void {
+    if (signal?.aborted) {
+      throw new GLOSTAbortError("Processing was aborted", {
+        document,
+        completedPlugins: [...appliedPlugins],
+        reason: signal.reason,
+      });
+    }
+  }
+
+  /**
+   * Start a cache session for one run, if a cache is configured
+   */
+  private createCacheSession(): AnnotationCacheSession | undefined {
+    return this.options.cache
+      ? new AnnotationCacheSession(this.options.cache)
+      : undefined;
+  }
+
+  /**
+   * Get the tracer for one run, if tracing is enabled
+   */
+  private createTracer(): GLOSTTracer | undefined {
+    const { trace } = this.options;
+    if (!trace) {
+      return undefined;
+    }
+    return trace === true ? new GLOSTTracer() : trace;
+  }
+
+  /**
+   * Record errors, warnings and applied/skipped state from a
+   * single-extension run
+   */
+  private recordExtensionResult(
+    pluginId: string,
+    result: ExtensionResult,
+    errors: ProcessingError[],
+    warnings: ProcessingWarning[],
+    appliedPlugins: string[],
+    skippedPlugins: string[]
+  ): void {
+    for (const err of result.metadata.errors) {
+      errors.push({
+        plugin: pluginId,
+        phase: "transform",
+        message: err.error.message,
+        stack: err.error.stack,
+        recoverable: true,
+        error: err.error,
+      });
+    }
+
+    for (const warning of result.metadata.warnings) {
+      warnings.push({
+        plugin: pluginId,
+        message: warning.message,
+        severity: "medium",
+        phase: warning.phase,
+        nodeType: warning.nodeType,
+        nodeId: warning.nodeId,
+        text: warning.text,
+        attempts: warning.attempts,
+        error: warning.error,
+      });
+    }
+
+    if (result.metadata.skippedExtensions.includes(pluginId)) {
+      skippedPlugins.push(pluginId);
+      this.emitSkip(pluginId, "Skipped by processor");
+    } else {
+      appliedPlugins.push(pluginId);
+    }
+  }
+
+  /**
+   * Record a plugin that threw and notify error/skip handlers
    * 
-   * @example
-   * ```typescript
-   * const result = processor.processSync(document);
-   * ```
+   * @returns The thrown value normalized to an Error
    */
-  processSync(document: GLOSTRoot): GLOSTRoot {
-    throw new Error(
-      "Synchronous processing not yet implemented. Use process() instead."
-    );
+  private handlePluginFailure(
+    pluginId: string,
+    error: unknown,
+    errors: ProcessingError[],
+    skippedPlugins: string[]
+  ): Error {
+    const err = error instanceof Error ? error : new Error(String(error));
+    errors.push({
+      plugin: pluginId,
+      phase: "transform",
+      message: err.message,
+      stack: err.stack,
+      recoverable: false,
+      error: err,
+    });
+    skippedPlugins.push(pluginId);
+    this.emitError(err, pluginId);
+    this.emitSkip(pluginId, err.message);
+    return err;
   }
 
   /**
    * Resolve all plugins to extensions
    */
-  private async resolveExtensions(): Promise<GLOSTExtension[]> {
+  private async resolveExtensions(
+    cache?: AnnotationCacheSession
+  ): Promise<GLOSTExtension[]> {
+    return this.resolveExtensionsSync(cache);
+  }
+
+  /**
+   * Resolve all plugins to extensions without awaiting
+   * 
+   * With a cache session, word hooks are wrapped to consult the cache.
+   */
+  private resolveExtensionsSync(
+    cache?: AnnotationCacheSession
+  ): GLOSTExtension[] {
     const extensions: GLOSTExtension[] = [];
 
     for (const { spec, options } of this.plugins) {
-      const extension = await this.resolvePlugin(spec, options);
+      const extension = this.resolvePlugin(spec, options);
       if (extension) {
-        extensions.push(extension);
+        extensions.push(cache ? cache.wrap(extension, options) : extension);
       }
     }
 
@@ -457,10 +764,10 @@ export class GLOSTProcessor {
   /**
    * Resolve a single plugin to an extension
    */
-  private async resolvePlugin(
+  private resolvePlugin(
     spec: PluginSpec,
     options?: any
-  ): Promise<GLOSTExtension | null> {
+  ): GLOSTExtension | null {
     // String ID - lookup in registry
     if (typeof spec === "string") {
       const ext = extensionRegistry.get(spec);
@@ -512,6 +819,43 @@ export class GLOSTProcessor {
     }
   }
 
+  /**
+   * Run before hooks for a plugin, rejecting async hooks
+   */
+  private runBeforeHooksSync(document: GLOSTRoot, pluginId: string): void {
+    const hooks = this.hooks.before.get(pluginId) || [];
+    for (const hook of hooks) {
+      this.assertSyncHook(hook(document, pluginId), pluginId, "before");
+    }
+  }
+
+  /**
+   * Run after hooks for a plugin, rejecting async hooks
+   */
+  private runAfterHooksSync(document: GLOSTRoot, pluginId: string): void {
+    const hooks = this.hooks.after.get(pluginId) || [];
+    for (const hook of hooks) {
+      this.assertSyncHook(hook(document, pluginId), pluginId, "after");
+    }
+  }
+
+  /**
+   * Throw if a before/after hook returned a Promise in sync mode
+   */
+  private assertSyncHook(
+    result: void | Promise<void>,
+    pluginId: string,
+    kind: "before" | "after"
+  ): void {
+    if (result && typeof (result as Promise<void>).then === "function") {
+      (result as Promise<void>).catch(() => {});
+      throw new GLOSTExtensionError(
+        pluginId,
+        `${kind} hook returned a Promise during synchronous processing. Use process() for async hooks.`
+      );
+    }
+  }
+
   /**
    * Emit error to error handlers
    */
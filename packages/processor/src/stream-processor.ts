@@ -9,6 +9,9 @@
  * run once on the full document before streaming begins. Chunk-compatible
  * extensions (streamingSupport === 'chunk') then run on each batch.
  *
+ * Raw text can be streamed too: paragraphs and sentences are segmented
+ * as the text arrives, so only chunk-compatible extensions apply.
+ *
  * @packageDocumentation
  *
  * @example
@@ -28,6 +31,7 @@
  */
 
 import type { GLOSTRoot, GLOSTSentence } from "@glotblocks/glost-core";
+import { GLOSTAbortError } from "@glotblocks/glost-core";
 import type { GLOSTExtension } from "@glotblocks/glost-extensions";
 import {
   processGLOSTWithExtensionsAsync,
@@ -35,6 +39,12 @@ import {
   extensionRegistry,
 } from "@glotblocks/glost-extensions";
 import type { PluginSpec, Preset, ProcessorOptions } from "./types.js";
+import {
+  segmentTextStream,
+  createSentenceFromText,
+  type TextStreamInput,
+  type TextStreamLanguageStrategy,
+} from "./text-segmentation.js";
 
 // ============================================================================
 // Public types
@@ -53,6 +63,35 @@ export interface StreamOptions {
    * value amortises per-chunk overhead. Default: 50.
    */
   batchSize?: number;
+
+  /**
+   * Signal to cancel the stream (takes precedence over `signal` in the
+   * processor options)
+   *
+   * Work stops between plugins, nodes and chunks, and iteration rejects
+   * with a `GLOSTAbortError`. For document input it carries the document
+   * as processed so far and the IDs of the document-level plugins that
+   * completed.
+   *
+   * @since 1.1.0
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for stream() when the input is raw text
+ *
+ * @since 1.1.0
+ */
+export interface TextStreamOptions extends StreamOptions {
+  /** Language code of the text (e.g. "th", "en-US") */
+  language: string;
+
+  /**
+   * Language strategy used for script detection and segmentation.
+   * Any `ILanguageStrategy` from `@glotblocks/glost-utils` works.
+   */
+  languageStrategy: TextStreamLanguageStrategy;
 }
 
 /**
@@ -168,11 +207,75 @@ export class GLOSTStreamProcessor {
    * }
    * ```
    */
+  stream(
+    document: GLOSTRoot,
+    streamOptions?: StreamOptions,
+  ): AsyncGenerator<ProcessedChunk>;
+
+  /**
+   * Stream raw text as progressive sentence batches
+   *
+   * Paragraphs (separated by blank lines) and sentences are segmented
+   * as text arrives, so first-chunk latency and memory do not grow
+   * with document size. Each batch runs the extensions with
+   * `streamingSupport === 'chunk'`. Document-level extensions need the
+   * whole tree and cannot run here: they cause an error, or are
+   * skipped with a warning in lenient mode.
+   *
+   * A batch is yielded once the next sentence arrives (or the input
+   * ends), which is how `isLast` is known without buffering the text.
+   *
+   * @param input - Async iterable or web `ReadableStream` of text
+   * @param streamOptions - Language, language strategy and batchSize
+   * @yields `ProcessedChunk` objects in text order
+   *
+   * @example
+   * ```typescript
+   * const text = fs.createReadStream("novel.txt", "utf8");
+   * for await (const chunk of processor.stream(text, {
+   *   language: "en",
+   *   languageStrategy: englishStrategy,
+   *   batchSize: 20,
+   * })) {
+   *   render(chunk.sentences);
+   * }
+   * ```
+   *
+   * @since 1.1.0
+   */
+  stream(
+    input: TextStreamInput,
+    streamOptions: TextStreamOptions,
+  ): AsyncGenerator<ProcessedChunk>;
+
   async *stream(
+    input: GLOSTRoot | TextStreamInput,
+    streamOptions?: StreamOptions | TextStreamOptions,
+  ): AsyncGenerator<ProcessedChunk> {
+    if (isGLOSTRoot(input)) {
+      yield* this.streamDocument(input, streamOptions);
+      return;
+    }
+
+    if (!streamOptions || !("languageStrategy" in streamOptions)) {
+      throw new Error(
+        "Streaming text requires `language` and `languageStrategy` options",
+      );
+    }
+
+    yield* this.streamText(input, streamOptions);
+  }
+
+  // =====================================================================
+  // Private helpers
+  // =====================================================================
+
+  private async *streamDocument(
     document: GLOSTRoot,
     streamOptions?: StreamOptions,
   ): AsyncGenerator<ProcessedChunk> {
     const batchSize = streamOptions?.batchSize ?? 50;
+    const signal = streamOptions?.signal ?? this.options.signal;
     const extensions = await this.resolveExtensions();
 
     // Split extensions into doc-level and chunk-level
@@ -185,6 +288,7 @@ export class GLOSTStreamProcessor {
 
     // Phase 1: run doc-level transforms on the full document
     let processedDoc = document;
+    let completedPlugins: string[] = [];
     if (docExtensions.length > 0) {
       type OptionsWithData = ProcessorOptions & { data?: unknown };
       const { data: _data, ...extOptions } =
@@ -192,9 +296,10 @@ export class GLOSTStreamProcessor {
       const result = await processGLOSTWithExtensionsAsync(
         processedDoc,
         docExtensions,
-        extOptions,
+        { ...extOptions, signal },
       );
       processedDoc = result.document;
+      completedPlugins = result.metadata.appliedExtensions;
     }
 
     // Phase 2: collect all sentences grouped by paragraph index
@@ -248,13 +353,20 @@ export class GLOSTStreamProcessor {
         type OptionsWithData = ProcessorOptions & { data?: unknown };
         const { data: _data, ...extOptions } =
           this.options as OptionsWithData;
-        processedSentences = await processGLOSTChunkAsync(
-          processedSentences,
-          chunkExtensions,
-          extOptions,
-        );
+        try {
+          processedSentences = await processGLOSTChunkAsync(
+            processedSentences,
+            chunkExtensions,
+            { ...extOptions, signal },
+          );
+        } catch (error) {
+          throwIfAborted(signal, processedDoc, completedPlugins);
+          throw error;
+        }
       }
 
+      throwIfAborted(signal, processedDoc, completedPlugins);
+
       yield {
         sentences: processedSentences,
         paragraphIndex: descriptor.paragraphIndex,
@@ -264,9 +376,87 @@ export class GLOSTStreamProcessor {
     }
   }
 
-  // =====================================================================
-  // Private helpers
-  // =====================================================================
+  private async *streamText(
+    input: TextStreamInput,
+    streamOptions: TextStreamOptions,
+  ): AsyncGenerator<ProcessedChunk> {
+    const { language, languageStrategy } = streamOptions;
+    const batchSize = streamOptions.batchSize ?? 50;
+    const signal = streamOptions.signal ?? this.options.signal;
+    const extensions = await this.resolveExtensions();
+
+    const docExtensions = extensions.filter(
+      (e) => e.streamingSupport !== "chunk",
+    );
+    const chunkExtensions = extensions.filter(
+      (e) => e.streamingSupport === "chunk",
+    );
+
+    if (docExtensions.length > 0) {
+      const ids = docExtensions.map((e) => `"${e.id}"`).join(", ");
+      const message =
+        `Extensions ${ids} need the full document and cannot run on ` +
+        `streamed text. Set streamingSupport: "chunk" or stream a GLOSTRoot.`;
+      if (!this.options.lenient) {
+        throw new Error(message);
+      }
+      console.warn(`[glost-processor] ${message}`);
+    }
+
+    type OptionsWithData = ProcessorOptions & { data?: unknown };
+    const { data: _data, ...extOptions } = this.options as OptionsWithData;
+
+    const processBatch = async (
+      sentences: GLOSTSentence[],
+    ): Promise<GLOSTSentence[]> => {
+      throwIfAborted(signal, undefined, []);
+      return chunkExtensions.length > 0
+        ? processGLOSTChunkAsync(sentences, chunkExtensions, {
+            ...extOptions,
+            signal,
+          })
+        : sentences;
+    };
+
+    let batch: GLOSTSentence[] = [];
+    let batchParagraph = 0;
+    let chunkIndex = 0;
+
+    for await (const { paragraphIndex, text, start } of segmentTextStream(
+      input,
+      language,
+      languageStrategy,
+    )) {
+      // The arrival of another sentence proves the open batch is not last
+      if (
+        batch.length > 0 &&
+        (paragraphIndex !== batchParagraph || batch.length >= batchSize)
+      ) {
+        yield {
+          sentences: await processBatch(batch),
+          paragraphIndex: batchParagraph,
+          chunkIndex,
+          isLast: false,
+        };
+        chunkIndex = paragraphIndex === batchParagraph ? chunkIndex + 1 : 0;
+        batch = [];
+      }
+
+      batchParagraph = paragraphIndex;
+      batch.push(
+        createSentenceFromText(text, language, languageStrategy, start),
+      );
+    }
+
+    if (batch.length > 0) {
+      yield {
+        sentences: await processBatch(batch),
+        paragraphIndex: batchParagraph,
+        chunkIndex,
+        isLast: true,
+      };
+    }
+  }
 
   private usePreset(preset: Preset): this {
     for (const entry of preset.plugins) {
@@ -347,6 +537,34 @@ export type FrozenStreamProcessor = Omit<
 // Internal helpers
 // ============================================================================
 
+/**
+ * Throw a `GLOSTAbortError` if the stream's signal has been aborted
+ *
+ * @internal
+ */
+function throwIfAborted(
+  signal: AbortSignal | undefined,
+  document: GLOSTRoot | undefined,
+  completedPlugins: string[],
+): void {
+  if (signal?.aborted) {
+    throw new GLOSTAbortError("Streaming was aborted", {
+      document,
+      completedPlugins: [...completedPlugins],
+      reason: signal.reason,
+    });
+  }
+}
+
+/**
+ * Distinguish a parsed document from a raw text stream.
+ *
+ * @internal
+ */
+function isGLOSTRoot(input: GLOSTRoot | TextStreamInput): input is GLOSTRoot {
+  return (input as GLOSTRoot).type === "RootNode";
+}
+
 /**
  * Collect all sentences from a GLOSTRoot, grouped by paragraph index.
  *
@@ -0,0 +1,344 @@
+/**
+ * Incremental Text Segmentation
+ *
+ * Turns a stream of raw text into paragraphs, sentences and word nodes
+ * as the text arrives, so the streaming processor never needs the full
+ * document in memory.
+ *
+ * Paragraphs are separated by blank lines. Sentence and word boundaries
+ * come from the language strategy when it provides them, otherwise from
+ * `Intl.Segmenter`.
+ *
+ * @packageDocumentation
+ *
+ * @since 1.1.0
+ */
+
+import type {
+  GLOSTPoint,
+  GLOSTPosition,
+  GLOSTSentence,
+  GLOSTWord,
+} from "@glotblocks/glost-core";
+import {
+  createGLOSTSentenceNode,
+  createGLOSTWordNode,
+} from "@glotblocks/glost-core";
+
+// ============================================================================
+// Public types
+// ============================================================================
+
+/**
+ * Language strategy accepted by text-input streaming
+ *
+ * Structurally compatible with `ILanguageStrategy` from
+ * `@glotblocks/glost-utils`, so any existing strategy can be passed
+ * directly. Only script detection is required; the segmentation
+ * methods are optional and fall back to `Intl.Segmenter`.
+ *
+ * @since 1.1.0
+ */
+export interface TextStreamLanguageStrategy {
+  /** Get the script system for a given language */
+  getScriptForLanguage(language: string): string;
+
+  /**
+   * Split text into sentences
+   *
+   * Each returned sentence must appear verbatim in the input, in order.
+   */
+  segmentSentences?(text: string, language: string): string[];
+
+  /**
+   * Split a sentence into words
+   *
+   * Whitespace and punctuation should not be returned as words.
+   */
+  segmentWords?(text: string, language: string): string[];
+}
+
+/**
+ * Raw text input for streaming
+ *
+ * Either an async iterable (e.g. a Node readable stream with an
+ * encoding set, or an async generator) or a web `ReadableStream`.
+ * Binary chunks are decoded as UTF-8.
+ *
+ * @since 1.1.0
+ */
+export type TextStreamInput =
+  | AsyncIterable<string | Uint8Array>
+  | ReadableStream<string | Uint8Array>;
+
+/**
+ * A sentence found in streamed text
+ *
+ * @internal
+ */
+export interface SegmentedSentence {
+  /** Index of the paragraph the sentence belongs to */
+  paragraphIndex: number;
+  /** Raw sentence text (may include surrounding whitespace) */
+  text: string;
+  /** Location of the first character of `text` in the whole stream */
+  start: GLOSTPoint;
+}
+
+// ============================================================================
+// Segmentation
+// ============================================================================
+
+/** Blank line (optionally containing spaces/tabs) between paragraphs */
+const PARAGRAPH_BREAK = /\r?\n[ \t]*\r?\n/;
+
+/**
+ * Read raw text chunks from an async iterable or web ReadableStream
+ *
+ * @internal
+ */
+export async function* readTextChunks(
+  input: TextStreamInput,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+
+  const decode = (chunk: string | Uint8Array): string =>
+    typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+  if (isReadableStream(input)) {
+    const reader = input.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield decode(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of input) {
+      yield decode(chunk);
+    }
+  }
+
+  const tail = decoder.decode();
+  if (tail) {
+    yield tail;
+  }
+}
+
+/**
+ * Segment streamed text into sentences as it arrives
+ *
+ * A sentence is emitted as soon as a later sentence (or paragraph
+ * break) proves it complete, so memory is bounded by the longest
+ * sentence rather than the document.
+ *
+ * @param input - Raw text stream
+ * @param language - Language code passed to the segmenters
+ * @param strategy - Language strategy (segmentation methods optional)
+ * @yields Sentences in document order with their paragraph index
+ *
+ * @internal
+ */
+export async function* segmentTextStream(
+  input: TextStreamInput,
+  language: string,
+  strategy: TextStreamLanguageStrategy,
+): AsyncGenerator<SegmentedSentence> {
+  let buffer = "";
+  let bufferStart: GLOSTPoint = { line: 1, column: 1, offset: 0 };
+  let paragraphIndex = 0;
+  let paragraphHasSentences = false;
+
+  // Emit the non-blank pieces, moving bufferStart past every piece
+  function* emit(pieces: string[]): Generator<SegmentedSentence> {
+    for (const text of pieces) {
+      if (text.trim() !== "") {
+        yield { paragraphIndex, text, start: bufferStart };
+        paragraphHasSentences = true;
+      }
+      bufferStart = advancePoint(bufferStart, text);
+    }
+  }
+
+  for await (const chunk of readTextChunks(input)) {
+    buffer += chunk;
+
+    // Flush every complete paragraph in the buffer
+    let match = PARAGRAPH_BREAK.exec(buffer);
+    while (match) {
+      const paragraph = buffer.slice(0, match.index);
+      buffer = buffer.slice(match.index + match[0].length);
+
+      yield* emit(splitSentences(paragraph, language, strategy));
+      bufferStart = advancePoint(bufferStart, match[0]);
+      if (paragraphHasSentences) {
+        paragraphIndex++;
+        paragraphHasSentences = false;
+      }
+
+      match = PARAGRAPH_BREAK.exec(buffer);
+    }
+
+    // Within the open paragraph, every sentence but the last is complete
+    const sentences = splitSentences(buffer, language, strategy);
+    if (sentences.length > 1) {
+      const last = sentences.pop()!;
+      yield* emit(sentences);
+      buffer = last;
+    }
+  }
+
+  yield* emit(splitSentences(buffer, language, strategy));
+}
+
+/**
+ * Build a sentence node from raw sentence text
+ *
+ * When `start` (the location of `text` in the source) is given, the
+ * sentence, word and text nodes get source positions.
+ *
+ * @internal
+ */
+export function createSentenceFromText(
+  text: string,
+  language: string,
+  strategy: TextStreamLanguageStrategy,
+  start?: GLOSTPoint,
+): GLOSTSentence {
+  const script = strategy.getScriptForLanguage(language);
+  const originalText = text.trim();
+  const sentenceStart = start
+    ? advancePoint(start, text.slice(0, text.length - text.trimStart().length))
+    : undefined;
+
+  const locate = (from: number, to: number): GLOSTPosition | undefined =>
+    sentenceStart && {
+      start: advancePoint(sentenceStart, originalText.slice(0, from)),
+      end: advancePoint(sentenceStart, originalText.slice(0, to)),
+    };
+
+  const words = segmentWords(originalText, language, strategy);
+  const children: GLOSTWord[] = words.map(({ value, index }) =>
+    createGLOSTWordNode({
+      value,
+      lang: language,
+      script,
+      position:
+        index === undefined ? undefined : locate(index, index + value.length),
+    }),
+  );
+
+  return createGLOSTSentenceNode({
+    originalText,
+    lang: language,
+    script,
+    children,
+    position: locate(0, originalText.length),
+  });
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Split text into raw sentence strings
+ *
+ * The returned pieces concatenate back to the input (whitespace
+ * included), so callers can track offsets and keep the last piece as
+ * the unfinished remainder of the buffer. Blank text is returned as a
+ * single piece.
+ */
+function splitSentences(
+  text: string,
+  language: string,
+  strategy: TextStreamLanguageStrategy,
+): string[] {
+  if (text.trim() === "") {
+    return text ? [text] : [];
+  }
+
+  if (strategy.segmentSentences) {
+    // Locate each sentence in the input so pieces cover the raw text
+    const sentences = strategy.segmentSentences(text, language);
+    const starts: number[] = [];
+    let cursor = 0;
+    for (const sentence of sentences) {
+      const index = text.indexOf(sentence, cursor);
+      if (index === -1) continue;
+      starts.push(index);
+      cursor = index + sentence.length;
+    }
+    if (starts.length === 0) {
+      return [text];
+    }
+    return starts.map((start, i) =>
+      text.slice(i === 0 ? 0 : start, starts[i + 1] ?? text.length),
+    );
+  }
+
+  const segmenter = new Intl.Segmenter(language, { granularity: "sentence" });
+  return Array.from(segmenter.segment(text), (s) => s.segment);
+}
+
+/**
+ * Split a sentence into words with their index in the sentence
+ *
+ * `index` is undefined when a strategy returns a word that cannot be
+ * found verbatim in the text.
+ */
+function segmentWords(
+  text: string,
+  language: string,
+  strategy: TextStreamLanguageStrategy,
+): Array<{ value: string; index?: number }> {
+  if (strategy.segmentWords) {
+    let cursor = 0;
+    return strategy.segmentWords(text, language).map((value) => {
+      const index = text.indexOf(value, cursor);
+      if (index === -1) {
+        return { value };
+      }
+      cursor = index + value.length;
+      return { value, index };
+    });
+  }
+
+  const segmenter = new Intl.Segmenter(language, { granularity: "word" });
+  const words: Array<{ value: string; index: number }> = [];
+  for (const segment of segmenter.segment(text)) {
+    if (segment.isWordLike) {
+      words.push({ value: segment.segment, index: segment.index });
+    }
+  }
+  return words;
+}
+
+/**
+ * Move a point past `text`, counting line breaks
+ */
+function advancePoint(point: GLOSTPoint, text: string): GLOSTPoint {
+  let { line, column } = point;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+  return { line, column, offset: (point.offset ?? 0) + text.length };
+}
+
+/**
+ * Check whether the input is a web ReadableStream
+ */
+function isReadableStream(
+  input: TextStreamInput,
+): input is ReadableStream<string | Uint8Array> {
+  return typeof (input as ReadableStream).getReader === "function";
+}
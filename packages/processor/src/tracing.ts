@@ -0,0 +1,660 @@
+/**
+ * Processing Traces
+ *
+ * Opt-in tracing for processor runs. Records spans per run, per plugin,
+ * per hook kind and per provider call, and exports them as Chrome
+ * trace-event JSON, OpenTelemetry spans or a summary table.
+ *
+ * @packageDocumentation
+ *
+ * @since 1.1.0
+ */
+
+import type { GLOSTExtension } from "@glotblocks/glost-extensions";
+
+// ============================================================================
+// Public types
+// ============================================================================
+
+/**
+ * What a span measures
+ *
+ * @since 1.1.0
+ */
+export type TraceSpanKind = "process" | "plugin" | "hook" | "provider";
+
+/**
+ * Extension hooks that are traced
+ *
+ * @since 1.1.0
+ */
+export type TraceHookKind =
+  | "transform"
+  | "visit.word"
+  | "visit.sentence"
+  | "visit.paragraph"
+  | "enhanceMetadata";
+
+/**
+ * A recorded span
+ *
+ * Hook spans aggregate every call of one hook during one plugin run: they
+ * run from the first call to the last settled call, `calls` counts the
+ * calls and `selfTime` sums their individual durations.
+ *
+ * @since 1.1.0
+ */
+export interface TraceSpan {
+  /** Span ID, unique within the trace */
+  id: number;
+
+  /** ID of the enclosing span */
+  parentId?: number;
+
+  /** Span name, e.g. `"frequency"` or `"frequency visit.word"` */
+  name: string;
+
+  /** What the span measures */
+  kind: TraceSpanKind;
+
+  /** Plugin the span belongs to */
+  plugin?: string;
+
+  /** Hook kind (hook spans only) */
+  hook?: TraceHookKind;
+
+  /** Provider name (provider spans only) */
+  provider?: string;
+
+  /** Start time in ms since the trace started */
+  start: number;
+
+  /** Wall-clock duration in ms */
+  duration: number;
+
+  /** Number of calls (hook spans) */
+  calls?: number;
+
+  /** Number of nodes visited (node hooks) */
+  nodes?: number;
+
+  /** Sum of call durations in ms (hook spans) */
+  selfTime?: number;
+
+  /** Error message if the span failed */
+  error?: string;
+}
+
+/**
+ * Serializable trace of one or more processor runs
+ *
+ * @since 1.1.0
+ */
+export interface ProcessingTrace {
+  /** Trace ID (32 hex characters) */
+  traceId: string;
+
+  /** Trace start as a Unix timestamp in ms */
+  startTime: number;
+
+  /** Recorded spans, in the order they ended */
+  spans: TraceSpan[];
+}
+
+/**
+ * Chrome trace-event JSON (`chrome://tracing`, Perfetto, speedscope)
+ *
+ * @since 1.1.0
+ */
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: "ms";
+}
+
+/**
+ * A Chrome trace event (complete `X` events and `M` thread names)
+ *
+ * @since 1.1.0
+ */
+export interface ChromeTraceEvent {
+  name: string;
+  cat?: string;
+  ph: "X" | "M";
+  /** Timestamp in microseconds */
+  ts?: number;
+  /** Duration in microseconds */
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * OpenTelemetry attribute in OTLP/JSON form
+ *
+ * @since 1.1.0
+ */
+export interface OpenTelemetryAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number };
+}
+
+/**
+ * OpenTelemetry span in OTLP/JSON form
+ *
+ * @since 1.1.0
+ */
+export interface OpenTelemetrySpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** Always `1` (`SPAN_KIND_INTERNAL`) */
+  kind: 1;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OpenTelemetryAttribute[];
+  /** `code` 2 is `STATUS_CODE_ERROR` */
+  status?: { code: 2; message: string };
+}
+
+/**
+ * One row of a trace summary, aggregated by span name
+ *
+ * @since 1.1.0
+ */
+export interface TraceSummaryRow {
+  name: string;
+  kind: TraceSpanKind;
+  /** Number of spans with this name */
+  spans: number;
+  /** Number of calls (hook call counts, or one per span) */
+  calls: number;
+  /** Nodes visited */
+  nodes: number;
+  /** Total wall-clock time in ms */
+  total: number;
+  /** Longest single span in ms */
+  max: number;
+  /** Number of failed spans */
+  errors: number;
+}
+
+/**
+ * A span that has started but not ended
+ *
+ * @since 1.1.0
+ */
+export interface ActiveSpan {
+  readonly id: number;
+
+  /** End the span, optionally recording an error */
+  end(error?: unknown): void;
+}
+
+// ============================================================================
+// Tracer
+// ============================================================================
+
+/**
+ * Records spans for processor runs and provider calls
+ *
+ * Pass `trace: true` in the processor options to trace each run on its
+ * own, or pass a tracer to collect several runs and the provider calls
+ * wrapped with {@link GLOSTTracer.traceProvider} into one trace.
+ *
+ * @example
+ * ```typescript
+ * const tracer = new GLOSTTracer();
+ * const provider = tracer.traceProvider(new ThaiFrequencyProvider(), "thai-frequency");
+ *
+ * const processor = glost({ trace: tracer })
+ *   .use(createFrequencyGeneratorExtension({ targetLanguage: "th", provider }));
+ *
+ * const result = await processor.processWithMeta(document);
+ * console.log(formatTraceSummary(result.metadata.stats.trace!));
+ * writeFileSync("trace.json", JSON.stringify(toChromeTrace(tracer.trace)));
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class GLOSTTracer {
+  readonly traceId: string;
+  readonly startTime: number;
+  private readonly origin: number;
+  private readonly spans: TraceSpan[] = [];
+  private nextId = 1;
+
+  constructor() {
+    this.traceId = randomHex(32);
+    this.startTime = Date.now();
+    this.origin = performance.now();
+  }
+
+  /**
+   * Snapshot of the spans recorded so far
+   */
+  get trace(): ProcessingTrace {
+    return {
+      traceId: this.traceId,
+      startTime: this.startTime,
+      spans: [...this.spans],
+    };
+  }
+
+  /**
+   * Start a span
+   *
+   * @param name - Span name
+   * @param kind - What the span measures
+   * @param fields - Extra span fields such as `parentId` or `plugin`
+   * @returns The active span; call `end()` when done
+   */
+  startSpan(
+    name: string,
+    kind: TraceSpanKind,
+    fields: Partial<Omit<TraceSpan, "id" | "name" | "kind" | "start" | "duration">> = {}
+  ): ActiveSpan {
+    const id = this.nextId++;
+    const start = this.now();
+
+    return {
+      id,
+      end: (error?: unknown) => {
+        this.spans.push({
+          ...fields,
+          id,
+          name,
+          kind,
+          start,
+          duration: this.now() - start,
+          ...(error !== undefined && { error: errorMessage(error) }),
+        });
+      },
+    };
+  }
+
+  /**
+   * Wrap an extension's hooks so that their calls are recorded
+   *
+   * Sync hooks stay sync. Call `end()` on the returned handle after the
+   * plugin run to record one span per hook kind that was called.
+   *
+   * @param extension - Extension to wrap
+   * @param parentId - ID of the plugin span
+   * @returns The wrapped extension and a function that records the hook spans
+   */
+  traceExtension(
+    extension: GLOSTExtension,
+    parentId?: number
+  ): { extension: GLOSTExtension; end(): void } {
+    const hooks = new Map<TraceHookKind, HookStats>();
+
+    const wrap = <TArgs extends unknown[], TResult>(
+      hook: TraceHookKind,
+      fn: (...args: TArgs) => TResult
+    ) => (...args: TArgs): TResult => {
+      let stats = hooks.get(hook);
+      const start = this.now();
+      if (!stats) {
+        stats = { start, end: start, calls: 0, selfTime: 0 };
+        hooks.set(hook, stats);
+      }
+      stats.calls++;
+
+      const record = (error?: unknown) => {
+        const end = this.now();
+        stats!.end = Math.max(stats!.end, end);
+        stats!.selfTime += end - start;
+        if (error !== undefined) {
+          stats!.error ??= errorMessage(error);
+        }
+      };
+
+      return measure(() => fn(...args), record);
+    };
+
+    const wrapped: GLOSTExtension = { ...extension };
+    if (extension.transform) {
+      wrapped.transform = wrap("transform", extension.transform);
+    }
+    if (extension.visit) {
+      const { word, sentence, paragraph } = extension.visit;
+      wrapped.visit = {
+        ...extension.visit,
+        ...(word && { word: wrap("visit.word", word) }),
+        ...(sentence && { sentence: wrap("visit.sentence", sentence) }),
+        ...(paragraph && { paragraph: wrap("visit.paragraph", paragraph) }),
+      };
+    }
+    if (extension.enhanceMetadata) {
+      wrapped.enhanceMetadata = wrap("enhanceMetadata", extension.enhanceMetadata);
+    }
+
+    return {
+      extension: wrapped,
+      end: () => {
+        for (const [hook, stats] of hooks) {
+          this.spans.push({
+            id: this.nextId++,
+            parentId,
+            name: `${extension.id} ${hook}`,
+            kind: "hook",
+            plugin: extension.id,
+            hook,
+            start: stats.start,
+            duration: stats.end - stats.start,
+            calls: stats.calls,
+            ...(hook !== "transform" && { nodes: stats.calls }),
+            selfTime: stats.selfTime,
+            ...(stats.error !== undefined && { error: stats.error }),
+          });
+        }
+      },
+    };
+  }
+
+  /**
+   * Wrap a provider so every method call is recorded as a span
+   *
+   * Calls the provider makes on itself (such as `ensureLoaded()` and
+   * `loadData()` on a `BaseDataProvider`) are recorded too.
+   *
+   * @param provider - Provider to wrap
+   * @param name - Provider name used in span names (default: class name)
+   * @returns A proxy with the same interface
+   */
+  traceProvider<T extends object>(provider: T, name?: string): T {
+    const providerName = name ?? provider.constructor?.name ?? "provider";
+    const wrappers = new Map<PropertyKey, unknown>();
+
+    return new Proxy(provider, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== "function" || property === "constructor") {
+          return value;
+        }
+
+        let wrapper = wrappers.get(property);
+        if (!wrapper) {
+          const spanName = `${providerName}.${String(property)}`;
+          const tracer = this;
+          wrapper = function (this: unknown, ...args: unknown[]) {
+            const span = tracer.startSpan(spanName, "provider", {
+              provider: providerName,
+            });
+            return measure(() => value.apply(this, args), (error) => span.end(error));
+          };
+          wrappers.set(property, wrapper);
+        }
+        return wrapper;
+      },
+    });
+  }
+
+  /**
+   * Milliseconds since the trace started
+   */
+  private now(): number {
+    return performance.now() - this.origin;
+  }
+}
+
+// ============================================================================
+// Exporters
+// ============================================================================
+
+/**
+ * Convert a trace to Chrome trace-event JSON
+ *
+ * Each plugin and provider gets its own thread lane so that concurrent
+ * plugins don't overlap in flame views.
+ *
+ * @param trace - Trace to convert
+ * @returns Chrome trace object, ready for `JSON.stringify`
+ *
+ * @since 1.1.0
+ */
+export function toChromeTrace(trace: ProcessingTrace): ChromeTrace {
+  const lanes = new Map<string, number>([["processor", 0]]);
+  const laneFor = (span: TraceSpan): number => {
+    const lane = span.plugin ?? span.provider ?? "processor";
+    if (!lanes.has(lane)) {
+      lanes.set(lane, lanes.size);
+    }
+    return lanes.get(lane)!;
+  };
+
+  const events: ChromeTraceEvent[] = [...trace.spans]
+    .sort((a, b) => a.start - b.start)
+    .map((span) => ({
+      name: span.name,
+      cat: span.kind,
+      ph: "X" as const,
+      ts: Math.round(span.start * 1000),
+      dur: Math.round(span.duration * 1000),
+      pid: 1,
+      tid: laneFor(span),
+      args: spanAttributes(span),
+    }));
+
+  const threadNames: ChromeTraceEvent[] = [...lanes].map(([name, tid]) => ({
+    name: "thread_name",
+    ph: "M",
+    pid: 1,
+    tid,
+    args: { name },
+  }));
+
+  return { traceEvents: [...threadNames, ...events], displayTimeUnit: "ms" };
+}
+
+/**
+ * Convert a trace to OpenTelemetry spans (OTLP/JSON)
+ *
+ * The result can be placed in `resourceSpans[].scopeSpans[].spans` of an
+ * OTLP export request.
+ *
+ * @param trace - Trace to convert
+ * @returns OpenTelemetry spans
+ *
+ * @since 1.1.0
+ */
+export function toOpenTelemetrySpans(trace: ProcessingTrace): OpenTelemetrySpan[] {
+  const startMicros = Math.round(trace.startTime * 1000);
+  const unixNano = (ms: number) =>
+    (BigInt(startMicros + Math.round(ms * 1000)) * 1000n).toString();
+
+  return trace.spans.map((span) => ({
+    traceId: trace.traceId,
+    spanId: spanIdHex(span.id),
+    ...(span.parentId !== undefined && { parentSpanId: spanIdHex(span.parentId) }),
+    name: span.name,
+    kind: 1,
+    startTimeUnixNano: unixNano(span.start),
+    endTimeUnixNano: unixNano(span.start + span.duration),
+    attributes: Object.entries(spanAttributes(span)).map(([key, value]) => ({
+      key: `glost.${key}`,
+      value:
+        typeof value === "string"
+          ? { stringValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+    })),
+    ...(span.error !== undefined && {
+      status: { code: 2 as const, message: span.error },
+    }),
+  }));
+}
+
+/**
+ * Aggregate a trace by span name
+ *
+ * The root `process` spans are left out. Rows are sorted by total time,
+ * slowest first.
+ *
+ * @param trace - Trace to summarize
+ * @returns Summary rows
+ *
+ * @since 1.1.0
+ */
+export function summarizeTrace(trace: ProcessingTrace): TraceSummaryRow[] {
+  const rows = new Map<string, TraceSummaryRow>();
+
+  for (const span of trace.spans) {
+    if (span.kind === "process") {
+      continue;
+    }
+
+    let row = rows.get(span.name);
+    if (!row) {
+      row = {
+        name: span.name,
+        kind: span.kind,
+        spans: 0,
+        calls: 0,
+        nodes: 0,
+        total: 0,
+        max: 0,
+        errors: 0,
+      };
+      rows.set(span.name, row);
+    }
+
+    row.spans++;
+    row.calls += span.calls ?? 1;
+    row.nodes += span.nodes ?? 0;
+    row.total += span.duration;
+    row.max = Math.max(row.max, span.duration);
+    if (span.error !== undefined) {
+      row.errors++;
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Format a trace summary as a plain-text table
+ *
+ * @param trace - Trace or summary rows to format
+ * @returns Table with one row per span name
+ *
+ * @example
+ * ```typescript
+ * console.log(formatTraceSummary(result.metadata.stats.trace!));
+ * // Span                        Kind      Calls  Nodes  Total ms  Avg ms  Max ms  Errors
+ * // frequency                   plugin        1      0     41.20   41.20   41.20       0
+ * // frequency visit.word        hook        812    812     40.87   40.87   40.87       0
+ * ```
+ *
+ * @since 1.1.0
+ */
+export function formatTraceSummary(
+  trace: ProcessingTrace | TraceSummaryRow[]
+): string {
+  const rows = Array.isArray(trace) ? trace : summarizeTrace(trace);
+  const ms = (value: number) => value.toFixed(2);
+
+  const table = [
+    ["Span", "Kind", "Calls", "Nodes", "Total ms", "Avg ms", "Max ms", "Errors"],
+    ...rows.map((row) => [
+      row.name,
+      row.kind,
+      String(row.calls),
+      String(row.nodes),
+      ms(row.total),
+      ms(row.total / row.spans),
+      ms(row.max),
+      String(row.errors),
+    ]),
+  ];
+
+  const widths = table[0]!.map((_, column) =>
+    Math.max(...table.map((cells) => cells[column]!.length))
+  );
+
+  return table
+    .map((cells) =>
+      cells
+        .map((cell, column) =>
+          column < 2 ? cell.padEnd(widths[column]!) : cell.padStart(widths[column]!)
+        )
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+interface HookStats {
+  start: number;
+  end: number;
+  calls: number;
+  selfTime: number;
+  error?: string;
+}
+
+/**
+ * Call `fn` and report when it settles, keeping sync results sync
+ */
+function measure<T>(fn: () => T, done: (error?: unknown) => void): T {
+  let result: T;
+  try {
+    result = fn();
+  } catch (error) {
+    done(error);
+    throw error;
+  }
+
+  if (result instanceof Promise) {
+    return result.then(
+      (value) => {
+        done();
+        return value;
+      },
+      (error) => {
+        done(error);
+        throw error;
+      }
+    ) as T;
+  }
+
+  done();
+  return result;
+}
+
+/**
+ * Span fields exported as attributes/args
+ */
+function spanAttributes(span: TraceSpan): Record<string, string | number> {
+  const attributes: Record<string, string | number> = { kind: span.kind };
+  if (span.plugin !== undefined) attributes.plugin = span.plugin;
+  if (span.hook !== undefined) attributes.hook = span.hook;
+  if (span.provider !== undefined) attributes.provider = span.provider;
+  if (span.calls !== undefined) attributes.calls = span.calls;
+  if (span.nodes !== undefined) attributes.nodes = span.nodes;
+  if (span.selfTime !== undefined) attributes.selfTime = span.selfTime;
+  if (span.error !== undefined) attributes.error = span.error;
+  return attributes;
+}
+
+function spanIdHex(id: number): string {
+  return id.toString(16).padStart(16, "0");
+}
+
+function randomHex(length: number): string {
+  let hex = "";
+  while (hex.length < length) {
+    hex += Math.floor(Math.random() * 16).toString(16);
+  }
+  return hex;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
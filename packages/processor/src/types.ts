@@ -8,6 +8,8 @@
 
 import type { GLOSTRoot } from "@glotblocks/glost-core";
 import type { GLOSTExtension, ProcessorOptions as ExtensionProcessorOptions } from "@glotblocks/glost-extensions";
+import type { AnnotationCacheOptions, CacheStats } from "./annotation-cache.js";
+import type { GLOSTTracer, ProcessingTrace } from "./tracing.js";
 
 /**
  * Plugin function signature
@@ -117,6 +119,45 @@ export interface ProcessorHooks {
 export interface ProcessorOptions extends ExtensionProcessorOptions {
   /** Data storage for sharing state between plugins */
   data?: Map<string, any>;
+
+  /**
+   * Per-word annotation cache (opt-in)
+   *
+   * Reuses `visit.word` and `enhanceMetadata` results for words whose
+   * text, language, extension and extension options were seen before.
+   *
+   * @since 1.1.0
+   */
+  cache?: AnnotationCacheOptions;
+
+  /**
+   * Record a trace of each run (opt-in)
+   *
+   * `true` traces every run separately. Pass a `GLOSTTracer` to collect
+   * several runs, and provider calls wrapped with `traceProvider()`, in
+   * one trace. The trace is returned as `stats.trace`.
+   *
+   * @since 1.1.0
+   */
+  trace?: boolean | GLOSTTracer;
+}
+
+/**
+ * Options for a single `process()` / `processWithMeta()` call
+ *
+ * @since 1.1.0
+ */
+export interface ProcessOptions {
+  /**
+   * Signal to cancel this run (takes precedence over `signal` in the
+   * processor options)
+   *
+   * Work stops between plugins and between nodes, and the run rejects
+   * with a `GLOSTAbortError` carrying the partially processed document
+   * and the IDs of completed plugins. Plugins receive the signal as
+   * `context.signal`.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -180,6 +221,48 @@ export interface ProcessingWarning {
   
   /** Warning severity */
   severity: "low" | "medium" | "high";
+
+  /**
+   * Hook that failed, for warnings about a single node
+   *
+   * @since 1.1.0
+   */
+  phase?: "visit" | "enhance";
+
+  /**
+   * Type of the node the warning is about
+   *
+   * @since 1.1.0
+   */
+  nodeType?: string;
+
+  /**
+   * ID of the word (or other node) the warning is about (`extras.id`)
+   *
+   * @since 1.1.0
+   */
+  nodeId?: string;
+
+  /**
+   * Text of the word the warning is about
+   *
+   * @since 1.1.0
+   */
+  text?: string;
+
+  /**
+   * Number of attempts made, including retries
+   *
+   * @since 1.1.0
+   */
+  attempts?: number;
+
+  /**
+   * The underlying error
+   *
+   * @since 1.1.0
+   */
+  error?: Error;
 }
 
 /**
@@ -200,4 +283,10 @@ export interface ProcessingStats {
   
   /** Processing end timestamp */
   endTime: number;
+
+  /** Annotation cache hits/misses (only when `cache` is configured) */
+  cache?: CacheStats;
+
+  /** Spans recorded so far (only when `trace` is configured) */
+  trace?: ProcessingTrace;
 }
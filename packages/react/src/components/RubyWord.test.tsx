@@ -0,0 +1,101 @@
+import type React from "react";
+import { describe, it, expect } from "vitest";
+import { renderToStaticMarkup } from "react-dom/server";
+import type { TranscriptionSegment } from "@glotblocks/glost";
+import { createGLOSTWordNode, createSentenceFromWords } from "@glotblocks/glost";
+import { RubyWord } from "./RubyWord.js";
+import { GloSTSentence } from "./GloSTSentence.js";
+
+const segments: TranscriptionSegment[] = [
+  { base: "食", ruby: "た" },
+  { base: "べ" },
+  { base: "物", ruby: "もの" },
+];
+
+function tabemono(withSegments = true) {
+  return createGLOSTWordNode({
+    value: "食べ物",
+    lang: "ja",
+    script: "mixed",
+    transcription: {
+      furigana: {
+        text: "たべもの",
+        ...(withSegments && { segments }),
+      },
+    },
+  });
+}
+
+/** Markup without the empty class attributes unstyled words get */
+function render(element: React.ReactElement): string {
+  return renderToStaticMarkup(element).replaceAll(' class=""', "");
+}
+
+/** Contents of the first <ruby> element */
+function rubyContents(html: string): string {
+  return /<ruby[^>]*>(.*?)<\/ruby>/.exec(html)?.[1] ?? "";
+}
+
+describe("RubyWord", () => {
+  it("renders one ruby per segment", () => {
+    const html = render(
+      <RubyWord word={tabemono()} displayLevel={2} transcriptionSystem="furigana" />,
+    );
+
+    expect(rubyContents(html)).toBe(
+      "<span>食</span><rt>た</rt><span>べ</span><rt></rt><span>物</span><rt>もの</rt>",
+    );
+  });
+
+  it("passes each segment to the render props", () => {
+    const html = render(
+      <RubyWord
+        word={tabemono()}
+        displayLevel={2}
+        transcriptionSystem="furigana"
+        renderText={(text) => <b>{text}</b>}
+        renderRuby={(rt, position) => <rt data-position={position}>{rt}</rt>}
+      />,
+    );
+
+    expect(rubyContents(html)).toBe(
+      '<b>食</b><rt data-position="over">た</rt><b>べ</b><rt></rt><b>物</b><rt data-position="over">もの</rt>',
+    );
+  });
+
+  it("renders the whole-word reading without segments", () => {
+    const html = render(
+      <RubyWord word={tabemono(false)} displayLevel={2} transcriptionSystem="furigana" />,
+    );
+
+    expect(rubyContents(html)).toBe("<span>食べ物</span><rt>たべもの</rt>");
+  });
+
+  it("ignores segments when the transcription is hidden", () => {
+    const hidden = render(
+      <RubyWord
+        word={tabemono()}
+        displayLevel={2}
+        transcriptionSystem="furigana"
+        languageStrategy={{ shouldShowTranscription: () => false }}
+      />,
+    );
+    const plain = render(
+      <RubyWord word={tabemono()} displayLevel={1} transcriptionSystem="furigana" />,
+    );
+
+    expect(rubyContents(hidden)).toBe("<span>食べ物</span>");
+    expect(plain).toBe("<span><span>食べ物</span></span>");
+  });
+});
+
+describe("GloSTSentence", () => {
+  it("renders segmented words through RubyWord", () => {
+    const sentence = createSentenceFromWords([tabemono()], "ja", "mixed");
+    const html = render(
+      <GloSTSentence sentence={sentence} displayLevel={2} transcriptionSystem="furigana" />,
+    );
+
+    expect(html).toContain("<span>食</span><rt>た</rt><span>べ</span><rt></rt><span>物</span><rt>もの</rt>");
+  });
+});
@@ -43,6 +43,10 @@ export interface RubyWordProps {
  * words with ruby annotations, progressive display levels, and extensions.
  * Use the render props to customize styling.
  *
+ * When the transcription has `segments` (such as furigana aligned by
+ * `glost-ja`), each segment gets its own ruby, so 食べ物 shows た over 食
+ * and もの over 物 rather than one reading across the word.
+ *
  * @example
  * ```tsx
  * <RubyWord
@@ -191,6 +195,18 @@ export function RubyWord({
       ? (renderRuby ?? defaultRenderRuby)(data.transcription, rubyPosition)
       : null;
 
+  // Segmented transcriptions (e.g. furigana per kanji) pair each part of the
+  // text with its own ruby; parts without one get an empty <rt>
+  const segmentElements =
+    shouldShowTranscription && data.transcriptionSegments
+      ? data.transcriptionSegments.map((segment, i) => (
+          <React.Fragment key={i}>
+            {(renderText ?? defaultRenderText)(segment.base, extensionClasses)}
+            {segment.ruby ? (renderRuby ?? defaultRenderRuby)(segment.ruby, rubyPosition) : <rt />}
+          </React.Fragment>
+        ))
+      : null;
+
   return (
     <span className={combinedClassName} title={data.tooltipText}>
       {extensionBefore}
@@ -200,8 +216,12 @@ export function RubyWord({
           rubyPosition: rubyPosition,
         }}
       >
-        {textElement}
-        {rubyElement}
+        {segmentElements ?? (
+          <>
+            {textElement}
+            {rubyElement}
+          </>
+        )}
       </ruby>
       {extensionAfter}
 
@@ -1,8 +1,9 @@
 import { useMemo } from "react";
-import type { GLOSTWord } from "@glotblocks/glost";
+import type { GLOSTWord, TranscriptionSegment } from "@glotblocks/glost";
 import {
   getWordText,
   getWordTranscription,
+  getWordTranscriptionSegments,
   getWordTranslation,
   getWordPartOfSpeech,
   getWordDifficulty,
@@ -16,6 +17,8 @@ export interface WordData {
   text: string;
   /** Transcription for the specified system (or undefined) */
   transcription: string | undefined;
+  /** Transcription split over the text, e.g. furigana per kanji (or undefined) */
+  transcriptionSegments: TranscriptionSegment[] | undefined;
   /** Translation/definition */
   translation: string;
   /** Part of speech */
@@ -53,6 +56,9 @@ export function useWordData(
     const transcription = transcriptionSystem
       ? (getWordTranscription(word, transcriptionSystem) ?? undefined)
       : undefined;
+    const transcriptionSegments = transcriptionSystem
+      ? (getWordTranscriptionSegments(word, transcriptionSystem) ?? undefined)
+      : undefined;
     const translation = getWordTranslation(word, translationLanguage);
     const partOfSpeech = getWordPartOfSpeech(word);
     const difficulty = getWordDifficulty(word);
@@ -66,6 +72,7 @@ export function useWordData(
     return {
       text,
       transcription,
+      transcriptionSegments,
       translation,
       partOfSpeech,
       difficulty,
@@ -40,6 +40,19 @@ export interface ILanguageStrategy {
     className?: string;
     shouldShow?: boolean;
   }>;
+
+  /**
+   * Split text into sentences (optional)
+   * Each returned sentence must appear verbatim in the input, in order.
+   * Consumers fall back to `Intl.Segmenter` when omitted.
+   */
+  segmentSentences?(text: string, language: string): string[];
+
+  /**
+   * Split a sentence into words, without whitespace or punctuation (optional)
+   * Consumers fall back to `Intl.Segmenter` when omitted.
+   */
+  segmentWords?(text: string, language: string): string[];
 }
 
 /**
@@ -13,6 +13,7 @@ import type {
   GLOSTRoot,
   GLOSTParagraph,
   GLOSTSentence,
+  GLOSTPosition,
   LanguageCode,
   ScriptSystem,
   TransliterationData,
@@ -23,6 +24,7 @@ import {
   createGLOSTParagraphNode,
   createGLOSTRootNode,
 } from "@glotblocks/glost/nodes";
+import { createPositionMapper } from "@glotblocks/glost";
 import type { ILanguageStrategy, ITranscriptionProvider } from "./interfaces.js";
 import type { GlostLanguage } from "@glotblocks/glost-common";
 
@@ -132,6 +134,25 @@ function getTranscriptionFromProvider(
   return transcriptionProvider.getTranscription(text, scheme);
 }
 
+/**
+ * Find strategy-provided words in the text, skipping any that cannot be
+ * found verbatim after the previous one
+ */
+function locateWords(
+  text: string,
+  pieces: string[],
+): { text: string; start: number }[] {
+  const located: { text: string; start: number }[] = [];
+  let cursor = 0;
+  for (const piece of pieces) {
+    const start = text.indexOf(piece, cursor);
+    if (start === -1 || piece === "") continue;
+    located.push({ text: piece, start });
+    cursor = start + piece.length;
+  }
+  return located;
+}
+
 /**
  * Create an GLOST word from a text segment
  */
@@ -145,6 +166,7 @@ function createWordFromSegment(
   gender: "male" | "female" | undefined,
   genderFilter: "male" | "female" | undefined,
   fetchTranscription: boolean,
+  position: GLOSTPosition,
 ): GLOSTWord {
   // Detect gender if not provided
   if (!gender) {
@@ -192,6 +214,7 @@ function createWordFromSegment(
     metadata: { partOfSpeech: "" }, // Placeholder metadata
     lang: language as LanguageCode,
     script: scriptSystem,
+    position,
   });
 
   // Add gender to extras if present
@@ -214,6 +237,10 @@ function createWordFromSegment(
  * - Uses standardized GLOST node creation utilities
  * - Handles both plain strings and RubySegment arrays
  * - Supports gender filtering
+ * - Splits plain text into words with the strategy's `segmentWords`, when
+ *   provided (whitespace and punctuation are dropped)
+ * - Records source positions on paragraph, sentence, word and text nodes,
+ *   with offsets into the concatenated input text
  */
 export function convertTextToGLOST(
   script: string | (string | RubySegment)[],
@@ -234,6 +261,17 @@ export function convertTextToGLOST(
   const words: GLOSTWord[] = [];
   const segments = Array.isArray(script) ? script : [script];
 
+  const originalText = segments
+    .map((s) => (isRubySegment(s) ? s.base : s))
+    .join("");
+  const positions = createPositionMapper(originalText);
+  let offset = 0;
+  const nextPosition = (text: string): GLOSTPosition => {
+    const position = positions.positionAt(offset, offset + text.length);
+    offset += text.length;
+    return position;
+  };
+
   segments.forEach((segment) => {
     if (isRubySegment(segment)) {
       // For RubySegment, check if base text contains gender terms
@@ -251,42 +289,59 @@ export function convertTextToGLOST(
           gender,
           genderFilter,
           fetchTranscription,
+          nextPosition(segment.base),
         ),
       );
     } else {
       // Split string segment by gender terms
       const parts = segmentTextByGenderTerms(segment, languageStrategy);
       parts.forEach((part) => {
-        words.push(
-          createWordFromSegment(
-            part.text,
-            undefined,
-            language,
-            languageStrategy,
-            transcriptionProvider,
-            transcriptionScheme,
-            part.gender,
-            genderFilter,
-            fetchTranscription,
-          ),
-        );
+        // Gender terms are already single words
+        const pieces =
+          languageStrategy.segmentWords && !part.gender
+            ? locateWords(part.text, languageStrategy.segmentWords(part.text, language))
+            : [{ text: part.text, start: 0 }];
+        const base = offset;
+        offset += part.text.length;
+        pieces.forEach((piece) => {
+          words.push(
+            createWordFromSegment(
+              piece.text,
+              undefined,
+              language,
+              languageStrategy,
+              transcriptionProvider,
+              transcriptionScheme,
+              part.gender,
+              genderFilter,
+              fetchTranscription,
+              positions.positionAt(
+                base + piece.start,
+                base + piece.start + piece.text.length,
+              ),
+            ),
+          );
+        });
       });
     }
   });
 
   // Construct the GLOST tree using standardized utilities
-  const originalText = Array.isArray(script)
-    ? script.map((s) => (isRubySegment(s) ? s.base : s)).join("")
-    : script;
+  const textPosition = positions.positionAt(0, originalText.length);
 
   const sentence: GLOSTSentence = createGLOSTSentenceNode({
     originalText,
     lang: langCode as LanguageCode,
     script: scriptSystem,
     children: words,
+    position: textPosition,
   });
 
-  const paragraph: GLOSTParagraph = createGLOSTParagraphNode([sentence]);
+  const paragraph: GLOSTParagraph = createGLOSTParagraphNode(
+    [sentence],
+    undefined,
+    positions.positionAt(0, originalText.length),
+  );
 
   const root: GLOSTRoot = createGLOSTRootNode({
     lang: langCode as LanguageCode,